@@ -199,42 +199,43 @@ const ThreatIntelPanelComponent = ({ data, isLoading }: ThreatIntelPanelProps) =
           </motion.div>
         )}
 
-        {/* Spamhaus */}
-        {providers.spamhaus && (
-          <motion.div
-            className="rounded-xl border border-white/5 bg-black/20 p-4"
-            initial={{ opacity: 0, x: -20 }}
-            animate={{ opacity: 1, x: 0 }}
-            transition={{ delay: 0.2 }}
-          >
-            <div className="flex items-start justify-between mb-2">
-              <div className="flex items-center gap-2">
-                <span className="text-sm font-semibold text-white">Spamhaus</span>
-                {providers.spamhaus.is_listed && (
-                  <span className="px-2 py-0.5 rounded-full bg-rose-500/20 text-rose-200 text-xs">Listed</span>
+        {/* DNS blacklists and other feeds */}
+        {Object.entries(providers)
+          .filter(([name]) => name !== 'abuseipdb')
+          .map(([name, provider], index) =>
+            provider ? (
+              <motion.div
+                key={name}
+                className="rounded-xl border border-white/5 bg-black/20 p-4"
+                initial={{ opacity: 0, x: -20 }}
+                animate={{ opacity: 1, x: 0 }}
+                transition={{ delay: 0.2 + index * 0.05 }}
+              >
+                <div className="flex items-start justify-between mb-2">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-semibold text-white">{provider.source}</span>
+                    {provider.is_listed && (
+                      <span className="px-2 py-0.5 rounded-full bg-rose-500/20 text-rose-200 text-xs">Listed</span>
+                    )}
+                  </div>
+                  {provider.list_type && <span className="text-xs text-slate-400">{provider.list_type}</span>}
+                </div>
+                {provider.threat_types.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mt-2">
+                    {provider.threat_types.map(type => (
+                      <span key={type} className="px-2 py-0.5 rounded bg-slate-700/50 text-slate-300 text-xs">
+                        {type}
+                      </span>
+                    ))}
+                  </div>
                 )}
-              </div>
-              {providers.spamhaus.list_type && (
-                <span className="text-xs text-slate-400">{providers.spamhaus.list_type}</span>
-              )}
-            </div>
-            {providers.spamhaus.threat_types.length > 0 && (
-              <div className="flex flex-wrap gap-1 mt-2">
-                {providers.spamhaus.threat_types.map(type => (
-                  <span key={type} className="px-2 py-0.5 rounded bg-slate-700/50 text-slate-300 text-xs">
-                    {type}
-                  </span>
-                ))}
-              </div>
-            )}
-            <div className="mt-2">
-              <span className="text-xs text-slate-400">
-                Confidence: {Math.round(providers.spamhaus.confidence * 100)}%
-              </span>
-            </div>
-            {providers.spamhaus.error && <p className="text-xs text-amber-300 mt-2">⚠ {providers.spamhaus.error}</p>}
-          </motion.div>
-        )}
+                <div className="mt-2">
+                  <span className="text-xs text-slate-400">Confidence: {Math.round(provider.confidence * 100)}%</span>
+                </div>
+                {provider.error && <p className="text-xs text-amber-300 mt-2">⚠ {provider.error}</p>}
+              </motion.div>
+            ) : null
+          )}
       </div>
 
       {/* Timestamp */}
@@ -1,7 +1,14 @@
-import type { FingerprintPayload } from '../types/report';
+import type { FingerprintPayload, UserAgentDataPayload } from '../types/report';
 
 type WebGLInfo = { vendor?: string; renderer?: string };
 
+type NavigatorUAData = {
+  brands: Array<{ brand: string; version: string }>;
+  mobile: boolean;
+  platform: string;
+  getHighEntropyValues: (hints: string[]) => Promise<Partial<UserAgentDataPayload>>;
+};
+
 const hashString = async (input: string) => {
   const encoder = new TextEncoder();
   const data = encoder.encode(input);
@@ -93,12 +100,35 @@ const getClientRectsHash = async () => {
   return hashString(`${rect.width}-${rect.height}-${rect.top}-${rect.left}`);
 };
 
+const HIGH_ENTROPY_HINTS = ['platformVersion', 'architecture', 'bitness', 'model', 'wow64', 'fullVersionList'];
+
+const getUserAgentData = async (): Promise<UserAgentDataPayload | undefined> => {
+  const uaData = (navigator as Navigator & { userAgentData?: NavigatorUAData }).userAgentData;
+  if (!uaData) return undefined;
+  const lowEntropy = { brands: uaData.brands, mobile: uaData.mobile, platform: uaData.platform };
+  try {
+    const values = await uaData.getHighEntropyValues(HIGH_ENTROPY_HINTS);
+    return {
+      ...lowEntropy,
+      platformVersion: values.platformVersion,
+      architecture: values.architecture,
+      bitness: values.bitness,
+      model: values.model,
+      wow64: values.wow64,
+      fullVersionList: values.fullVersionList,
+    };
+  } catch {
+    return lowEntropy;
+  }
+};
+
 export const collectFingerprint = async (): Promise<FingerprintPayload> => {
   const { vendor: webglVendor, renderer: webglRenderer } = getWebGLInfo();
-  const [canvasFingerprint, audioFingerprint, clientRectsHash] = await Promise.all([
+  const [canvasFingerprint, audioFingerprint, clientRectsHash, userAgentData] = await Promise.all([
     getCanvasFingerprint(),
     getAudioFingerprint(),
     getClientRectsHash(),
+    getUserAgentData(),
   ]);
 
   const fonts = getFonts();
@@ -111,6 +141,7 @@ export const collectFingerprint = async (): Promise<FingerprintPayload> => {
 
   return {
     userAgent: navigator.userAgent,
+    userAgentData,
     acceptLanguage: navigator.language,
     languages,
     timezone,
@@ -41,7 +41,9 @@ export interface ReportResponse {
   panels: ReportPanels;
   ip?: string;
   fetchedAt: number;
-  source: 'ipinfo' | 'radar' | 'mixed';
+  source: 'ipinfo' | 'radar' | 'mmdb' | 'mixed';
+  /** Provider that supplied each IP field when several were combined */
+  fieldSources?: Record<string, 'ipinfo' | 'radar' | 'mmdb'>;
   enhanced?: {
     browser: EnhancedPanelData;
     location: EnhancedPanelData;
@@ -51,8 +53,21 @@ export interface ReportResponse {
   };
 }
 
+export interface UserAgentDataPayload {
+  brands: Array<{ brand: string; version: string }>;
+  mobile: boolean;
+  platform: string;
+  platformVersion?: string;
+  architecture?: string;
+  bitness?: string;
+  model?: string;
+  wow64?: boolean;
+  fullVersionList?: Array<{ brand: string; version: string }>;
+}
+
 export interface FingerprintPayload {
   userAgent: string;
+  userAgentData?: UserAgentDataPayload;
   acceptLanguage?: string;
   languages?: string[];
   timezone?: string;
@@ -157,14 +172,13 @@ export interface CombinedThreat {
   threat_level: ThreatLevel;
   threat_types: string[];
   sources: string[];
+  failed_sources?: string[];
   confidence: number;
 }
 
 export interface ThreatIntelligence {
-  providers: {
-    abuseipdb?: ThreatProvider;
-    spamhaus?: ThreatProvider;
-  };
+  /** Keyed by provider name: abuseipdb plus each configured DNSBL zone or feed */
+  providers: Record<string, ThreatProvider | undefined>;
   combined: CombinedThreat;
   timestamp: string;
 }
@@ -2,8 +2,14 @@
  * ASN Service Unit Tests
  */
 
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { CloudflareRadarASNClient } from '../../clients/cloudflareRadarASNClient';
 import { ASNService, extractASN } from '../../services/asnService';
+import { AsnReputationLedger } from '../../services/asnReputation';
+import { RoutingTable } from '../../services/routingTable';
+import { MemoryCache } from '../../utils/cache';
+import type { ASNAnalysisResult, ASNThreatObservations } from '../../types/asn';
+import type { IpBatchResult } from '../../services/ipBatch';
 
 describe('ASN Service', () => {
   describe('extractASN', () => {
@@ -86,5 +92,63 @@ describe('ASN Service', () => {
       expect(typeof status.configured).toBe('boolean');
       expect(typeof status.available).toBe('boolean');
     });
+
+    it('should resolve ASN from IP through the routing table', async () => {
+      const table = new RoutingTable();
+      table.load('8.8.8.0/24\t15169', 'test');
+      const service = new ASNService({ routingTable: table });
+
+      expect(await service.getASNFromIP('8.8.8.8')).toBe(15169);
+      expect(await service.getASNFromIP('192.0.2.1')).toBe(null);
+      expect(await asnService.getASNFromIP('8.8.8.8')).toBe(null);
+    });
+  });
+
+  describe('profile cache', () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('reuses the cached profile but reads reputation on every analysis', async () => {
+      const radar = vi.spyOn(CloudflareRadarASNClient.prototype, 'analyzeASN').mockImplementation(
+        async (asn): Promise<ASNAnalysisResult> => ({
+          asn,
+          info: { asn, name: 'EXAMPLE-NET' },
+          prefixes: [
+            { prefix: '198.51.100.0/24', ip_version: 4, status: 'active' },
+            { prefix: '203.0.113.0/24', ip_version: 4, status: 'active' },
+          ],
+          last_updated: '2025-01-01T00:00:00.000Z',
+        })
+      );
+      const lookupIpInsightBatch = vi.fn(
+        async (ips: string[]) => ({ results: ips.map(ip => ({ ip, insight: { country: 'NL' } })) }) as IpBatchResult
+      );
+      const service = new ASNService({
+        lookupIpInsightBatch,
+        reputation: new AsnReputationLedger(new MemoryCache<ASNThreatObservations>()),
+        profileCache: new MemoryCache<ASNAnalysisResult>(),
+      });
+
+      const first = await service.analyzeASN(64500);
+      expect(first.geography).toEqual([{ country: 'NL', percentage: 100 }]);
+      expect(first.metrics).toBeUndefined();
+
+      await service.recordThreats(64500, '198.51.100.7', {
+        is_malicious: true,
+        threat_score: 80,
+        threat_level: 'high',
+        threat_types: ['spam'],
+        sources: ['AbuseIPDB'],
+        failed_sources: [],
+        confidence: 0.9,
+      });
+      const second = await service.analyzeASN(64500);
+
+      expect(second.geography).toEqual(first.geography);
+      expect(second.metrics).toMatchObject({ observed_ips: 1, spam_score: 100 });
+      expect(radar).toHaveBeenCalledTimes(1);
+      expect(lookupIpInsightBatch).toHaveBeenCalledTimes(1);
+    });
   });
 });
@@ -96,6 +96,8 @@ vi.mock('../../services/asnService', () => {
         provider: 'Cloudflare Radar',
       };
     }
+
+    async recordThreats() {}
   }
 
   return {
@@ -111,6 +113,20 @@ vi.mock('../../services/asnService', () => {
   };
 });
 
+vi.mock('../../services/rdapService', () => ({
+  rdapClient: {
+    lookupIp: vi.fn(async () => ({
+      query: '8.8.8.8',
+      object_type: 'ip network',
+      handle: 'NET-8-8-8-0-2',
+      cidrs: ['8.8.8.0/24'],
+      abuse_contacts: [{ name: 'Abuse', email: 'network-abuse@google.com', roles: ['abuse'] }],
+      rdap_url: 'https://rdap.arin.net/registry/ip/8.8.8.8',
+      fetched_at: '2025-11-16T00:00:00.000Z',
+    })),
+  },
+}));
+
 describe('Enhanced IP Service', () => {
   let enhancedService: EnhancedIpService;
 
@@ -190,6 +206,15 @@ describe('Enhanced IP Service', () => {
       expect(result.asn_analysis).toBeUndefined();
     });
 
+    it('should fall back to RDAP abuse contacts', async () => {
+      const result = await enhancedService.detectIP('8.8.8.8');
+
+      expect(result.abuse_contacts).toEqual([
+        { name: 'Abuse', email: 'network-abuse@google.com', network: '8.8.8.0/24', source: 'rdap' },
+      ]);
+      expect(result.sources_used).toContain('RDAP');
+    });
+
     it('should handle all analysis options enabled', async () => {
       const result = await enhancedService.detectIP('8.8.8.8', {
         includeThreat: true,
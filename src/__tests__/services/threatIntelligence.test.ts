@@ -8,6 +8,9 @@ import { ThreatIntelligenceService } from '../../services/threatIntelligence';
 // Mock the API clients
 vi.mock('../../clients/abuseipdbClient', () => {
   class MockAbuseIPDBClient {
+    name = 'abuseipdb';
+    weight = 60;
+
     async checkIP() {
       return {
         is_malicious: false,
@@ -19,10 +22,6 @@ vi.mock('../../clients/abuseipdbClient', () => {
       };
     }
 
-    async isAvailable() {
-      return false; // Not configured in test environment
-    }
-
     isConfigured() {
       return false;
     }
@@ -42,17 +41,19 @@ vi.mock('../../clients/abuseipdbClient', () => {
 
 vi.mock('../../clients/spamhausClient', () => {
   class MockSpamhausClient {
+    name = 'spamhaus';
+    weight = 40;
+
     async checkIP() {
       return {
+        source: 'Spamhaus',
         is_listed: false,
+        threat_types: [],
+        confidence: 0.05,
         listings: [],
       };
     }
 
-    async isAvailable() {
-      return true; // Always available (no API key required)
-    }
-
     isConfigured() {
       return true;
     }
@@ -0,0 +1,132 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DNSBL_PRESETS, DnsblProvider, decodeDnsblAnswers, parseDnsblZones, type DnsResolver } from '../dnsblClient';
+import { SpamhausClient } from '../spamhausClient';
+
+const dnsAnswer = (Status: number, codes: string[] = []) =>
+  new Response(JSON.stringify({ Status, Answer: codes.map(data => ({ type: 1, data })) }), {
+    headers: { 'Content-Type': 'application/dns-json' },
+  });
+
+const staticResolver = (answers: Record<string, string[]>): DnsResolver => ({
+  resolveA: vi.fn(async (name: string) => answers[name] ?? []),
+});
+
+describe('decodeDnsblAnswers', () => {
+  it('maps Spamhaus return codes to distinct lists', () => {
+    const lists = decodeDnsblAnswers(DNSBL_PRESETS.spamhaus, [
+      '127.0.0.2',
+      '127.0.0.3',
+      '127.0.0.4',
+      '127.0.0.9',
+      '127.0.0.10',
+    ]);
+    expect(lists.map(listing => listing.list)).toEqual(['SBL', 'CSS', 'XBL', 'DROP', 'PBL']);
+    expect(lists.find(listing => listing.list === 'PBL')).toMatchObject({ policy: true, weight: 0.1 });
+    expect(lists.find(listing => listing.list === 'XBL')?.threat_types).toContain('botnet');
+  });
+
+  it('rejects error codes and answers outside 127.0.0.0/8', () => {
+    expect(() => decodeDnsblAnswers(DNSBL_PRESETS.spamhaus, ['127.255.255.254'])).toThrow(/public or open resolver/);
+    expect(() => decodeDnsblAnswers(DNSBL_PRESETS.spamcop, ['198.51.100.1'])).toThrow(/Unexpected SpamCop answer/);
+  });
+
+  it('falls back to the default category for unknown codes', () => {
+    const [listing] = decodeDnsblAnswers(DNSBL_PRESETS.dronebl, ['127.0.0.255']);
+    expect(listing).toMatchObject({ list: 'UNCATEGORIZED', code: '127.0.0.255' });
+  });
+});
+
+describe('parseDnsblZones', () => {
+  it('defaults to Spamhaus', () => {
+    expect(parseDnsblZones(undefined).map(zone => zone.name)).toEqual(['spamhaus']);
+  });
+
+  it('accepts presets and name=zone custom zones', () => {
+    const zones = parseDnsblZones('barracuda, internal=bl.example.net, bogus');
+    expect(zones.map(zone => zone.zone)).toEqual(['b.barracudacentral.org', 'bl.example.net']);
+    expect(zones[1]).toMatchObject({ name: 'internal', label: 'internal', returnCodes: {} });
+  });
+
+  it('accepts JSON zones with their own return codes', () => {
+    const [zone] = parseDnsblZones(
+      JSON.stringify([
+        {
+          name: 'corp',
+          label: 'Corp blocklist',
+          zone: 'bl.corp.example',
+          weight: 30,
+          returnCodes: { '127.0.0.5': { list: 'SCANNER', threat_types: ['scanner'], confidence: 0.9 } },
+        },
+      ])
+    );
+    expect(zone).toMatchObject({ label: 'Corp blocklist', weight: 30 });
+    expect(zone.returnCodes['127.0.0.5']).toMatchObject({ list: 'SCANNER', weight: 1, policy: false });
+  });
+});
+
+describe('DnsblProvider', () => {
+  it('queries the reversed address through the injected resolver', async () => {
+    const resolver = staticResolver({ '1.2.0.192.dnsbl.dronebl.org': ['127.0.0.8'] });
+    const provider = new DnsblProvider(DNSBL_PRESETS.dronebl, resolver);
+
+    const result = await provider.checkIP('192.0.2.1');
+
+    expect(result).toMatchObject({ source: 'DroneBL', is_listed: true, threat_types: ['proxy'] });
+    expect(result.listings?.[0]).toMatchObject({ list: 'SOCKS_PROXY', code: '127.0.0.8' });
+  });
+
+  it('skips IPv6 lookups for IPv4-only zones', async () => {
+    const resolver = staticResolver({});
+    const result = await new DnsblProvider(DNSBL_PRESETS.spamcop, resolver).checkIP('2001:db8::1');
+
+    expect(result.error).toMatch(/does not list IPv6/);
+    expect(resolver.resolveA).not.toHaveBeenCalled();
+  });
+});
+
+describe('SpamhausClient', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('does not treat a PBL-only listing as malicious', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(dnsAnswer(0, ['127.0.0.10'])));
+
+    const result = await new SpamhausClient().checkIP('192.0.2.1');
+
+    expect(result.is_listed).toBe(false);
+    expect(result.threat_types).toEqual([]);
+    expect(result.listings).toHaveLength(1);
+    expect(result.listings?.[0]).toMatchObject({ list: 'PBL', code: '127.0.0.10' });
+  });
+
+  it('reports threat types, confidence and weight from the matched lists', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(dnsAnswer(0, ['127.0.0.3', '127.0.0.11']));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await new SpamhausClient().checkIP('192.0.2.1');
+
+    expect(String(fetchMock.mock.calls[0][0])).toContain(encodeURIComponent('1.2.0.192.zen.spamhaus.org'));
+    expect(result).toMatchObject({ is_listed: true, confidence: 0.8, weight: 0.75, reports: 2 });
+    expect(result.threat_types).toEqual(['spam', 'snowshoe-spam']);
+    expect(result.listings?.map(listing => listing.list)).toEqual(['CSS', 'PBL']);
+  });
+
+  it('returns a clean result for NXDOMAIN', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(dnsAnswer(3)));
+
+    const result = await new SpamhausClient().checkIP('192.0.2.1');
+
+    expect(result).toMatchObject({ is_listed: false, listings: [] });
+    expect(result.error).toBeUndefined();
+  });
+
+  it('surfaces refused queries as errors', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(dnsAnswer(0, ['127.255.255.254'])));
+
+    const result = await new SpamhausClient().checkIP('192.0.2.1');
+
+    expect(result.is_listed).toBe(false);
+    expect(result.error).toMatch(/public or open resolver/);
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, expect, it, vi } from 'vitest';
+import { RdapClient, rangeToCidrs } from '../rdapClient';
+import { MemoryCache } from '../../utils/cache';
+import { UpstreamHttp } from '../../utils/upstreamHttp';
+import type { RdapBootstrapFile, RdapObject, RdapRecord } from '../../types/rdap';
+
+const BOOTSTRAP: Record<string, RdapBootstrapFile> = {
+  'ipv4.json': {
+    services: [
+      [['8.0.0.0/8'], ['http://rdap.arin.net/registry/', 'https://rdap.arin.net/registry/']],
+      [['193.0.0.0/8'], ['https://rdap.db.ripe.net/']],
+    ],
+  },
+  'ipv6.json': { services: [[['2001:4000::/23'], ['https://rdap.db.ripe.net/']]] },
+  'asn.json': { services: [[['15169', '13335-13337'], ['https://rdap.arin.net/registry/']]] },
+};
+
+const ARIN_NETWORK: RdapObject = {
+  objectClassName: 'ip network',
+  handle: 'NET-8-8-8-0-2',
+  name: 'GOGL',
+  type: 'DIRECT ALLOCATION',
+  startAddress: '8.8.8.0',
+  endAddress: '8.8.8.255',
+  port43: 'whois.arin.net',
+  events: [
+    { eventAction: 'registration', eventDate: '2023-12-28T17:24:33-05:00' },
+    { eventAction: 'last changed', eventDate: '2023-12-28T17:24:56-05:00' },
+  ],
+  entities: [
+    {
+      handle: 'GOGL',
+      roles: ['registrant'],
+      vcardArray: [
+        'vcard',
+        [
+          ['version', {}, 'text', '4.0'],
+          ['fn', {}, 'text', 'Google LLC'],
+          [
+            'adr',
+            { label: '1600 Amphitheatre Parkway\nMountain View\nCA\n94043' },
+            'text',
+            ['', '', '', '', '', '', ''],
+          ],
+        ],
+      ],
+      entities: [
+        {
+          handle: 'ABUSE5250-ARIN',
+          roles: ['abuse'],
+          vcardArray: [
+            'vcard',
+            [
+              ['fn', {}, 'text', 'Abuse'],
+              ['email', {}, 'text', 'network-abuse@google.com'],
+              ['tel', { type: ['work', 'voice'] }, 'uri', 'tel:+1-650-253-0000'],
+            ],
+          ],
+        },
+      ],
+    },
+  ],
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+const createClient = (records: Record<string, RdapObject>) => {
+  const transport = vi.fn(async (url: string) => {
+    const file = url.split('/').pop() ?? '';
+    if (url.startsWith('https://data.iana.org/rdap/')) {
+      return json(BOOTSTRAP[file]);
+    }
+    return records[url] ? json(records[url]) : json({ errorCode: 404 }, 404);
+  });
+  const client = new RdapClient({
+    cache: new MemoryCache<RdapRecord | null>(),
+    http: new UpstreamHttp({ transport }),
+  });
+  return { client, transport };
+};
+
+describe('rangeToCidrs', () => {
+  it('covers ranges that are not a single block', () => {
+    expect(rangeToCidrs('8.8.8.0', '8.8.8.255')).toEqual(['8.8.8.0/24']);
+    expect(rangeToCidrs('192.0.2.0', '192.0.2.130')).toEqual(['192.0.2.0/25', '192.0.2.128/31', '192.0.2.130/32']);
+    expect(rangeToCidrs('2001:db8::', '2001:db8::ffff')).toEqual(['2001:db8::/112']);
+    expect(rangeToCidrs('192.0.2.10', '192.0.2.1')).toEqual([]);
+  });
+});
+
+describe('RdapClient', () => {
+  it('asks the registry named by the bootstrap file and normalizes the answer', async () => {
+    const { client, transport } = createClient({ 'https://rdap.arin.net/registry/ip/8.8.8.8': ARIN_NETWORK });
+
+    const record = await client.lookupIp('8.8.8.8');
+
+    expect(record).toMatchObject({
+      query: '8.8.8.8',
+      object_type: 'ip network',
+      name: 'GOGL',
+      organization: 'Google LLC',
+      cidrs: ['8.8.8.0/24'],
+      rir: 'ARIN',
+      registration_date: '2023-12-28T17:24:33-05:00',
+      last_changed_date: '2023-12-28T17:24:56-05:00',
+      abuse_contacts: [
+        {
+          handle: 'ABUSE5250-ARIN',
+          name: 'Abuse',
+          email: 'network-abuse@google.com',
+          phone: '+1-650-253-0000',
+          roles: ['abuse'],
+        },
+      ],
+    });
+
+    await client.lookupIp('8.8.8.8');
+    await client.lookupIp('8.8.4.4');
+    // Bootstrap file, the 8.8.8.8 record (served from cache the second time) and the 8.8.4.4 miss
+    expect(transport).toHaveBeenCalledTimes(3);
+  });
+
+  it('looks up ASNs and returns null outside every registry', async () => {
+    const { client } = createClient({
+      'https://rdap.arin.net/registry/autnum/13336': {
+        objectClassName: 'autnum',
+        handle: 'AS13335',
+        name: 'CLOUDFLARENET',
+        startAutnum: 13335,
+        endAutnum: 13337,
+      },
+    });
+
+    expect(await client.lookupAsn(13336)).toMatchObject({
+      query: 'AS13336',
+      object_type: 'autnum',
+      asn_range: { start: 13335, end: 13337 },
+      rir: 'ARIN',
+      abuse_contacts: [],
+    });
+    expect(await client.lookupAsn(64512)).toBeNull();
+    expect(await client.lookupIp('10.0.0.1')).toBeNull();
+  });
+
+  it('caches registry 404s so unknown resources are not re-queried on every lookup', async () => {
+    const { client, transport } = createClient({});
+
+    expect(await client.lookupIp('8.8.4.4')).toBeNull();
+    expect(await client.lookupIp('8.8.4.4')).toBeNull();
+    // Bootstrap file and one registry query
+    expect(transport).toHaveBeenCalledTimes(2);
+  });
+});
@@ -6,17 +6,35 @@
  * Rate Limit: 1000 requests/day (free tier)
  */
 
-import type { ThreatIntelResult, AbuseIPDBResponse } from '../types/threat';
+import type { ThreatIntelResult, AbuseIPDBResponse, ReportedRateLimit, ThreatProvider } from '../types/threat';
 import { logger } from '../utils/logger';
+import {
+  CircuitBreaker,
+  CircuitOpenError,
+  serverErrorStatus,
+  type CircuitBreakerOptions,
+} from '../utils/circuitBreaker';
+import { UpstreamHttp } from '../utils/upstreamHttp';
+
+export interface AbuseIPDBClientOptions {
+  circuit?: CircuitBreakerOptions;
+  /** Shared upstream HTTP client; a private fetch-based one is created without it */
+  http?: UpstreamHttp;
+}
 
-export class AbuseIPDBClient {
+export class AbuseIPDBClient implements ThreatProvider {
+  readonly name = 'abuseipdb';
+  readonly weight = 60;
   private readonly baseUrl = 'https://api.abuseipdb.com/api/v2';
   private readonly apiKey: string | undefined;
   private readonly rateLimit = { requests_per_day: 1000, requests_per_hour: 42 };
-  private readonly timeout = 5000; // 5 seconds
+  private readonly http: UpstreamHttp;
+  readonly circuit: CircuitBreaker;
 
-  constructor(apiKey?: string) {
+  constructor(apiKey?: string, options: AbuseIPDBClientOptions = {}) {
     this.apiKey = apiKey;
+    this.http = options.http ?? new UpstreamHttp();
+    this.circuit = new CircuitBreaker(this.name, options.circuit);
   }
 
   /**
@@ -41,19 +59,26 @@ export class AbuseIPDBClient {
     try {
       const url = `${this.baseUrl}/check?ipAddress=${encodeURIComponent(ip)}&maxAgeInDays=${maxAgeInDays}&verbose`;
 
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+      const headers = { Key: this.apiKey, Accept: 'application/json' };
+      const response = await this.circuit.execute(
+        () => this.http.request(this.name, url, { method: 'GET', headers }),
+        serverErrorStatus
+      );
 
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          Key: this.apiKey,
-          Accept: 'application/json',
-        },
-        signal: controller.signal,
-      });
+      const rateLimit = this.readRateLimit(response);
 
-      clearTimeout(timeoutId);
+      if (response.status === 429) {
+        logger.warn({ ip }, 'AbuseIPDB daily quota exhausted');
+        return {
+          source: 'AbuseIPDB',
+          is_listed: false,
+          threat_types: [],
+          confidence: 0,
+          error: 'Daily quota exhausted',
+          quota_exhausted: true,
+          rate_limit: { ...rateLimit, remaining: 0 },
+        };
+      }
 
       if (!response.ok) {
         const errorText = await response.text();
@@ -75,14 +100,28 @@ export class AbuseIPDBClient {
         is_listed: isListed,
         threat_types: this.mapThreatTypes(data.data.usageType || '', isListed),
         confidence: abuseScore / 100,
+        weight: abuseScore / 100,
         last_checked: new Date().toISOString(),
         reports,
         abuse_confidence_score: abuseScore,
+        rate_limit: rateLimit,
       };
 
       logger.debug({ ip, abuseScore, reports, isListed }, 'AbuseIPDB check completed');
       return result;
     } catch (error) {
+      if (error instanceof CircuitOpenError) {
+        logger.debug({ ip }, 'AbuseIPDB circuit open, skipping check');
+        return {
+          source: 'AbuseIPDB',
+          is_listed: false,
+          threat_types: [],
+          confidence: 0,
+          error: error.message,
+          circuit_open: true,
+        };
+      }
+
       if (error instanceof Error && error.name === 'AbortError') {
         logger.error({ ip }, 'AbuseIPDB check timeout');
         return {
@@ -105,6 +144,24 @@ export class AbuseIPDBClient {
     }
   }
 
+  /**
+   * Read the daily quota from X-RateLimit-* headers
+   *
+   * @param response - AbuseIPDB response
+   * @returns Reported quota, if the headers are present
+   */
+  private readRateLimit(response: Response): ReportedRateLimit | undefined {
+    const remaining = response.headers.get('X-RateLimit-Remaining');
+    const limit = response.headers.get('X-RateLimit-Limit');
+    if (remaining === null || !Number.isFinite(Number(remaining))) {
+      return undefined;
+    }
+    return {
+      remaining: Number(remaining),
+      limit: limit !== null && Number.isFinite(Number(limit)) ? Number(limit) : undefined,
+    };
+  }
+
   /**
    * Map usage type to threat types
    *
@@ -142,38 +199,6 @@ export class AbuseIPDBClient {
     return types;
   }
 
-  /**
-   * Check if AbuseIPDB API is available and configured
-   *
-   * @returns True if API is available
-   */
-  async isAvailable(): Promise<boolean> {
-    if (!this.apiKey) {
-      return false;
-    }
-
-    try {
-      // Test with a known-good IP (Google DNS)
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), this.timeout);
-
-      const response = await fetch(`${this.baseUrl}/check?ipAddress=8.8.8.8&maxAgeInDays=1`, {
-        method: 'GET',
-        headers: {
-          Key: this.apiKey,
-          Accept: 'application/json',
-        },
-        signal: controller.signal,
-      });
-
-      clearTimeout(timeoutId);
-      return response.ok;
-    } catch (error) {
-      logger.error({ error }, 'AbuseIPDB availability check failed');
-      return false;
-    }
-  }
-
   /**
    * Get rate limit information
    *
@@ -7,27 +7,63 @@
 
 import type {
   ASNAnalysisResult,
+  ASNRelationships,
   RadarASNInfo,
   NetworkPrefix,
   CloudflareRadarASNResponse,
   CloudflareRadarASNPrefixesResponse,
+  CloudflareRadarASNRelationshipsResponse,
 } from '../types/asn';
 import { logger } from '../utils/logger';
-import { config } from '../config';
+import { CircuitBreaker, serverErrorStatus, type CircuitBreakerOptions } from '../utils/circuitBreaker';
+import { UpstreamHttp } from '../utils/upstreamHttp';
+
+/**
+ * Cloudflare credentials, supplied by the caller (Node config or Worker env)
+ */
+export interface RadarCredentials {
+  accountId?: string;
+  token?: string;
+}
+
+export interface RadarASNClientOptions {
+  circuit?: CircuitBreakerOptions;
+  /** Shared upstream HTTP client; a private fetch-based one is created without it */
+  http?: UpstreamHttp;
+}
 
 export class CloudflareRadarASNClient {
   private readonly baseUrl = 'https://api.cloudflare.com/client/v4';
-  private readonly timeout = 5000; // 5 seconds
+  private readonly credentials: RadarCredentials;
+  private readonly http: UpstreamHttp;
+  readonly circuit: CircuitBreaker;
+
+  constructor(credentials: RadarCredentials = {}, options: RadarASNClientOptions = {}) {
+    this.credentials = credentials;
+    this.http = options.http ?? new UpstreamHttp();
+    this.circuit = new CircuitBreaker('radar-asn', options.circuit);
+  }
+
+  /**
+   * GET a Radar endpoint through the circuit breaker
+   */
+  private async get(url: string): Promise<Response> {
+    const headers = this.getHeaders();
+    return this.circuit.execute(
+      () => this.http.request('radar-asn', url, { method: 'GET', headers }),
+      serverErrorStatus
+    );
+  }
 
   /**
    * Get authorization headers for Cloudflare API
    */
   private getHeaders(): Record<string, string> {
-    if (!config.CLOUDFLARE_RADAR_TOKEN) {
+    if (!this.credentials.token) {
       throw new Error('Cloudflare Radar token not configured');
     }
     return {
-      Authorization: `Bearer ${config.CLOUDFLARE_RADAR_TOKEN}`,
+      Authorization: `Bearer ${this.credentials.token}`,
       'Content-Type': 'application/json',
     };
   }
@@ -42,13 +78,18 @@ export class CloudflareRadarASNClient {
     try {
       logger.info({ asn }, 'Starting ASN analysis');
 
-      // Fetch ASN details and prefixes in parallel
-      const [asnInfo, prefixes] = await Promise.all([this.getASNInfo(asn), this.getASNPrefixes(asn)]);
+      // Fetch ASN details, prefixes and relationships in parallel
+      const [asnInfo, prefixes, relationships] = await Promise.all([
+        this.getASNInfo(asn),
+        this.getASNPrefixes(asn),
+        this.getASNRelationships(asn),
+      ]);
 
       const result: ASNAnalysisResult = {
         asn,
         info: asnInfo,
         prefixes,
+        relationships,
         last_updated: new Date().toISOString(),
       };
 
@@ -69,18 +110,7 @@ export class CloudflareRadarASNClient {
   async getASNInfo(asn: number): Promise<RadarASNInfo> {
     try {
       // Use public Radar API instead of Intel API
-      const url = `${this.baseUrl}/radar/entities/asns/${asn}`;
-
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), this.timeout);
-
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: this.getHeaders(),
-        signal: controller.signal,
-      });
-
-      clearTimeout(timeoutId);
+      const response = await this.get(`${this.baseUrl}/radar/entities/asns/${asn}`);
 
       if (!response.ok) {
         const errorText = await response.text();
@@ -121,18 +151,9 @@ export class CloudflareRadarASNClient {
    */
   async getASNPrefixes(asn: number): Promise<NetworkPrefix[]> {
     try {
-      const url = `${this.baseUrl}/accounts/${config.CLOUDFLARE_ACCOUNT_ID}/intel/asn/${asn}/subnets`;
-
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), this.timeout);
-
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: this.getHeaders(),
-        signal: controller.signal,
-      });
-
-      clearTimeout(timeoutId);
+      const response = await this.get(
+        `${this.baseUrl}/accounts/${this.credentials.accountId}/intel/asn/${asn}/subnets`
+      );
 
       if (!response.ok) {
         // Prefixes endpoint might not be available for all ASNs
@@ -166,22 +187,56 @@ export class CloudflareRadarASNClient {
   }
 
   /**
-   * Check if Cloudflare Radar ASN service is available
+   * Get upstream, downstream and peer networks from Radar's AS relationship data
    *
-   * @returns True if service is available
+   * @param asn - Autonomous System Number
+   * @returns Relationships, or undefined when Radar has none for this ASN
    */
-  async isAvailable(): Promise<boolean> {
-    if (!config.CLOUDFLARE_ACCOUNT_ID || !config.CLOUDFLARE_RADAR_TOKEN) {
-      return false;
-    }
-
+  async getASNRelationships(asn: number): Promise<ASNRelationships | undefined> {
     try {
-      // Test with a well-known ASN (Cloudflare's own: AS13335)
-      await this.getASNInfo(13335);
-      return true;
+      const response = await this.get(`${this.baseUrl}/radar/entities/asns/${asn}/rel`);
+
+      if (!response.ok) {
+        logger.debug({ asn, status: response.status }, 'ASN relationships not available');
+        return undefined;
+      }
+
+      const data: CloudflareRadarASNRelationshipsResponse = await response.json();
+
+      if (!data.success || !data.result?.rels) {
+        return undefined;
+      }
+
+      const relationships: ASNRelationships = { upstreams: [], downstreams: [], peers: [] };
+      for (const rel of data.result.rels) {
+        const neighborIsFirst = rel.asn2 === asn;
+        const neighbor = neighborIsFirst
+          ? { asn: rel.asn1, name: rel.asn1_name || undefined, country: rel.asn1_country || undefined }
+          : { asn: rel.asn2, name: rel.asn2_name || undefined, country: rel.asn2_country || undefined };
+
+        if (rel.rel === 'P2P') {
+          relationships.peers.push(neighbor);
+        } else if (neighborIsFirst) {
+          relationships.upstreams.push(neighbor);
+        } else {
+          relationships.downstreams.push(neighbor);
+        }
+      }
+
+      logger.debug(
+        {
+          asn,
+          upstreams: relationships.upstreams.length,
+          downstreams: relationships.downstreams.length,
+          peers: relationships.peers.length,
+        },
+        'ASN relationships retrieved'
+      );
+      return relationships;
     } catch (error) {
-      logger.error({ error }, 'Cloudflare Radar ASN availability check failed');
-      return false;
+      logger.debug({ asn, error }, 'ASN relationships retrieval failed');
+      // Relationships are optional, like prefixes
+      return undefined;
     }
   }
 
@@ -191,6 +246,6 @@ export class CloudflareRadarASNClient {
    * @returns True if configured
    */
   isConfigured(): boolean {
-    return Boolean(config.CLOUDFLARE_ACCOUNT_ID && config.CLOUDFLARE_RADAR_TOKEN);
+    return Boolean(this.credentials.accountId && this.credentials.token);
   }
 }
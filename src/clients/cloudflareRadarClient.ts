@@ -1,6 +1,6 @@
 import { config } from '../config';
 import type { RadarIpResponse } from '../types/ip';
-import { httpRequest } from '../utils/httpClient';
+import { upstreamHttp } from '../utils/httpClient';
 
 const CF_BASE = 'https://api.cloudflare.com/client/v4';
 
@@ -15,7 +15,7 @@ export async function verifyRadarToken(): Promise<boolean> {
   }
   try {
     const url = `${CF_BASE}/accounts/${config.CLOUDFLARE_ACCOUNT_ID}/tokens/verify`;
-    const response = await httpRequest<{ success: boolean }>(url, { headers: getHeaders() });
+    const response = await upstreamHttp.json<{ success: boolean }>('radar', url, { headers: getHeaders() });
     return Boolean(response.success);
   } catch {
     return false;
@@ -27,7 +27,9 @@ export async function fetchRadarIp(ip: string): Promise<RadarIpResponse> {
     throw new Error('Cloudflare Radar credentials missing');
   }
   const url = `${CF_BASE}/accounts/${config.CLOUDFLARE_ACCOUNT_ID}/intelligence/ip?ip=${encodeURIComponent(ip)}`;
-  const response = await httpRequest<{ success: boolean; result: RadarIpResponse }>(url, { headers: getHeaders() });
+  const response = await upstreamHttp.json<{ success: boolean; result: RadarIpResponse }>('radar', url, {
+    headers: getHeaders(),
+  });
   if (!response.success) {
     throw new Error('Cloudflare Radar lookup failed');
   }
@@ -0,0 +1,42 @@
+/**
+ * Node.js DNS Resolver
+ * Resolves DNSBL and reverse DNS queries with `node:dns`, optionally through
+ * specific servers, for deployments that run their own recursive resolver.
+ */
+
+import { promises as dns } from 'node:dns';
+import type { ReverseDnsResolver } from './dnsblClient';
+
+// Codes node:dns uses for "name does not exist" / "no records of that type"
+const NOT_LISTED_CODES = new Set<string>([dns.NOTFOUND, dns.NODATA]);
+
+export interface NodeDnsResolverOptions {
+  /** Resolver addresses such as `127.0.0.1` or `[::1]:5353`; system resolvers when empty */
+  servers?: string[];
+  timeoutMs: number;
+}
+
+const orEmpty = async (query: Promise<string[]>): Promise<string[]> => {
+  try {
+    return await query;
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    if (code && NOT_LISTED_CODES.has(code)) {
+      return [];
+    }
+    throw error;
+  }
+};
+
+export const createNodeDnsResolver = ({ servers, timeoutMs }: NodeDnsResolverOptions): ReverseDnsResolver => {
+  const resolver = new dns.Resolver({ timeout: timeoutMs, tries: 1 });
+  if (servers && servers.length > 0) {
+    resolver.setServers(servers);
+  }
+
+  return {
+    resolveA: name => orEmpty(resolver.resolve4(name)),
+    resolveAaaa: name => orEmpty(resolver.resolve6(name)),
+    resolvePtr: ip => orEmpty(resolver.reverse(ip)),
+  };
+};
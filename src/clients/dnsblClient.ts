@@ -0,0 +1,454 @@
+/**
+ * DNSBL Client
+ * Checks IPs against configurable DNS blacklist zones and decodes their
+ * return codes into listing categories.
+ *
+ * Runtime-neutral: resolution goes through an injected `DnsResolver`, either
+ * DNS-over-HTTPS (available everywhere) or `node:dns` (see `dnsResolver.ts`).
+ */
+
+import { z } from 'zod';
+import type {
+  DnsblCategory,
+  DnsblListing,
+  DnsblZoneConfig,
+  ThreatIntelResult,
+  ThreatProvider,
+  ThreatRateLimit,
+  SpamhausDNSResponse,
+} from '../types/threat';
+import { logger } from '../utils/logger';
+import { parseIp, reverseDnsName, reverseIpForDnsbl, unwrapIpv4Mapped } from '../utils/ip';
+import { CircuitBreaker, CircuitOpenError, type CircuitBreakerOptions } from '../utils/circuitBreaker';
+import { UpstreamHttp } from '../utils/upstreamHttp';
+
+export interface DnsResolver {
+  /**
+   * Resolve A records
+   *
+   * @returns Answers; empty when the name does not exist
+   */
+  resolveA(name: string): Promise<string[]>;
+}
+
+/**
+ * Resolver for reverse DNS, which also needs AAAA and PTR queries
+ */
+export interface ReverseDnsResolver extends DnsResolver {
+  resolveAaaa(name: string): Promise<string[]>;
+  /**
+   * Resolve the PTR records of an address
+   *
+   * @returns Hostnames without the trailing dot; empty when there are none
+   */
+  resolvePtr(ip: string): Promise<string[]>;
+}
+
+export const DEFAULT_DOH_URL = 'https://cloudflare-dns.com/dns-query';
+export const DEFAULT_DNSBL_TIMEOUT_MS = 3000;
+
+const DNS_TYPES = { A: 1, PTR: 12, AAAA: 28 } as const;
+
+/**
+ * Resolve through a JSON DNS-over-HTTPS endpoint (Cloudflare, Google, ...)
+ *
+ * @param http - Shared upstream HTTP client; queries go out under its `doh` policy
+ */
+export const createDohResolver = (
+  url = DEFAULT_DOH_URL,
+  timeoutMs = DEFAULT_DNSBL_TIMEOUT_MS,
+  http: UpstreamHttp = new UpstreamHttp()
+): ReverseDnsResolver => {
+  const query = async (name: string, type: keyof typeof DNS_TYPES): Promise<string[]> => {
+    try {
+      const response = await http.request('doh', `${url}?name=${encodeURIComponent(name)}&type=${type}`, {
+        headers: { Accept: 'application/dns-json' },
+        timeoutMs,
+      });
+
+      if (!response.ok) {
+        throw new Error(`DNS-over-HTTPS query failed with status ${response.status}`);
+      }
+
+      const data: SpamhausDNSResponse = await response.json();
+
+      // Status 3 = NXDOMAIN (not listed)
+      if (data.Status === 3) {
+        return [];
+      }
+      if (data.Status !== 0) {
+        throw new Error(`DNS query failed with status ${data.Status}`);
+      }
+
+      // Answers may include the CNAME chain leading to the requested records
+      return (data.Answer ?? [])
+        .filter(answer => answer.type === DNS_TYPES[type] && answer.data)
+        .map(answer => answer.data as string);
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new Error('DNS query timed out');
+      }
+      throw error;
+    }
+  };
+
+  return {
+    resolveA: name => query(name, 'A'),
+    resolveAaaa: name => query(name, 'AAAA'),
+    async resolvePtr(ip: string): Promise<string[]> {
+      const name = reverseDnsName(ip);
+      if (!name) {
+        return [];
+      }
+      const hostnames = await query(name, 'PTR');
+      return hostnames.map(hostname => hostname.replace(/\.$/, ''));
+    },
+  };
+};
+
+const listed = (
+  list: string,
+  description: string,
+  threat_types: string[],
+  confidence: number,
+  weight = 1
+): DnsblCategory => ({ list, description, threat_types, confidence, weight, policy: false });
+
+const SPAMHAUS_SBL = listed('SBL', 'Spamhaus Block List: verified spam source or spam operation', ['spam'], 0.9);
+const SPAMHAUS_XBL = listed(
+  'XBL',
+  'Exploits Block List: hijacked host, open proxy or malware-infected machine',
+  ['botnet', 'malware', 'compromised'],
+  0.9
+);
+const SPAMHAUS_PBL: DnsblCategory = {
+  list: 'PBL',
+  description: 'Policy Block List: dynamic or end-user range that should not send mail directly',
+  threat_types: ['dynamic-ip'],
+  confidence: 0.9,
+  weight: 0.1,
+  policy: true,
+};
+
+/**
+ * Zones with known return codes, selectable by name in DNSBL_ZONES
+ */
+export const DNSBL_PRESETS: Record<string, DnsblZoneConfig> = {
+  spamhaus: {
+    name: 'spamhaus',
+    label: 'Spamhaus',
+    // ZEN combines SBL, CSS, XBL, DROP and PBL; the return code says which list matched
+    zone: 'zen.spamhaus.org',
+    ipv6: true,
+    weight: 40,
+    // 127.0.0.5-7 are legacy XBL codes still answered by some mirrors
+    returnCodes: {
+      '127.0.0.2': SPAMHAUS_SBL,
+      '127.0.0.3': listed(
+        'CSS',
+        'Combined Spam Sources: low-reputation host sending snowshoe spam',
+        ['spam', 'snowshoe-spam'],
+        0.8,
+        0.75
+      ),
+      '127.0.0.4': SPAMHAUS_XBL,
+      '127.0.0.5': SPAMHAUS_XBL,
+      '127.0.0.6': SPAMHAUS_XBL,
+      '127.0.0.7': SPAMHAUS_XBL,
+      '127.0.0.9': listed(
+        'DROP',
+        "Don't Route Or Peer: hijacked netblock or network run by criminals",
+        ['hijacked-network', 'malware', 'spam'],
+        0.95
+      ),
+      '127.0.0.10': SPAMHAUS_PBL,
+      '127.0.0.11': {
+        ...SPAMHAUS_PBL,
+        description: 'Policy Block List: range Spamhaus identified as dynamic or end-user',
+      },
+    },
+    defaultCategory: listed('ZEN', 'Listed in Spamhaus ZEN with an unrecognised return code', ['spam'], 0.5, 0.5),
+    errorCodes: {
+      '127.255.255.252': 'Spamhaus rejected the query: typing error in DNSBL name',
+      '127.255.255.254': 'Spamhaus rejected the query: sent through a public or open resolver',
+      '127.255.255.255': 'Spamhaus rejected the query: excessive number of queries',
+    },
+    rateLimit: { requests_per_day: 10000, requests_per_hour: 417 },
+  },
+  barracuda: {
+    name: 'barracuda',
+    label: 'Barracuda',
+    zone: 'b.barracudacentral.org',
+    ipv6: false,
+    weight: 20,
+    returnCodes: {
+      '127.0.0.2': listed('BRBL', 'Barracuda Reputation Block List: poor email sending reputation', ['spam'], 0.8),
+    },
+    defaultCategory: listed('BRBL', 'Listed in the Barracuda Reputation Block List', ['spam'], 0.7),
+  },
+  spamcop: {
+    name: 'spamcop',
+    label: 'SpamCop',
+    zone: 'bl.spamcop.net',
+    ipv6: false,
+    weight: 15,
+    returnCodes: {
+      '127.0.0.2': listed('SCBL', 'SpamCop Blocking List: reported by spam recipients', ['spam'], 0.75),
+    },
+    defaultCategory: listed('SCBL', 'Listed in the SpamCop Blocking List', ['spam'], 0.6),
+  },
+  dronebl: {
+    name: 'dronebl',
+    label: 'DroneBL',
+    zone: 'dnsbl.dronebl.org',
+    ipv6: true,
+    weight: 25,
+    returnCodes: {
+      '127.0.0.3': listed('IRC_DRONE', 'IRC drone', ['botnet'], 0.85),
+      '127.0.0.5': listed('BOTTLER', 'Bottler', ['botnet', 'spam'], 0.85),
+      '127.0.0.6': listed('SPAMBOT', 'Unknown spambot or drone', ['botnet', 'spam'], 0.8),
+      '127.0.0.7': listed('DDOS_DRONE', 'DDoS drone', ['botnet', 'ddos'], 0.85),
+      '127.0.0.8': listed('SOCKS_PROXY', 'Open SOCKS proxy', ['proxy'], 0.85),
+      '127.0.0.9': listed('HTTP_PROXY', 'Open HTTP proxy', ['proxy'], 0.85),
+      '127.0.0.10': listed('PROXYCHAIN', 'Proxy chain', ['proxy'], 0.85),
+      '127.0.0.11': listed('WEB_PROXY', 'Web page proxy', ['proxy'], 0.8),
+      '127.0.0.12': listed('OPEN_DNS', 'Open DNS resolver', ['open-resolver'], 0.7, 0.5),
+      '127.0.0.13': listed('BRUTE_FORCE', 'Brute force attacker', ['brute-force'], 0.85),
+      '127.0.0.14': listed('WINGATE', 'Open Wingate proxy', ['proxy'], 0.85),
+      '127.0.0.15': listed('COMPROMISED_ROUTER', 'Compromised router or gateway', ['compromised'], 0.85),
+      '127.0.0.16': listed('WORM', 'Autorooting worm', ['malware', 'compromised'], 0.85),
+      '127.0.0.17': listed('BOTNET', 'Automatically determined botnet IP', ['botnet'], 0.8),
+      '127.0.0.18': listed('DNS_MX_ON_IRC', 'DNS/MX record seen on IRC', ['botnet'], 0.6, 0.5),
+      '127.0.0.19': listed('ABUSED_VPN', 'Abused VPN service', ['vpn', 'proxy'], 0.75, 0.5),
+    },
+    defaultCategory: listed('UNCATEGORIZED', 'Listed in DroneBL without a category', ['botnet'], 0.6, 0.5),
+  },
+  uceprotect: {
+    name: 'uceprotect',
+    label: 'UCEPROTECT',
+    zone: 'dnsbl-1.uceprotect.net',
+    ipv6: false,
+    weight: 10,
+    returnCodes: {
+      '127.0.0.2': listed('LEVEL1', 'UCEPROTECT Level 1: single IP seen sending spam', ['spam'], 0.7),
+    },
+    defaultCategory: listed('LEVEL1', 'Listed in UCEPROTECT Level 1', ['spam'], 0.6),
+  },
+};
+
+const CategorySchema = z.object({
+  list: z.string().min(1),
+  description: z.string().default(''),
+  threat_types: z.array(z.string()).default([]),
+  confidence: z.number().min(0).max(1).default(0.7),
+  weight: z.number().min(0).max(1).default(1),
+  policy: z.boolean().default(false),
+});
+
+const ZoneSchema = z.object({
+  name: z.string().trim().min(1),
+  label: z.string().optional(),
+  zone: z.string().trim().min(1).optional(),
+  ipv6: z.boolean().optional(),
+  weight: z.number().min(0).max(100).optional(),
+  returnCodes: z.record(z.string(), CategorySchema).optional(),
+  defaultCategory: CategorySchema.optional(),
+});
+
+/**
+ * Zone used for `name=zone` entries and JSON entries without return codes
+ */
+const customZone = (name: string, zone: string): DnsblZoneConfig => ({
+  name,
+  label: name,
+  zone,
+  ipv6: false,
+  weight: 20,
+  returnCodes: {},
+  defaultCategory: listed(name.toUpperCase(), `Listed in ${zone}`, ['blacklisted'], 0.7),
+});
+
+const fromEntry = (entry: z.infer<typeof ZoneSchema>): DnsblZoneConfig | null => {
+  const preset = Object.hasOwn(DNSBL_PRESETS, entry.name) ? DNSBL_PRESETS[entry.name] : undefined;
+  const zone = entry.zone ?? preset?.zone;
+  if (!zone) {
+    logger.warn({ dnsbl: entry.name }, 'Ignoring DNSBL zone without a preset or zone name');
+    return null;
+  }
+  const base = preset ?? customZone(entry.name, zone);
+  return {
+    ...base,
+    zone,
+    label: entry.label ?? base.label,
+    ipv6: entry.ipv6 ?? base.ipv6,
+    weight: entry.weight ?? base.weight,
+    returnCodes: entry.returnCodes ?? base.returnCodes,
+    defaultCategory: entry.defaultCategory ?? base.defaultCategory,
+  };
+};
+
+/**
+ * Parse DNSBL zone configuration
+ *
+ * Either a list of preset names and `name=zone` custom zones
+ * (`spamhaus,dronebl,internal=bl.example.net`) or a JSON array of zone objects
+ * with their own `returnCodes` map. Defaults to Spamhaus alone.
+ */
+export const parseDnsblZones = (value: string | undefined): DnsblZoneConfig[] => {
+  const trimmed = value?.trim();
+  if (!trimmed) {
+    return [DNSBL_PRESETS.spamhaus];
+  }
+
+  if (trimmed.startsWith('[')) {
+    const entries = z.array(ZoneSchema).parse(JSON.parse(trimmed));
+    return entries.flatMap(entry => fromEntry(entry) ?? []);
+  }
+
+  return trimmed.split(',').flatMap(item => {
+    const [name, zone] = item.split('=').map(part => part.trim());
+    if (!name) {
+      return [];
+    }
+    if (!zone && !Object.hasOwn(DNSBL_PRESETS, name)) {
+      logger.warn({ dnsbl: name }, 'Ignoring unknown DNSBL preset; configure name=zone for custom zones');
+      return [];
+    }
+    return fromEntry({ name, zone: zone || undefined }) ?? [];
+  });
+};
+
+/**
+ * Decode A-record answers into listings
+ * Configured error codes and answers outside 127.0.0.0/8 mean the answer
+ * cannot be trusted, so they throw instead of producing a listing.
+ */
+export const decodeDnsblAnswers = (zone: DnsblZoneConfig, codes: string[]): DnsblListing[] => {
+  for (const code of codes) {
+    const error = zone.errorCodes && Object.hasOwn(zone.errorCodes, code) ? zone.errorCodes[code] : undefined;
+    if (error) {
+      throw new Error(error);
+    }
+    if (!code.startsWith('127.')) {
+      throw new Error(`Unexpected ${zone.label} answer ${code}`);
+    }
+  }
+
+  return [...new Set(codes)].map(code => {
+    if (Object.hasOwn(zone.returnCodes, code)) {
+      return { ...zone.returnCodes[code], code };
+    }
+    logger.debug({ code, zone: zone.zone }, 'Unknown DNSBL return code');
+    return { ...zone.defaultCategory, code };
+  });
+};
+
+export class DnsblProvider implements ThreatProvider {
+  readonly circuit: CircuitBreaker;
+
+  constructor(
+    private readonly config: DnsblZoneConfig,
+    private readonly resolver: DnsResolver,
+    circuitOptions?: CircuitBreakerOptions
+  ) {
+    this.circuit = new CircuitBreaker(config.name, circuitOptions);
+  }
+
+  get name(): string {
+    return this.config.name;
+  }
+
+  get label(): string {
+    return this.config.label;
+  }
+
+  get zone(): string {
+    return this.config.zone;
+  }
+
+  /** Maximum points the zone adds to the threat score */
+  get weight(): number {
+    return this.config.weight;
+  }
+
+  /** Zones need no credentials */
+  isConfigured(): boolean {
+    return true;
+  }
+
+  /** Valid addresses of a family the zone lists */
+  handles(ip: string): boolean {
+    const parsed = parseIp(ip);
+    if (!parsed || !reverseIpForDnsbl(ip)) {
+      return false;
+    }
+    return unwrapIpv4Mapped(parsed).version === 4 || Boolean(this.config.ipv6);
+  }
+
+  /**
+   * Check IP against the zone
+   * Policy listings are reported in `listings` but do not mark the IP as listed.
+   *
+   * @param ip - IP address to check
+   * @returns Threat intelligence result
+   */
+  async checkIP(ip: string): Promise<ThreatIntelResult> {
+    try {
+      const parsed = parseIp(ip);
+      const reversedIP = reverseIpForDnsbl(ip);
+      if (!parsed || !reversedIP) {
+        return this.failure('Invalid IP address format');
+      }
+
+      const version = unwrapIpv4Mapped(parsed).version;
+      if (version === 6 && !this.config.ipv6) {
+        return this.failure(`${this.config.label} does not list IPv6 addresses`);
+      }
+
+      // Refusal codes count against the circuit like resolver failures
+      const listings = await this.circuit.execute(async () =>
+        decodeDnsblAnswers(this.config, await this.resolver.resolveA(`${reversedIP}.${this.zone}`))
+      );
+      const threats = listings.filter(listing => !listing.policy);
+      const isListed = threats.length > 0;
+
+      const result: ThreatIntelResult = {
+        source: this.config.label,
+        is_listed: isListed,
+        threat_types: [...new Set(threats.flatMap(listing => listing.threat_types))],
+        confidence: isListed ? Math.max(...threats.map(listing => listing.confidence)) : 0.05,
+        weight: isListed ? Math.max(...threats.map(listing => listing.weight)) : 0,
+        last_checked: new Date().toISOString(),
+        list_type: 'DNSBL',
+        reports: listings.length,
+        listings,
+      };
+
+      logger.debug(
+        { ip, zone: this.zone, version, isListed, lists: listings.map(listing => listing.list) },
+        'DNSBL check completed'
+      );
+      return result;
+    } catch (error) {
+      if (error instanceof CircuitOpenError) {
+        logger.debug({ ip, zone: this.zone }, 'DNSBL circuit open, skipping check');
+        return { ...this.failure(error.message), circuit_open: true };
+      }
+      logger.error({ ip, zone: this.zone, error }, 'DNSBL check failed');
+      return this.failure(error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+
+  /**
+   * Get rate limit information, if the zone publishes one
+   *
+   * @returns Rate limit details
+   */
+  getRateLimit(): ThreatRateLimit | undefined {
+    return this.config.rateLimit ? { ...this.config.rateLimit } : undefined;
+  }
+
+  private failure(error: string): ThreatIntelResult {
+    return { source: this.config.label, is_listed: false, threat_types: [], confidence: 0, error };
+  }
+}
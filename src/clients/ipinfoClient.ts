@@ -1,15 +1,18 @@
 import { config } from '../config';
 import type { IpInfoDetails } from '../types/ip';
-import { httpRequest } from '../utils/httpClient';
+import { upstreamHttp } from '../utils/httpClient';
 
 const BASE_URL = 'https://ipinfo.io';
 
+/** Maximum number of IPs ipinfo accepts in a single batch request */
+export const IPINFO_BATCH_LIMIT = 100;
+
 export async function fetchIpInfo(ip: string): Promise<IpInfoDetails> {
   if (!config.IPINFO_TOKEN) {
     throw new Error('IPINFO_TOKEN is required for ipinfo requests');
   }
   const url = `${BASE_URL}/${encodeURIComponent(ip)}`;
-  return httpRequest<IpInfoDetails>(url, {
+  return upstreamHttp.json<IpInfoDetails>('ipinfo', url, {
     headers: {
       Authorization: `Bearer ${config.IPINFO_TOKEN}`,
       Accept: 'application/json',
@@ -17,18 +20,23 @@ export async function fetchIpInfo(ip: string): Promise<IpInfoDetails> {
   });
 }
 
-export async function fetchIpInfoBatch(ips: string[]): Promise<IpInfoDetails[]> {
+/**
+ * Resolve up to {@link IPINFO_BATCH_LIMIT} IPs in one request.
+ * ipinfo answers with an object keyed by the requested IP; entries for IPs it
+ * could not resolve carry an error payload instead of details.
+ */
+export async function fetchIpInfoBatch(ips: string[]): Promise<Record<string, IpInfoDetails>> {
   if (!config.IPINFO_TOKEN) {
     throw new Error('IPINFO_TOKEN is required for ipinfo requests');
   }
   if (ips.length === 0) {
-    return [];
+    return {};
   }
-  if (ips.length > 100) {
-    throw new Error('Batch size cannot exceed 100 IPs');
+  if (ips.length > IPINFO_BATCH_LIMIT) {
+    throw new Error(`Batch size cannot exceed ${IPINFO_BATCH_LIMIT} IPs`);
   }
   const url = `${BASE_URL}/batch`;
-  return httpRequest<IpInfoDetails[]>(url, {
+  return upstreamHttp.json<Record<string, IpInfoDetails>>('ipinfo', url, {
     method: 'POST',
     headers: {
       Authorization: `Bearer ${config.IPINFO_TOKEN}`,
@@ -0,0 +1,69 @@
+/**
+ * MMDB Client
+ * Reads MaxMind GeoLite2 / DB-IP databases from disk for offline lookups.
+ * Readers are opened on first use and reloaded in place when the files change.
+ */
+
+import maxmind, { type AnonymousIPResponse, type AsnResponse, type CityResponse, type Reader } from 'maxmind';
+import { config } from '../config';
+import type { MmdbRecords } from '../types/ip';
+import { logger } from '../utils/logger';
+
+interface MmdbReaders {
+  city?: Reader<CityResponse>;
+  asn?: Reader<AsnResponse>;
+  anonymous?: Reader<AnonymousIPResponse>;
+}
+
+let readersPromise: Promise<MmdbReaders> | null = null;
+
+const openDatabase = async <T extends CityResponse | AsnResponse | AnonymousIPResponse>(
+  path: string | undefined,
+  database: string
+): Promise<Reader<T> | undefined> => {
+  if (!path) {
+    return undefined;
+  }
+  const reader = await maxmind.open<T>(path, {
+    watchForUpdates: true,
+    // Don't keep the process alive just to watch the file
+    watchForUpdatesNonPersistent: true,
+    watchForUpdatesHook: () => logger.info({ database, path }, 'MMDB database reloaded'),
+  });
+  logger.info({ database, path, buildEpoch: reader.metadata.buildEpoch }, 'MMDB database opened');
+  return reader;
+};
+
+const getReaders = (): Promise<MmdbReaders> => {
+  if (!readersPromise) {
+    readersPromise = Promise.all([
+      openDatabase<CityResponse>(config.MMDB_CITY_PATH, 'city'),
+      openDatabase<AsnResponse>(config.MMDB_ASN_PATH, 'asn'),
+      openDatabase<AnonymousIPResponse>(config.MMDB_ANONYMOUS_IP_PATH, 'anonymous-ip'),
+    ]).then(([city, asn, anonymous]) => ({ city, asn, anonymous }));
+    // Allow a later lookup to retry if a file was missing or corrupt
+    readersPromise.catch(() => {
+      readersPromise = null;
+    });
+  }
+  return readersPromise;
+};
+
+export const isMmdbConfigured = (): boolean => Boolean(config.MMDB_CITY_PATH || config.MMDB_ASN_PATH);
+
+/**
+ * Look up an IP in every configured database
+ * Returns null when none of the databases has a record for the address.
+ */
+export async function lookupMmdb(ip: string): Promise<MmdbRecords | null> {
+  if (!isMmdbConfigured()) {
+    throw new Error('MMDB_CITY_PATH or MMDB_ASN_PATH is required for MMDB lookups');
+  }
+  const readers = await getReaders();
+  const records: MmdbRecords = {
+    city: readers.city?.get(ip),
+    asn: readers.asn?.get(ip),
+    anonymous: readers.anonymous?.get(ip),
+  };
+  return records.city || records.asn ? records : null;
+}
@@ -0,0 +1,305 @@
+/**
+ * RDAP Client
+ * Looks up who registered an IP network or ASN and how to reach its abuse
+ * desk. The IANA bootstrap files (RFC 9224) name the registry responsible for
+ * each block; the registry's answer (RFC 9083) is normalized to `RdapRecord`.
+ *
+ * Runtime-neutral: requests go through the injected `UpstreamHttp` and
+ * records are kept in the injected cache. Bootstrap files are held in memory
+ * and re-read once a day.
+ */
+
+import type {
+  RdapBootstrapFile,
+  RdapBootstrapRegistry,
+  RdapContact,
+  RdapEntity,
+  RdapObject,
+  RdapRecord,
+  RdapRegistry,
+} from '../types/rdap';
+import type { CacheAdapter } from '../utils/cacheInterface';
+import { formatIp, normalizeIp, parseIp } from '../utils/ip';
+import { PrefixTrie } from '../utils/prefixTrie';
+import { UpstreamHttp } from '../utils/upstreamHttp';
+
+export const DEFAULT_RDAP_BOOTSTRAP_URL = 'https://data.iana.org/rdap';
+export const DEFAULT_RDAP_TTL_MS = 24 * 60 * 60 * 1000;
+/** Registries fill gaps in their data now and then, so "not found" is not kept as long */
+export const DEFAULT_RDAP_NOT_FOUND_TTL_MS = 60 * 60 * 1000;
+/** IANA updates the bootstrap files a few times a year */
+const BOOTSTRAP_TTL_MS = 24 * 60 * 60 * 1000;
+
+export interface RdapClientOptions {
+  /** Records by query; null marks a query the registry answered with 404 */
+  cache: CacheAdapter<RdapRecord | null>;
+  /** Shared upstream HTTP client; a private fetch-based one is created without it */
+  http?: UpstreamHttp;
+  /** How long records are cached */
+  ttlMs?: number;
+  /** How long a 404 from the registry is cached */
+  notFoundTtlMs?: number;
+  /** Directory holding `ipv4.json`, `ipv6.json` and `asn.json` */
+  bootstrapUrl?: string;
+}
+
+interface AsnService {
+  start: number;
+  end: number;
+  url: string;
+}
+
+interface LoadedBootstrap<T> {
+  services: T;
+  loadedAt: number;
+}
+
+const REGISTRY_HOSTS: Array<[RegExp, RdapRegistry]> = [
+  [/(^|\.)arin\.net$/, 'ARIN'],
+  [/(^|\.)ripe\.net$/, 'RIPE NCC'],
+  [/(^|\.)apnic\.net$/, 'APNIC'],
+  [/(^|\.)lacnic\.net$/, 'LACNIC'],
+  [/(^|\.)afrinic\.net$/, 'AFRINIC'],
+];
+
+const registryOf = (host: string | undefined): RdapRegistry | undefined =>
+  host ? REGISTRY_HOSTS.find(([pattern]) => pattern.test(host.toLowerCase()))?.[1] : undefined;
+
+const hostOf = (url: string): string | undefined => {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Base URL of a bootstrap service, preferring HTTPS
+ */
+const serviceUrl = (urls: string[]): string | undefined => {
+  const url = urls.find(candidate => candidate.startsWith('https://')) ?? urls[0];
+  return url ? (url.endsWith('/') ? url : `${url}/`) : undefined;
+};
+
+export const parseIpBootstrap = (file: RdapBootstrapFile): PrefixTrie<string> => {
+  const trie = new PrefixTrie<string>();
+  for (const [prefixes, urls] of file.services) {
+    const url = serviceUrl(urls);
+    if (url) {
+      prefixes.forEach(prefix => trie.insert(prefix, url));
+    }
+  }
+  return trie;
+};
+
+export const parseAsnBootstrap = (file: RdapBootstrapFile): AsnService[] =>
+  file.services.flatMap(([ranges, urls]) => {
+    const url = serviceUrl(urls);
+    if (!url) {
+      return [];
+    }
+    return ranges.flatMap(range => {
+      const [start, end = start] = range.split('-').map(Number);
+      return Number.isInteger(start) && Number.isInteger(end) ? [{ start, end, url }] : [];
+    });
+  });
+
+/**
+ * Smallest set of CIDRs covering an address range
+ */
+export const rangeToCidrs = (startAddress: string, endAddress: string): string[] => {
+  const start = parseIp(startAddress);
+  const end = parseIp(endAddress);
+  if (!start || !end || start.version !== end.version || start.value > end.value) {
+    return [];
+  }
+  const width = start.version === 4 ? 32 : 128;
+  const cidrs: string[] = [];
+  let current = start.value;
+  while (current <= end.value) {
+    // Largest block aligned at `current` that stays inside the range
+    let length = width;
+    while (length > 0) {
+      const size = 1n << BigInt(width - length + 1);
+      if (current % size !== 0n || current + size - 1n > end.value) {
+        break;
+      }
+      length -= 1;
+    }
+    cidrs.push(`${formatIp({ version: start.version, value: current })}/${length}`);
+    current += 1n << BigInt(width - length);
+  }
+  return cidrs;
+};
+
+const vcardText = (entity: RdapEntity, field: string): string | undefined => {
+  const property = entity.vcardArray?.[1]?.find(([name]) => name === field);
+  if (!property) {
+    return undefined;
+  }
+  const [, params, , value] = property;
+  if (field === 'adr') {
+    // Registries put the printable address either in the label or in the structured value
+    if (typeof params.label === 'string') {
+      return params.label.replace(/\n/g, ', ');
+    }
+    return Array.isArray(value)
+      ? value
+          .flat()
+          .filter(part => typeof part === 'string' && part)
+          .join(', ') || undefined
+      : undefined;
+  }
+  return typeof value === 'string' && value ? value.replace(/^(tel|mailto):/, '') : undefined;
+};
+
+/** Entities with their nested entities (ARIN lists the abuse POC under the organization) */
+const flattenEntities = (entities: RdapEntity[] = []): RdapEntity[] =>
+  entities.flatMap(entity => [entity, ...flattenEntities(entity.entities)]);
+
+const toContact = (entity: RdapEntity): RdapContact => ({
+  handle: entity.handle,
+  name: vcardText(entity, 'fn'),
+  email: vcardText(entity, 'email'),
+  phone: vcardText(entity, 'tel'),
+  address: vcardText(entity, 'adr'),
+  roles: entity.roles ?? [],
+});
+
+const eventDate = (object: RdapObject, action: string): string | undefined =>
+  object.events?.find(event => event.eventAction === action)?.eventDate;
+
+/**
+ * Normalize a registry answer
+ *
+ * @param query - Address or "AS…" that was looked up
+ * @param url - Final URL the answer came from, after redirects between registries
+ */
+export const normalizeRdap = (query: string, object: RdapObject, url: string): RdapRecord => {
+  const entities = flattenEntities(object.entities);
+  const registrant = entities.find(entity => entity.roles?.includes('registrant'));
+  const isAutnum = object.objectClassName === 'autnum' || object.startAutnum !== undefined;
+  const cidrs = object.cidr0_cidrs?.length
+    ? object.cidr0_cidrs.map(({ v4prefix, v6prefix, length }) => `${v4prefix ?? v6prefix}/${length}`)
+    : object.startAddress && object.endAddress
+      ? rangeToCidrs(object.startAddress, object.endAddress)
+      : [];
+
+  return {
+    query,
+    object_type: isAutnum ? 'autnum' : 'ip network',
+    handle: object.handle,
+    name: object.name,
+    organization: registrant ? vcardText(registrant, 'fn') : undefined,
+    type: object.type,
+    ...(isAutnum
+      ? {
+          asn_range:
+            object.startAutnum !== undefined
+              ? { start: object.startAutnum, end: object.endAutnum ?? object.startAutnum }
+              : undefined,
+        }
+      : { cidrs, start_address: object.startAddress, end_address: object.endAddress }),
+    status: object.status,
+    rir: registryOf(object.port43) ?? registryOf(hostOf(url)),
+    country: object.country,
+    registration_date: eventDate(object, 'registration'),
+    last_changed_date: eventDate(object, 'last changed'),
+    abuse_contacts: entities.filter(entity => entity.roles?.includes('abuse')).map(toContact),
+    rdap_url: url,
+    fetched_at: new Date().toISOString(),
+  };
+};
+
+export class RdapClient {
+  private readonly http: UpstreamHttp;
+  private readonly cache: CacheAdapter<RdapRecord | null>;
+  private readonly ttlMs: number;
+  private readonly notFoundTtlMs: number;
+  private readonly bootstrapUrl: string;
+  private readonly bootstrap: Partial<Record<RdapBootstrapRegistry, Promise<LoadedBootstrap<unknown>>>> = {};
+
+  constructor(options: RdapClientOptions) {
+    this.http = options.http ?? new UpstreamHttp();
+    this.cache = options.cache;
+    this.ttlMs = options.ttlMs ?? DEFAULT_RDAP_TTL_MS;
+    this.notFoundTtlMs = options.notFoundTtlMs ?? DEFAULT_RDAP_NOT_FOUND_TTL_MS;
+    this.bootstrapUrl = (options.bootstrapUrl ?? DEFAULT_RDAP_BOOTSTRAP_URL).replace(/\/$/, '');
+  }
+
+  /**
+   * Registration of the network containing an address
+   *
+   * @returns Null for addresses no registry covers (private and reserved space) or that the registry does not know
+   */
+  async lookupIp(rawIp: string): Promise<RdapRecord | null> {
+    const ip = normalizeIp(rawIp);
+    if (!ip) {
+      return null;
+    }
+    const registry = parseIp(ip)?.version === 4 ? 'ipv4' : 'ipv6';
+    const services = await this.loadBootstrap(registry, parseIpBootstrap);
+    const base = services.lookup(ip)?.value;
+    return base ? this.fetchRecord(`ip:${ip}`, ip, `${base}ip/${ip}`) : null;
+  }
+
+  /**
+   * Registration of an ASN
+   *
+   * @returns Null for ASNs no registry covers (private and reserved ranges) or that the registry does not know
+   */
+  async lookupAsn(asn: number): Promise<RdapRecord | null> {
+    const services = await this.loadBootstrap('asn', parseAsnBootstrap);
+    const base = services.find(({ start, end }) => asn >= start && asn <= end)?.url;
+    return base ? this.fetchRecord(`asn:${asn}`, `AS${asn}`, `${base}autnum/${asn}`) : null;
+  }
+
+  private async fetchRecord(key: string, query: string, url: string): Promise<RdapRecord | null> {
+    const cacheKey = `rdap:${key}`;
+    const cached = await this.cache.get(cacheKey);
+    if (cached) {
+      return cached.data;
+    }
+
+    const response = await this.http.request('rdap', url, { headers: { Accept: 'application/rdap+json' } });
+    if (response.status === 404) {
+      await this.cache.set(cacheKey, null, this.notFoundTtlMs, this.notFoundTtlMs);
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`RDAP request failed: ${response.status}`);
+    }
+    const record = normalizeRdap(query, (await response.json()) as RdapObject, response.url || url);
+    await this.cache.set(cacheKey, record, this.ttlMs, this.ttlMs);
+    return record;
+  }
+
+  /**
+   * Parsed bootstrap file, fetched on first use and again once it is a day old
+   */
+  private async loadBootstrap<T>(registry: RdapBootstrapRegistry, parse: (file: RdapBootstrapFile) => T): Promise<T> {
+    const current = this.bootstrap[registry] as Promise<LoadedBootstrap<T>> | undefined;
+    const loaded = await current?.catch(() => undefined);
+    if (loaded && Date.now() - loaded.loadedAt < BOOTSTRAP_TTL_MS) {
+      return loaded.services;
+    }
+    // Concurrent lookups share one download; a failed one is retried by the next lookup
+    if (this.bootstrap[registry] === current) {
+      this.bootstrap[registry] = this.fetchBootstrap(registry).then(file => ({
+        services: parse(file),
+        loadedAt: Date.now(),
+      }));
+    }
+    return ((await this.bootstrap[registry]) as LoadedBootstrap<T>).services;
+  }
+
+  private async fetchBootstrap(registry: RdapBootstrapRegistry): Promise<RdapBootstrapFile> {
+    const response = await this.http.request('rdap', `${this.bootstrapUrl}/${registry}.json`, {
+      headers: { Accept: 'application/json' },
+    });
+    if (!response.ok) {
+      throw new Error(`RDAP bootstrap request failed: ${response.status}`);
+    }
+    return (await response.json()) as RdapBootstrapFile;
+  }
+}
@@ -1,4 +1,8 @@
 import { z } from 'zod';
+import { CLIENT_IP_HEADERS, DEFAULT_CLIENT_IP_HEADERS, DEFAULT_TRUSTED_PROXIES } from './utils/clientIp';
+import { parseCidr } from './utils/prefixTrie';
+
+const IP_PROVIDERS = ['ipinfo', 'radar', 'mmdb'] as const;
 
 const ConfigSchema = z
   .object({
@@ -15,6 +19,44 @@ const ConfigSchema = z
       .int()
       .positive()
       .default(60 * 60 * 1000), // 1 hour for threat intel
+    // Threat results past CACHE_TTL_THREATS_MS are served stale until this, while refreshing
+    CACHE_STALE_TTL_THREATS_MS: z.coerce
+      .number()
+      .int()
+      .positive()
+      .default(6 * 60 * 60 * 1000),
+    // Errored provider results are retried after this
+    CACHE_TTL_THREATS_NEGATIVE_MS: z.coerce
+      .number()
+      .int()
+      .positive()
+      .default(60 * 1000),
+    // DNS blacklists, e.g. "spamhaus,dronebl,internal=bl.example.net" or a JSON array of zones
+    DNSBL_ZONES: z.string().optional(),
+    DNSBL_RESOLVER: z.enum(['doh', 'dns']).default('doh'),
+    DNSBL_DOH_URL: z.string().url().default('https://cloudflare-dns.com/dns-query'),
+    // Resolver addresses for DNSBL_RESOLVER=dns; system resolvers when unset
+    DNSBL_DNS_SERVERS: z
+      .string()
+      .optional()
+      .transform(val =>
+        val
+          ? val
+              .split(',')
+              .map(server => server.trim())
+              .filter(Boolean)
+          : []
+      ),
+    DNSBL_TIMEOUT_MS: z.coerce.number().int().positive().default(3000),
+    // PTR and forward-confirmation queries, through the DNSBL resolver
+    REVERSE_DNS_TIMEOUT_MS: z.coerce.number().int().positive().default(2000),
+    REVERSE_DNS_TTL_MS: z.coerce
+      .number()
+      .int()
+      .positive()
+      .default(6 * 60 * 60 * 1000),
+    // Threat score points per provider, e.g. "abuseipdb:60,spamhaus:40,dronebl:25"
+    THREAT_PROVIDER_WEIGHTS: z.string().optional(),
     CORS_ALLOWED_ORIGINS: z
       .string()
       .optional()
@@ -22,6 +64,25 @@ const ConfigSchema = z
         if (!val) return ['*']; // Allow all in development
         return val.split(',').map(origin => origin.trim());
       }),
+    // Reverse proxies allowed to report the client address, as CIDRs or bare addresses
+    TRUSTED_PROXIES: z
+      .string()
+      .optional()
+      .transform(val =>
+        val !== undefined
+          ? val
+              .split(',')
+              .map(cidr => cidr.trim())
+              .filter(Boolean)
+          : DEFAULT_TRUSTED_PROXIES
+      )
+      .pipe(z.array(z.string().refine(cidr => parseCidr(cidr) !== null, 'Invalid trusted proxy CIDR'))),
+    // Forwarding headers read from trusted proxies, highest precedence first
+    CLIENT_IP_HEADERS: z
+      .string()
+      .optional()
+      .transform(val => (val ? val.split(',').map(name => name.trim().toLowerCase()) : [...DEFAULT_CLIENT_IP_HEADERS]))
+      .pipe(z.array(z.enum(CLIENT_IP_HEADERS))),
     LOG_LEVEL: z.enum(['fatal', 'error', 'warn', 'info', 'debug', 'trace']).default('info'),
     CACHE_TTL_MS: z.coerce
       .number()
@@ -39,15 +100,100 @@ const ConfigSchema = z
     CACHE_WARMING_DELAY_MS: z.coerce.number().int().nonnegative().default(100),
     REDIS_URL: z.string().optional(),
     CLIENT_TIMEOUT_MS: z.coerce.number().int().positive().default(2500),
+    // Upstream HTTP: attempts in flight across providers, undici pool size and idle keep-alive per origin
+    UPSTREAM_MAX_CONCURRENCY: z.coerce.number().int().positive().default(32),
+    UPSTREAM_CONNECTIONS_PER_HOST: z.coerce.number().int().positive().default(10),
+    UPSTREAM_KEEPALIVE_MS: z.coerce
+      .number()
+      .int()
+      .positive()
+      .default(30 * 1000),
+    // Per-provider overrides, e.g. "abuseipdb:timeoutMs=4000;ipinfo:retries=2,backoffMs=200"
+    UPSTREAM_POLICIES: z.string().optional(),
+    // Upstream circuit breakers: consecutive failures that open one, and how long it stays open
+    CIRCUIT_FAILURE_THRESHOLD: z.coerce.number().int().positive().default(5),
+    CIRCUIT_COOLDOWN_MS: z.coerce
+      .number()
+      .int()
+      .positive()
+      .default(30 * 1000),
+    IP_BATCH_MAX_SIZE: z.coerce.number().int().positive().default(1000),
+    // Offline MaxMind GeoLite2 / DB-IP databases
+    MMDB_CITY_PATH: z.string().trim().min(1).optional(),
+    MMDB_ASN_PATH: z.string().trim().min(1).optional(),
+    MMDB_ANONYMOUS_IP_PATH: z.string().trim().min(1).optional(),
+    // Tor relay directory: Onionoo details JSON, exit-addresses or the bulk exit list
+    TOR_DIRECTORY_PATH: z.string().trim().min(1).optional(),
+    TOR_DIRECTORY_URL: z.string().url().optional(),
+    TOR_DIRECTORY_REFRESH_MS: z.coerce
+      .number()
+      .int()
+      .positive()
+      .default(30 * 60 * 1000),
+    // Published cloud ranges, e.g. "aws,gcp,oracle,azure=/data/ServiceTags_Public.json"
+    CLOUD_RANGES_SOURCES: z.string().optional(),
+    CLOUD_RANGES_REFRESH_MS: z.coerce
+      .number()
+      .int()
+      .positive()
+      .default(24 * 60 * 60 * 1000),
+    // Prefix-to-origin-ASN table: pyasn / RouteViews ipasn or CAIDA prefix2as, optionally gzipped
+    ROUTING_TABLE_PATH: z.string().trim().min(1).optional(),
+    ROUTING_TABLE_URL: z.string().url().optional(),
+    ROUTING_TABLE_REFRESH_MS: z.coerce
+      .number()
+      .int()
+      .positive()
+      .default(24 * 60 * 60 * 1000),
+    // Browser release calendar replacing (per browser) the bundled one
+    BROWSER_RELEASES_PATH: z.string().trim().min(1).optional(),
+    // RDAP registration data; bootstrap directory holding IANA's ipv4.json, ipv6.json and asn.json
+    RDAP_BOOTSTRAP_URL: z.string().url().default('https://data.iana.org/rdap'),
+    RDAP_CACHE_TTL_MS: z.coerce
+      .number()
+      .int()
+      .positive()
+      .default(24 * 60 * 60 * 1000),
+    // IP intelligence providers, highest priority first
+    IP_PROVIDER_ORDER: z
+      .string()
+      .optional()
+      .transform(val => (val ? val.split(',').map(name => name.trim()) : ['ipinfo', 'radar', 'mmdb']))
+      .pipe(z.array(z.enum(IP_PROVIDERS)).min(1)),
+    IP_PROVIDER_STRATEGY: z.enum(['first-success', 'merge-all', 'field-priority']).default('first-success'),
+    // e.g. "city:radar,ipinfo;asn:ipinfo" (used by the field-priority strategy)
+    IP_PROVIDER_FIELD_PRIORITY: z
+      .string()
+      .optional()
+      .refine(
+        val =>
+          !val ||
+          val
+            .split(';')
+            .flatMap(entry => (entry.split(':')[1] ?? '').split(','))
+            .map(name => name.trim())
+            .every(name => !name || (IP_PROVIDERS as readonly string[]).includes(name)),
+        { message: `Field priority providers must be among ${IP_PROVIDERS.join(', ')}.` }
+      ),
     CREEPJS_ASSETS_PATH: z
       .string()
       .default(typeof process !== 'undefined' && process.cwd ? `${process.cwd()}/../creepjs/dist` : '../creepjs/dist'),
   })
   .superRefine((value, ctx) => {
-    if (!value.IPINFO_TOKEN && !(value.CLOUDFLARE_ACCOUNT_ID && value.CLOUDFLARE_RADAR_TOKEN)) {
+    if (value.CACHE_STALE_TTL_THREATS_MS <= value.CACHE_TTL_THREATS_MS) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['CACHE_STALE_TTL_THREATS_MS'],
+        message: 'CACHE_STALE_TTL_THREATS_MS must exceed CACHE_TTL_THREATS_MS.',
+      });
+    }
+    const hasRadar = Boolean(value.CLOUDFLARE_ACCOUNT_ID && value.CLOUDFLARE_RADAR_TOKEN);
+    const hasMmdb = Boolean(value.MMDB_CITY_PATH || value.MMDB_ASN_PATH);
+    if (!value.IPINFO_TOKEN && !hasRadar && !hasMmdb) {
       ctx.addIssue({
         code: z.ZodIssueCode.custom,
-        message: 'Provide IPINFO_TOKEN or both CLOUDFLARE_ACCOUNT_ID and CLOUDFLARE_RADAR_TOKEN.',
+        message:
+          'Provide IPINFO_TOKEN, both CLOUDFLARE_ACCOUNT_ID and CLOUDFLARE_RADAR_TOKEN, or MMDB_CITY_PATH / MMDB_ASN_PATH.',
       });
     }
   });
@@ -61,7 +207,19 @@ const parsed = ConfigSchema.safeParse({
   ABUSEIPDB_API_KEY: process.env.ABUSEIPDB_API_KEY,
   ENABLE_THREAT_INTEL: process.env.ENABLE_THREAT_INTEL,
   CACHE_TTL_THREATS_MS: process.env.CACHE_TTL_THREATS_MS,
+  CACHE_STALE_TTL_THREATS_MS: process.env.CACHE_STALE_TTL_THREATS_MS,
+  CACHE_TTL_THREATS_NEGATIVE_MS: process.env.CACHE_TTL_THREATS_NEGATIVE_MS,
+  DNSBL_ZONES: process.env.DNSBL_ZONES,
+  DNSBL_RESOLVER: process.env.DNSBL_RESOLVER,
+  DNSBL_DOH_URL: process.env.DNSBL_DOH_URL,
+  DNSBL_DNS_SERVERS: process.env.DNSBL_DNS_SERVERS,
+  DNSBL_TIMEOUT_MS: process.env.DNSBL_TIMEOUT_MS,
+  REVERSE_DNS_TIMEOUT_MS: process.env.REVERSE_DNS_TIMEOUT_MS,
+  REVERSE_DNS_TTL_MS: process.env.REVERSE_DNS_TTL_MS,
+  THREAT_PROVIDER_WEIGHTS: process.env.THREAT_PROVIDER_WEIGHTS,
   CORS_ALLOWED_ORIGINS: process.env.CORS_ALLOWED_ORIGINS,
+  TRUSTED_PROXIES: process.env.TRUSTED_PROXIES,
+  CLIENT_IP_HEADERS: process.env.CLIENT_IP_HEADERS,
   LOG_LEVEL: process.env.LOG_LEVEL,
   CACHE_TTL_MS: process.env.CACHE_TTL_MS,
   CACHE_STALE_TTL_MS: process.env.CACHE_STALE_TTL_MS,
@@ -71,6 +229,27 @@ const parsed = ConfigSchema.safeParse({
   CACHE_WARMING_DELAY_MS: process.env.CACHE_WARMING_DELAY_MS,
   REDIS_URL: process.env.REDIS_URL,
   CLIENT_TIMEOUT_MS: process.env.CLIENT_TIMEOUT_MS,
+  UPSTREAM_MAX_CONCURRENCY: process.env.UPSTREAM_MAX_CONCURRENCY,
+  UPSTREAM_CONNECTIONS_PER_HOST: process.env.UPSTREAM_CONNECTIONS_PER_HOST,
+  UPSTREAM_KEEPALIVE_MS: process.env.UPSTREAM_KEEPALIVE_MS,
+  UPSTREAM_POLICIES: process.env.UPSTREAM_POLICIES,
+  CIRCUIT_FAILURE_THRESHOLD: process.env.CIRCUIT_FAILURE_THRESHOLD,
+  CIRCUIT_COOLDOWN_MS: process.env.CIRCUIT_COOLDOWN_MS,
+  IP_BATCH_MAX_SIZE: process.env.IP_BATCH_MAX_SIZE,
+  MMDB_CITY_PATH: process.env.MMDB_CITY_PATH,
+  MMDB_ASN_PATH: process.env.MMDB_ASN_PATH,
+  MMDB_ANONYMOUS_IP_PATH: process.env.MMDB_ANONYMOUS_IP_PATH,
+  TOR_DIRECTORY_PATH: process.env.TOR_DIRECTORY_PATH,
+  TOR_DIRECTORY_URL: process.env.TOR_DIRECTORY_URL,
+  TOR_DIRECTORY_REFRESH_MS: process.env.TOR_DIRECTORY_REFRESH_MS,
+  CLOUD_RANGES_SOURCES: process.env.CLOUD_RANGES_SOURCES,
+  CLOUD_RANGES_REFRESH_MS: process.env.CLOUD_RANGES_REFRESH_MS,
+  BROWSER_RELEASES_PATH: process.env.BROWSER_RELEASES_PATH,
+  RDAP_BOOTSTRAP_URL: process.env.RDAP_BOOTSTRAP_URL,
+  RDAP_CACHE_TTL_MS: process.env.RDAP_CACHE_TTL_MS,
+  IP_PROVIDER_ORDER: process.env.IP_PROVIDER_ORDER,
+  IP_PROVIDER_STRATEGY: process.env.IP_PROVIDER_STRATEGY,
+  IP_PROVIDER_FIELD_PRIORITY: process.env.IP_PROVIDER_FIELD_PRIORITY,
   CREEPJS_ASSETS_PATH: process.env.CREEPJS_ASSETS_PATH,
 });
 
@@ -0,0 +1,44 @@
+import type { Request } from 'express';
+import { config } from '../config';
+import { ClientIpResolver, type ClientIpResolution, type HeaderReader } from '../utils/clientIp';
+import { inspectProxyHeaders } from '../services/proxyHeaders';
+import type { ProxyHeaderAnalysis } from '../types/headers';
+
+const clientIpResolver = new ClientIpResolver({
+  trustedProxies: config.TRUSTED_PROXIES,
+  headers: config.CLIENT_IP_HEADERS,
+});
+
+const resolutions = new WeakMap<Request, ClientIpResolution>();
+
+const headerReader =
+  (req: Request): HeaderReader =>
+  name => {
+    const value = req.headers[name];
+    return Array.isArray(value) ? value.join(',') : value;
+  };
+
+/**
+ * Client address of a request behind the configured trusted proxies
+ * Resolved once per request; rate limiting, logging and routes all read it
+ * from here instead of `req.ip` or the raw headers.
+ */
+export const resolveClientIp = (req: Request): ClientIpResolution => {
+  let resolution = resolutions.get(req);
+  if (!resolution) {
+    resolution = clientIpResolver.resolve(headerReader(req), req.socket?.remoteAddress ?? '');
+    resolutions.set(req, resolution);
+  }
+  return resolution;
+};
+
+export const getClientIp = (req: Request): string | null => resolveClientIp(req).ip;
+
+/**
+ * Proxies revealed by a request's headers, ignoring hops through our own trusted proxies
+ */
+export const inspectRequestProxyHeaders = (req: Request): ProxyHeaderAnalysis =>
+  inspectProxyHeaders(headerReader(req), {
+    clientIp: getClientIp(req),
+    isTrustedProxy: ip => clientIpResolver.isTrustedProxy(ip),
+  });
@@ -1,23 +1,25 @@
-import rateLimit from 'express-rate-limit';
+import rateLimit, { ipKeyGenerator } from 'express-rate-limit';
 import type { Request } from 'express';
+import { getClientIp } from './clientIp';
 
 export const rateLimiter = rateLimit({
   windowMs: 60 * 1000, // 1 minute window
   limit: 60, // 60 requests per minute per IP
   standardHeaders: 'draft-7',
   legacyHeaders: false,
+  // Forwarding headers are handled by the client IP resolver, not `trust proxy`
+  validate: { xForwardedForHeader: false },
 
-  // Use client IP as the key for rate limiting
+  // Use client IP as the key for rate limiting (IPv6 clients per /56)
   keyGenerator: (req: Request) => {
-    const forwarded = req.headers['x-forwarded-for'] as string | undefined;
-    const ip = forwarded?.split(',')[0]?.trim() || req.socket?.remoteAddress || 'unknown';
-    return ip;
+    const ip = getClientIp(req);
+    return ip ? ipKeyGenerator(ip) : 'unknown';
   },
 
   // Skip rate limiting for specific IPs (e.g., health checks, monitoring)
   skip: (req: Request) => {
-    const ip = req.socket?.remoteAddress || '';
-    const whitelistedIPs = ['127.0.0.1', '::1', '::ffff:127.0.0.1'];
+    const ip = getClientIp(req) ?? '';
+    const whitelistedIPs = ['127.0.0.1', '::1'];
     return whitelistedIPs.includes(ip);
   },
 
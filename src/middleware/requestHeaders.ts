@@ -0,0 +1,14 @@
+import type { Request } from 'express';
+import type { RequestHeaderSnapshot } from '../types/headers';
+
+/**
+ * Headers of a request in the order they arrived
+ * Read from `rawHeaders`, since `req.headers` merges duplicates and loses order.
+ */
+export const snapshotRequestHeaders = (req: Request): RequestHeaderSnapshot => {
+  const entries: RequestHeaderSnapshot['entries'] = [];
+  for (let i = 0; i + 1 < req.rawHeaders.length; i += 2) {
+    entries.push([req.rawHeaders[i].toLowerCase(), req.rawHeaders[i + 1]]);
+  }
+  return { entries, ordered: true };
+};
@@ -1,10 +1,10 @@
 import type { Request, Response, NextFunction } from 'express';
 import { logger, redactIp } from '../utils/logger';
+import { getClientIp } from './clientIp';
 
 export const requestLogger = (req: Request, res: Response, next: NextFunction) => {
   const start = Date.now();
-  const forwardedFor = (req.headers['x-forwarded-for'] as string | undefined)?.split(',')[0]?.trim();
-  const clientIp = redactIp(forwardedFor ?? req.socket.remoteAddress ?? undefined);
+  const clientIp = redactIp(getClientIp(req));
 
   res.on('finish', () => {
     const duration = Date.now() - start;
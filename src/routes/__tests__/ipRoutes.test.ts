@@ -73,6 +73,20 @@ describe('ipRouter enhanced endpoints', () => {
     });
   });
 
+  it('canonicalizes IPv6 addresses and rejects invalid ones', async () => {
+    const response = await request(app).get('/v1/ip/2001:DB8:0:0::1/enhanced');
+
+    expect(response.status).toBe(200);
+    expect(mockDetectIp).toHaveBeenCalledWith('2001:db8::1', {
+      includeThreat: true,
+      includeASN: true,
+    });
+
+    const invalid = await request(app).get('/v1/ip/999.1.1.1/enhanced');
+    expect(invalid.status).toBe(400);
+    expect(mockDetectIp).toHaveBeenCalledTimes(1);
+  });
+
   it('handles client enhanced lookups without explicit IP parameter', async () => {
     const response = await request(app).get('/v1/ip/enhanced');
 
@@ -4,13 +4,14 @@
  */
 
 import { Router } from 'express';
-import { ASNService, extractASN } from '../services/asnService';
+import { extractASN } from '../services/asnService';
+import { asnService } from '../services/asnAnalysisService';
+import { rdapClient } from '../services/rdapService';
 import { asyncHandler } from '../utils/asyncHandler';
 import { ApiError } from '../middleware/errorHandler';
 import { logger } from '../utils/logger';
 
 export const asnRouter = Router();
-const asnService = new ASNService();
 
 /**
  * GET /v1/asn/:asn
@@ -36,8 +37,24 @@ const asnService = new ASNService();
  *       "status": "active"
  *     }
  *   ],
+ *   "classification": { "asn": 15169, "category": "cdn", "label": "CDN", "source": "curated", "confidence": 0.95 },
+ *   "prefix_counts": { "ipv4": 712, "ipv6": 103, "ipv4_addresses": 8703232 },
+ *   "relationships": {
+ *     "upstreams": [],
+ *     "downstreams": [{ "asn": 36040, "name": "YOUTUBE", "country": "US" }],
+ *     "peers": [{ "asn": 13335, "name": "CLOUDFLARENET", "country": "US" }]
+ *   },
+ *   "geography": [{ "country": "US", "percentage": 81.2 }, { "country": "NL", "percentage": 6.4 }],
+ *   "metrics": {
+ *     "reputation_score": 96, "reputation_level": "good", "threat_score": 4,
+ *     "spam_score": 0, "malware_score": 0, "observed_ips": 37
+ *   },
  *   "last_updated": "2025-11-16T..."
  * }
+ *
+ * Prefixes come from Radar, or the local routing table when Radar has none.
+ * Geography geolocates the largest prefixes; metrics summarise our own threat
+ * checks of addresses in the ASN and are omitted until one has been made.
  */
 asnRouter.get(
   '/v1/asn/:asn',
@@ -60,6 +77,48 @@ asnRouter.get(
   })
 );
 
+/**
+ * GET /v1/asn/:asn/rdap
+ * Registration of an ASN from its regional registry
+ *
+ * Example: GET /v1/asn/AS15169/rdap
+ *
+ * Response:
+ * {
+ *   "query": "AS15169",
+ *   "object_type": "autnum",
+ *   "handle": "AS15169",
+ *   "name": "GOOGLE",
+ *   "organization": "Google LLC",
+ *   "asn_range": { "start": 15169, "end": 15169 },
+ *   "rir": "ARIN",
+ *   "registration_date": "2000-03-30T05:00:00-05:00",
+ *   "last_changed_date": "2012-02-24T09:44:34-05:00",
+ *   "abuse_contacts": [{ "handle": "ABUSE5250-ARIN", "name": "Abuse", "email": "network-abuse@google.com", "roles": ["abuse"] }],
+ *   "rdap_url": "https://rdap.arin.net/registry/autnum/15169",
+ *   "fetched_at": "2025-11-16T..."
+ * }
+ */
+asnRouter.get(
+  '/v1/asn/:asn/rdap',
+  asyncHandler(async (req, res) => {
+    const asn = extractASN(req.params.asn);
+    if (!asn) {
+      throw new ApiError(400, `Invalid ASN format: ${req.params.asn}`);
+    }
+
+    const record = await rdapClient.lookupAsn(asn).catch(error => {
+      logger.warn({ err: error, asn }, 'RDAP lookup failed');
+      throw new ApiError(502, 'Unable to fetch RDAP registration');
+    });
+    if (!record) {
+      throw new ApiError(404, `No RDAP registration found for AS${asn}`);
+    }
+
+    res.json(record);
+  })
+);
+
 /**
  * GET /v1/asn/status
  * Get ASN analysis service status
@@ -84,4 +143,4 @@ asnRouter.get(
   })
 );
 
-logger.info({ routes: ['/v1/asn/:asn', '/v1/asn-status'] }, 'ASN analysis routes registered');
+logger.info({ routes: ['/v1/asn/:asn', '/v1/asn/:asn/rdap', '/v1/asn-status'] }, 'ASN analysis routes registered');
@@ -2,6 +2,7 @@ import { Router } from 'express';
 import { appVersion } from '../utils/version';
 import { config } from '../config';
 import { verifyRadarToken } from '../clients/cloudflareRadarClient';
+import { isMmdbConfigured } from '../clients/mmdbClient';
 import { cacheWarmer } from '../utils/cacheWarming';
 
 export const healthRouter = Router();
@@ -15,6 +16,7 @@ healthRouter.get('/health', async (_req, res) => {
     env: config.NODE_ENV,
     uptime: process.uptime(),
     ipinfoConfigured: Boolean(config.IPINFO_TOKEN),
+    mmdbConfigured: isMmdbConfigured(),
     radarHealthy,
     cache: {
       backend: config.CACHE_BACKEND,
@@ -1,14 +1,24 @@
 import { Router } from 'express';
 import { asyncHandler } from '../utils/asyncHandler';
-import { lookupIpInsight } from '../services/ipService';
+import { getIpProviderHealth, lookupIpInsight, lookupIpInsightBatch } from '../services/ipService';
 import { EnhancedIpService } from '../services/enhancedIpService';
+import { getTorDirectoryStatus } from '../services/torService';
+import { getCloudRangesStatus } from '../services/cloudRangesService';
+import { getRoutingTableStatus } from '../services/routingTableService';
+import { rdapClient } from '../services/rdapService';
 import { ApiError } from '../middleware/errorHandler';
+import { getClientIp, inspectRequestProxyHeaders } from '../middleware/clientIp';
 import { logger } from '../utils/logger';
+import { normalizeIp } from '../utils/ip';
+import { createIpBatchRequestSchema } from '../schemas/ip';
+import { config } from '../config';
+import { upstreamHttp } from '../utils/httpClient';
 
 export const ipRouter = Router();
 
 // Initialize enhanced IP service
 const enhancedIpService = new EnhancedIpService();
+const ipBatchRequestSchema = createIpBatchRequestSchema(config.IP_BATCH_MAX_SIZE);
 
 /**
  * GET /v1/ip/enhanced
@@ -19,7 +29,7 @@ const enhancedIpService = new EnhancedIpService();
 ipRouter.get(
   '/v1/ip/enhanced',
   asyncHandler(async (req, res) => {
-    const ip = req.ip;
+    const ip = getClientIp(req);
     if (!ip) {
       throw new ApiError(400, 'Unable to determine client IP');
     }
@@ -32,6 +42,7 @@ ipRouter.get(
     const result = await enhancedIpService.detectIP(ip, {
       includeThreat,
       includeASN,
+      proxyHeaders: inspectRequestProxyHeaders(req),
     });
 
     res.json(result);
@@ -47,12 +58,42 @@ ipRouter.get(
 ipRouter.get(
   '/v1/ip',
   asyncHandler(async (req, res) => {
-    const ip = req.ip;
+    const ip = getClientIp(req);
     if (!ip) {
       throw new ApiError(400, 'Unable to determine client IP');
     }
     const insight = await lookupIpInsight(ip);
-    res.json(insight);
+    res.json({ ...insight, proxyHeaders: inspectRequestProxyHeaders(req) });
+  })
+);
+
+/**
+ * POST /v1/ip/batch
+ * Look up many IPs in one call (cache first, ipinfo batch for misses, Radar fallback)
+ *
+ * Example: POST /v1/ip/batch  { "ips": ["8.8.8.8", "1.1.1.1"] }
+ *
+ * Response:
+ * {
+ *   "results": [
+ *     { "ip": "8.8.8.8", "insight": { ... }, "cached": true },
+ *     { "ip": "not-an-ip", "error": "Invalid IP address", "cached": false }
+ *   ],
+ *   "summary": { "total": 2, "succeeded": 1, "failed": 1, "cached": 1 }
+ * }
+ */
+ipRouter.post(
+  '/v1/ip/batch',
+  asyncHandler(async (req, res) => {
+    const parsed = ipBatchRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      throw new ApiError(400, 'Invalid request body', parsed.error.flatten());
+    }
+
+    logger.info({ count: parsed.data.ips.length }, 'Batch IP lookup request');
+
+    const result = await lookupIpInsightBatch(parsed.data.ips);
+    res.json(result);
   })
 );
 
@@ -73,6 +114,7 @@ ipRouter.get(
  *   "geolocation": { ... },
  *   "threats": { ... },
  *   "asn_analysis": { ... },
+ *   "abuse_contacts": [{ "name": "Abuse", "email": "network-abuse@google.com", "network": "8.8.8.0/24", "source": "rdap" }],
  *   "risk_assessment": {
  *     "overall_score": 5,
  *     "overall_level": "low",
@@ -86,9 +128,9 @@ ipRouter.get(
 ipRouter.get(
   '/v1/ip/:ip/enhanced',
   asyncHandler(async (req, res) => {
-    const ip = req.params.ip;
+    const ip = normalizeIp(req.params.ip);
     if (!ip) {
-      throw new ApiError(400, 'IP parameter missing');
+      throw new ApiError(400, 'Invalid IP address');
     }
 
     // Parse query parameters
@@ -106,6 +148,51 @@ ipRouter.get(
   })
 );
 
+/**
+ * GET /v1/ip/:ip/rdap
+ * Registration of the network containing an IP, from its regional registry
+ *
+ * Example: GET /v1/ip/8.8.8.8/rdap
+ *
+ * Response:
+ * {
+ *   "query": "8.8.8.8",
+ *   "object_type": "ip network",
+ *   "handle": "NET-8-8-8-0-2",
+ *   "name": "GOGL",
+ *   "organization": "Google LLC",
+ *   "type": "DIRECT ALLOCATION",
+ *   "cidrs": ["8.8.8.0/24"],
+ *   "start_address": "8.8.8.0",
+ *   "end_address": "8.8.8.255",
+ *   "rir": "ARIN",
+ *   "registration_date": "2023-12-28T17:24:33-05:00",
+ *   "last_changed_date": "2023-12-28T17:24:56-05:00",
+ *   "abuse_contacts": [{ "handle": "ABUSE5250-ARIN", "name": "Abuse", "email": "network-abuse@google.com", "roles": ["abuse"] }],
+ *   "rdap_url": "https://rdap.arin.net/registry/ip/8.8.8.8",
+ *   "fetched_at": "2025-11-16T..."
+ * }
+ */
+ipRouter.get(
+  '/v1/ip/:ip/rdap',
+  asyncHandler(async (req, res) => {
+    const ip = normalizeIp(req.params.ip);
+    if (!ip) {
+      throw new ApiError(400, 'Invalid IP address');
+    }
+
+    const record = await rdapClient.lookupIp(ip).catch(error => {
+      logger.warn({ err: error, ip }, 'RDAP lookup failed');
+      throw new ApiError(502, 'Unable to fetch RDAP registration');
+    });
+    if (!record) {
+      throw new ApiError(404, `No RDAP registration found for ${ip}`);
+    }
+
+    res.json(record);
+  })
+);
+
 /**
  * GET /v1/ip/:ip
  * Basic IP lookup (legacy endpoint - for backward compatibility)
@@ -128,13 +215,33 @@ ipRouter.get(
  * GET /v1/services/status
  * Get status of all IP intelligence services
  *
+ * Circuit health comes from real lookups (rolling window of recent calls);
+ * no upstream requests are made to answer this.
+ *
  * Example: GET /v1/services/status
  *
  * Response:
  * {
  *   "geolocation": true,
  *   "threat_intelligence": true,
- *   "asn_analysis": false
+ *   "asn_analysis": false,
+ *   "circuits": {
+ *     "ipinfo": { "state": "closed", "calls": 100, "error_rate": 0.01, "latency_p50_ms": 84, "latency_p95_ms": 240, "rejected": 0 },
+ *     "abuseipdb": {
+ *       "state": "open", "calls": 12, "error_rate": 0.5, "latency_p50_ms": 310, "latency_p95_ms": 5000, "rejected": 7,
+ *       "last_failure": { "reason": "HTTP 503", "at": "2025-11-16T12:00:00.000Z" },
+ *       "retry_at": "2025-11-16T12:00:30.000Z"
+ *     }
+ *   },
+ *   "upstream": {
+ *     "max_concurrency": 32, "in_flight": 1, "queued": 0,
+ *     "hosts": {
+ *       "ipinfo.io": { "requests": 210, "retries": 3, "errors": 1, "in_flight": 1, "statuses": { "200": 206, "503": 3 }, "latency_p50_ms": 80, "latency_p95_ms": 230 }
+ *     }
+ *   },
+ *   "tor_directory": { "loaded": true, "relays": 9214, "source": "...", "updatedAt": 1731700000000 },
+ *   "cloud_ranges": { "loaded": true, "providers": { "aws": 9876, "gcp": 812 }, "updatedAt": 1731700000000 },
+ *   "routing_table": { "loaded": true, "prefixes": { "ipv4": 1012345, "ipv6": 221456 }, "source": "...", "updatedAt": 1731700000000 }
  * }
  */
 ipRouter.get(
@@ -144,13 +251,20 @@ ipRouter.get(
 
     const status = await enhancedIpService.getServiceStatus();
 
-    res.json(status);
+    res.json({
+      ...status,
+      circuits: { ...getIpProviderHealth(), ...status.circuits },
+      upstream: upstreamHttp.getStatus(),
+      tor_directory: getTorDirectoryStatus(),
+      cloud_ranges: getCloudRangesStatus(),
+      routing_table: getRoutingTableStatus(),
+    });
   })
 );
 
 logger.info(
   {
-    routes: ['/v1/ip/:ip', '/v1/ip/:ip/enhanced', '/v1/ip', '/v1/ip/enhanced', '/v1/services/status'],
+    routes: ['/v1/ip/:ip', '/v1/ip/:ip/enhanced', '/v1/ip', '/v1/ip/enhanced', '/v1/ip/batch', '/v1/services/status'],
   },
   'IP routes registered'
 );
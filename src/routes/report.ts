@@ -1,13 +1,18 @@
 import { Router } from 'express';
 import { asyncHandler } from '../utils/asyncHandler';
 import { generateReport } from '../services/reportService';
+import { getClientIp, inspectRequestProxyHeaders } from '../middleware/clientIp';
+import { snapshotRequestHeaders } from '../middleware/requestHeaders';
 
 export const reportRouter = Router();
 
 reportRouter.post(
   '/v1/report',
   asyncHandler(async (req, res) => {
-    const report = await generateReport(req.body, req.ip);
+    const report = await generateReport(req.body, getClientIp(req) ?? undefined, undefined, {
+      proxyHeaders: inspectRequestProxyHeaders(req),
+      headers: snapshotRequestHeaders(req),
+    });
     res.json(report);
   })
 );
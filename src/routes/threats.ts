@@ -4,14 +4,14 @@
  */
 
 import { Router } from 'express';
-import { ThreatIntelligenceService } from '../services/threatIntelligence';
+import { threatService } from '../services/threatService';
 import { asyncHandler } from '../utils/asyncHandler';
 import { ApiError } from '../middleware/errorHandler';
 import { logger } from '../utils/logger';
+import { normalizeIp } from '../utils/ip';
 import { config } from '../config';
 
 export const threatsRouter = Router();
-const threatService = new ThreatIntelligenceService();
 
 /**
  * GET /v1/ip/:ip/threats
@@ -19,7 +19,8 @@ const threatService = new ThreatIntelligenceService();
  *
  * Example: GET /v1/ip/8.8.8.8/threats
  *
- * Response:
+ * Response (one entry per configured provider; each says whether it came
+ * from the threat cache and, if so, its `cache_age_ms`):
  * {
  *   "providers": {
  *     "abuseipdb": { ... },
@@ -31,6 +32,7 @@ const threatService = new ThreatIntelligenceService();
  *     "threat_level": "low",
  *     "threat_types": [],
  *     "sources": ["AbuseIPDB", "Spamhaus"],
+ *     "failed_sources": [],
  *     "confidence": 0.95
  *   },
  *   "timestamp": "2025-11-16T..."
@@ -44,10 +46,8 @@ threatsRouter.get(
       throw new ApiError(503, 'Threat intelligence is not enabled');
     }
 
-    const { ip } = req.params;
-
-    // Basic IP validation
-    if (!ip || ip.length < 7 || ip.length > 45) {
+    const ip = normalizeIp(req.params.ip);
+    if (!ip) {
       throw new ApiError(400, 'Invalid IP address format');
     }
 
@@ -64,6 +64,10 @@ threatsRouter.get(
  * GET /v1/threats/status
  * Get status of threat intelligence providers
  *
+ * Availability is read from each provider's circuit breaker, fed by real
+ * lookups; no probe requests are sent. A provider is unavailable while its
+ * circuit is open.
+ *
  * Example: GET /v1/threats/status
  *
  * Response:
@@ -72,11 +76,17 @@ threatsRouter.get(
  *   "providers": {
  *     "abuseipdb": {
  *       "configured": true,
- *       "available": true
+ *       "available": true,
+ *       "circuit": { "state": "closed", "calls": 40, "error_rate": 0, "latency_p50_ms": 290, "latency_p95_ms": 610, "rejected": 0 }
  *     },
  *     "spamhaus": {
  *       "configured": true,
- *       "available": true
+ *       "available": false,
+ *       "circuit": {
+ *         "state": "open", "calls": 25, "error_rate": 0.2, "latency_p50_ms": 35, "latency_p95_ms": 3000, "rejected": 4,
+ *         "last_failure": { "reason": "Spamhaus rejected the query: sent through a public or open resolver", "at": "2025-11-16T12:00:00.000Z" },
+ *         "retry_at": "2025-11-16T12:00:30.000Z"
+ *       }
  *     }
  *   },
  *   "available_sources": 2,
@@ -90,6 +100,12 @@ threatsRouter.get(
  *       "requests_per_day": 10000,
  *       "requests_per_hour": 417
  *     }
+ *   },
+ *   "quotas": {
+ *     "abuseipdb": {
+ *       "hour": { "used": 3, "limit": 42, "remaining": 39, "resets_at": "2025-11-16T13:00:00.000Z" },
+ *       "day": { "used": 120, "limit": 1000, "remaining": 880, "resets_at": "2025-11-17T00:00:00.000Z" }
+ *     }
  *   }
  * }
  */
@@ -98,7 +114,7 @@ threatsRouter.get(
   asyncHandler(async (req, res) => {
     logger.debug('Threat intelligence status request');
 
-    const status = await threatService.getProviderStatus();
+    const [status, quotas] = await Promise.all([threatService.getProviderStatus(), threatService.getQuotaUsage()]);
     const rateLimits = threatService.getRateLimits();
 
     res.json({
@@ -107,6 +123,7 @@ threatsRouter.get(
       available_sources: status.available_sources,
       total_sources: status.total_sources,
       rate_limits: rateLimits,
+      quotas,
     });
   })
 );
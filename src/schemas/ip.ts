@@ -0,0 +1,12 @@
+import { z } from 'zod';
+
+/**
+ * Batch lookup body. Individual IPs are validated per item so one bad entry
+ * does not reject the whole batch.
+ */
+export const createIpBatchRequestSchema = (maxSize: number) =>
+  z.object({
+    ips: z.array(z.string().trim().min(1)).min(1).max(maxSize),
+  });
+
+export type IpBatchRequestInput = z.infer<ReturnType<typeof createIpBatchRequestSchema>>;
@@ -1,8 +1,26 @@
-import { isIP } from 'node:net';
+import { isValidIp } from '../utils/ip';
 import { z } from 'zod';
 
+const brandVersionSchema = z.object({
+  brand: z.string().max(100),
+  version: z.string().max(50),
+});
+
+const userAgentDataSchema = z.object({
+  brands: z.array(brandVersionSchema).max(10),
+  mobile: z.boolean(),
+  platform: z.string().max(50),
+  platformVersion: z.string().max(50).optional(),
+  architecture: z.string().max(20).optional(),
+  bitness: z.string().max(10).optional(),
+  model: z.string().max(100).optional(),
+  wow64: z.boolean().optional(),
+  fullVersionList: z.array(brandVersionSchema).max(10).optional(),
+});
+
 export const fingerprintSchema = z.object({
   userAgent: z.string().min(5),
+  userAgentData: userAgentDataSchema.optional(),
   acceptLanguage: z.string().optional(),
   languages: z.array(z.string()).min(1).max(10).optional(),
   timezone: z.string().optional(),
@@ -95,10 +113,7 @@ export const fingerprintSchema = z.object({
 });
 
 export const reportRequestSchema = z.object({
-  ip: z
-    .string()
-    .refine(value => isIP(value) !== 0, { message: 'Invalid IP address' })
-    .optional(),
+  ip: z.string().refine(isValidIp, { message: 'Invalid IP address' }).optional(),
   fingerprint: fingerprintSchema,
 });
 
@@ -5,9 +5,17 @@ import { config } from './config';
 import { logger } from './utils/logger';
 import { cacheWarmer } from './utils/cacheWarming';
 import { lookupIpInsight } from './services/ipService';
+import { startTorDirectoryRefresh } from './services/torService';
+import { startCloudRangesRefresh } from './services/cloudRangesService';
+import { startRoutingTableRefresh } from './services/routingTableService';
+import { loadBrowserReleaseCalendar } from './services/browserReleasesService';
 
 const app = createApp();
 const server = createServer(app);
+const stopTorDirectoryRefresh = startTorDirectoryRefresh();
+const stopCloudRangesRefresh = startCloudRangesRefresh();
+const stopRoutingTableRefresh = startRoutingTableRefresh();
+void loadBrowserReleaseCalendar();
 
 server.listen(config.PORT, () => {
   logger.info({ port: config.PORT }, 'iphey server listening');
@@ -27,6 +35,9 @@ server.listen(config.PORT, () => {
 
 const shutdown = (signal: string) => {
   logger.info({ signal }, 'shutting down gracefully');
+  stopTorDirectoryRefresh();
+  stopCloudRangesRefresh();
+  stopRoutingTableRefresh();
   server.close(() => {
     process.exit(0);
   });
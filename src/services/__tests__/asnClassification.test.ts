@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { classifyAsn } from '../asnClassification';
+
+describe('classifyAsn', () => {
+  it('prefers the curated table over provider and name hints', () => {
+    expect(classifyAsn(16509, { name: 'Residential Broadband', networkType: 'isp' })).toEqual({
+      asn: 16509,
+      category: 'hosting',
+      label: 'Hosting provider',
+      source: 'curated',
+      confidence: 0.95,
+    });
+    expect(classifyAsn(14593)?.category).toBe('satellite');
+    expect(classifyAsn(21928)?.category).toBe('mobile');
+  });
+
+  it('falls back to the provider network type, then the network name', () => {
+    expect(classifyAsn(64500, { name: 'Example Cloud Servers', networkType: 'education' })).toMatchObject({
+      category: 'education',
+      source: 'provider',
+      confidence: 0.8,
+    });
+    expect(classifyAsn(64500, { name: 'AS64500 Example VPN Ltd' })).toMatchObject({ category: 'vpn', source: 'name' });
+    expect(classifyAsn(null, { name: 'Example Hosting GmbH' })).toMatchObject({ asn: undefined, category: 'hosting' });
+    expect(classifyAsn(64500, { name: 'Example Holdings' })).toBeNull();
+  });
+});
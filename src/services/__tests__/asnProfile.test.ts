@@ -0,0 +1,46 @@
+import { describe, expect, it, vi } from 'vitest';
+import { countPrefixes, summarizeGeography } from '../asnProfile';
+import type { NetworkPrefix } from '../../types/asn';
+
+const prefixes = (...cidrs: string[]): NetworkPrefix[] =>
+  cidrs.map(prefix => ({ prefix, ip_version: prefix.includes(':') ? 6 : 4 }));
+
+describe('countPrefixes', () => {
+  it('counts prefixes by version and IPv4 space without double-counting more-specifics', () => {
+    expect(countPrefixes(prefixes('8.8.8.0/24', '8.8.8.128/25', '8.8.4.0/24', '2001:4860::/32', 'bogus'))).toEqual({
+      ipv4: 3,
+      ipv6: 1,
+      ipv4_addresses: 512,
+    });
+  });
+});
+
+describe('summarizeGeography', () => {
+  it('weights countries by located address space', async () => {
+    const locate = vi.fn(
+      async () =>
+        new Map<string, string | undefined>([
+          ['10.0.0.0', 'US'],
+          ['10.1.0.0', 'DE'],
+          ['10.2.0.0', undefined],
+        ])
+    );
+
+    const geography = await summarizeGeography(
+      prefixes('10.0.0.0/16', '10.1.0.0/17', '10.1.128.0/17', '10.2.0.0/16', '2001:db8::/32'),
+      locate
+    );
+
+    expect(locate).toHaveBeenCalledWith(['10.0.0.0', '10.2.0.0', '10.1.0.0', '10.1.128.0']);
+    expect(geography).toEqual([
+      { country: 'US', percentage: 66.7 },
+      { country: 'DE', percentage: 33.3 },
+    ]);
+  });
+
+  it('falls back to IPv6 space for IPv6-only networks', async () => {
+    const geography = await summarizeGeography(prefixes('2001:db8::/32'), async () => new Map([['2001:db8::', 'JP']]));
+
+    expect(geography).toEqual([{ country: 'JP', percentage: 100 }]);
+  });
+});
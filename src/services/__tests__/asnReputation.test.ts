@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { MemoryCache } from '../../utils/cache';
+import { AsnReputationLedger } from '../asnReputation';
+import type { ASNThreatObservations } from '../../types/asn';
+import type { CombinedThreatResult } from '../../types/threat';
+
+const check = (threat_score: number, threat_types: string[] = [], sources = ['AbuseIPDB']): CombinedThreatResult => ({
+  is_malicious: threat_score >= 50,
+  threat_score,
+  threat_level: threat_score >= 50 ? 'high' : 'low',
+  threat_types,
+  sources,
+  failed_sources: [],
+  confidence: 0.9,
+});
+
+describe('AsnReputationLedger', () => {
+  it('scores an ASN from the latest check of each address', async () => {
+    const ledger = new AsnReputationLedger(new MemoryCache<ASNThreatObservations>());
+    await ledger.record(64500, '192.0.2.1', check(90, ['spam']));
+    await ledger.record(64500, '192.0.2.1', check(80, ['spam', 'botnet']));
+    await ledger.record(64500, '192.0.2.2', check(0));
+    await ledger.record(64500, '192.0.2.3', check(10));
+    await ledger.record(64500, '192.0.2.4', check(10));
+    await ledger.record(64500, '192.0.2.5', check(0, [], []));
+
+    expect(await ledger.getMetrics(64500)).toEqual({
+      reputation_score: 75,
+      reputation_level: 'good',
+      threat_score: 25,
+      spam_score: 25,
+      malware_score: 25,
+      observed_ips: 4,
+    });
+    expect(await ledger.getMetrics(64501)).toBeUndefined();
+  });
+
+  it('keeps only the most recent addresses per ASN', async () => {
+    const ledger = new AsnReputationLedger(new MemoryCache<ASNThreatObservations>(), { maxIpsPerAsn: 2 });
+    await ledger.record(64500, '192.0.2.1', check(100, ['malware']));
+    await ledger.record(64500, '192.0.2.2', check(0));
+    await ledger.record(64500, '192.0.2.3', check(0));
+
+    expect(await ledger.getMetrics(64500)).toMatchObject({ observed_ips: 2, malware_score: 0, reputation_score: 100 });
+  });
+
+  it('keeps observations for its own retention when the cache defaults are shorter', async () => {
+    // Like createCache: CACHE_TTL_MS / CACHE_STALE_TTL_MS well below the ledger's retention
+    const ledger = new AsnReputationLedger(new MemoryCache<ASNThreatObservations>(50, 500, 100));
+    await ledger.record(64500, '192.0.2.1', check(90, ['spam']));
+    await new Promise(resolve => setTimeout(resolve, 250));
+
+    expect(await ledger.getMetrics(64500)).toMatchObject({ observed_ips: 1, spam_score: 100 });
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { assessBrowserVersion, BUNDLED_RELEASE_CALENDAR, parseReleaseCalendar } from '../browserReleases';
+import { evaluateBrowser } from '../report/browserEvaluator';
+
+const at = (date: string) => Date.parse(`${date}T00:00:00Z`);
+
+describe('assessBrowserVersion', () => {
+  it('classifies versions by how long ago they were replaced', () => {
+    const now = at('2025-06-01');
+
+    expect(assessBrowserVersion({ id: 'chrome', major: 137 }, now)).toEqual({
+      freshness: 'current',
+      major: 137,
+      latestMajor: 137,
+    });
+    expect(assessBrowserVersion({ id: 'chrome', major: 134 }, now).freshness).toBe('current');
+    expect(assessBrowserVersion({ id: 'chrome', major: 128 }, now)).toMatchObject({
+      freshness: 'stale',
+      supersededAt: '2024-09-25',
+    });
+    expect(assessBrowserVersion({ id: 'chrome', major: 109 }, now).freshness).toBe('ancient');
+    expect(assessBrowserVersion({ id: 'chrome', major: 140 }, now).freshness).toBe('current');
+    expect(assessBrowserVersion({ id: 'chrome', major: 141 }, now).freshness).toBe('future');
+  });
+
+  it('follows Safari across skipped version numbers', () => {
+    expect(assessBrowserVersion({ id: 'safari', major: 18 }, at('2025-10-01'))).toMatchObject({
+      freshness: 'current',
+      latestMajor: 26,
+      supersededAt: '2025-09-15',
+    });
+    expect(assessBrowserVersion({ id: 'safari', major: 18 }, at('2026-03-01')).freshness).toBe('stale');
+  });
+
+  it('keeps Firefox ESR majors current until their support ends', () => {
+    expect(assessBrowserVersion({ id: 'firefox', major: 128 }, at('2026-01-01'))).toEqual({
+      freshness: 'current',
+      major: 128,
+      latestMajor: 146,
+      supportedUntil: '2026-03-24',
+    });
+    expect(assessBrowserVersion({ id: 'firefox', major: 129 }, at('2026-01-01')).freshness).toBe('stale');
+    expect(assessBrowserVersion({ id: 'firefox', major: 115 }, at('2026-09-01'))).toMatchObject({
+      freshness: 'stale',
+      supportedUntil: '2026-03-24',
+      daysBehind: 161,
+    });
+  });
+
+  it('extrapolates past the calendar so thresholds keep moving', () => {
+    const now = at('2028-01-01');
+
+    expect(assessBrowserVersion({ id: 'firefox', major: 144 }, now).freshness).toBe('ancient');
+    expect(assessBrowserVersion({ id: 'firefox', major: 172 }, now)).toMatchObject({
+      freshness: 'current',
+      latestMajor: 172,
+    });
+  });
+
+  it('loads calendar updates over the bundled schedules', () => {
+    const calendar = parseReleaseCalendar({
+      updated: '2026-01-15',
+      browsers: { firefox: { cadenceDays: 28, previewMajors: 2, releases: [[147, '2026-01-13']] } },
+    });
+
+    expect(calendar.browsers.chrome).toBe(BUNDLED_RELEASE_CALENDAR.browsers.chrome);
+    expect(assessBrowserVersion({ id: 'firefox', major: 147 }, at('2026-01-20'), calendar).freshness).toBe('current');
+    expect(() =>
+      parseReleaseCalendar({ updated: '2026-01-15', browsers: { edge: { cadenceDays: 28, releases: [] } } })
+    ).toThrow();
+  });
+});
+
+describe('evaluateBrowser version detection', () => {
+  it('reports the detection in meta and penalizes ancient and unreleased versions', () => {
+    const ancient = evaluateBrowser({
+      userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:78.0) Gecko/20100101 Firefox/78.0',
+    });
+    const unreleased = evaluateBrowser({
+      userAgent:
+        'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/999.0.0.0 Safari/537.36',
+    });
+
+    expect(ancient.signals).toEqual(['Firefox 78 is years out of date']);
+    expect(ancient.meta).toMatchObject({
+      detection: { browser: { id: 'firefox', major: 78 }, engine: { name: 'Gecko' }, device: 'desktop' },
+      version: { freshness: 'ancient', major: 78 },
+    });
+    expect(unreleased.signals).toEqual(['Chrome 999 has not been released yet']);
+    expect(unreleased.breakdown.userAgent).toBe(5);
+  });
+});
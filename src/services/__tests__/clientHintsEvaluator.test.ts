@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateUserAgentData } from '../report/clientHintsEvaluator';
+import { evaluateBrowser } from '../report/browserEvaluator';
+import { fingerprintSchema } from '../../schemas/report';
+
+const WINDOWS_CHROME =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36';
+
+const windowsHints = {
+  brands: [
+    { brand: 'Not/A)Brand', version: '8' },
+    { brand: 'Chromium', version: '126' },
+    { brand: 'Google Chrome', version: '126' },
+  ],
+  mobile: false,
+  platform: 'Windows',
+  platformVersion: '15.0.0',
+  architecture: 'x86',
+  bitness: '64',
+  model: '',
+  wow64: false,
+  fullVersionList: [{ brand: 'Google Chrome', version: '126.0.6478.127' }],
+};
+
+describe('evaluateUserAgentData', () => {
+  it('accepts hints that agree with the User-Agent and navigator.platform', () => {
+    const fingerprint = { userAgent: WINDOWS_CHROME, platform: 'Win32', userAgentData: windowsHints };
+
+    expect(fingerprintSchema.safeParse(fingerprint).success).toBe(true);
+    expect(evaluateUserAgentData(fingerprint)).toEqual({ userAgent: [], platform: [], platformChecked: true });
+  });
+
+  it('flags a Windows 11 platformVersion behind a Windows 7 User-Agent', () => {
+    const result = evaluateUserAgentData({
+      userAgent: WINDOWS_CHROME.replace('Windows NT 10.0', 'Windows NT 6.1'),
+      platform: 'Win32',
+      userAgentData: windowsHints,
+    });
+
+    expect(result.platform.map(signal => signal.message)).toEqual([
+      'platformVersion 15.0.0 is Windows 11 but the User-Agent claims Windows 7',
+    ]);
+  });
+
+  it('flags mobile hints, other platforms and versions the User-Agent does not show', () => {
+    const result = evaluateUserAgentData({
+      userAgent: WINDOWS_CHROME.replace('Chrome/126', 'Chrome/120'),
+      platform: 'Linux x86_64',
+      userAgentData: { ...windowsHints, mobile: true, platform: 'Android', platformVersion: '14.0.0' },
+    });
+
+    expect(result.userAgent.map(signal => signal.scorePenalty)).toEqual([25, 15]);
+    expect(result.platform.map(signal => signal.message)).toEqual([
+      'Client hint platform "Android" contradicts the Windows User-Agent',
+    ]);
+  });
+
+  it('accepts an Android tablet requesting the desktop site', () => {
+    const result = evaluateUserAgentData({
+      userAgent:
+        'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36',
+      platform: 'Linux armv81',
+      userAgentData: { ...windowsHints, platform: 'Android', platformVersion: '14.0.0', architecture: 'arm' },
+    });
+
+    expect(result).toEqual({ userAgent: [], platform: [], platformChecked: true });
+  });
+
+  it('treats client hints from a claimed Firefox as a spoofed User-Agent', () => {
+    const result = evaluateUserAgentData({
+      userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:128.0) Gecko/20100101 Firefox/128.0',
+      userAgentData: windowsHints,
+    });
+
+    expect(result.userAgent).toEqual([
+      expect.objectContaining({ message: 'navigator.userAgentData exposed by a browser claiming to be Firefox' }),
+    ]);
+    expect(result.platform).toEqual([]);
+  });
+
+  it('feeds the browser panel breakdown', () => {
+    const panel = evaluateBrowser({
+      userAgent: WINDOWS_CHROME,
+      platform: 'MacIntel',
+      userAgentData: { ...windowsHints, bitness: '32' },
+    });
+
+    // navigator.platform is reported against the hint only, not again against the User-Agent
+    expect(panel.breakdown.platform).toBe(20 - 15 - 10);
+    expect(panel.signals).toContain('32-bit browser reported with a 64-bit Windows User-Agent');
+    expect(panel.signals).not.toContain('Platform mismatch between navigator.platform and User-Agent');
+  });
+
+  it('reports version and mobile mismatches once when the client hint headers agree with the page', () => {
+    const ua = WINDOWS_CHROME.replace('Chrome/126', 'Chrome/120');
+    const headers = {
+      entries: [
+        ['sec-ch-ua', '"Not/A)Brand";v="8", "Chromium";v="126", "Google Chrome";v="126"'],
+        ['sec-ch-ua-mobile', '?1'],
+        ['sec-ch-ua-platform', '"Windows"'],
+        ['user-agent', ua],
+      ] as Array<[string, string]>,
+      ordered: false,
+    };
+    const panel = evaluateBrowser(
+      { userAgent: ua, platform: 'Win32', userAgentData: { ...windowsHints, mobile: true } },
+      headers
+    );
+    // The version of the User-Agent itself may be penalized as out of date
+    const clean = evaluateBrowser({ userAgent: ua, platform: 'Win32' });
+
+    expect(clean.breakdown.userAgent - panel.breakdown.userAgent).toBe(25 + 15);
+    expect(panel.signals).not.toContain('Sec-CH-UA-Mobile says mobile but the User-Agent does not');
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { CloudRangeIndex, parseCloudRangeSources } from '../cloudRanges';
+
+const aws = JSON.stringify({
+  prefixes: [
+    { ip_prefix: '3.0.0.0/9', region: 'GLOBAL', service: 'AMAZON' },
+    { ip_prefix: '3.80.0.0/12', region: 'us-east-1', service: 'AMAZON' },
+    { ip_prefix: '3.80.0.0/12', region: 'us-east-1', service: 'EC2' },
+  ],
+  ipv6_prefixes: [{ ipv6_prefix: '2600:1f18::/33', region: 'us-east-1', service: 'EC2' }],
+});
+
+const azure = JSON.stringify({
+  values: [
+    { name: 'AzureCloud', properties: { region: '', systemService: '', addressPrefixes: ['20.0.0.0/11'] } },
+    {
+      name: 'Storage.WestEurope',
+      properties: { region: 'westeurope', systemService: 'AzureStorage', addressPrefixes: ['20.0.0.0/16'] },
+    },
+  ],
+});
+
+describe('CloudRangeIndex', () => {
+  it('attributes addresses to the most specific published range', () => {
+    const index = new CloudRangeIndex();
+    index.load('aws', aws);
+    index.load('azure', azure);
+
+    expect(index.lookup('3.80.1.1')).toMatchObject({
+      provider: 'aws',
+      service: 'EC2',
+      region: 'us-east-1',
+      prefix: '3.80.0.0/12',
+      label: 'AWS EC2 us-east-1',
+    });
+    expect(index.lookup('3.1.1.1')?.label).toBe('AWS');
+    expect(index.lookup('2600:1f18::5')?.label).toBe('AWS EC2 us-east-1');
+    expect(index.lookup('20.0.5.5')?.label).toBe('Azure AzureStorage westeurope');
+    expect(index.lookup('20.1.0.1')?.label).toBe('Azure');
+    expect(index.lookup('192.0.2.1')).toBeNull();
+    expect(index.getStatus().providers).toEqual({ aws: 4, azure: 2 });
+  });
+
+  it('parses GCP, Oracle and DigitalOcean formats', () => {
+    const index = new CloudRangeIndex();
+    index.load('gcp', JSON.stringify({ prefixes: [{ ipv4Prefix: '34.1.208.0/20', scope: 'africa-south1' }] }));
+    index.load(
+      'oracle',
+      JSON.stringify({
+        regions: [{ region: 'us-ashburn-1', cidrs: [{ cidr: '129.213.0.0/16', tags: ['OCI', 'OBJECT_STORAGE'] }] }],
+      })
+    );
+    index.load('digitalocean', '104.131.0.0/18,US,US-NY,New York,10014\n');
+
+    expect(index.lookup('34.1.210.1')?.label).toBe('GCP africa-south1');
+    expect(index.lookup('129.213.4.4')?.label).toBe('Oracle Cloud OBJECT_STORAGE us-ashburn-1');
+    expect(index.lookup('104.131.1.1')?.label).toBe('DigitalOcean New York');
+  });
+
+  it('restores from a snapshot', () => {
+    const index = new CloudRangeIndex();
+    index.load('aws', aws);
+    const restored = new CloudRangeIndex();
+    restored.restore(JSON.parse(JSON.stringify(index.toSnapshot())));
+
+    expect(restored.lookup('3.80.1.1')?.label).toBe('AWS EC2 us-east-1');
+  });
+});
+
+describe('parseCloudRangeSources', () => {
+  it('expands bare providers to their published URLs', () => {
+    expect(parseCloudRangeSources('aws, azure=/data/ServiceTags.json, azure2, gcp=https://example.com/x?a=b')).toEqual({
+      aws: 'https://ip-ranges.amazonaws.com/ip-ranges.json',
+      azure: '/data/ServiceTags.json',
+      gcp: 'https://example.com/x?a=b',
+    });
+  });
+});
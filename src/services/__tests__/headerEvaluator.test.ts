@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateRequestHeaders, parseAcceptLanguage } from '../report/headerEvaluator';
+import { evaluateBrowser } from '../report/browserEvaluator';
+
+const CHROME_UA =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36';
+const FIREFOX_UA = 'Mozilla/5.0 (X11; Linux x86_64; rv:128.0) Gecko/20100101 Firefox/128.0';
+
+const chromeHeaders: Array<[string, string]> = [
+  ['host', 'example.com'],
+  ['sec-ch-ua', '"Not/A)Brand";v="8", "Chromium";v="126", "Google Chrome";v="126"'],
+  ['sec-ch-ua-mobile', '?0'],
+  ['sec-ch-ua-platform', '"Windows"'],
+  ['user-agent', CHROME_UA],
+  ['accept', '*/*'],
+  ['sec-fetch-site', 'same-origin'],
+  ['sec-fetch-mode', 'cors'],
+  ['sec-fetch-dest', 'empty'],
+  ['accept-encoding', 'gzip, deflate, br, zstd'],
+  ['accept-language', 'en-US,en;q=0.9,de;q=0.8'],
+];
+
+describe('parseAcceptLanguage', () => {
+  it('orders by q-value and drops wildcards and refused languages', () => {
+    expect(parseAcceptLanguage('de;q=0.5, EN-us, fr;q=0, *;q=0.1, en;q=0.9')).toEqual([
+      { tag: 'en-us', q: 1 },
+      { tag: 'en', q: 0.9 },
+      { tag: 'de', q: 0.5 },
+    ]);
+  });
+});
+
+describe('evaluateRequestHeaders', () => {
+  const fingerprint = { userAgent: CHROME_UA, languages: ['en-US', 'en', 'de'] };
+
+  it('accepts headers a real Chrome sends', () => {
+    expect(evaluateRequestHeaders(fingerprint, { entries: chromeHeaders, ordered: true })).toEqual({
+      userAgent: [],
+      languages: [],
+    });
+  });
+
+  it('flags a spoofed navigator.userAgent and contradicting client hints', () => {
+    const result = evaluateRequestHeaders(
+      { userAgent: FIREFOX_UA, languages: ['en-US', 'en', 'de'] },
+      { entries: chromeHeaders, ordered: true }
+    );
+
+    expect(result.userAgent.map(signal => signal.message)).toEqual([
+      'User-Agent header differs from navigator.userAgent',
+      'Client hints sent by a browser claiming to be Firefox',
+      'Header order is impossible for Firefox',
+    ]);
+  });
+
+  it('checks client hint versions, platform and mobile flag against the User-Agent', () => {
+    const entries = chromeHeaders.map(([name, value]): [string, string] => {
+      if (name === 'sec-ch-ua') return [name, '"Chromium";v="120", "Not_A Brand";v="24"'];
+      if (name === 'sec-ch-ua-platform') return [name, '"Linux"'];
+      if (name === 'sec-ch-ua-mobile') return [name, '?1'];
+      return [name, value];
+    });
+
+    expect(
+      evaluateRequestHeaders(fingerprint, { entries, ordered: true }).userAgent.map(signal => signal.scorePenalty)
+    ).toEqual([25, 15, 15]);
+  });
+
+  it('accepts Android client hints with the Linux User-Agent of a desktop-mode tablet', () => {
+    const desktopMode = CHROME_UA.replace('Windows NT 10.0; Win64; x64', 'X11; Linux x86_64');
+    const entries = chromeHeaders.map(([name, value]): [string, string] => {
+      if (name === 'sec-ch-ua-platform') return [name, '"Android"'];
+      if (name === 'user-agent') return [name, desktopMode];
+      return [name, value];
+    });
+
+    expect(
+      evaluateRequestHeaders({ userAgent: desktopMode, languages: ['en-US', 'en', 'de'] }, { entries, ordered: true })
+    ).toEqual({ userAgent: [], languages: [] });
+  });
+
+  it('flags a header order the claimed browser never produces, only when order is known', () => {
+    const entries = [...chromeHeaders].reverse();
+
+    expect(evaluateRequestHeaders(fingerprint, { entries, ordered: true }).userAgent).toEqual([
+      expect.objectContaining({
+        message: 'Header order is impossible for Chromium',
+        explanation: expect.stringContaining('accept-encoding before accept-language'),
+      }),
+    ]);
+    expect(evaluateRequestHeaders(fingerprint, { entries, ordered: false }).userAgent).toEqual([]);
+  });
+
+  it('compares Accept-Language with navigator.languages', () => {
+    const withLanguage = (value: string) =>
+      evaluateRequestHeaders(fingerprint, {
+        entries: [
+          ['user-agent', CHROME_UA],
+          ['accept-language', value],
+        ],
+        ordered: false,
+      }).languages.map(signal => signal.message);
+
+    expect(withLanguage('de;q=0.8, en-US;q=0.9, en')).toEqual([
+      'Accept-Language prefers en but navigator.languages starts with en-us',
+    ]);
+    expect(withLanguage('en-US, ru;q=0.5')).toEqual([
+      'Accept-Language lists languages missing from navigator.languages: ru',
+    ]);
+  });
+
+  it('feeds the browser panel breakdown', () => {
+    const clean = evaluateBrowser(fingerprint, { entries: chromeHeaders, ordered: true });
+    const spoofed = evaluateBrowser(
+      { ...fingerprint, languages: ['fr-FR', 'fr'] },
+      {
+        entries: chromeHeaders.map(([name, value]): [string, string] =>
+          name === 'user-agent' ? [name, `${value} Edg/126.0.0.0`] : [name, value]
+        ),
+        ordered: true,
+      }
+    );
+
+    expect(clean.score - spoofed.score).toBe(50);
+    expect(clean.breakdown.userAgent - spoofed.breakdown.userAgent).toBe(30);
+    expect(clean.breakdown.languages - spoofed.breakdown.languages).toBe(20);
+  });
+});
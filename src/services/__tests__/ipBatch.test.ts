@@ -0,0 +1,99 @@
+import { describe, expect, it, vi } from 'vitest';
+import { lookupIpInsightBatchWith } from '../ipBatch';
+import { IpProviderRegistry, type IpIntelProvider } from '../ipProviders';
+import { MemoryCache } from '../../utils/cache';
+import type { NormalizedIpInsight } from '../../types/ip';
+
+const ipinfoInsight = (ip: string): NormalizedIpInsight => ({
+  ip,
+  city: 'Mountain View',
+  country: 'US',
+  source: 'ipinfo',
+  fetchedAt: Date.now(),
+});
+
+const radarInsight = (ip: string): NormalizedIpInsight => ({
+  ip,
+  city: 'New York',
+  source: 'radar',
+  fetchedAt: Date.now(),
+});
+
+const createRegistry = (providers: IpIntelProvider[]) =>
+  new IpProviderRegistry(providers, { order: ['ipinfo', 'radar'], strategy: 'first-success' });
+
+describe('lookupIpInsightBatchWith', () => {
+  it('serves cache hits and keeps input order', async () => {
+    const cache = new MemoryCache<NormalizedIpInsight>();
+    cache.set('1.1.1.1', { ip: '1.1.1.1', city: 'Cached', source: 'ipinfo', fetchedAt: Date.now() });
+    const lookupMany = vi.fn(async (ips: string[]) => new Map(ips.map(ip => [ip, ipinfoInsight(ip)])));
+
+    const result = await lookupIpInsightBatchWith(['8.8.8.8', '1.1.1.1', 'nope', '8.8.8.8'], {
+      cache,
+      lookupMany,
+    });
+
+    expect(result.results.map(item => item.ip)).toEqual(['8.8.8.8', '1.1.1.1', 'nope', '8.8.8.8']);
+    expect(result.results[1]).toMatchObject({ cached: true, insight: { city: 'Cached' } });
+    expect(result.results[2]).toMatchObject({ error: 'Invalid IP address' });
+    expect(lookupMany).toHaveBeenCalledTimes(1);
+    expect(lookupMany).toHaveBeenCalledWith(['8.8.8.8']);
+    expect(result.summary).toEqual({ total: 4, succeeded: 3, failed: 1, cached: 1 });
+  });
+
+  it('splits misses into upstream chunks', async () => {
+    const cache = new MemoryCache<NormalizedIpInsight>(1000, 500);
+    const ips = Array.from({ length: 250 }, (_, i) => `8.8.${Math.floor(i / 200)}.${i % 200}`);
+    const lookupBatch = vi.fn(async (group: string[]) => Object.fromEntries(group.map(ip => [ip, ipinfoInsight(ip)])));
+    const registry = createRegistry([
+      { name: 'ipinfo', isEnabled: () => true, lookup: async () => null, lookupBatch, batchLimit: 100 },
+    ]);
+
+    const result = await lookupIpInsightBatchWith(ips, { cache, lookupMany: misses => registry.lookupMany(misses) });
+
+    expect(lookupBatch.mock.calls.map(([group]) => group.length)).toEqual([100, 100, 50]);
+    expect(result.summary.succeeded).toBe(250);
+  });
+
+  it('falls back to the next provider for batch misses', async () => {
+    const cache = new MemoryCache<NormalizedIpInsight>();
+    const radarLookup = vi.fn(async (ip: string) => (ip === '9.9.9.9' ? radarInsight(ip) : null));
+    const registry = createRegistry([
+      {
+        name: 'ipinfo',
+        isEnabled: () => true,
+        lookup: async () => null,
+        lookupBatch: async () => ({ '8.8.8.8': ipinfoInsight('8.8.8.8') }),
+      },
+      { name: 'radar', isEnabled: () => true, lookup: radarLookup },
+    ]);
+
+    const result = await lookupIpInsightBatchWith(['8.8.8.8', '9.9.9.9', '2.2.2.2'], {
+      cache,
+      lookupMany: misses => registry.lookupMany(misses),
+    });
+
+    expect(radarLookup).toHaveBeenCalledTimes(2);
+    expect(result.results[0].insight?.source).toBe('ipinfo');
+    expect(result.results[1].insight?.source).toBe('radar');
+    expect(result.results[2].error).toBe('Unable to fetch IP intelligence');
+    expect(cache.get('9.9.9.9')?.data.source).toBe('radar');
+  });
+
+  it('answers special-purpose addresses locally', async () => {
+    const cache = new MemoryCache<NormalizedIpInsight>();
+    const lookupMany = vi.fn(async (ips: string[]) => new Map(ips.map(ip => [ip, ipinfoInsight(ip)])));
+
+    const result = await lookupIpInsightBatchWith(['192.168.1.10', '8.8.8.8', 'fe80::1'], { cache, lookupMany });
+
+    expect(lookupMany).toHaveBeenCalledWith(['8.8.8.8']);
+    expect(result.results[0].insight).toMatchObject({
+      source: 'local',
+      bogon: true,
+      specialPurpose: { category: 'private', prefix: '192.168.0.0/16' },
+    });
+    expect(result.results[2].insight?.specialPurpose?.category).toBe('link-local');
+    expect(cache.get('192.168.1.10')).toBeNull();
+    expect(result.summary).toEqual({ total: 3, succeeded: 3, failed: 0, cached: 0 });
+  });
+});
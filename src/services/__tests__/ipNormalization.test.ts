@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeMmdb } from '../ipNormalization';
+import type { MmdbRecords } from '../../types/ip';
+
+describe('normalizeMmdb', () => {
+  it('combines city, ASN and anonymous-IP records', () => {
+    const records = {
+      city: {
+        city: { geoname_id: 5375480, names: { en: 'Mountain View' } },
+        country: { geoname_id: 6252001, iso_code: 'US', names: { en: 'United States' } },
+        subdivisions: [{ geoname_id: 5332921, iso_code: 'CA', names: { en: 'California' } }],
+        postal: { code: '94043' },
+        location: { accuracy_radius: 1000, latitude: 37.4, longitude: -122.1, time_zone: 'America/Los_Angeles' },
+      },
+      asn: { autonomous_system_number: 15169, autonomous_system_organization: 'Google LLC', network: '8.8.8.0/24' },
+      anonymous: { is_anonymous: true, is_anonymous_vpn: true, is_hosting_provider: true, network: '8.8.8.0/24' },
+    } as unknown as MmdbRecords;
+
+    expect(normalizeMmdb('8.8.8.8', records)).toMatchObject({
+      ip: '8.8.8.8',
+      city: 'Mountain View',
+      region: 'California',
+      country: 'US',
+      postal: '94043',
+      timezone: 'America/Los_Angeles',
+      latitude: 37.4,
+      longitude: -122.1,
+      asn: 'AS15169',
+      org: 'Google LLC',
+      networkType: 'hosting',
+      privacy: { vpn: true, proxy: false, tor: false, hosting: true },
+      riskScore: 65,
+      riskReasons: ['VPN detected'],
+      source: 'mmdb',
+    });
+  });
+
+  it('handles ASN-only databases', () => {
+    const insight = normalizeMmdb('2001:db8::1', {
+      asn: { autonomous_system_number: 64500, autonomous_system_organization: 'Example' },
+    } as MmdbRecords);
+
+    expect(insight).toMatchObject({ asn: 'AS64500', org: 'Example', riskScore: 10, source: 'mmdb' });
+    expect(insight.city).toBeUndefined();
+    expect(insight.privacy).toBeUndefined();
+  });
+
+  it('reports clean privacy flags when the Anonymous-IP database has no record', () => {
+    const insight = normalizeMmdb('192.0.2.1', {
+      asn: { autonomous_system_number: 64500, autonomous_system_organization: 'Example' },
+      anonymous: null,
+    } as MmdbRecords);
+
+    expect(insight.privacy).toEqual({ vpn: false, proxy: false, tor: false, hosting: false });
+    expect(insight).toMatchObject({ riskScore: 10, riskReasons: [] });
+  });
+});
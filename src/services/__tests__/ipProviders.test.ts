@@ -0,0 +1,105 @@
+import { describe, expect, it, vi } from 'vitest';
+import { IpProviderRegistry, parseFieldPriority, type IpIntelProvider } from '../ipProviders';
+import type { NormalizedIpInsight } from '../../types/ip';
+import { logger } from '../../utils/logger';
+
+const ipinfo: NormalizedIpInsight = {
+  ip: '8.8.8.8',
+  city: 'Mountain View',
+  country: 'US',
+  latitude: 37.4,
+  longitude: -122.1,
+  asn: 'AS15169',
+  source: 'ipinfo',
+  fetchedAt: Date.now(),
+};
+
+const radar: NormalizedIpInsight = {
+  ip: '8.8.8.8',
+  city: 'San Jose',
+  latitude: 37.3,
+  networkType: 'hosting',
+  source: 'radar',
+  fetchedAt: Date.now(),
+};
+
+const provider = (name: IpIntelProvider['name'], insight: NormalizedIpInsight | Error): IpIntelProvider => ({
+  name,
+  isEnabled: () => true,
+  lookup: vi.fn(async () => {
+    if (insight instanceof Error) {
+      throw insight;
+    }
+    return insight;
+  }),
+});
+
+describe('IpProviderRegistry', () => {
+  it('returns the first successful provider and skips the rest', async () => {
+    const radarProvider = provider('radar', radar);
+    const registry = new IpProviderRegistry([provider('ipinfo', new Error('down')), radarProvider], {
+      order: ['ipinfo', 'radar'],
+      strategy: 'first-success',
+    });
+
+    const result = await registry.lookup('8.8.8.8');
+
+    expect(result?.source).toBe('radar');
+    expect(result?.fieldSources).toEqual({ city: 'radar', latitude: 'radar', networkType: 'radar' });
+  });
+
+  it('ignores disabled and unlisted providers', async () => {
+    const disabled = { ...provider('ipinfo', ipinfo), isEnabled: () => false };
+    const registry = new IpProviderRegistry([disabled, provider('radar', radar)], {
+      order: ['ipinfo'],
+      strategy: 'first-success',
+    });
+
+    expect(registry.getActiveProviders()).toEqual([]);
+    expect(await registry.lookup('8.8.8.8')).toBeNull();
+  });
+
+  it('merges all providers in order and marks the result as mixed', async () => {
+    const registry = new IpProviderRegistry([provider('ipinfo', ipinfo), provider('radar', radar)], {
+      order: ['ipinfo', 'radar'],
+      strategy: 'merge-all',
+    });
+
+    const result = await registry.lookup('8.8.8.8');
+
+    expect(result).toMatchObject({ city: 'Mountain View', networkType: 'hosting', source: 'mixed' });
+    expect(result?.fieldSources).toMatchObject({ city: 'ipinfo', asn: 'ipinfo', networkType: 'radar' });
+  });
+
+  it('applies field priority overrides and keeps coordinates together', async () => {
+    const registry = new IpProviderRegistry([provider('ipinfo', ipinfo), provider('radar', radar)], {
+      order: ['ipinfo', 'radar'],
+      strategy: 'field-priority',
+      fieldPriority: parseFieldPriority('city:radar;latitude:radar,ipinfo'),
+    });
+
+    const result = await registry.lookup('8.8.8.8');
+
+    expect(result).toMatchObject({ city: 'San Jose', country: 'US', latitude: 37.3 });
+    expect(result?.longitude).toBeUndefined();
+    expect(result?.fieldSources).toMatchObject({ city: 'radar', country: 'ipinfo', latitude: 'radar' });
+  });
+
+  it('drops unknown providers from the field priority', async () => {
+    const warn = vi.spyOn(logger, 'warn');
+    const registry = new IpProviderRegistry([provider('ipinfo', ipinfo), provider('radar', radar)], {
+      order: ['ipinfo', 'radar'],
+      strategy: 'field-priority',
+      fieldPriority: parseFieldPriority('city:maxmind,radar'),
+    });
+
+    const result = await registry.lookup('8.8.8.8');
+
+    expect(result).toMatchObject({ city: 'San Jose', fieldSources: { city: 'radar' } });
+    expect(warn).toHaveBeenCalledWith(
+      { field: 'city', provider: 'maxmind' },
+      'Unknown IP intelligence provider in field priority'
+    );
+    warn.mockRestore();
+  });
+});
@@ -2,20 +2,28 @@ import { beforeEach, describe, expect, it, vi } from 'vitest';
 
 vi.mock('../../clients/ipinfoClient', () => ({
   fetchIpInfo: vi.fn(),
+  fetchIpInfoBatch: vi.fn(),
+  IPINFO_BATCH_LIMIT: 100,
 }));
 
 vi.mock('../../clients/cloudflareRadarClient', () => ({
   fetchRadarIp: vi.fn(),
 }));
 
+vi.mock('../reverseDnsService', () => ({
+  lookupReverseDns: vi.fn(async () => null),
+}));
+
 import { lookupIpInsight } from '../ipService';
 import { fetchIpInfo } from '../../clients/ipinfoClient';
 import { fetchRadarIp } from '../../clients/cloudflareRadarClient';
+import { lookupReverseDns } from '../reverseDnsService';
 import { config } from '../../config';
 import type { IpInfoDetails, RadarIpResponse } from '../../types/ip';
 
 const ipinfoMock = vi.mocked(fetchIpInfo);
 const radarMock = vi.mocked(fetchRadarIp);
+const reverseDnsMock = vi.mocked(lookupReverseDns);
 
 const sampleIpinfo: IpInfoDetails = {
   ip: '8.8.8.8',
@@ -62,4 +70,17 @@ describe('lookupIpInsight', () => {
     expect(result.source).toBe('radar');
     expect(radarMock).toHaveBeenCalledTimes(1);
   });
+
+  it('attaches reverse DNS without caching it with the insight', async () => {
+    ipinfoMock.mockResolvedValue({ ...sampleIpinfo, ip: '8.8.4.4', hostname: 'dns.google' });
+    reverseDnsMock.mockResolvedValueOnce({ hostname: 'dns.google', forwardConfirmed: true, tags: [] });
+
+    const first = await lookupIpInsight('8.8.4.4');
+    const second = await lookupIpInsight('8.8.4.4');
+
+    expect(first.hostname).toBe('dns.google');
+    expect(first.reverseDns).toEqual({ hostname: 'dns.google', forwardConfirmed: true, tags: [] });
+    expect(second.reverseDns).toBeUndefined();
+    expect(reverseDnsMock).toHaveBeenCalledWith('8.8.4.4');
+  });
 });
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { inspectProxyHeaders } from '../proxyHeaders';
+import { evaluateIp } from '../report/ipEvaluator';
+
+const headersOf = (headers: Record<string, string>) => (name: string) => headers[name];
+
+describe('inspectProxyHeaders', () => {
+  it('reports nothing for a chain our own proxy accounts for', () => {
+    const analysis = inspectProxyHeaders(headersOf({ 'x-forwarded-for': '203.0.113.9', 'x-real-ip': '203.0.113.9' }), {
+      clientIp: '203.0.113.9',
+      isTrustedProxy: ip => ip === '10.0.0.1',
+    });
+
+    expect(analysis).toEqual({ detected: false, headers: [], intermediateIps: [], scorePenalty: 0, signals: [] });
+  });
+
+  it('lists upstream hops and proxy software headers', () => {
+    const analysis = inspectProxyHeaders(
+      headersOf({
+        via: '1.1 squid.example.net (squid/6.6)',
+        'x-forwarded-for': '198.51.100.4, 192.0.2.77, 203.0.113.9, 10.0.0.1',
+        'x-bluecoat-via': '5c2a64b2d7e1f3a1',
+        'proxy-connection': 'keep-alive',
+      }),
+      { clientIp: '203.0.113.9', isTrustedProxy: ip => ip === '10.0.0.1' }
+    );
+
+    expect(analysis.headers).toEqual(['Via', 'X-Forwarded-For', 'X-BlueCoat-Via', 'Proxy-Connection']);
+    expect(analysis.intermediateIps).toEqual(['198.51.100.4', '192.0.2.77']);
+    expect(analysis.signals.map(signal => [signal.message, signal.scorePenalty])).toEqual([
+      ['Request passed through a proxy (Via: 1.1 squid.example.net (squid/6.6))', 15],
+      ['Forwarding headers name 2 other addresses: 198.51.100.4, 192.0.2.77', 15],
+      ['Proxy software headers present: X-BlueCoat-Via, Proxy-Connection', 20],
+    ]);
+    expect(analysis.scorePenalty).toBe(50);
+  });
+
+  it('feeds the IP panel score', () => {
+    const proxyHeaders = inspectProxyHeaders(headersOf({ 'x-proxyuser-ip': '198.51.100.23' }), {
+      clientIp: '203.0.113.9',
+    });
+    const base = { ip: '203.0.113.9', source: 'ipinfo' as const, fetchedAt: 0 };
+
+    const clean = evaluateIp(base);
+    const proxied = evaluateIp({ ...base, proxyHeaders });
+
+    expect(proxyHeaders.intermediateIps).toEqual(['198.51.100.23']);
+    expect(clean.score - proxied.score).toBe(25);
+    expect(proxied.signals).toEqual([
+      'Forwarding headers name another address: 198.51.100.23',
+      'Proxy software headers present: X-ProxyUser-Ip',
+    ]);
+  });
+});
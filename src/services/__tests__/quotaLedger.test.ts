@@ -0,0 +1,134 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { ThreatIntelResult, ThreatProvider } from '../../types/threat';
+import { MemoryQuotaStore } from '../../utils/quotaStore';
+import { MemoryCache } from '../../utils/cache';
+import { QuotaLedger } from '../quotaLedger';
+import { AbuseIPDBClient } from '../../clients/abuseipdbClient';
+import { DNSBL_PRESETS, DnsblProvider } from '../../clients/dnsblClient';
+import { ThreatProviderRegistry, type CachedThreatResult } from '../threatProviders';
+
+const limit = { requests_per_day: 3, requests_per_hour: 2 };
+const start = Date.UTC(2025, 0, 1, 10, 15);
+
+describe('QuotaLedger', () => {
+  it('refuses calls once the hourly budget is spent and reports usage', async () => {
+    const ledger = new QuotaLedger(new MemoryQuotaStore(), () => start);
+
+    expect(await ledger.tryConsume('feed', limit)).toBeNull();
+    expect(await ledger.tryConsume('feed', limit)).toBeNull();
+    expect(await ledger.tryConsume('feed', limit)).toMatch(/hourly quota of 2 requests exhausted/);
+
+    const usage = await ledger.getUsage('feed', limit);
+    expect(usage.hour).toEqual({ used: 2, limit: 2, remaining: 0, resets_at: '2025-01-01T11:00:00.000Z' });
+    expect(usage.day).toMatchObject({ used: 2, remaining: 1, resets_at: '2025-01-02T00:00:00.000Z' });
+  });
+
+  it('starts a new window and enforces the daily budget across hours', async () => {
+    let now = start;
+    const ledger = new QuotaLedger(new MemoryQuotaStore(), () => now);
+
+    await ledger.tryConsume('feed', limit);
+    await ledger.tryConsume('feed', limit);
+    now += 60 * 60 * 1000;
+    expect(await ledger.tryConsume('feed', limit)).toBeNull();
+    expect(await ledger.tryConsume('feed', limit)).toMatch(/daily quota of 3/);
+  });
+
+  it('resyncs the daily count from upstream headers', async () => {
+    const ledger = new QuotaLedger(new MemoryQuotaStore(), () => start);
+
+    await ledger.sync('abuseipdb', { requests_per_day: 1000, requests_per_hour: 42 }, { remaining: 10, limit: 1000 });
+
+    const usage = await ledger.getUsage('abuseipdb', { requests_per_day: 1000, requests_per_hour: 42 });
+    expect(usage.day).toMatchObject({ used: 990, remaining: 10 });
+  });
+
+  it('keeps enforcing a budget tighter than the upstream limit after a resync', async () => {
+    const ledger = new QuotaLedger(new MemoryQuotaStore(), () => start);
+    const tight = { requests_per_day: 3, requests_per_hour: 10 };
+
+    await ledger.tryConsume('abuseipdb', tight);
+    await ledger.tryConsume('abuseipdb', tight);
+    await ledger.sync('abuseipdb', tight, { limit: 3000, remaining: 2999 });
+
+    expect((await ledger.getUsage('abuseipdb', tight)).day).toMatchObject({ used: 2, remaining: 1 });
+    expect(await ledger.tryConsume('abuseipdb', tight)).toBeNull();
+    expect(await ledger.tryConsume('abuseipdb', tight)).toMatch(/daily quota of 3/);
+  });
+});
+
+describe('ThreatProviderRegistry quotas', () => {
+  const provider = (check: () => Promise<ThreatIntelResult>): ThreatProvider => ({
+    name: 'feed',
+    weight: 20,
+    isConfigured: () => true,
+    checkIP: check,
+    getRateLimit: () => limit,
+  });
+
+  it('keeps serving stale results when revalidation is refused', async () => {
+    vi.useFakeTimers();
+    try {
+      const check = vi.fn(async () => ({ source: 'Feed', is_listed: true, threat_types: ['spam'], confidence: 0.9 }));
+      const registry = new ThreatProviderRegistry([provider(check)], {
+        cache: {
+          cache: new MemoryCache<CachedThreatResult>(1000, 10, 60_000),
+          ttlMs: 1000,
+          staleTtlMs: 60_000,
+          negativeTtlMs: 1000,
+        },
+        quota: new QuotaLedger(new MemoryQuotaStore()),
+      });
+
+      await registry.checkAll('192.0.2.1');
+      vi.advanceTimersByTime(2000);
+      await registry.checkAll('192.0.2.1'); // stale: revalidates, spending the second call
+      vi.advanceTimersByTime(2000);
+      const deferred = await registry.checkAll('192.0.2.1'); // stale again, revalidation refused
+
+      expect(check).toHaveBeenCalledTimes(2);
+      expect(deferred.feed).toMatchObject({ cached: true, is_listed: true });
+      expect(deferred.feed.error).toBeUndefined();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('counts nothing for checks that never reach upstream', async () => {
+    const resolveA = vi.fn(async () => []);
+    const registry = new ThreatProviderRegistry(
+      [new AbuseIPDBClient(), new DnsblProvider(DNSBL_PRESETS.spamcop, { resolveA })],
+      { quota: new QuotaLedger(new MemoryQuotaStore()) }
+    );
+
+    const results = await registry.checkAll('2001:db8::1');
+    const usage = await registry.getQuotaUsage();
+
+    expect(results.abuseipdb.error).toBe('API key not configured');
+    expect(resolveA).not.toHaveBeenCalled();
+    for (const name of ['abuseipdb', 'spamcop']) {
+      expect(usage[name]).toMatchObject({ hour: { used: 0 }, day: { used: 0 } });
+    }
+  });
+
+  it('strips upstream rate-limit reports after syncing the ledger', async () => {
+    const ledger = new QuotaLedger(new MemoryQuotaStore());
+    const registry = new ThreatProviderRegistry(
+      [
+        provider(async () => ({
+          source: 'Feed',
+          is_listed: false,
+          threat_types: [],
+          confidence: 0.1,
+          rate_limit: { remaining: 1 },
+        })),
+      ],
+      { quota: ledger }
+    );
+
+    const results = await registry.checkAll('192.0.2.1');
+
+    expect(results.feed.rate_limit).toBeUndefined();
+    expect((await ledger.getUsage('feed', limit)).day.remaining).toBe(1);
+  });
+});
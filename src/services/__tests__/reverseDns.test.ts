@@ -0,0 +1,129 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MemoryCache } from '../../utils/cache';
+import { ReverseDnsLookup, classifyHostname } from '../reverseDns';
+import { evaluateIp } from '../report/ipEvaluator';
+import type { ReverseDnsResolver } from '../../clients/dnsblClient';
+import type { ReverseDnsRecord } from '../../types/dns';
+
+const resolverFor = (ptr: Record<string, string[]>, forward: Record<string, string[]>): ReverseDnsResolver => ({
+  resolvePtr: vi.fn(async (ip: string) => ptr[ip] ?? []),
+  resolveA: vi.fn(async (name: string) => forward[name] ?? []),
+  resolveAaaa: vi.fn(async (name: string) => forward[name] ?? []),
+});
+
+describe('classifyHostname', () => {
+  it('reads ISP assignment and access technology', () => {
+    expect(classifyHostname('c-73-15-2-4.hsd1.ca.comcast.net', '73.15.2.4').tags).toEqual(['generic']);
+    expect(classifyHostname('dyn-pool12.adsl.example.net').tags).toEqual(['dynamic', 'pool', 'dsl']);
+    expect(classifyHostname('4.2.15.73.static.ftth.example.net', '73.15.2.4').tags).toEqual([
+      'static',
+      'fiber',
+      'generic',
+    ]);
+  });
+
+  it('names cloud instances, servers and Tor relays', () => {
+    expect(classifyHostname('ec2-54-1-2-3.compute-1.amazonaws.com')).toEqual({
+      tags: ['cloud'],
+      cloudProvider: 'AWS EC2',
+    });
+    expect(classifyHostname('3.2.1.34.bc.googleusercontent.com').cloudProvider).toBe('Google Cloud');
+    expect(classifyHostname('vps123.example.org').tags).toEqual(['vps']);
+    expect(classifyHostname('tor-exit-7.example.org').tags).toEqual(['tor']);
+    expect(classifyHostname('toronto.example.net').tags).toEqual([]);
+  });
+});
+
+describe('ReverseDnsLookup', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('prefers the forward-confirmed name and caches the result', async () => {
+    const resolver = resolverFor(
+      { '192.0.2.10': ['mail.example.org', 'vps10.example.net'] },
+      { 'mail.example.org': ['198.51.100.1'], 'vps10.example.net': ['192.0.2.10'] }
+    );
+    const lookup = new ReverseDnsLookup(resolver, new MemoryCache<ReverseDnsRecord>());
+
+    expect(await lookup.lookup('192.0.2.10')).toEqual({
+      hostname: 'vps10.example.net',
+      hostnames: ['mail.example.org', 'vps10.example.net'],
+      forwardConfirmed: true,
+      tags: ['vps'],
+    });
+    await lookup.lookup('192.0.2.10');
+    expect(resolver.resolvePtr).toHaveBeenCalledTimes(1);
+  });
+
+  it('confirms IPv6 names over AAAA and caches missing PTR records', async () => {
+    const resolver = resolverFor(
+      { '2001:db8::1': ['host.example.net'] },
+      { 'host.example.net': ['2001:0db8:0000:0000:0000:0000:0000:0001'] }
+    );
+    const lookup = new ReverseDnsLookup(resolver, new MemoryCache<ReverseDnsRecord>());
+
+    expect((await lookup.lookup('2001:db8::1'))?.forwardConfirmed).toBe(true);
+    expect(resolver.resolveAaaa).toHaveBeenCalledWith('host.example.net');
+
+    expect(await lookup.lookup('2001:db8::2')).toBeNull();
+    await lookup.lookup('2001:db8::2');
+    expect(resolver.resolvePtr).toHaveBeenCalledTimes(2);
+  });
+
+  it('caches resolver failures briefly', async () => {
+    vi.useFakeTimers();
+    const resolver = resolverFor({}, {});
+    vi.mocked(resolver.resolvePtr).mockRejectedValue(new Error('DNS query timed out'));
+    const lookup = new ReverseDnsLookup(resolver, new MemoryCache<ReverseDnsRecord>(), { failureTtlMs: 1_000 });
+
+    expect(await lookup.lookup('192.0.2.20')).toBeNull();
+    await lookup.lookup('192.0.2.20');
+    expect(resolver.resolvePtr).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(1_500);
+    await lookup.lookup('192.0.2.20');
+    expect(resolver.resolvePtr).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps the PTR name when a forward confirmation query fails', async () => {
+    const resolver = resolverFor({ '192.0.2.40': ['host40.example.net'] }, {});
+    vi.mocked(resolver.resolveA).mockRejectedValue(new Error('SERVFAIL'));
+    const lookup = new ReverseDnsLookup(resolver, new MemoryCache<ReverseDnsRecord>());
+
+    expect(await lookup.lookup('192.0.2.40')).toEqual({
+      hostname: 'host40.example.net',
+      forwardConfirmed: false,
+      tags: [],
+    });
+  });
+});
+
+describe('evaluateIp reverse DNS signals', () => {
+  const base = { ip: '192.0.2.30', source: 'ipinfo' as const, fetchedAt: 0 };
+
+  it('penalizes instance names and unconfirmed PTR records', () => {
+    const result = evaluateIp({
+      ...base,
+      reverseDns: {
+        hostname: 'ec2-192-0-2-30.compute-1.amazonaws.com',
+        forwardConfirmed: false,
+        ...classifyHostname('ec2-192-0-2-30.compute-1.amazonaws.com', '192.0.2.30'),
+      },
+    });
+
+    expect(result.detailedSignals.map(signal => [signal.message.split(':')[0], signal.scorePenalty])).toEqual([
+      ['Hostname follows AWS EC2 instance naming', 25],
+      ['Reverse DNS is not forward-confirmed', 5],
+    ]);
+  });
+
+  it('falls back to the provider hostname', () => {
+    const result = evaluateIp({ ...base, hostname: 'dynamic-192-0-2-30.cable.example.net' });
+
+    expect(result.signals).toEqual([
+      'Hostname indicates an end-user connection (dynamic, cable, address-based name): dynamic-192-0-2-30.cable.example.net',
+      'IP address shows clean reputation',
+    ]);
+  });
+});
@@ -0,0 +1,73 @@
+import { gzipSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { RoutingTable, decodeRoutingTable } from '../routingTable';
+
+const pyasn = [
+  '; IP-ASN32-DAT file',
+  '; Original source:\trib.20251116.0000.bz2',
+  '1.0.0.0/24\t13335',
+  '8.0.0.0/9\t3356',
+  '8.8.8.0/24\t15169',
+  '2001:4860::/32\t15169',
+  'not-a-prefix\t1',
+  '9.9.9.0/24\t0',
+].join('\n');
+
+const caida = [
+  '8.8.4.0\t24\t15169',
+  '45.0.0.0\t16\t3356_1299',
+  '45.1.0.0\t24\t{64500,64501}',
+  '2001:db8::\t32\t64496',
+].join('\n');
+
+describe('RoutingTable', () => {
+  it('answers longest-prefix origin lookups from a pyasn dump', () => {
+    const table = new RoutingTable();
+    expect(table.load(pyasn, 'ipasn.dat')).toBe(4);
+
+    expect(table.lookup('8.8.8.8')).toEqual({ asn: 15169, prefix: '8.8.8.0/24' });
+    expect(table.lookup('8.1.2.3')).toEqual({ asn: 3356, prefix: '8.0.0.0/9' });
+    expect(table.lookup('2001:4860:4860::8888')?.asn).toBe(15169);
+    expect(table.lookup('::ffff:1.0.0.1')?.asn).toBe(13335);
+    expect(table.lookup('9.9.9.9')).toBeNull();
+    expect(table.getStatus()).toMatchObject({ loaded: true, prefixes: { ipv4: 3, ipv6: 1 }, source: 'ipasn.dat' });
+  });
+
+  it('reads CAIDA prefix2as with multi-origin and AS-set entries', () => {
+    const table = new RoutingTable();
+    table.load(caida, 'pfx2as');
+
+    expect(table.lookup('8.8.4.4')).toEqual({ asn: 15169, prefix: '8.8.4.0/24' });
+    expect(table.lookup('45.0.1.1')).toEqual({ asn: 3356, origins: [3356, 1299], prefix: '45.0.0.0/16' });
+    expect(table.lookup('45.1.0.9')?.origins).toEqual([64500, 64501]);
+    expect(table.lookup('2001:db8::1')?.asn).toBe(64496);
+    expect(table.prefixesFor(3356)).toEqual(['45.0.0.0/16']);
+    expect(table.prefixesFor(1299)).toEqual(['45.0.0.0/16']);
+  });
+
+  it('rejects input without routes and keeps the previous table', () => {
+    const table = new RoutingTable();
+    table.load(pyasn, 'ipasn.dat');
+
+    expect(() => table.load('<html>Not Found</html>', 'broken')).toThrow(/No routes/);
+    expect(table.lookup('8.8.8.8')?.asn).toBe(15169);
+  });
+
+  it('round-trips through a snapshot', () => {
+    const table = new RoutingTable();
+    table.load(caida, 'pfx2as');
+
+    const restored = new RoutingTable();
+    restored.restore(table.toSnapshot());
+
+    expect(restored.lookup('45.0.1.1')?.origins).toEqual([3356, 1299]);
+    expect(restored.getStatus()).toEqual(table.getStatus());
+  });
+});
+
+describe('decodeRoutingTable', () => {
+  it('gunzips compressed dumps and passes plain text through', async () => {
+    expect(await decodeRoutingTable(gzipSync(caida))).toBe(caida);
+    expect(await decodeRoutingTable(new TextEncoder().encode(pyasn))).toBe(pyasn);
+  });
+});
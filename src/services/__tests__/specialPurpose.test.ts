@@ -0,0 +1,63 @@
+import { describe, expect, it, vi } from 'vitest';
+import { classifySpecialPurpose, nonRoutableInsight } from '../specialPurpose';
+import { evaluateIp } from '../report/ipEvaluator';
+import { generateReportWithLookup } from '../report';
+
+describe('classifySpecialPurpose', () => {
+  it('finds the most specific registry block', () => {
+    expect(classifySpecialPurpose('10.1.2.3')).toEqual({
+      category: 'private',
+      name: 'Private-Use',
+      prefix: '10.0.0.0/8',
+      rfc: 'RFC 1918',
+    });
+    expect(classifySpecialPurpose('100.127.255.254')?.category).toBe('cgnat');
+    expect(classifySpecialPurpose('0.0.0.0')?.category).toBe('unspecified');
+    expect(classifySpecialPurpose('0.1.2.3')?.category).toBe('this-network');
+    expect(classifySpecialPurpose('203.0.113.9')?.category).toBe('documentation');
+    expect(classifySpecialPurpose('239.255.255.250')?.category).toBe('multicast');
+    expect(classifySpecialPurpose('255.255.255.255')?.category).toBe('broadcast');
+    expect(classifySpecialPurpose('250.1.1.1')?.category).toBe('reserved');
+  });
+
+  it('covers IPv6 and IPv4-mapped addresses', () => {
+    expect(classifySpecialPurpose('::1')?.category).toBe('loopback');
+    expect(classifySpecialPurpose('FD12:3456::1')?.category).toBe('unique-local');
+    expect(classifySpecialPurpose('fe80::1ff:fe23:4567:890a')?.category).toBe('link-local');
+    expect(classifySpecialPurpose('ff02::1')?.category).toBe('multicast');
+    expect(classifySpecialPurpose('::ffff:192.168.0.1')?.prefix).toBe('192.168.0.0/16');
+  });
+
+  it('leaves routable and invalid addresses alone', () => {
+    expect(classifySpecialPurpose('8.8.8.8')).toBeNull();
+    expect(classifySpecialPurpose('100.128.0.1')).toBeNull();
+    expect(classifySpecialPurpose('2606:4700::1111')).toBeNull();
+    expect(classifySpecialPurpose('64:ff9b::808:808')).toBeNull();
+    expect(classifySpecialPurpose('not-an-ip')).toBeNull();
+  });
+});
+
+describe('non-routable reports', () => {
+  it('explains the address instead of scoring reputation', () => {
+    const result = evaluateIp(nonRoutableInsight('192.168.1.20', classifySpecialPurpose('192.168.1.20')!));
+
+    expect(result.status).toBe('suspicious');
+    expect(result.signals).toEqual(['Private network address: Private-Use (192.168.0.0/16, RFC 1918)']);
+    expect(result.detailedSignals[0]).toMatchObject({ impact: 'high', scorePenalty: 40 });
+  });
+
+  it('skips the injected lookup', async () => {
+    const ipLookup = vi.fn();
+
+    const report = await generateReportWithLookup(
+      { fingerprint: { userAgent: 'Mozilla/5.0 (X11; Linux x86_64; rv:128.0) Gecko/20100101 Firefox/128.0' } },
+      '100.64.0.1',
+      ipLookup
+    );
+
+    expect(ipLookup).not.toHaveBeenCalled();
+    expect(report.source).toBe('local');
+    expect(report.specialPurpose?.category).toBe('cgnat');
+    expect(report.panels.ipAddress.signals[0]).toMatch(/^Carrier-grade NAT address/);
+  });
+});
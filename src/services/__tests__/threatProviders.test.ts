@@ -0,0 +1,179 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { ThreatIntelResult, ThreatProvider } from '../../types/threat';
+import { MemoryCache } from '../../utils/cache';
+import { CircuitBreaker } from '../../utils/circuitBreaker';
+import { ThreatIntelligenceService } from '../threatIntelligence';
+import { ThreatProviderRegistry, parseThreatProviderWeights, type CachedThreatResult } from '../threatProviders';
+
+const result = (source: string, overrides: Partial<ThreatIntelResult> = {}): ThreatIntelResult => ({
+  source,
+  is_listed: false,
+  threat_types: [],
+  confidence: 0.05,
+  ...overrides,
+});
+
+const provider = (name: string, weight: number, check: () => Promise<ThreatIntelResult>): ThreatProvider => ({
+  name,
+  weight,
+  isConfigured: () => true,
+  checkIP: check,
+});
+
+describe('parseThreatProviderWeights', () => {
+  it('parses name:points pairs and drops invalid entries', () => {
+    expect(parseThreatProviderWeights('abuseipdb:50, spamhaus:30,bad:200,empty:')).toEqual({
+      abuseipdb: 50,
+      spamhaus: 30,
+    });
+    expect(parseThreatProviderWeights(undefined)).toEqual({});
+  });
+});
+
+describe('ThreatProviderRegistry', () => {
+  it('applies weight overrides and turns thrown errors into error results', async () => {
+    const registry = new ThreatProviderRegistry(
+      [
+        provider('feed', 20, async () => result('Feed')),
+        provider('broken', 10, async () => {
+          throw new Error('upstream down');
+        }),
+      ],
+      { weights: { feed: 35, unknown: 5 } }
+    );
+
+    expect(registry.weightOf('feed')).toBe(35);
+    expect(registry.weightOf('broken')).toBe(10);
+
+    const results = await registry.checkAll('192.0.2.1');
+    expect(Object.keys(results)).toEqual(['feed', 'broken']);
+    expect(results.broken).toMatchObject({ source: 'broken', error: 'upstream down' });
+  });
+
+  it('skips providers whose circuit is open and reports them unavailable', async () => {
+    const circuit = new CircuitBreaker('feed', { failureThreshold: 1 });
+    await circuit.execute(async () => Promise.reject(new Error('HTTP 503'))).catch(() => undefined);
+    const check = vi.fn(async () => result('Feed'));
+    const service = new ThreatIntelligenceService({
+      dnsblProviders: [{ ...provider('feed', 20, check), circuit }],
+    });
+
+    const { providers } = await service.analyzeIP('8.8.8.8');
+    const status = await service.getProviderStatus();
+
+    expect(check).not.toHaveBeenCalled();
+    expect(providers.feed).toMatchObject({ circuit_open: true, error: 'feed circuit open' });
+    expect(status.feed).toMatchObject({
+      configured: true,
+      available: false,
+      circuit: { state: 'open', calls: 1, error_rate: 1, last_failure: { reason: 'HTTP 503' } },
+    });
+  });
+});
+
+describe('ThreatIntelligenceService aggregation', () => {
+  it('sums weighted listings from any number of providers and skips failures', async () => {
+    const service = new ThreatIntelligenceService({
+      dnsblProviders: [],
+      providers: [
+        provider('feed-a', 30, async () =>
+          result('Feed A', { is_listed: true, threat_types: ['scanner'], confidence: 0.9 })
+        ),
+        provider('feed-b', 40, async () =>
+          result('Feed B', { is_listed: true, threat_types: ['spam'], confidence: 0.7, weight: 0.5 })
+        ),
+        provider('feed-c', 50, async () => result('Feed C', { is_listed: true, error: 'timeout' })),
+      ],
+      weights: { 'feed-a': 25 },
+    });
+
+    const { providers, combined } = await service.analyzeIP('8.8.8.8');
+
+    expect(Object.keys(providers)).toEqual(['abuseipdb', 'feed-a', 'feed-b', 'feed-c']);
+    // feed-a: 25 * 1, feed-b: 40 * 0.5; feed-c errored and AbuseIPDB has no key
+    expect(combined.threat_score).toBe(45);
+    expect(combined.threat_level).toBe('high');
+    expect(combined.threat_types).toEqual(['scanner', 'spam']);
+    expect(combined.sources).toEqual(['Feed A', 'Feed B']);
+    expect(combined.failed_sources).toEqual(['AbuseIPDB', 'Feed C']);
+    expect(combined.confidence).toBe(0.8);
+  });
+
+  it('keeps the clean baseline when nothing is listed', async () => {
+    const service = new ThreatIntelligenceService({
+      dnsblProviders: [provider('zone', 40, async () => result('Zone'))],
+    });
+
+    const { combined } = await service.analyzeIP('8.8.8.8');
+
+    expect(combined).toMatchObject({ is_malicious: false, threat_score: 5, threat_level: 'low' });
+  });
+
+  it('does not query providers for special-purpose addresses', async () => {
+    const check = vi.fn(async () => result('Zone'));
+    const service = new ThreatIntelligenceService({ dnsblProviders: [provider('zone', 40, check)] });
+
+    const response = await service.analyzeIP('100.64.12.7');
+
+    expect(check).not.toHaveBeenCalled();
+    expect(response.providers).toEqual({});
+    expect(response.special_purpose).toMatchObject({ category: 'cgnat', rfc: 'RFC 6598' });
+    expect(response.combined).toMatchObject({ is_malicious: false, sources: [], failed_sources: [] });
+  });
+});
+
+describe('ThreatProviderRegistry caching', () => {
+  const cacheOptions = () => ({
+    // Shorter defaults than the entry TTLs, as with createCache's CACHE_TTL_MS / CACHE_STALE_TTL_MS
+    cache: new MemoryCache<CachedThreatResult>(1_000, 100, 2_000),
+    ttlMs: 60_000,
+    staleTtlMs: 120_000,
+    negativeTtlMs: 5_000,
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('serves repeat lookups from cache with their age', async () => {
+    vi.useFakeTimers();
+    const check = vi.fn(async () => result('Feed', { is_listed: true }));
+    const registry = new ThreatProviderRegistry([provider('feed', 20, check)], { cache: cacheOptions() });
+
+    const first = await registry.checkAll('192.0.2.1');
+    vi.advanceTimersByTime(30_000);
+    const second = await registry.checkAll('192.0.2.1');
+
+    expect(check).toHaveBeenCalledTimes(1);
+    expect(first.feed).toMatchObject({ cached: false });
+    expect(second.feed).toMatchObject({ cached: true, cache_age_ms: 30_000, is_listed: true });
+  });
+
+  it('revalidates stale results in the background', async () => {
+    vi.useFakeTimers();
+    const check = vi.fn(async () => result('Feed'));
+    const registry = new ThreatProviderRegistry([provider('feed', 20, check)], { cache: cacheOptions() });
+
+    await registry.checkAll('192.0.2.1');
+    vi.advanceTimersByTime(90_000);
+    const stale = await registry.checkAll('192.0.2.1');
+
+    expect(stale.feed).toMatchObject({ cached: true, cache_age_ms: 90_000 });
+    expect(check).toHaveBeenCalledTimes(2);
+  });
+
+  it('expires errored results after the negative TTL', async () => {
+    vi.useFakeTimers();
+    const check = vi.fn(async () => result('Feed', { error: 'upstream down' }));
+    const registry = new ThreatProviderRegistry([provider('feed', 20, check)], { cache: cacheOptions() });
+
+    await registry.checkAll('192.0.2.1');
+    await registry.checkAll('192.0.2.1');
+    expect(check).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(6_000);
+    const retried = await registry.checkAll('192.0.2.1');
+    expect(check).toHaveBeenCalledTimes(2);
+    expect(retried.feed).toMatchObject({ cached: false });
+  });
+});
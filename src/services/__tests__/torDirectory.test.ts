@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { TorDirectory } from '../torDirectory';
+
+const onionoo = JSON.stringify({
+  relays: [
+    {
+      nickname: 'exitrelay',
+      fingerprint: 'A'.repeat(40),
+      or_addresses: ['192.0.2.10:9001', '[2001:db8::10]:9001'],
+      exit_addresses: ['192.0.2.11'],
+      last_seen: '2024-05-01 12:00:00',
+      flags: ['Exit', 'Fast', 'Running', 'Valid'],
+    },
+    {
+      nickname: 'guardrelay',
+      fingerprint: 'B'.repeat(40),
+      or_addresses: ['198.51.100.5:443'],
+      last_seen: '2024-05-01 11:00:00',
+      flags: ['Guard', 'Running'],
+    },
+    {
+      nickname: 'middle',
+      fingerprint: 'C'.repeat(40),
+      or_addresses: ['203.0.113.7:9001'],
+      flags: ['Running'],
+    },
+  ],
+});
+
+const exitAddresses = `ExitNode ${'D'.repeat(40)}
+Published 2024-05-01 03:12:34
+LastStatus 2024-05-01 04:00:00
+ExitAddress 192.0.2.20 2024-05-01 04:05:25
+`;
+
+describe('TorDirectory', () => {
+  it('classifies Onionoo relays by role', () => {
+    const directory = new TorDirectory();
+    expect(directory.load(onionoo, 'onionoo')).toBe(5);
+
+    expect(directory.lookup('192.0.2.10')).toEqual({
+      role: 'exit',
+      nickname: 'exitrelay',
+      fingerprint: 'A'.repeat(40),
+      lastSeen: '2024-05-01T12:00:00.000Z',
+    });
+    expect(directory.lookup('192.0.2.11')?.role).toBe('exit');
+    expect(directory.lookup('2001:0db8::0010')?.role).toBe('exit');
+    expect(directory.lookup('198.51.100.5')?.role).toBe('guard');
+    expect(directory.lookup('203.0.113.7')?.role).toBe('relay');
+    expect(directory.lookup('8.8.8.8')).toBeNull();
+  });
+
+  it('parses exit-addresses and the bulk exit list', () => {
+    const directory = new TorDirectory();
+    directory.load(exitAddresses, 'exit-addresses');
+    expect(directory.lookup('192.0.2.20')).toEqual({
+      role: 'exit',
+      fingerprint: 'D'.repeat(40),
+      lastSeen: '2024-05-01T04:05:25.000Z',
+    });
+
+    directory.load('192.0.2.30\n192.0.2.31\n', 'bulk');
+    expect(directory.lookup('192.0.2.31')).toEqual({ role: 'exit' });
+    expect(directory.lookup('192.0.2.20')).toBeNull();
+  });
+
+  it('keeps the previous contents when a download is empty', () => {
+    const directory = new TorDirectory();
+    directory.load('192.0.2.30\n', 'bulk');
+
+    expect(() => directory.load('', 'bulk')).toThrow(/no relays/);
+    expect(directory.getStatus()).toMatchObject({ loaded: true, relays: 1, source: 'bulk' });
+  });
+});
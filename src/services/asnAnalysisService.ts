@@ -0,0 +1,25 @@
+/**
+ * ASN Analysis Service (Node.js)
+ * The shared instance behind `/v1/asn/:asn` and the enhanced analyzer, so
+ * threat checks recorded during IP analysis feed the ASN reputation. The
+ * Worker builds its own in `enhancedIpService.worker.ts`.
+ */
+
+import { config } from '../config';
+import { createCache } from '../utils/cacheFactory';
+import { upstreamHttp } from '../utils/httpClient';
+import type { ASNAnalysisResult, ASNThreatObservations } from '../types/asn';
+import { ASNService } from './asnService';
+import { AsnReputationLedger } from './asnReputation';
+import { lookupIpInsightBatch } from './ipService';
+import { getOriginPrefixes, lookupOriginRoute } from './routingTableService';
+
+export const asnService = new ASNService({
+  radar: { accountId: config.CLOUDFLARE_ACCOUNT_ID, token: config.CLOUDFLARE_RADAR_TOKEN },
+  circuit: { failureThreshold: config.CIRCUIT_FAILURE_THRESHOLD, cooldownMs: config.CIRCUIT_COOLDOWN_MS },
+  http: upstreamHttp,
+  routingTable: { lookup: lookupOriginRoute, prefixesFor: getOriginPrefixes },
+  lookupIpInsightBatch: ips => lookupIpInsightBatch(ips),
+  reputation: new AsnReputationLedger(createCache<ASNThreatObservations>('asn-reputation')),
+  profileCache: createCache<ASNAnalysisResult>('asn-profile'),
+});
@@ -0,0 +1,221 @@
+/**
+ * ASN Classification
+ * Labels networks as ISP, mobile carrier, hosting, CDN, education,
+ * government, business, VPN provider or satellite ISP. The curated table of
+ * well-known ASNs wins; for unlisted ASNs the IP provider's network type and
+ * then the network name fill in, at lower confidence.
+ *
+ * Runtime-neutral and synchronous, so the report evaluators can use it too.
+ */
+
+import type { ASNCategory, ASNClassification } from '../types/asn';
+
+export interface ASNClassificationHints {
+  /** Network or organization name, e.g. from Radar or the IP provider's `org` */
+  name?: string;
+  /** Network type reported by the IP provider (ipinfo `asn.type`, Radar `network_type`) */
+  networkType?: string;
+}
+
+export const ASN_CATEGORY_LABELS: Record<ASNCategory, string> = {
+  isp: 'ISP',
+  mobile: 'Mobile carrier',
+  hosting: 'Hosting provider',
+  cdn: 'CDN',
+  education: 'Education network',
+  government: 'Government network',
+  business: 'Business network',
+  vpn: 'VPN provider',
+  satellite: 'Satellite ISP',
+};
+
+const SOURCE_CONFIDENCE: Record<ASNClassification['source'], number> = {
+  curated: 0.95,
+  provider: 0.8,
+  name: 0.5,
+};
+
+/**
+ * Well-known networks whose category is not in doubt
+ * Mixed networks (a carrier's fixed and mobile arms on one ASN, a company
+ * that is also a cloud) are listed under their dominant use or left out.
+ */
+const CURATED_ASNS: Record<ASNCategory, Array<[asn: number, network: string]>> = {
+  hosting: [
+    [16509, 'Amazon AWS'],
+    [14618, 'Amazon AWS'],
+    [8075, 'Microsoft Azure'],
+    [396982, 'Google Cloud'],
+    [31898, 'Oracle Cloud'],
+    [36351, 'IBM Cloud'],
+    [45102, 'Alibaba Cloud'],
+    [132203, 'Tencent Cloud'],
+    [14061, 'DigitalOcean'],
+    [63949, 'Akamai Connected Cloud (Linode)'],
+    [20473, 'Vultr'],
+    [16276, 'OVHcloud'],
+    [24940, 'Hetzner'],
+    [51167, 'Contabo'],
+    [12876, 'Scaleway'],
+    [60781, 'Leaseweb'],
+    [197540, 'netcup'],
+    [8560, 'IONOS'],
+    [47583, 'Hostinger'],
+    [26496, 'GoDaddy'],
+    [46606, 'Unified Layer'],
+    [36352, 'ColoCrossing'],
+    [8100, 'QuadraNet'],
+    [53667, 'FranTech'],
+    [62240, 'Clouvider'],
+    [9009, 'M247'],
+    [60068, 'Datacamp'],
+  ],
+  cdn: [
+    [13335, 'Cloudflare'],
+    [20940, 'Akamai'],
+    [16625, 'Akamai'],
+    [54113, 'Fastly'],
+    [15133, 'Edgecast'],
+    [22822, 'Edgio'],
+    [2906, 'Netflix Open Connect'],
+    [15169, 'Google'],
+  ],
+  isp: [
+    [7922, 'Comcast'],
+    [20115, 'Charter'],
+    [7018, 'AT&T'],
+    [701, 'Verizon'],
+    [22773, 'Cox'],
+    [5650, 'Frontier'],
+    [812, 'Rogers'],
+    [577, 'Bell Canada'],
+    [6327, 'Shaw'],
+    [3320, 'Deutsche Telekom'],
+    [2856, 'BT'],
+    [5089, 'Virgin Media'],
+    [3215, 'Orange'],
+    [3352, 'Telefonica Spain'],
+    [3269, 'Telecom Italia'],
+    [12389, 'Rostelecom'],
+    [9121, 'Turk Telekom'],
+    [4134, 'China Telecom'],
+    [4837, 'China Unicom'],
+    [4713, 'NTT OCN'],
+    [2516, 'KDDI'],
+    [17676, 'SoftBank'],
+    [4766, 'Korea Telecom'],
+    [9829, 'BSNL'],
+    [1221, 'Telstra'],
+    [28573, 'Claro Brasil'],
+    [8151, 'Telmex'],
+  ],
+  mobile: [
+    [21928, 'T-Mobile US'],
+    [22394, 'Verizon Wireless'],
+    [20057, 'AT&T Mobility'],
+    [12576, 'EE'],
+    [25135, 'Vodafone UK'],
+    [16135, 'Turkcell'],
+    [8359, 'MTS'],
+    [31213, 'MegaFon'],
+    [9808, 'China Mobile'],
+    [55836, 'Reliance Jio'],
+    [45609, 'Bharti Airtel Mobility'],
+  ],
+  education: [
+    [3, 'MIT'],
+    [32, 'Stanford University'],
+    [11537, 'Internet2'],
+    [786, 'Jisc (JANET)'],
+    [20965, 'GEANT'],
+    [680, 'DFN'],
+    [2200, 'RENATER'],
+    [1103, 'SURF'],
+    [7575, 'AARNet'],
+    [4538, 'CERNET'],
+  ],
+  government: [
+    [721, 'US DoD Network Information Center'],
+    [749, 'US DoD Network Information Center'],
+  ],
+  business: [
+    [714, 'Apple'],
+    [32934, 'Meta'],
+    [36459, 'GitHub'],
+  ],
+  vpn: [[39351, 'Mullvad VPN']],
+  satellite: [
+    [14593, 'SpaceX Starlink'],
+    [7155, 'Viasat'],
+    [6621, 'HughesNet'],
+  ],
+};
+
+const CURATED = new Map<number, ASNCategory>(
+  (Object.entries(CURATED_ASNS) as Array<[ASNCategory, Array<[number, string]>]>).flatMap(([category, networks]) =>
+    networks.map(([asn]) => [asn, category] as const)
+  )
+);
+
+/** Provider network types: ipinfo uses isp/hosting/business/education/government */
+const NETWORK_TYPE_PATTERNS: Array<[RegExp, ASNCategory]> = [
+  [/vpn/i, 'vpn'],
+  [/hosting|data ?center|cloud/i, 'hosting'],
+  [/cdn|content/i, 'cdn'],
+  [/mobile|cellular|wireless/i, 'mobile'],
+  [/satellite/i, 'satellite'],
+  [/edu/i, 'education'],
+  [/gov/i, 'government'],
+  [/business|corporate|enterprise/i, 'business'],
+  [/isp|broadband|residential|cable|dsl/i, 'isp'],
+];
+
+/** First match wins, so the names most telling for risk come first */
+const NAME_PATTERNS: Array<[RegExp, ASNCategory]> = [
+  [/\bvpn\b|proxy/i, 'vpn'],
+  [/hosting|cloud|server|data ?center|colo(cation)?\b|\bvps\b/i, 'hosting'],
+  [/\bcdn\b|content delivery/i, 'cdn'],
+  [/satellite|starlink/i, 'satellite'],
+  [/mobile|wireless|cellular/i, 'mobile'],
+  [/universit|college|school|academ|research (and education )?network/i, 'education'],
+  [/government|ministry|federal|\bgov\b|department of/i, 'government'],
+  [/telecom|broadband|cable|internet service|\bisp\b/i, 'isp'],
+];
+
+const match = (patterns: Array<[RegExp, ASNCategory]>, value: string | undefined): ASNCategory | undefined =>
+  value ? patterns.find(([pattern]) => pattern.test(value))?.[1] : undefined;
+
+const classification = (
+  asn: number | undefined,
+  category: ASNCategory,
+  source: ASNClassification['source']
+): ASNClassification => ({
+  asn,
+  category,
+  label: ASN_CATEGORY_LABELS[category],
+  source,
+  confidence: SOURCE_CONFIDENCE[source],
+});
+
+/**
+ * Classify a network
+ *
+ * @param asn - ASN, when known; only the curated table uses it
+ * @returns Classification, or null when nothing identifies the network
+ */
+export const classifyAsn = (
+  asn: number | null | undefined,
+  hints: ASNClassificationHints = {}
+): ASNClassification | null => {
+  const id = asn ?? undefined;
+  const curated = id !== undefined ? CURATED.get(id) : undefined;
+  if (curated) {
+    return classification(id, curated, 'curated');
+  }
+  const provided = match(NETWORK_TYPE_PATTERNS, hints.networkType);
+  if (provided) {
+    return classification(id, provided, 'provider');
+  }
+  const named = match(NAME_PATTERNS, hints.name);
+  return named ? classification(id, named, 'name') : null;
+};
@@ -0,0 +1,80 @@
+/**
+ * ASN Profile
+ * Prefix counts and the country distribution of an ASN's announced address
+ * space, derived from its prefix list.
+ *
+ * Runtime-neutral: geolocation is injected, so the Node.js service and the
+ * Worker each pass their own batch IP lookup.
+ */
+
+import { formatIp } from '../utils/ip';
+import { parseCidr, type ParsedCidr } from '../utils/prefixTrie';
+import type { ASNGeography, ASNPrefixCounts, NetworkPrefix } from '../types/asn';
+
+/** Country of each address; addresses that could not be located map to undefined */
+export type CountryLocator = (ips: string[]) => Promise<Map<string, string | undefined>>;
+
+/** Largest prefixes geolocated per ASN; together they cover most of its space */
+export const GEOGRAPHY_SAMPLE_SIZE = 50;
+
+/**
+ * Weight of a prefix within its address family; IPv6 is counted in /64s
+ */
+const addressSpace = ({ version, length }: ParsedCidr): number =>
+  version === 4 ? 2 ** (32 - length) : 2 ** (64 - Math.min(length, 64));
+
+const parsePrefixes = (prefixes: NetworkPrefix[]): ParsedCidr[] =>
+  prefixes.flatMap(({ prefix }) => parseCidr(prefix) ?? []);
+
+export const countPrefixes = (prefixes: NetworkPrefix[]): ASNPrefixCounts => {
+  const parsed = parsePrefixes(prefixes);
+  const ipv4 = parsed.filter(cidr => cidr.version === 4).sort((a, b) => Number(a.network - b.network));
+
+  // Merge overlapping ranges so more-specifics of a listed prefix are not counted twice
+  let ipv4Addresses = 0;
+  let coveredUntil = -1;
+  for (const cidr of ipv4) {
+    const start = Number(cidr.network);
+    const end = start + addressSpace(cidr) - 1;
+    if (end <= coveredUntil) {
+      continue;
+    }
+    ipv4Addresses += end - Math.max(start, coveredUntil + 1) + 1;
+    coveredUntil = end;
+  }
+
+  return { ipv4: ipv4.length, ipv6: parsed.length - ipv4.length, ipv4_addresses: ipv4Addresses };
+};
+
+/**
+ * Share of announced space per country
+ * Geolocates the network address of the largest prefixes, weighting each by
+ * its size. IPv4 space is used when the ASN announces any, IPv6 otherwise.
+ */
+export async function summarizeGeography(prefixes: NetworkPrefix[], locate: CountryLocator): Promise<ASNGeography[]> {
+  const parsed = parsePrefixes(prefixes);
+  const family = parsed.some(cidr => cidr.version === 4) ? 4 : 6;
+  const sample = parsed
+    .filter(cidr => cidr.version === family)
+    .sort((a, b) => addressSpace(b) - addressSpace(a))
+    .slice(0, GEOGRAPHY_SAMPLE_SIZE)
+    .map(cidr => ({ ip: formatIp({ version: cidr.version, value: cidr.network }), space: addressSpace(cidr) }));
+  if (sample.length === 0) {
+    return [];
+  }
+
+  const countries = await locate(sample.map(({ ip }) => ip));
+  const spaceByCountry = new Map<string, number>();
+  let located = 0;
+  for (const { ip, space } of sample) {
+    const country = countries.get(ip);
+    if (country) {
+      spaceByCountry.set(country, (spaceByCountry.get(country) ?? 0) + space);
+      located += space;
+    }
+  }
+
+  return [...spaceByCountry]
+    .map(([country, space]) => ({ country, percentage: Math.round((space / located) * 1000) / 10 }))
+    .sort((a, b) => (b.percentage ?? 0) - (a.percentage ?? 0));
+}
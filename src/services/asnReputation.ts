@@ -0,0 +1,98 @@
+/**
+ * ASN Reputation Ledger
+ * Keeps the latest threat check of each address seen in an ASN and scores
+ * the ASN from them. Built only from our own threat intelligence results, so
+ * no upstream call is made to score an ASN.
+ *
+ * Runtime-neutral: observations live in the injected cache (memory, Redis or
+ * Cloudflare KV).
+ */
+
+import type { CacheAdapter } from '../utils/cacheInterface';
+import type { ASNMetrics, ASNThreatObservations } from '../types/asn';
+import type { CombinedThreatResult } from '../types/threat';
+
+export interface AsnReputationOptions {
+  /** How long observations are kept after the last one for an ASN */
+  ttlMs?: number;
+  /** Addresses remembered per ASN; the oldest are dropped first */
+  maxIpsPerAsn?: number;
+}
+
+export const DEFAULT_ASN_REPUTATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const DEFAULT_MAX_IPS_PER_ASN = 1000;
+
+const SPAM_TYPE = /spam/i;
+const MALWARE_TYPE = /malware|botnet|compromised/i;
+
+const share = (count: number, total: number): number => Math.round((count / total) * 100);
+
+/**
+ * Score an ASN from its observations
+ * Reputation starts at 100 and loses half the mean threat score and half the
+ * share of malicious addresses.
+ */
+export const scoreObservations = (observations: ASNThreatObservations): ASNMetrics | undefined => {
+  const checks = Object.values(observations.ips);
+  if (checks.length === 0) {
+    return undefined;
+  }
+  const threatScore = Math.round(checks.reduce((sum, check) => sum + check.threat_score, 0) / checks.length);
+  const maliciousShare = share(checks.filter(check => check.is_malicious).length, checks.length);
+  const reputationScore = Math.max(0, Math.round(100 - threatScore / 2 - maliciousShare / 2));
+
+  return {
+    reputation_score: reputationScore,
+    reputation_level: reputationScore >= 70 ? 'good' : reputationScore >= 40 ? 'neutral' : 'poor',
+    threat_score: threatScore,
+    spam_score: share(
+      checks.filter(check => check.threat_types.some(type => SPAM_TYPE.test(type))).length,
+      checks.length
+    ),
+    malware_score: share(
+      checks.filter(check => check.threat_types.some(type => MALWARE_TYPE.test(type))).length,
+      checks.length
+    ),
+    observed_ips: checks.length,
+  };
+};
+
+export class AsnReputationLedger {
+  private readonly ttlMs: number;
+  private readonly maxIpsPerAsn: number;
+
+  constructor(
+    private readonly cache: CacheAdapter<ASNThreatObservations>,
+    options: AsnReputationOptions = {}
+  ) {
+    this.ttlMs = options.ttlMs ?? DEFAULT_ASN_REPUTATION_TTL_MS;
+    this.maxIpsPerAsn = options.maxIpsPerAsn ?? DEFAULT_MAX_IPS_PER_ASN;
+  }
+
+  /**
+   * Record a threat check for an address in the ASN; checks no source answered are ignored
+   */
+  async record(asn: number, ip: string, combined: CombinedThreatResult): Promise<void> {
+    if (combined.sources.length === 0) {
+      return;
+    }
+    const key = `asn:${asn}`;
+    const entry = await this.cache.get(key);
+    const ips = { ...entry?.data.ips };
+    // Re-inserting moves the address to the end, so the oldest stay first
+    delete ips[ip];
+    ips[ip] = {
+      threat_score: combined.threat_score,
+      is_malicious: combined.is_malicious,
+      threat_types: combined.threat_types,
+      at: Date.now(),
+    };
+    const kept = Object.entries(ips).slice(-this.maxIpsPerAsn);
+    await this.cache.set(key, { ips: Object.fromEntries(kept) }, this.ttlMs, this.ttlMs);
+  }
+
+  async getMetrics(asn: number): Promise<ASNMetrics | undefined> {
+    const entry = await this.cache.get(`asn:${asn}`);
+    return entry ? scoreObservations(entry.data) : undefined;
+  }
+}
@@ -4,9 +4,17 @@
  * Integrates multiple data sources for deep network infrastructure insights
  */
 
-import { CloudflareRadarASNClient } from '../clients/cloudflareRadarASNClient';
-import type { ASNAnalysisResult } from '../types/asn';
+import { CloudflareRadarASNClient, type RadarCredentials } from '../clients/cloudflareRadarASNClient';
+import type { ASNAnalysisResult, NetworkPrefix, OriginRoute } from '../types/asn';
+import type { CombinedThreatResult } from '../types/threat';
+import type { IpBatchResult } from './ipBatch';
+import { countPrefixes, summarizeGeography } from './asnProfile';
+import { classifyAsn } from './asnClassification';
+import type { AsnReputationLedger } from './asnReputation';
+import type { CacheAdapter } from '../utils/cacheInterface';
 import { logger } from '../utils/logger';
+import type { CircuitBreakerOptions, CircuitHealth } from '../utils/circuitBreaker';
+import type { UpstreamHttp } from '../utils/upstreamHttp';
 
 /**
  * Extract ASN from IP info or string
@@ -32,15 +40,47 @@ export function extractASN(input: string | number | undefined): number | null {
   return null;
 }
 
+/** How long a completed profile (Radar data, prefixes, geography) is reused */
+export const DEFAULT_ASN_PROFILE_TTL_MS = 24 * 60 * 60 * 1000;
+
+export interface ASNServiceOptions {
+  /** Credentials for the Radar ASN endpoints */
+  radar?: RadarCredentials;
+  /** Circuit breaker settings for the Radar client */
+  circuit?: CircuitBreakerOptions;
+  /** Shared upstream HTTP client */
+  http?: UpstreamHttp;
+  /** Local prefix-to-origin table answering `getASNFromIP`; also lists prefixes Radar has none for */
+  routingTable?: { lookup(ip: string): OriginRoute | null; prefixesFor(asn: number): string[] };
+  /** Batch IP lookup used to geolocate announced prefixes */
+  lookupIpInsightBatch?: (ips: string[]) => Promise<IpBatchResult>;
+  /** Threat observations per ASN behind the reputation metrics */
+  reputation?: AsnReputationLedger;
+  /** Completed profiles per ASN, so Radar and the prefix geolocation are not queried on every analysis */
+  profileCache?: CacheAdapter<ASNAnalysisResult>;
+  /** Lifetime of cached profiles (defaults to `DEFAULT_ASN_PROFILE_TTL_MS`) */
+  profileTtlMs?: number;
+}
+
 /**
  * ASN Analysis Service
  * Coordinates ASN data retrieval and analysis from multiple sources
  */
 export class ASNService {
   private readonly radarClient: CloudflareRadarASNClient;
-
-  constructor() {
-    this.radarClient = new CloudflareRadarASNClient();
+  private readonly routingTable?: ASNServiceOptions['routingTable'];
+  private readonly lookupIpInsightBatch?: ASNServiceOptions['lookupIpInsightBatch'];
+  private readonly reputation?: AsnReputationLedger;
+  private readonly profileCache?: CacheAdapter<ASNAnalysisResult>;
+  private readonly profileTtlMs: number;
+
+  constructor(options: ASNServiceOptions = {}) {
+    this.radarClient = new CloudflareRadarASNClient(options.radar, { circuit: options.circuit, http: options.http });
+    this.routingTable = options.routingTable;
+    this.lookupIpInsightBatch = options.lookupIpInsightBatch;
+    this.reputation = options.reputation;
+    this.profileCache = options.profileCache;
+    this.profileTtlMs = options.profileTtlMs ?? DEFAULT_ASN_PROFILE_TTL_MS;
   }
 
   /**
@@ -58,14 +98,23 @@ export class ASNService {
         throw new Error(`Invalid ASN: ${asn}`);
       }
 
-      // Get analysis from Cloudflare Radar
-      const result = await this.radarClient.analyzeASN(asn);
+      // Reputation changes with every threat check, so it is never served from the profile cache
+      const [profile, metrics] = await Promise.all([
+        this.getProfile(asn),
+        this.reputation?.getMetrics(asn).catch(error => {
+          logger.warn({ asn, error }, 'ASN reputation lookup failed');
+          return undefined;
+        }),
+      ]);
+      const result: ASNAnalysisResult = { ...profile, metrics };
 
       logger.info(
         {
           asn,
           name: result.info.name,
           prefixCount: result.prefixes?.length || 0,
+          countries: result.geography?.length || 0,
+          observedIps: result.metrics?.observed_ips || 0,
         },
         'ASN analysis completed successfully'
       );
@@ -78,26 +127,88 @@ export class ASNService {
   }
 
   /**
-   * Get ASN from IP address using existing IP lookup services
-   * This is a helper method that extracts ASN from IP geolocation data
+   * Record a threat check of an address in this ASN for its reputation metrics
+   */
+  async recordThreats(asn: number, ip: string, combined: CombinedThreatResult): Promise<void> {
+    await this.reputation?.record(asn, ip, combined);
+  }
+
+  /**
+   * Radar analysis completed with classification, prefixes and geography
+   * Cached per ASN: these change slowly, and geolocating the prefixes costs a
+   * batch lookup of up to `GEOGRAPHY_SAMPLE_SIZE` addresses.
+   */
+  private async getProfile(asn: number): Promise<ASNAnalysisResult> {
+    const key = `asn-profile:${asn}`;
+    const cached = await this.profileCache?.get(key);
+    if (cached) {
+      return cached.data;
+    }
+    const profile = await this.completeProfile(await this.radarClient.analyzeASN(asn));
+    await this.profileCache?.set(key, profile, this.profileTtlMs, this.profileTtlMs);
+    return profile;
+  }
+
+  /**
+   * Add classification, prefix counts and geography to a Radar analysis
+   * Prefixes fall back to the routing table; geography is left out when the
+   * lookup fails.
+   */
+  private async completeProfile(result: ASNAnalysisResult): Promise<ASNAnalysisResult> {
+    const { asn } = result;
+    const prefixes: NetworkPrefix[] = result.prefixes?.length
+      ? result.prefixes
+      : (this.routingTable?.prefixesFor(asn) ?? []).map(prefix => ({
+          prefix,
+          ip_version: prefix.includes(':') ? 6 : 4,
+          status: 'active',
+        }));
+
+    const geography = await this.locatePrefixes(prefixes).catch(error => {
+      logger.warn({ asn, error }, 'ASN geography lookup failed');
+      return undefined;
+    });
+
+    return {
+      ...result,
+      classification: classifyAsn(asn, { name: [result.info.name, result.info.org_name].join(' ') }) ?? undefined,
+      prefixes,
+      prefix_counts: countPrefixes(prefixes),
+      geography,
+    };
+  }
+
+  private async locatePrefixes(prefixes: NetworkPrefix[]) {
+    const lookupBatch = this.lookupIpInsightBatch;
+    if (!lookupBatch || prefixes.length === 0) {
+      return undefined;
+    }
+    return summarizeGeography(prefixes, async ips => {
+      const { results } = await lookupBatch(ips);
+      return new Map(results.map(item => [item.ip, item.insight?.country]));
+    });
+  }
+
+  /**
+   * Get the origin ASN of the most specific announced prefix covering an IP
+   * Answered from the local routing table; no upstream call is made.
    *
    * @param ip - IP address
-   * @returns ASN number or null
+   * @returns ASN number, or null when no table is loaded or no prefix covers the IP
    */
   async getASNFromIP(ip: string): Promise<number | null> {
-    try {
-      // This would typically integrate with ipinfo or radar IP lookup
-      // For now, we return null and let the caller handle IP->ASN lookup
-      logger.debug({ ip }, 'ASN from IP lookup not yet implemented');
-      return null;
-    } catch (error) {
-      logger.error({ ip, error }, 'Failed to get ASN from IP');
+    const route = this.routingTable?.lookup(ip) ?? null;
+    if (!route) {
+      logger.debug({ ip }, 'No routing table entry for IP');
       return null;
     }
+    logger.debug({ ip, asn: route.asn, prefix: route.prefix }, 'Resolved ASN from routing table');
+    return route.asn;
   }
 
   /**
    * Check if ASN analysis service is available
+   * Configured and its circuit is not open; no upstream call is made.
    *
    * @returns True if service is configured and available
    */
@@ -106,34 +217,25 @@ export class ASNService {
       logger.debug('ASN service not configured (missing Cloudflare credentials)');
       return false;
     }
-
-    try {
-      const available = await this.radarClient.isAvailable();
-      logger.debug({ available }, 'ASN service availability check');
-      return available;
-    } catch (error) {
-      logger.error({ error }, 'ASN service availability check failed');
-      return false;
-    }
+    return this.radarClient.circuit.state !== 'open';
   }
 
   /**
    * Get service status
    *
-   * @returns Service configuration and availability status
+   * @returns Service configuration, availability and circuit health
    */
   async getStatus(): Promise<{
     configured: boolean;
     available: boolean;
     provider: string;
+    circuit: CircuitHealth;
   }> {
-    const configured = this.radarClient.isConfigured();
-    const available = configured ? await this.radarClient.isAvailable() : false;
-
     return {
-      configured,
-      available,
+      configured: this.radarClient.isConfigured(),
+      available: await this.isAvailable(),
       provider: 'Cloudflare Radar',
+      circuit: this.radarClient.circuit.getHealth(),
     };
   }
 }
@@ -0,0 +1,268 @@
+/**
+ * Browser Release Calendar
+ *
+ * Places a browser's major version on its release history to tell whether it
+ * is current, stale, ancient or not released yet. A calendar is bundled; the
+ * Node server can load a newer one from `BROWSER_RELEASES_PATH`
+ * (`browserReleasesService.ts`). Between calendar updates, releases are
+ * extrapolated from each browser's cadence, so thresholds keep moving.
+ *
+ * Runtime-neutral and synchronous, so the report evaluators can use it.
+ */
+
+import { z } from 'zod';
+import type {
+  BrowserId,
+  BrowserReleaseCalendar,
+  BrowserReleaseSchedule,
+  BrowserVersionAssessment,
+  VersionFreshness,
+} from '../types/browser';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** A replaced version stays current this long, while auto-updates roll out */
+const CURRENT_FOR_DAYS = 90;
+/** Versions replaced longer ago than this are ancient */
+const STALE_FOR_DAYS = 2 * 365;
+
+/**
+ * Stable releases as of the `updated` date
+ * Rapid-release browsers list anchor versions only; the majors in between are
+ * interpolated. Safari lists every major because it jumped from 18 to 26.
+ */
+export const BUNDLED_RELEASE_CALENDAR: BrowserReleaseCalendar = {
+  updated: '2025-11-01',
+  browsers: {
+    chrome: {
+      cadenceDays: 28,
+      previewMajors: 3,
+      releases: [
+        [80, '2020-02-04'],
+        [90, '2021-04-14'],
+        [100, '2022-03-29'],
+        [110, '2023-02-07'],
+        [120, '2023-12-05'],
+        [124, '2024-04-16'],
+        [128, '2024-08-20'],
+        [132, '2025-01-14'],
+        [136, '2025-04-29'],
+        [140, '2025-09-02'],
+        [142, '2025-10-28'],
+      ],
+    },
+    edge: {
+      cadenceDays: 28,
+      previewMajors: 3,
+      releases: [
+        [80, '2020-02-07'],
+        [90, '2021-04-15'],
+        [100, '2022-04-01'],
+        [110, '2023-02-09'],
+        [120, '2023-12-07'],
+        [124, '2024-04-18'],
+        [128, '2024-08-22'],
+        [132, '2025-01-17'],
+        [136, '2025-05-01'],
+        [140, '2025-09-05'],
+        [142, '2025-10-31'],
+      ],
+    },
+    firefox: {
+      cadenceDays: 28,
+      previewMajors: 2,
+      releases: [
+        [78, '2020-06-30'],
+        [91, '2021-08-10'],
+        [102, '2022-05-31'],
+        [115, '2023-07-04'],
+        [120, '2023-11-21'],
+        [128, '2024-07-09'],
+        [132, '2024-10-29'],
+        [136, '2025-03-04'],
+        [140, '2025-06-24'],
+        [144, '2025-10-14'],
+      ],
+      extendedSupport: [
+        [115, '2026-03-24'],
+        [128, '2026-03-24'],
+        [140, '2026-09-15'],
+      ],
+    },
+    safari: {
+      cadenceDays: 365,
+      previewMajors: 1,
+      exhaustive: true,
+      releases: [
+        [13, '2019-09-19'],
+        [14, '2020-09-16'],
+        [15, '2021-09-20'],
+        [16, '2022-09-12'],
+        [17, '2023-09-18'],
+        [18, '2024-09-16'],
+        [26, '2025-09-15'],
+      ],
+    },
+    opera: {
+      cadenceDays: 35,
+      previewMajors: 2,
+      releases: [
+        [70, '2020-07-28'],
+        [80, '2021-09-14'],
+        [90, '2022-08-18'],
+        [100, '2023-06-29'],
+        [110, '2024-05-14'],
+        [115, '2024-12-04'],
+        [120, '2025-06-24'],
+        [122, '2025-09-02'],
+      ],
+    },
+    samsung: {
+      cadenceDays: 120,
+      previewMajors: 1,
+      releases: [
+        [13, '2020-12-07'],
+        [17, '2022-05-02'],
+        [20, '2023-02-01'],
+        [23, '2023-11-06'],
+        [25, '2024-05-13'],
+        [27, '2024-11-20'],
+        [28, '2025-04-07'],
+      ],
+    },
+  },
+};
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD');
+
+const scheduleSchema = z.object({
+  cadenceDays: z.number().int().positive(),
+  previewMajors: z.number().int().nonnegative(),
+  exhaustive: z.boolean().optional(),
+  releases: z
+    .array(z.tuple([z.number().int().nonnegative(), dateSchema]))
+    .min(1)
+    .refine(releases => releases.every(([major], i) => i === 0 || major > releases[i - 1][0]), {
+      message: 'Releases must be in ascending major order',
+    }),
+  extendedSupport: z.array(z.tuple([z.number().int().nonnegative(), dateSchema])).optional(),
+});
+
+const calendarSchema = z.object({
+  updated: dateSchema,
+  browsers: z.object({
+    chrome: scheduleSchema.optional(),
+    edge: scheduleSchema.optional(),
+    firefox: scheduleSchema.optional(),
+    safari: scheduleSchema.optional(),
+    opera: scheduleSchema.optional(),
+    samsung: scheduleSchema.optional(),
+  }),
+});
+
+/**
+ * Validate a calendar file
+ * Browsers the file leaves out keep their bundled schedule.
+ */
+export const parseReleaseCalendar = (input: unknown): BrowserReleaseCalendar => {
+  const parsed = calendarSchema.parse(input);
+  const browsers = { ...BUNDLED_RELEASE_CALENDAR.browsers };
+  for (const [id, schedule] of Object.entries(parsed.browsers) as Array<[BrowserId, BrowserReleaseSchedule]>) {
+    if (schedule) {
+      browsers[id] = schedule;
+    }
+  }
+  return { updated: parsed.updated, browsers };
+};
+
+let activeCalendar = BUNDLED_RELEASE_CALENDAR;
+
+export const getReleaseCalendar = (): BrowserReleaseCalendar => activeCalendar;
+
+export const setReleaseCalendar = (calendar: BrowserReleaseCalendar): void => {
+  activeCalendar = calendar;
+};
+
+const toTime = (date: string) => Date.parse(`${date}T00:00:00Z`);
+
+/** Stable release time of a major, interpolated or extrapolated where the calendar has no entry */
+const releaseTime = (schedule: BrowserReleaseSchedule, major: number): number => {
+  const { releases, cadenceDays } = schedule;
+  const [firstMajor, firstDate] = releases[0];
+  const [lastMajor, lastDate] = releases[releases.length - 1];
+  if (major <= firstMajor) {
+    return toTime(firstDate) - (firstMajor - major) * cadenceDays * DAY_MS;
+  }
+  if (major >= lastMajor) {
+    return toTime(lastDate) + (major - lastMajor) * cadenceDays * DAY_MS;
+  }
+  const nextIndex = releases.findIndex(([listed]) => listed >= major);
+  const [nextMajor, nextDate] = releases[nextIndex];
+  if (nextMajor === major || schedule.exhaustive) {
+    return toTime(nextDate);
+  }
+  const [previousMajor, previousDate] = releases[nextIndex - 1];
+  const share = (major - previousMajor) / (nextMajor - previousMajor);
+  return toTime(previousDate) + share * (toTime(nextDate) - toTime(previousDate));
+};
+
+/** The major that replaced this one */
+const successor = (schedule: BrowserReleaseSchedule, major: number): number =>
+  (schedule.exhaustive ? schedule.releases.find(([listed]) => listed > major)?.[0] : undefined) ?? major + 1;
+
+/** Newest stable major at a given time */
+const latestMajor = (schedule: BrowserReleaseSchedule, now: number): number => {
+  const { releases, cadenceDays } = schedule;
+  const [lastMajor, lastDate] = releases[releases.length - 1];
+  if (now >= toTime(lastDate)) {
+    return lastMajor + Math.floor((now - toTime(lastDate)) / (cadenceDays * DAY_MS));
+  }
+  const majors = schedule.exhaustive
+    ? releases.map(([major]) => major)
+    : Array.from({ length: lastMajor - releases[0][0] + 1 }, (_, i) => releases[0][0] + i);
+  return majors.reverse().find(major => releaseTime(schedule, major) <= now) ?? releases[0][0];
+};
+
+/**
+ * Place a browser's major version on its release calendar
+ * Versions ahead of stable by no more than the preview channels are current,
+ * and so are long-term support majors until their support ends.
+ */
+export const assessBrowserVersion = (
+  browser: { id: BrowserId; major: number },
+  now: number = Date.now(),
+  calendar: BrowserReleaseCalendar = activeCalendar
+): BrowserVersionAssessment => {
+  const schedule = calendar.browsers[browser.id];
+  const latest = latestMajor(schedule, now);
+  const { major } = browser;
+
+  if (major > latest + schedule.previewMajors) {
+    return { freshness: 'future', major, latestMajor: latest };
+  }
+  const supersededAt = releaseTime(schedule, successor(schedule, major));
+  if (major >= latest || supersededAt > now) {
+    return { freshness: 'current', major, latestMajor: latest };
+  }
+  const supportEnd = schedule.extendedSupport?.find(([listed]) => listed === major)?.[1];
+  const supportedUntil = supportEnd ? { supportedUntil: supportEnd } : {};
+  if (supportEnd && toTime(supportEnd) > now) {
+    return { freshness: 'current', major, latestMajor: latest, ...supportedUntil };
+  }
+
+  const daysBehind = Math.floor((now - Math.max(supersededAt, supportEnd ? toTime(supportEnd) : 0)) / DAY_MS);
+  let freshness: VersionFreshness = 'ancient';
+  if (daysBehind <= CURRENT_FOR_DAYS) {
+    freshness = 'current';
+  } else if (daysBehind <= STALE_FOR_DAYS) {
+    freshness = 'stale';
+  }
+  return {
+    freshness,
+    major,
+    latestMajor: latest,
+    supersededAt: new Date(supersededAt).toISOString().slice(0, 10),
+    ...supportedUntil,
+    daysBehind,
+  };
+};
@@ -0,0 +1,27 @@
+/**
+ * Browser Release Calendar Service (Node.js)
+ * Replaces the bundled release calendar with `BROWSER_RELEASES_PATH` when set.
+ * The Worker keeps the bundled calendar.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { parseReleaseCalendar, setReleaseCalendar } from './browserReleases';
+
+/**
+ * Load the configured calendar; on failure the bundled one stays in use
+ */
+export async function loadBrowserReleaseCalendar(): Promise<void> {
+  const path = config.BROWSER_RELEASES_PATH;
+  if (!path) {
+    return;
+  }
+  try {
+    const calendar = parseReleaseCalendar(JSON.parse(await readFile(path, 'utf8')));
+    setReleaseCalendar(calendar);
+    logger.info({ source: path, updated: calendar.updated }, 'Browser release calendar loaded');
+  } catch (error) {
+    logger.warn({ err: error, source: path }, 'Browser release calendar load failed; using the bundled calendar');
+  }
+}
@@ -0,0 +1,235 @@
+/**
+ * Cloud Provider Ranges
+ *
+ * Parses the range files AWS, GCP, Azure, Oracle Cloud and DigitalOcean
+ * publish and attributes addresses to a provider, service and region with
+ * longest-prefix matching.
+ *
+ * Shared between the Node.js service and the Cloudflare Worker; fetching and
+ * scheduling live in `cloudRangesService.ts` / `cloudRangesService.worker.ts`.
+ */
+
+import { logger } from '../utils/logger';
+import { PrefixTrie } from '../utils/prefixTrie';
+import type {
+  CloudAttribution,
+  CloudProvider,
+  CloudRange,
+  CloudRangesSnapshot,
+  CloudRangesStatus,
+} from '../types/cloud';
+
+interface AwsRanges {
+  prefixes?: Array<{ ip_prefix: string; region?: string; service?: string }>;
+  ipv6_prefixes?: Array<{ ipv6_prefix: string; region?: string; service?: string }>;
+}
+
+interface GcpRanges {
+  prefixes?: Array<{ ipv4Prefix?: string; ipv6Prefix?: string; scope?: string }>;
+}
+
+interface AzureServiceTags {
+  values?: Array<{ properties?: { region?: string; systemService?: string; addressPrefixes?: string[] } }>;
+}
+
+interface OracleRanges {
+  regions?: Array<{ region?: string; cidrs?: Array<{ cidr: string; tags?: string[] }> }>;
+}
+
+interface IndexedRange {
+  provider: CloudProvider;
+  service?: string;
+  region?: string;
+}
+
+export const CLOUD_PROVIDER_NAMES: Record<CloudProvider, string> = {
+  aws: 'AWS',
+  gcp: 'GCP',
+  azure: 'Azure',
+  oracle: 'Oracle Cloud',
+  digitalocean: 'DigitalOcean',
+};
+
+/**
+ * Stable published locations; Azure's Service Tags file is renamed weekly,
+ * so it has to be configured explicitly.
+ */
+export const DEFAULT_CLOUD_RANGE_URLS: Partial<Record<CloudProvider, string>> = {
+  aws: 'https://ip-ranges.amazonaws.com/ip-ranges.json',
+  gcp: 'https://www.gstatic.com/ipranges/cloud.json',
+  oracle: 'https://docs.oracle.com/en-us/iaas/tools/public_ip_ranges.json',
+  digitalocean: 'https://digitalocean.com/geo/google.csv',
+};
+
+const emptyToUndefined = (value: string | undefined): string | undefined => value?.trim() || undefined;
+
+const parseAws = (text: string): CloudRange[] => {
+  const payload = JSON.parse(text) as AwsRanges;
+  // "AMAZON" is the catch-all service that repeats every other service's ranges
+  const service = (name?: string) => (name === 'AMAZON' ? undefined : emptyToUndefined(name));
+  const region = (name?: string) => (name === 'GLOBAL' ? undefined : emptyToUndefined(name));
+  return [
+    ...(payload.prefixes ?? []).map(entry => ({
+      prefix: entry.ip_prefix,
+      service: service(entry.service),
+      region: region(entry.region),
+    })),
+    ...(payload.ipv6_prefixes ?? []).map(entry => ({
+      prefix: entry.ipv6_prefix,
+      service: service(entry.service),
+      region: region(entry.region),
+    })),
+  ];
+};
+
+const parseGcp = (text: string): CloudRange[] => {
+  const payload = JSON.parse(text) as GcpRanges;
+  return (payload.prefixes ?? []).flatMap(entry => {
+    const prefix = entry.ipv4Prefix ?? entry.ipv6Prefix;
+    return prefix ? [{ prefix, region: emptyToUndefined(entry.scope) }] : [];
+  });
+};
+
+const parseAzure = (text: string): CloudRange[] => {
+  const payload = JSON.parse(text) as AzureServiceTags;
+  return (payload.values ?? []).flatMap(tag =>
+    (tag.properties?.addressPrefixes ?? []).map(prefix => ({
+      prefix,
+      service: emptyToUndefined(tag.properties?.systemService),
+      region: emptyToUndefined(tag.properties?.region),
+    }))
+  );
+};
+
+const parseOracle = (text: string): CloudRange[] => {
+  const payload = JSON.parse(text) as OracleRanges;
+  return (payload.regions ?? []).flatMap(region =>
+    (region.cidrs ?? []).map(entry => ({
+      prefix: entry.cidr,
+      service: entry.tags?.find(tag => tag !== 'OCI'),
+      region: emptyToUndefined(region.region),
+    }))
+  );
+};
+
+/**
+ * DigitalOcean publishes a geofeed CSV: prefix,country,region,city,postal
+ */
+const parseDigitalOcean = (text: string): CloudRange[] =>
+  text.split('\n').flatMap(line => {
+    const [prefix, country, , city] = line.split(',').map(field => field.trim());
+    if (!prefix || prefix.startsWith('#')) {
+      return [];
+    }
+    return [{ prefix, region: emptyToUndefined(city) ?? emptyToUndefined(country) }];
+  });
+
+const PARSERS: Record<CloudProvider, (text: string) => CloudRange[]> = {
+  aws: parseAws,
+  gcp: parseGcp,
+  azure: parseAzure,
+  oracle: parseOracle,
+  digitalocean: parseDigitalOcean,
+};
+
+export const isCloudProvider = (value: string): value is CloudProvider => Object.hasOwn(PARSERS, value);
+
+export const parseCloudRanges = (provider: CloudProvider, text: string): CloudRange[] => PARSERS[provider](text);
+
+/**
+ * Parse a source list such as `aws,gcp,azure=/data/ServiceTags_Public.json`
+ * A bare provider name uses its default published URL.
+ */
+export const parseCloudRangeSources = (value: string | undefined): Partial<Record<CloudProvider, string>> => {
+  const sources: Partial<Record<CloudProvider, string>> = {};
+  for (const entry of value?.split(',') ?? []) {
+    const [name, ...location] = entry.trim().split('=');
+    if (!name) {
+      continue;
+    }
+    if (!isCloudProvider(name)) {
+      logger.warn({ provider: name }, 'Ignoring unknown cloud range provider');
+      continue;
+    }
+    const source = location.join('=').trim() || DEFAULT_CLOUD_RANGE_URLS[name];
+    if (!source) {
+      logger.warn({ provider: name }, 'Cloud range provider has no default source; configure provider=path-or-url');
+      continue;
+    }
+    sources[name] = source;
+  }
+  return sources;
+};
+
+const specificity = (range: IndexedRange): number => (range.service ? 1 : 0) + (range.region ? 1 : 0);
+
+// Providers list the same prefix under several tags; keep the most descriptive one
+const preferSpecific = (existing: IndexedRange, incoming: IndexedRange): IndexedRange =>
+  specificity(incoming) > specificity(existing) ? incoming : existing;
+
+export class CloudRangeIndex {
+  private ranges: Partial<Record<CloudProvider, CloudRange[]>> = {};
+  private trie = new PrefixTrie<IndexedRange>();
+  private updatedAt?: number;
+
+  /**
+   * Replace one provider's ranges; an empty parse result is rejected
+   *
+   * @returns Number of ranges loaded for the provider
+   */
+  load(provider: CloudProvider, text: string): number {
+    const ranges = parseCloudRanges(provider, text);
+    if (ranges.length === 0) {
+      throw new Error(`No ${CLOUD_PROVIDER_NAMES[provider]} ranges found`);
+    }
+    this.ranges = { ...this.ranges, [provider]: ranges };
+    this.updatedAt = Date.now();
+    this.rebuild();
+    return ranges.length;
+  }
+
+  lookup(ip: string): CloudAttribution | null {
+    const match = this.trie.lookup(ip);
+    if (!match) {
+      return null;
+    }
+    const { provider, service, region } = match.value;
+    const providerName = CLOUD_PROVIDER_NAMES[provider];
+    return {
+      provider,
+      providerName,
+      service,
+      region,
+      prefix: match.prefix,
+      label: [providerName, service, region].filter(Boolean).join(' '),
+    };
+  }
+
+  toSnapshot(): CloudRangesSnapshot {
+    return { updatedAt: this.updatedAt ?? Date.now(), ranges: this.ranges };
+  }
+
+  restore(snapshot: CloudRangesSnapshot): void {
+    this.ranges = snapshot.ranges;
+    this.updatedAt = snapshot.updatedAt;
+    this.rebuild();
+  }
+
+  getStatus(): CloudRangesStatus {
+    const providers: CloudRangesStatus['providers'] = {};
+    for (const [provider, ranges] of Object.entries(this.ranges) as Array<[CloudProvider, CloudRange[]]>) {
+      providers[provider] = ranges.length;
+    }
+    return { loaded: this.trie.size > 0, providers, updatedAt: this.updatedAt };
+  }
+
+  private rebuild(): void {
+    const trie = new PrefixTrie<IndexedRange>();
+    for (const [provider, ranges] of Object.entries(this.ranges) as Array<[CloudProvider, CloudRange[]]>) {
+      for (const { prefix, service, region } of ranges) {
+        trie.insert(prefix, { provider, service, region }, preferSpecific);
+      }
+    }
+    this.trie = trie;
+  }
+}
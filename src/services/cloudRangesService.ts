@@ -0,0 +1,64 @@
+/**
+ * Cloud Range Service (Node.js)
+ * Loads the sources listed in `CLOUD_RANGES_SOURCES` (file paths or URLs) and
+ * refreshes them on an interval. The Worker counterpart is
+ * `cloudRangesService.worker.ts`.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import type { CloudAttribution, CloudProvider, CloudRangesStatus } from '../types/cloud';
+import { CloudRangeIndex, parseCloudRangeSources } from './cloudRanges';
+
+/** Azure Service Tags is tens of MB, so allow more than the API client timeout */
+const CLOUD_RANGES_FETCH_TIMEOUT_MS = 60_000;
+
+const cloudRanges = new CloudRangeIndex();
+const sources = parseCloudRangeSources(config.CLOUD_RANGES_SOURCES);
+
+const readSource = async (location: string): Promise<string> => {
+  if (!/^https?:\/\//.test(location)) {
+    return readFile(location, 'utf8');
+  }
+  const response = await fetch(location, { signal: AbortSignal.timeout(CLOUD_RANGES_FETCH_TIMEOUT_MS) });
+  if (!response.ok) {
+    throw new Error(`Cloud range request failed: ${response.status}`);
+  }
+  return response.text();
+};
+
+/**
+ * Reload every configured provider; a failed provider keeps its previous ranges
+ */
+export async function refreshCloudRanges(): Promise<void> {
+  await Promise.all(
+    (Object.entries(sources) as Array<[CloudProvider, string]>).map(async ([provider, location]) => {
+      try {
+        const ranges = cloudRanges.load(provider, await readSource(location));
+        logger.info({ provider, ranges, source: location }, 'Cloud ranges refreshed');
+      } catch (error) {
+        logger.warn({ err: error, provider, source: location }, 'Cloud range refresh failed');
+      }
+    })
+  );
+}
+
+/**
+ * Load the ranges now and keep refreshing them in the background
+ *
+ * @returns Function that stops the refresh timer
+ */
+export function startCloudRangesRefresh(): () => void {
+  if (Object.keys(sources).length === 0) {
+    return () => undefined;
+  }
+  void refreshCloudRanges();
+  const timer = setInterval(() => void refreshCloudRanges(), config.CLOUD_RANGES_REFRESH_MS);
+  timer.unref();
+  return () => clearInterval(timer);
+}
+
+export const lookupCloudRange = (ip: string): CloudAttribution | null => cloudRanges.lookup(ip);
+
+export const getCloudRangesStatus = (): CloudRangesStatus => cloudRanges.getStatus();
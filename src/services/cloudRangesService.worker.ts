@@ -0,0 +1,80 @@
+import type { Env } from '../worker/types';
+import type { CloudAttribution, CloudProvider, CloudRangesSnapshot } from '../types/cloud';
+import { logger } from '../utils/logger';
+import { CloudRangeIndex, parseCloudRangeSources } from './cloudRanges';
+
+const SNAPSHOT_KEY = 'cloud-ranges:snapshot';
+const DEFAULT_REFRESH_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Cloud ranges for the Worker
+ * Only URL sources apply here. The scheduled handler downloads them and stores
+ * a snapshot in KV for isolates to read, like the Tor directory.
+ */
+export const createWorkerCloudRangesService = (env: Env) => {
+  const index = new CloudRangeIndex();
+  const sources = (
+    Object.entries(parseCloudRangeSources(env.CLOUD_RANGES_SOURCES)) as Array<[CloudProvider, string]>
+  ).filter(([, location]) => /^https?:\/\//.test(location));
+  const refreshMs = Number(env.CLOUD_RANGES_REFRESH_MS) || DEFAULT_REFRESH_MS;
+  let restoredAt = 0;
+  let restoring: Promise<void> | null = null;
+
+  const ready = (): Promise<void> => {
+    if (sources.length === 0 || !env.IP_CACHE || Date.now() - restoredAt < refreshMs) {
+      return Promise.resolve();
+    }
+    restoring ??= env.IP_CACHE.get<CloudRangesSnapshot>(SNAPSHOT_KEY, 'json')
+      .then(snapshot => {
+        if (snapshot) {
+          index.restore(snapshot);
+        }
+      })
+      .catch(error => {
+        logger.warn({ err: error }, 'Failed to read cloud ranges snapshot');
+      })
+      .finally(() => {
+        restoredAt = Date.now();
+        restoring = null;
+      });
+    return restoring;
+  };
+
+  const refresh = async (): Promise<void> => {
+    if (sources.length === 0) {
+      return;
+    }
+    // The cron fires more often than the refresh interval; skip while the stored snapshot is recent
+    await ready();
+    const { updatedAt } = index.getStatus();
+    if (updatedAt && Date.now() - updatedAt < refreshMs) {
+      logger.debug({ updatedAt }, 'Cloud ranges snapshot is recent, skipping refresh');
+      return;
+    }
+    await Promise.all(
+      sources.map(async ([provider, url]) => {
+        try {
+          const response = await fetch(url);
+          if (!response.ok) {
+            throw new Error(`Cloud range request failed: ${response.status}`);
+          }
+          const ranges = index.load(provider, await response.text());
+          logger.info({ provider, ranges }, 'Cloud ranges refreshed');
+        } catch (error) {
+          logger.warn({ err: error, provider }, 'Cloud range refresh failed');
+        }
+      })
+    );
+    restoredAt = Date.now();
+    await env.IP_CACHE?.put(SNAPSHOT_KEY, JSON.stringify(index.toSnapshot())).catch(error => {
+      logger.warn({ err: error }, 'Failed to store cloud ranges snapshot');
+    });
+  };
+
+  return {
+    ready,
+    refresh,
+    lookup: (ip: string): CloudAttribution | null => index.lookup(ip),
+    getStatus: () => index.getStatus(),
+  };
+};
@@ -0,0 +1,23 @@
+/**
+ * DNSBL Providers (Node.js)
+ * Builds the zones listed in `DNSBL_ZONES`, resolving through `node:dns` or
+ * DNS-over-HTTPS per `DNSBL_RESOLVER`. The Worker always uses DoH.
+ */
+
+import { config } from '../config';
+import { DnsblProvider, createDohResolver, parseDnsblZones } from '../clients/dnsblClient';
+import { createNodeDnsResolver } from '../clients/dnsResolver';
+import { upstreamHttp } from '../utils/httpClient';
+
+const resolver =
+  config.DNSBL_RESOLVER === 'dns'
+    ? createNodeDnsResolver({ servers: config.DNSBL_DNS_SERVERS, timeoutMs: config.DNSBL_TIMEOUT_MS })
+    : createDohResolver(config.DNSBL_DOH_URL, config.DNSBL_TIMEOUT_MS, upstreamHttp);
+
+export const dnsblProviders: DnsblProvider[] = parseDnsblZones(config.DNSBL_ZONES).map(
+  zone =>
+    new DnsblProvider(zone, resolver, {
+      failureThreshold: config.CIRCUIT_FAILURE_THRESHOLD,
+      cooldownMs: config.CIRCUIT_COOLDOWN_MS,
+    })
+);
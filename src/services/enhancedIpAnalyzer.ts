@@ -0,0 +1,382 @@
+/**
+ * Enhanced IP Analyzer
+ * Comprehensive IP analysis integrating multiple intelligence sources:
+ * - Geolocation (IPInfo.io, Cloudflare Radar)
+ * - Threat Intelligence (AbuseIPDB, Spamhaus)
+ * - ASN Analysis (Cloudflare Radar)
+ * - Abuse contacts (IP provider, RDAP)
+ *
+ * Runtime-neutral: the Node service and the Worker each inject their own IP
+ * lookup and provider instances, so nothing here reads `config` or `Env`.
+ */
+
+import { logger } from '../utils/logger';
+import type { ThreatIntelligenceService } from './threatIntelligence';
+import { type ASNService, extractASN } from './asnService';
+import type { NormalizedIpInsight } from '../types/ip';
+import type { ThreatIntelligenceResponse } from '../types/threat';
+import type { ASNAnalysisResult, ASNClassification } from '../types/asn';
+import type { AbuseContact, RdapRecord } from '../types/rdap';
+import type { ProxyHeaderAnalysis } from '../types/headers';
+import { classifyAsn } from './asnClassification';
+import { isNonRoutableInsight } from './specialPurpose';
+import type { CircuitHealth } from '../utils/circuitBreaker';
+
+/**
+ * Enhanced IP detection result combining all intelligence sources
+ */
+export interface EnhancedIpDetectionResult {
+  // Basic IP information
+  ip: string;
+
+  // Geolocation and network info
+  geolocation: NormalizedIpInsight;
+
+  // Threat intelligence (optional - only if enabled)
+  threats?: ThreatIntelligenceResponse;
+
+  // ASN analysis (optional - only if ASN available)
+  asn_analysis?: ASNAnalysisResult;
+
+  // Network category of the ASN (optional - only if something identifies it)
+  asn_classification?: ASNClassification;
+
+  // Where to report abuse (optional - the provider's contact, else the RDAP registration)
+  abuse_contacts?: AbuseContact[];
+
+  // Combined risk assessment
+  risk_assessment: {
+    overall_score: number;
+    overall_level: 'low' | 'medium' | 'high' | 'critical';
+    factors: string[];
+    recommendation: string;
+  };
+
+  // Metadata
+  sources_used: string[];
+  analysis_timestamp: string;
+}
+
+export interface EnhancedIpAnalyzerDependencies {
+  lookupIpInsight: (ip: string) => Promise<NormalizedIpInsight>;
+  threatService: ThreatIntelligenceService;
+  asnService: ASNService;
+  /** Registration of the network containing an address; abuse contacts fall back to it */
+  lookupRdap?: (ip: string) => Promise<RdapRecord | null>;
+}
+
+/**
+ * Enhanced IP Analyzer
+ * Coordinates multiple intelligence sources for comprehensive IP analysis
+ */
+export class EnhancedIpAnalyzer {
+  private readonly lookupIpInsight: (ip: string) => Promise<NormalizedIpInsight>;
+  private readonly threatService: ThreatIntelligenceService;
+  private readonly asnService: ASNService;
+  private readonly lookupRdap?: (ip: string) => Promise<RdapRecord | null>;
+
+  constructor(deps: EnhancedIpAnalyzerDependencies) {
+    this.lookupIpInsight = deps.lookupIpInsight;
+    this.threatService = deps.threatService;
+    this.asnService = deps.asnService;
+    this.lookupRdap = deps.lookupRdap;
+  }
+
+  /**
+   * Perform comprehensive IP detection and analysis
+   *
+   * @param ip - IP address to analyze
+   * @param options - Analysis options
+   * @returns Complete IP intelligence report
+   */
+  async detectIP(
+    ip: string,
+    options: {
+      includeThreat?: boolean;
+      includeASN?: boolean;
+      /** Proxy headers of the request, when `ip` is the requesting client's own address */
+      proxyHeaders?: ProxyHeaderAnalysis;
+    } = {}
+  ): Promise<EnhancedIpDetectionResult> {
+    const startTime = Date.now();
+    logger.info({ ip, options }, 'Starting enhanced IP detection');
+
+    try {
+      // Always fetch basic geolocation (fastest, always available)
+      const insight = await this.lookupIpInsight(ip);
+      const geolocation = options.proxyHeaders ? { ...insight, proxyHeaders: options.proxyHeaders } : insight;
+
+      // Prepare promises for parallel execution
+      const sourcesUsed: string[] = [geolocation.source];
+      if (geolocation.tor) {
+        sourcesUsed.push('Tor directory');
+      }
+      if (geolocation.cloud) {
+        sourcesUsed.push(`${geolocation.cloud.providerName} IP ranges`);
+      }
+
+      // Special-purpose addresses have no origin ASN or registration to look up
+      const routable = !isNonRoutableInsight(geolocation);
+
+      // Extract ASN from geolocation data, falling back to the local routing table
+      const asnNumber = routable
+        ? (extractASN(geolocation.asn) ?? (await this.asnService.getASNFromIP(geolocation.ip)))
+        : null;
+
+      const threatPromise: Promise<ThreatIntelligenceResponse | null> =
+        options.includeThreat !== false
+          ? this.threatService.analyzeIP(ip).catch(error => {
+              logger.warn({ ip, error }, 'Threat intelligence analysis failed');
+              return null;
+            })
+          : Promise.resolve(null);
+
+      const asnPromise: Promise<ASNAnalysisResult | null> =
+        options.includeASN !== false && asnNumber
+          ? this.asnService.analyzeASN(asnNumber).catch(error => {
+              logger.warn({ ip, asn: asnNumber, error }, 'ASN analysis failed');
+              return null;
+            })
+          : Promise.resolve(null);
+
+      // Execute all analyses in parallel
+      const [threats, asnAnalysis, abuseContacts] = await Promise.all([
+        threatPromise,
+        asnPromise,
+        routable ? this.findAbuseContacts(geolocation) : Promise.resolve([]),
+      ]);
+
+      // Track which sources provided data
+      if (threats) {
+        sourcesUsed.push(...threats.combined.sources);
+        if (asnNumber) {
+          // Feeds the ASN's reputation metrics; never holds up the response
+          this.asnService.recordThreats(asnNumber, geolocation.ip, threats.combined).catch(error => {
+            logger.warn({ ip, asn: asnNumber, error }, 'Failed to record ASN threat observation');
+          });
+        }
+      }
+      if (asnAnalysis) {
+        sourcesUsed.push('Cloudflare Radar ASN');
+      }
+      if (abuseContacts.some(contact => contact.source === 'rdap')) {
+        sourcesUsed.push('RDAP');
+      }
+
+      const classification = classifyAsn(asnNumber, {
+        name: asnAnalysis?.info.name ?? geolocation.org,
+        networkType: geolocation.networkType,
+      });
+
+      // Calculate combined risk assessment
+      const riskAssessment = this.calculateRiskAssessment(geolocation, threats, classification);
+
+      const duration = Date.now() - startTime;
+      logger.info(
+        {
+          ip,
+          duration,
+          sourcesUsed: sourcesUsed.length,
+          riskLevel: riskAssessment.overall_level,
+        },
+        'Enhanced IP detection completed'
+      );
+
+      return {
+        ip,
+        geolocation,
+        threats: threats ?? undefined,
+        asn_analysis: asnAnalysis ?? undefined,
+        asn_classification: classification ?? undefined,
+        abuse_contacts: abuseContacts.length > 0 ? abuseContacts : undefined,
+        risk_assessment: riskAssessment,
+        sources_used: [...new Set(sourcesUsed)], // Remove duplicates
+        analysis_timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      logger.error({ ip, error }, 'Enhanced IP detection failed');
+      throw error;
+    }
+  }
+
+  /**
+   * Abuse desk of the network: the IP provider's contact when it has an
+   * email address, otherwise the abuse contacts of the RDAP registration
+   */
+  private async findAbuseContacts(geolocation: NormalizedIpInsight): Promise<AbuseContact[]> {
+    const { abuse } = geolocation;
+    if (abuse?.email) {
+      return [
+        {
+          name: abuse.name,
+          email: abuse.email,
+          phone: abuse.phone,
+          address: abuse.address,
+          network: abuse.network,
+          source: 'ipinfo',
+        },
+      ];
+    }
+    if (!this.lookupRdap) {
+      return [];
+    }
+
+    const record = await this.lookupRdap(geolocation.ip).catch(error => {
+      logger.warn({ ip: geolocation.ip, error }, 'RDAP lookup failed');
+      return null;
+    });
+    const network = record?.cidrs?.[0] ?? record?.handle;
+    return (record?.abuse_contacts ?? []).map(({ name, email, phone, address }) => ({
+      name,
+      email,
+      phone,
+      address,
+      network,
+      source: 'rdap',
+    }));
+  }
+
+  /**
+   * Calculate combined risk assessment from all available intelligence
+   *
+   * @param geolocation - Basic IP geolocation data
+   * @param threats - Threat intelligence data (optional)
+   * @param classification - Network category of the ASN (optional)
+   * @returns Comprehensive risk assessment
+   */
+  private calculateRiskAssessment(
+    geolocation: NormalizedIpInsight,
+    threats?: ThreatIntelligenceResponse | null,
+    classification?: ASNClassification | null
+  ): EnhancedIpDetectionResult['risk_assessment'] {
+    let score = 0;
+    const factors: string[] = [];
+
+    if (geolocation.specialPurpose) {
+      const { name, rfc } = geolocation.specialPurpose;
+      factors.push(`Non-routable address: ${name} (${rfc})`);
+    }
+
+    // Base score from geolocation privacy indicators
+    if (geolocation.privacy?.vpn) {
+      score += 20;
+      factors.push('VPN detected');
+    }
+    if (geolocation.privacy?.proxy) {
+      score += 25;
+      factors.push('Proxy detected');
+    }
+    const tor = geolocation.tor;
+    if (tor?.role === 'exit' || geolocation.privacy?.tor) {
+      score += 40;
+      factors.push(tor?.lastSeen ? `Tor exit node detected (last seen ${tor.lastSeen})` : 'Tor exit node detected');
+    } else if (tor) {
+      score += 10;
+      factors.push(`Tor ${tor.role} relay`);
+    }
+    if (geolocation.cloud) {
+      score += 15;
+      factors.push(`Cloud hosting: ${geolocation.cloud.label}`);
+    } else if (geolocation.privacy?.hosting) {
+      score += 15;
+      factors.push('Hosting/datacenter IP');
+    }
+
+    if (geolocation.proxyHeaders?.detected) {
+      score += geolocation.proxyHeaders.scorePenalty;
+      factors.push(...geolocation.proxyHeaders.signals.map(signal => signal.message));
+    }
+
+    // Add threat intelligence score
+    if (threats?.combined) {
+      score += threats.combined.threat_score * 0.6; // Weight: 60%
+      if (threats.combined.is_malicious) {
+        factors.push(`Malicious activity detected (${threats.combined.threat_types.join(', ')})`);
+      }
+    }
+
+    // Add risk from geolocation service
+    if (geolocation.riskScore) {
+      score += geolocation.riskScore * 0.2; // Weight: 20%
+      if (geolocation.riskReasons?.length) {
+        factors.push(...geolocation.riskReasons);
+      }
+    }
+
+    // ASN-based risk factors, scaled by how sure the classification is
+    if (classification) {
+      const source = `${classification.asn ? `AS${classification.asn}, ` : ''}${classification.source}`;
+      if (classification.category === 'hosting' || classification.category === 'cdn') {
+        score += Math.round(10 * classification.confidence);
+        factors.push(`${classification.label} ASN (${source})`);
+      } else if (classification.category === 'vpn') {
+        score += Math.round(20 * classification.confidence);
+        factors.push(`VPN provider ASN (${source})`);
+      }
+    }
+
+    // Cap score at 100
+    score = Math.min(100, Math.round(score));
+
+    // Determine risk level
+    let level: 'low' | 'medium' | 'high' | 'critical';
+    if (score >= 70) level = 'critical';
+    else if (score >= 50) level = 'high';
+    else if (score >= 30) level = 'medium';
+    else level = 'low';
+
+    // Generate recommendation
+    let recommendation: string;
+    if (level === 'critical') {
+      recommendation = 'Block or require additional verification. High risk of malicious activity.';
+    } else if (level === 'high') {
+      recommendation = 'Proceed with caution. Implement additional security checks.';
+    } else if (level === 'medium') {
+      recommendation = 'Monitor activity. Consider rate limiting or CAPTCHA.';
+    } else {
+      recommendation = 'Low risk. Normal processing recommended.';
+    }
+
+    return {
+      overall_score: score,
+      overall_level: level,
+      factors: factors.length > 0 ? factors : ['No significant risk factors detected'],
+      recommendation,
+    };
+  }
+
+  /**
+   * Get service status for all components
+   *
+   * @returns Status of all intelligence services
+   */
+  async getServiceStatus(): Promise<{
+    geolocation: boolean;
+    threat_intelligence: boolean;
+    asn_analysis: boolean;
+    circuits: Record<string, CircuitHealth>;
+  }> {
+    const [threatStatus, asnStatus] = await Promise.all([
+      this.threatService.getProviderStatus().catch(() => null),
+      this.asnService.getStatus().catch(() => null),
+    ]);
+
+    const circuits: Record<string, CircuitHealth> = {};
+    // Skips the available_sources / total_sources counters beside the provider entries
+    for (const [name, status] of Object.entries(threatStatus ?? {})) {
+      if (typeof status === 'object' && status.circuit) {
+        circuits[name] = status.circuit;
+      }
+    }
+    if (asnStatus?.configured) {
+      circuits['radar-asn'] = asnStatus.circuit;
+    }
+
+    return {
+      geolocation: true, // Always available
+      threat_intelligence: threatStatus ? threatStatus.available_sources > 0 : false,
+      asn_analysis: asnStatus?.available || false,
+      circuits,
+    };
+  }
+}
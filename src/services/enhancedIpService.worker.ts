@@ -0,0 +1,92 @@
+import type { Env } from '../worker/types';
+import type { NormalizedIpInsight } from '../types/ip';
+import type { ASNAnalysisResult, ASNThreatObservations, OriginRoute } from '../types/asn';
+import type { IpBatchResult } from './ipBatch';
+import { ThreatIntelligenceService } from './threatIntelligence';
+import { parseThreatProviderWeights, type CachedThreatResult } from './threatProviders';
+import { DnsblProvider, createDohResolver, parseDnsblZones } from '../clients/dnsblClient';
+import { createCache, createQuotaStore } from '../utils/cacheFactory.worker';
+import { QuotaLedger } from './quotaLedger';
+import { ASNService, DEFAULT_ASN_PROFILE_TTL_MS } from './asnService';
+import { AsnReputationLedger, DEFAULT_ASN_REPUTATION_TTL_MS } from './asnReputation';
+import { EnhancedIpAnalyzer } from './enhancedIpAnalyzer';
+import type { UpstreamHttp } from '../utils/upstreamHttp';
+import type { RdapClient } from '../clients/rdapClient';
+
+/**
+ * Worker IP services the analyzer builds on (from `createWorkerIpService`)
+ */
+export interface WorkerEnhancedIpDependencies {
+  lookupIpInsight: (ip: string) => Promise<NormalizedIpInsight>;
+  lookupIpInsightBatch: (ips: string[]) => Promise<IpBatchResult>;
+  upstreamHttp: UpstreamHttp;
+  rdapClient: Pick<RdapClient, 'lookupIp'>;
+  routingTableService: { lookup(ip: string): OriginRoute | null; prefixesFor(asn: number): string[] };
+}
+
+/**
+ * Build the enhanced analyzer for the Worker, reading secrets from bindings
+ */
+export const createWorkerEnhancedIpService = (
+  env: Env,
+  {
+    lookupIpInsight,
+    lookupIpInsightBatch,
+    upstreamHttp: http,
+    rdapClient,
+    routingTableService,
+  }: WorkerEnhancedIpDependencies
+): EnhancedIpAnalyzer => {
+  // Workers have no raw DNS sockets, so DNSBL zones always resolve over DoH
+  const resolver = createDohResolver(env.DNSBL_DOH_URL || undefined, Number(env.DNSBL_TIMEOUT_MS) || undefined, http);
+  const circuit = {
+    failureThreshold: Number(env.CIRCUIT_FAILURE_THRESHOLD) || undefined,
+    cooldownMs: Number(env.CIRCUIT_COOLDOWN_MS) || undefined,
+  };
+  const dnsblProviders = parseDnsblZones(env.DNSBL_ZONES).map(zone => new DnsblProvider(zone, resolver, circuit));
+  const ttlMs = Number(env.CACHE_TTL_THREATS_MS) || 60 * 60 * 1000;
+  const staleTtlMs = Number(env.CACHE_STALE_TTL_THREATS_MS) || 6 * 60 * 60 * 1000;
+  const backend = env.CACHE_BACKEND === 'kv' ? 'kv' : 'memory';
+
+  return new EnhancedIpAnalyzer({
+    lookupIpInsight,
+    threatService: new ThreatIntelligenceService({
+      abuseipdbApiKey: env.ABUSEIPDB_API_KEY,
+      dnsblProviders,
+      weights: parseThreatProviderWeights(env.THREAT_PROVIDER_WEIGHTS),
+      cache: {
+        cache: createCache<CachedThreatResult>('threat-intel', env.IP_CACHE, {
+          backend,
+          ttlMs,
+          staleTtlMs,
+        }),
+        ttlMs,
+        staleTtlMs,
+        negativeTtlMs: Number(env.CACHE_TTL_THREATS_NEGATIVE_MS) || 60 * 1000,
+      },
+      quota: new QuotaLedger(createQuotaStore('threat-quota', env.IP_CACHE, backend)),
+      circuit,
+      http,
+    }),
+    asnService: new ASNService({
+      radar: { accountId: env.CLOUDFLARE_ACCOUNT_ID, token: env.CLOUDFLARE_RADAR_TOKEN },
+      circuit,
+      http,
+      routingTable: routingTableService,
+      lookupIpInsightBatch,
+      reputation: new AsnReputationLedger(
+        createCache<ASNThreatObservations>('asn-reputation', env.IP_CACHE, {
+          backend,
+          ttlMs: DEFAULT_ASN_REPUTATION_TTL_MS,
+          staleTtlMs: DEFAULT_ASN_REPUTATION_TTL_MS,
+        })
+      ),
+      profileCache: createCache<ASNAnalysisResult>('asn-profile', env.IP_CACHE, {
+        backend,
+        ttlMs: DEFAULT_ASN_PROFILE_TTL_MS,
+        staleTtlMs: DEFAULT_ASN_PROFILE_TTL_MS,
+      }),
+    }),
+    lookupRdap: ip => rdapClient.lookupIp(ip),
+  });
+};
@@ -0,0 +1,112 @@
+/**
+ * Batch IP Lookup
+ *
+ * Shared between the Node.js service and the Cloudflare Worker. Callers inject
+ * the cache and upstream lookup so this module stays free of runtime-specific
+ * configuration.
+ */
+
+import { logger } from '../utils/logger';
+import type { CacheAdapter } from '../utils/cacheInterface';
+import type { NormalizedIpInsight } from '../types/ip';
+import { normalizeIp } from '../utils/ip';
+import { classifySpecialPurpose, nonRoutableInsight } from './specialPurpose';
+
+export interface IpBatchItem {
+  ip: string;
+  insight?: NormalizedIpInsight;
+  error?: string;
+  cached: boolean;
+}
+
+export interface IpBatchResult {
+  results: IpBatchItem[];
+  summary: {
+    total: number;
+    succeeded: number;
+    failed: number;
+    cached: number;
+  };
+}
+
+export interface IpBatchDependencies {
+  cache: CacheAdapter<NormalizedIpInsight>;
+  /** Resolves cache misses; IPs missing from the result are reported as failures */
+  lookupMany: (ips: string[]) => Promise<Map<string, NormalizedIpInsight>>;
+  /** Background refresh for stale cache hits */
+  revalidate?: (ip: string) => Promise<void>;
+  /** Layers local data over every result after caching */
+  enrich?: (insight: NormalizedIpInsight) => NormalizedIpInsight;
+}
+
+/**
+ * Look up many IPs at once
+ * Answers special-purpose addresses locally, serves cache hits and hands the
+ * misses to the provider registry in one go. Results keep the input order,
+ * duplicates included.
+ */
+export async function lookupIpInsightBatchWith(ips: string[], deps: IpBatchDependencies): Promise<IpBatchResult> {
+  const resolved = new Map<string, Omit<IpBatchItem, 'ip'>>();
+  // Lookups and cache keys use the canonical form; results echo the input
+  const canonical = new Map(ips.map(ip => [ip, normalizeIp(ip)]));
+  const candidates = [...new Set([...canonical.values()].filter((ip): ip is string => ip !== null))];
+  const misses: string[] = [];
+
+  await Promise.all(
+    candidates.map(async ip => {
+      const specialPurpose = classifySpecialPurpose(ip);
+      if (specialPurpose) {
+        resolved.set(ip, { insight: nonRoutableInsight(ip, specialPurpose), cached: false });
+        return;
+      }
+      const { entry, isStale } = await deps.cache.getWithStale(ip);
+      if (!entry) {
+        misses.push(ip);
+        return;
+      }
+      if (isStale && deps.revalidate) {
+        deps.revalidate(ip).catch(error => {
+          logger.warn({ err: error, ip }, 'Background revalidation failed');
+        });
+      }
+      resolved.set(ip, { insight: entry.data, cached: true });
+    })
+  );
+
+  if (misses.length > 0) {
+    const fetched = await deps.lookupMany(misses);
+    for (const ip of misses) {
+      const insight = fetched.get(ip);
+      if (!insight) {
+        resolved.set(ip, { error: 'Unable to fetch IP intelligence', cached: false });
+        continue;
+      }
+      await deps.cache.set(ip, insight);
+      resolved.set(ip, { insight, cached: false });
+    }
+  }
+
+  if (deps.enrich) {
+    for (const item of resolved.values()) {
+      if (item.insight) {
+        item.insight = deps.enrich(item.insight);
+      }
+    }
+  }
+
+  const results: IpBatchItem[] = ips.map(ip => {
+    const key = canonical.get(ip);
+    return key ? { ip, ...resolved.get(key)! } : { ip, error: 'Invalid IP address', cached: false };
+  });
+  const succeeded = results.filter(item => item.insight).length;
+
+  return {
+    results,
+    summary: {
+      total: results.length,
+      succeeded,
+      failed: results.length - succeeded,
+      cached: results.filter(item => item.cached).length,
+    },
+  };
+}
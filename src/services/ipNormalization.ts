@@ -1,4 +1,4 @@
-import type { IpInfoDetails, NormalizedIpInsight, RadarIpResponse } from '../types/ip';
+import type { IpInfoDetails, MmdbRecords, NormalizedIpInsight, RadarIpResponse } from '../types/ip';
 
 export const normalizeIpInfo = (payload: IpInfoDetails): NormalizedIpInsight => {
   const [latitude, longitude] = payload.loc?.split(',').map(v => Number.parseFloat(v)) ?? [];
@@ -12,6 +12,8 @@ export const normalizeIpInfo = (payload: IpInfoDetails): NormalizedIpInsight =>
     latitude,
     longitude,
     org: payload.org ?? payload.company?.name,
+    hostname: payload.hostname,
+    abuse: payload.abuse,
     asn: payload.asn?.asn,
     networkType: payload.asn?.type ?? payload.company?.type,
     privacy: payload.privacy,
@@ -42,3 +44,42 @@ export const normalizeRadar = (payload: RadarIpResponse): NormalizedIpInsight =>
     fetchedAt: Date.now(),
   };
 };
+
+export const normalizeMmdb = (ip: string, records: MmdbRecords): NormalizedIpInsight => {
+  const { city, asn, anonymous } = records;
+  // The Anonymous-IP database only has records for flagged networks, so a miss
+  // (null) means clean; without the database (undefined) nothing is known
+  const privacy =
+    anonymous === undefined
+      ? undefined
+      : {
+          vpn: anonymous?.is_anonymous_vpn ?? false,
+          proxy: Boolean(anonymous?.is_public_proxy || anonymous?.is_residential_proxy),
+          tor: anonymous?.is_tor_exit_node ?? false,
+          hosting: anonymous?.is_hosting_provider ?? false,
+        };
+  return {
+    ip,
+    city: city?.city?.names.en,
+    region: city?.subdivisions?.[0]?.names.en,
+    country: city?.country?.iso_code,
+    postal: city?.postal?.code,
+    timezone: city?.location?.time_zone,
+    latitude: city?.location?.latitude,
+    longitude: city?.location?.longitude,
+    org: asn?.autonomous_system_organization,
+    asn: asn?.autonomous_system_number ? `AS${asn.autonomous_system_number}` : undefined,
+    networkType: privacy?.hosting ? 'hosting' : undefined,
+    privacy,
+    riskScore: privacy?.vpn || privacy?.proxy || privacy?.tor ? 65 : 10,
+    riskReasons: privacy?.tor
+      ? ['Tor exit node']
+      : privacy?.vpn
+        ? ['VPN detected']
+        : privacy?.proxy
+          ? ['Proxy detected']
+          : [],
+    source: 'mmdb',
+    fetchedAt: Date.now(),
+  };
+};
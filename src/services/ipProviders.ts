@@ -0,0 +1,351 @@
+/**
+ * IP Intelligence Provider Registry
+ *
+ * Shared between the Node.js service and the Cloudflare Worker. Each runtime
+ * builds its own providers from its configuration; the registry decides which
+ * of them are queried, in what order, and how their answers are combined.
+ */
+
+import { logger } from '../utils/logger';
+import {
+  CircuitBreaker,
+  CircuitOpenError,
+  type CircuitBreakerOptions,
+  type CircuitHealth,
+} from '../utils/circuitBreaker';
+import type { IpFieldSources, IpInsightField, IpProviderName, NormalizedIpInsight } from '../types/ip';
+
+export interface IpIntelProvider {
+  name: IpProviderName;
+  /** Checked on every lookup so credentials can be toggled at runtime */
+  isEnabled(): boolean;
+  lookup(ip: string): Promise<NormalizedIpInsight | null>;
+  /** Bulk lookup keyed by IP; IPs missing from the result count as misses */
+  lookupBatch?(ips: string[]): Promise<Record<string, NormalizedIpInsight>>;
+  /** Maximum number of IPs per lookupBatch call */
+  batchLimit?: number;
+}
+
+/**
+ * - `first-success`: query providers in order, return the first answer
+ * - `merge-all`: query every provider, each field comes from the first provider in order that has it
+ * - `field-priority`: like `merge-all`, but fields can override the provider order
+ */
+export type IpProviderStrategy = 'first-success' | 'merge-all' | 'field-priority';
+
+export type IpFieldPriority = Partial<Record<IpInsightField, IpProviderName[]>>;
+
+export interface IpProviderRegistryOptions {
+  /** Provider names, highest priority first; providers not listed are never queried */
+  order: string[];
+  strategy: IpProviderStrategy;
+  /** Per-field provider order used by `field-priority` */
+  fieldPriority?: IpFieldPriority;
+  /** Circuit breaker settings applied to every provider */
+  circuit?: CircuitBreakerOptions;
+}
+
+export const DEFAULT_IP_PROVIDER_ORDER: IpProviderName[] = ['ipinfo', 'radar'];
+
+const IP_PROVIDER_STRATEGIES: IpProviderStrategy[] = ['first-success', 'merge-all', 'field-priority'];
+
+// Keyed object rather than an array so the compiler flags fields added to NormalizedIpInsight
+const INSIGHT_FIELD_SET: Record<IpInsightField, true> = {
+  city: true,
+  region: true,
+  country: true,
+  postal: true,
+  timezone: true,
+  latitude: true,
+  longitude: true,
+  org: true,
+  hostname: true,
+  abuse: true,
+  asn: true,
+  networkType: true,
+  privacy: true,
+  riskScore: true,
+  riskReasons: true,
+  anycast: true,
+  bogon: true,
+};
+
+const INSIGHT_FIELDS = Object.keys(INSIGHT_FIELD_SET) as IpInsightField[];
+
+export const isIpProviderStrategy = (value: string | undefined): value is IpProviderStrategy =>
+  IP_PROVIDER_STRATEGIES.includes(value as IpProviderStrategy);
+
+/**
+ * Parse a field priority spec such as `city:radar,ipinfo;asn:ipinfo`
+ */
+export const parseFieldPriority = (value: string | undefined): IpFieldPriority => {
+  const priority: IpFieldPriority = {};
+  if (!value) {
+    return priority;
+  }
+  for (const entry of value.split(';')) {
+    const [field, providers] = entry.split(':').map(part => part.trim());
+    if (!field || !providers) {
+      continue;
+    }
+    if (!Object.hasOwn(INSIGHT_FIELD_SET, field)) {
+      logger.warn({ field }, 'Ignoring field priority for unknown insight field');
+      continue;
+    }
+    priority[field as IpInsightField] = providers
+      .split(',')
+      .map(name => name.trim())
+      .filter(Boolean) as IpProviderName[];
+  }
+  return priority;
+};
+
+// Both runtimes' clients report HTTP failures as "... request failed: <status>"
+const isClientError = (error: unknown): boolean =>
+  error instanceof Error && /request failed: 4\d\d/i.test(error.message);
+
+const chunk = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+};
+
+const setField = <K extends IpInsightField>(target: NormalizedIpInsight, field: K, value: NormalizedIpInsight[K]) => {
+  target[field] = value;
+};
+
+/**
+ * Attribute every populated field of a single-provider answer to that provider
+ */
+const attributeFields = (insight: NormalizedIpInsight, provider: IpProviderName): NormalizedIpInsight => {
+  const fieldSources: IpFieldSources = {};
+  for (const field of INSIGHT_FIELDS) {
+    if (insight[field] !== undefined) {
+      fieldSources[field] = provider;
+    }
+  }
+  return { ...insight, source: provider, fieldSources };
+};
+
+export class IpProviderRegistry {
+  private readonly providers: IpIntelProvider[];
+  private readonly fieldPriority: IpFieldPriority = {};
+  private readonly circuits = new Map<IpProviderName, CircuitBreaker>();
+
+  constructor(
+    providers: IpIntelProvider[],
+    private readonly options: IpProviderRegistryOptions
+  ) {
+    const byName = new Map(providers.map(provider => [provider.name as string, provider]));
+    this.providers = options.order.flatMap(name => {
+      const provider = byName.get(name);
+      if (!provider) {
+        logger.warn({ provider: name }, 'Unknown IP intelligence provider in provider order');
+        return [];
+      }
+      return [provider];
+    });
+    for (const [field, names] of Object.entries(options.fieldPriority ?? {}) as Array<
+      [IpInsightField, IpProviderName[]]
+    >) {
+      this.fieldPriority[field] = names.filter(name => {
+        if (!byName.has(name)) {
+          logger.warn({ field, provider: name }, 'Unknown IP intelligence provider in field priority');
+          return false;
+        }
+        return true;
+      });
+    }
+    for (const provider of this.providers) {
+      // 4xx answers (bad input, unknown IP) are the provider working as intended
+      this.circuits.set(
+        provider.name,
+        new CircuitBreaker(provider.name, { ...options.circuit, isFailure: error => !isClientError(error) })
+      );
+    }
+  }
+
+  /**
+   * Providers that are configured and listed in the order, highest priority first
+   */
+  getActiveProviders(): IpIntelProvider[] {
+    return this.providers.filter(provider => provider.isEnabled());
+  }
+
+  /**
+   * Circuit health of the active providers, from real lookups
+   */
+  getHealth(): Partial<Record<IpProviderName, CircuitHealth>> {
+    return Object.fromEntries(
+      this.getActiveProviders().map(provider => [provider.name, this.circuitOf(provider).getHealth()])
+    );
+  }
+
+  /**
+   * Resolve one IP according to the configured strategy
+   * Provider errors are logged and treated as misses; null means nobody answered.
+   */
+  async lookup(ip: string): Promise<NormalizedIpInsight | null> {
+    const providers = this.getActiveProviders();
+
+    if (this.options.strategy === 'first-success') {
+      for (const provider of providers) {
+        const insight = await this.query(provider, ip);
+        if (insight) {
+          return attributeFields(insight, provider.name);
+        }
+      }
+      return null;
+    }
+
+    const answers = await Promise.all(
+      providers.map(async provider => [provider.name, await this.query(provider, ip)] as const)
+    );
+    return this.merge(ip, answers);
+  }
+
+  /**
+   * Resolve many IPs, using bulk endpoints where providers offer them
+   * With `first-success`, each provider only sees the IPs earlier providers missed.
+   */
+  async lookupMany(ips: string[]): Promise<Map<string, NormalizedIpInsight>> {
+    const providers = this.getActiveProviders();
+    const resolved = new Map<string, NormalizedIpInsight>();
+
+    if (this.options.strategy === 'first-success') {
+      let pending = ips;
+      for (const provider of providers) {
+        if (pending.length === 0) {
+          break;
+        }
+        const answers = await this.queryMany(provider, pending);
+        for (const [ip, insight] of answers) {
+          resolved.set(ip, attributeFields(insight, provider.name));
+        }
+        pending = pending.filter(ip => !answers.has(ip));
+      }
+      return resolved;
+    }
+
+    const answersByProvider = await Promise.all(
+      providers.map(async provider => [provider.name, await this.queryMany(provider, ips)] as const)
+    );
+    for (const ip of ips) {
+      const merged = this.merge(
+        ip,
+        answersByProvider.map(([name, answers]) => [name, answers.get(ip) ?? null] as const)
+      );
+      if (merged) {
+        resolved.set(ip, merged);
+      }
+    }
+    return resolved;
+  }
+
+  private circuitOf(provider: IpIntelProvider): CircuitBreaker {
+    return this.circuits.get(provider.name)!;
+  }
+
+  private async query(provider: IpIntelProvider, ip: string): Promise<NormalizedIpInsight | null> {
+    try {
+      return await this.circuitOf(provider).execute(() => provider.lookup(ip));
+    } catch (error) {
+      if (error instanceof CircuitOpenError) {
+        logger.debug({ ip, provider: provider.name }, 'IP intelligence provider circuit open, skipping lookup');
+        return null;
+      }
+      logger.warn({ err: error, ip, provider: provider.name }, 'IP intelligence provider lookup failed');
+      return null;
+    }
+  }
+
+  private async queryMany(provider: IpIntelProvider, ips: string[]): Promise<Map<string, NormalizedIpInsight>> {
+    const answers = new Map<string, NormalizedIpInsight>();
+
+    if (provider.lookupBatch) {
+      const lookupBatch = provider.lookupBatch.bind(provider);
+      for (const group of chunk(ips, provider.batchLimit ?? ips.length)) {
+        try {
+          const response = await this.circuitOf(provider).execute(() => lookupBatch(group));
+          for (const ip of group) {
+            if (response[ip]) {
+              answers.set(ip, response[ip]);
+            }
+          }
+        } catch (error) {
+          if (error instanceof CircuitOpenError) {
+            logger.debug({ provider: provider.name }, 'IP intelligence provider circuit open, skipping batch');
+            break;
+          }
+          logger.warn(
+            { err: error, size: group.length, provider: provider.name },
+            'IP intelligence provider batch lookup failed'
+          );
+        }
+      }
+      return answers;
+    }
+
+    await Promise.all(
+      ips.map(async ip => {
+        const insight = await this.query(provider, ip);
+        if (insight) {
+          answers.set(ip, insight);
+        }
+      })
+    );
+    return answers;
+  }
+
+  private fieldOrder(field: IpInsightField, defaultOrder: IpProviderName[]): IpProviderName[] {
+    const override = this.options.strategy === 'field-priority' ? this.fieldPriority[field] : undefined;
+    if (!override) {
+      return defaultOrder;
+    }
+    // Providers missing from the override still act as a last resort
+    return [...override, ...defaultOrder.filter(name => !override.includes(name))];
+  }
+
+  private merge(
+    ip: string,
+    answers: ReadonlyArray<readonly [IpProviderName, NormalizedIpInsight | null]>
+  ): NormalizedIpInsight | null {
+    const results = new Map<IpProviderName, NormalizedIpInsight>();
+    for (const [name, insight] of answers) {
+      if (insight) {
+        results.set(name, insight);
+      }
+    }
+    if (results.size === 0) {
+      return null;
+    }
+
+    const defaultOrder = [...results.keys()];
+    const merged: NormalizedIpInsight = { ip, source: defaultOrder[0], fetchedAt: Date.now() };
+    const fieldSources: IpFieldSources = {};
+
+    for (const field of INSIGHT_FIELDS) {
+      // Keep coordinates from one provider so a point is never stitched from two
+      const provider =
+        field === 'longitude' && fieldSources.latitude
+          ? fieldSources.latitude
+          : this.fieldOrder(field, defaultOrder).find(name => results.get(name)?.[field] !== undefined);
+      const value = provider ? results.get(provider)?.[field] : undefined;
+      if (provider && value !== undefined) {
+        setField(merged, field, value);
+        fieldSources[field] = provider;
+      }
+    }
+
+    const contributors = new Set(Object.values(fieldSources));
+    if (contributors.size > 1) {
+      merged.source = 'mixed';
+    } else if (contributors.size === 1) {
+      merged.source = [...contributors][0];
+    }
+    merged.fieldSources = fieldSources;
+    return merged;
+  }
+}
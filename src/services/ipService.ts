@@ -3,43 +3,83 @@ import { logger } from '../utils/logger';
 import { createCache } from '../utils/cacheFactory';
 import { requestDeduplicator } from '../utils/requestDeduplication';
 import type { NormalizedIpInsight } from '../types/ip';
-import { fetchIpInfo } from '../clients/ipinfoClient';
+import { fetchIpInfo, fetchIpInfoBatch, IPINFO_BATCH_LIMIT } from '../clients/ipinfoClient';
 import { fetchRadarIp } from '../clients/cloudflareRadarClient';
+import { isMmdbConfigured, lookupMmdb } from '../clients/mmdbClient';
 import { config } from '../config';
-import { normalizeIpInfo, normalizeRadar } from './ipNormalization';
+import { normalizeIp } from '../utils/ip';
+import { normalizeIpInfo, normalizeMmdb, normalizeRadar } from './ipNormalization';
+import { lookupIpInsightBatchWith, type IpBatchResult } from './ipBatch';
+import { IpProviderRegistry, parseFieldPriority, type IpIntelProvider } from './ipProviders';
+import { lookupTorRelay } from './torService';
+import { lookupCloudRange } from './cloudRangesService';
+import { lookupReverseDns } from './reverseDnsService';
+import { classifySpecialPurpose, nonRoutableInsight } from './specialPurpose';
 
 const ipCache = createCache<NormalizedIpInsight>('ip-insight');
 
+const ipProviders: IpIntelProvider[] = [
+  {
+    name: 'ipinfo',
+    isEnabled: () => Boolean(config.IPINFO_TOKEN),
+    lookup: async ip => normalizeIpInfo(await fetchIpInfo(ip)),
+    lookupBatch: async ips => {
+      const response = await fetchIpInfoBatch(ips);
+      const insights: Record<string, NormalizedIpInsight> = {};
+      for (const [ip, details] of Object.entries(response)) {
+        // Unresolvable IPs come back as error payloads without an `ip` field
+        if (details?.ip) {
+          insights[ip] = normalizeIpInfo(details);
+        }
+      }
+      return insights;
+    },
+    batchLimit: IPINFO_BATCH_LIMIT,
+  },
+  {
+    name: 'radar',
+    isEnabled: () => Boolean(config.CLOUDFLARE_ACCOUNT_ID && config.CLOUDFLARE_RADAR_TOKEN),
+    lookup: async ip => normalizeRadar(await fetchRadarIp(ip)),
+  },
+  {
+    name: 'mmdb',
+    isEnabled: isMmdbConfigured,
+    lookup: async ip => {
+      const records = await lookupMmdb(ip);
+      return records ? normalizeMmdb(ip, records) : null;
+    },
+  },
+];
+
+const providerRegistry = new IpProviderRegistry(ipProviders, {
+  order: config.IP_PROVIDER_ORDER,
+  strategy: config.IP_PROVIDER_STRATEGY,
+  fieldPriority: parseFieldPriority(config.IP_PROVIDER_FIELD_PRIORITY),
+  circuit: { failureThreshold: config.CIRCUIT_FAILURE_THRESHOLD, cooldownMs: config.CIRCUIT_COOLDOWN_MS },
+});
+
+/**
+ * Circuit health of the active IP intelligence providers
+ */
+export const getIpProviderHealth = () => providerRegistry.getHealth();
+
+/**
+ * Layer local datasets over provider data
+ * Applied after the cache so directory refreshes take effect immediately.
+ */
+const enrichInsight = (insight: NormalizedIpInsight): NormalizedIpInsight => {
+  const tor = lookupTorRelay(insight.ip);
+  const cloud = lookupCloudRange(insight.ip);
+  return tor || cloud ? { ...insight, tor: tor ?? undefined, cloud: cloud ?? undefined } : insight;
+};
+
 /**
  * Background revalidation function
  * Fetches fresh IP data and updates cache without blocking
  */
 async function revalidateIpInsight(ip: string): Promise<void> {
   try {
-    let insight: NormalizedIpInsight | null = null;
-
-    if (config.IPINFO_TOKEN) {
-      try {
-        const ipinfo = await fetchIpInfo(ip);
-        if (ipinfo) {
-          insight = normalizeIpInfo(ipinfo);
-        }
-      } catch (error) {
-        logger.warn({ err: error }, 'ipinfo revalidation failed');
-      }
-    }
-
-    if (!insight && config.CLOUDFLARE_ACCOUNT_ID && config.CLOUDFLARE_RADAR_TOKEN) {
-      try {
-        const radar = await fetchRadarIp(ip);
-        if (radar) {
-          insight = normalizeRadar(radar);
-        }
-      } catch (error) {
-        logger.warn({ err: error }, 'Cloudflare Radar revalidation failed');
-      }
-    }
-
+    const insight = await providerRegistry.lookup(ip);
     if (insight) {
       await ipCache.set(ip, insight);
       logger.debug({ ip }, 'Background revalidation completed');
@@ -49,7 +89,7 @@ async function revalidateIpInsight(ip: string): Promise<void> {
   }
 }
 
-export async function lookupIpInsight(ip: string): Promise<NormalizedIpInsight> {
+async function lookupProviderInsight(ip: string): Promise<NormalizedIpInsight> {
   // Check cache with stale-while-revalidate
   const { entry: cached, isStale } = await ipCache.getWithStale(ip);
 
@@ -73,29 +113,7 @@ export async function lookupIpInsight(ip: string): Promise<NormalizedIpInsight>
       return cachedAfterLock.data;
     }
 
-    let insight: NormalizedIpInsight | null = null;
-
-    if (config.IPINFO_TOKEN) {
-      try {
-        const ipinfo = await fetchIpInfo(ip);
-        if (ipinfo) {
-          insight = normalizeIpInfo(ipinfo);
-        }
-      } catch (error) {
-        logger.warn({ err: error }, 'ipinfo lookup failed');
-      }
-    }
-
-    if (!insight && config.CLOUDFLARE_ACCOUNT_ID && config.CLOUDFLARE_RADAR_TOKEN) {
-      try {
-        const radar = await fetchRadarIp(ip);
-        if (radar) {
-          insight = normalizeRadar(radar);
-        }
-      } catch (error) {
-        logger.warn({ err: error }, 'Cloudflare Radar lookup failed');
-      }
-    }
+    const insight = await providerRegistry.lookup(ip);
 
     if (!insight) {
       throw new ApiError(502, 'Unable to fetch IP intelligence');
@@ -105,3 +123,38 @@ export async function lookupIpInsight(ip: string): Promise<NormalizedIpInsight>
     return insight;
   });
 }
+
+/**
+ * Single-address lookup
+ * Special-purpose addresses are answered locally. Reverse DNS runs alongside
+ * the provider lookup and is never cached with the insight; batch lookups
+ * skip it rather than issue a PTR query per address.
+ */
+export async function lookupIpInsight(rawIp: string): Promise<NormalizedIpInsight> {
+  const ip = normalizeIp(rawIp);
+  if (!ip) {
+    throw new ApiError(400, 'Invalid IP address');
+  }
+  const specialPurpose = classifySpecialPurpose(ip);
+  if (specialPurpose) {
+    return nonRoutableInsight(ip, specialPurpose);
+  }
+
+  const [insight, reverseDns] = await Promise.all([lookupProviderInsight(ip), lookupReverseDns(ip)]);
+  const enriched = enrichInsight(insight);
+  return reverseDns ? { ...enriched, reverseDns } : enriched;
+}
+
+/**
+ * Batch lookup through the provider registry
+ * Shares the `ip-insight` cache with single lookups; providers with a bulk
+ * endpoint (ipinfo) are queried in chunks.
+ */
+export async function lookupIpInsightBatch(ips: string[]): Promise<IpBatchResult> {
+  return lookupIpInsightBatchWith(ips, {
+    cache: ipCache,
+    lookupMany: misses => providerRegistry.lookupMany(misses),
+    revalidate: revalidateIpInsight,
+    enrich: enrichInsight,
+  });
+}
@@ -5,8 +5,29 @@ import type { Env } from '../worker/types';
 import type { IpInfoDetails, NormalizedIpInsight, RadarIpResponse } from '../types/ip';
 import { normalizeIpInfo, normalizeRadar } from './ipNormalization';
 import { createCache } from '../utils/cacheFactory.worker';
+import { createWorkerUpstreamHttp } from '../utils/httpClient.worker';
+import { normalizeIp } from '../utils/ip';
+import { DEFAULT_CIRCUIT_COOLDOWN_MS, DEFAULT_CIRCUIT_FAILURE_THRESHOLD } from '../utils/circuitBreaker';
+import { lookupIpInsightBatchWith } from './ipBatch';
+import { createWorkerTorService } from './torService.worker';
+import { createWorkerCloudRangesService } from './cloudRangesService.worker';
+import { createWorkerRoutingTableService } from './routingTableService.worker';
+import { createDohResolver } from '../clients/dnsblClient';
+import type { ReverseDnsRecord } from '../types/dns';
+import { ReverseDnsLookup } from './reverseDns';
+import { classifySpecialPurpose, nonRoutableInsight } from './specialPurpose';
+import { RdapClient } from '../clients/rdapClient';
+import type { RdapRecord } from '../types/rdap';
+import {
+  DEFAULT_IP_PROVIDER_ORDER,
+  IpProviderRegistry,
+  isIpProviderStrategy,
+  parseFieldPriority,
+  type IpIntelProvider,
+} from './ipProviders';
 
 const CF_BASE = 'https://api.cloudflare.com/client/v4';
+const IPINFO_BATCH_LIMIT = 100;
 
 const parseNumber = (value: string | undefined, fallback: number): number => {
   const parsed = Number(value);
@@ -17,7 +38,6 @@ export const createWorkerIpService = (env: Env) => {
   const ttlMs = parseNumber(env.CACHE_TTL_MS, 5 * 60 * 1000);
   const staleTtlMs = parseNumber(env.CACHE_STALE_TTL_MS, 30 * 60 * 1000);
   const backend = env.CACHE_BACKEND === 'kv' ? 'kv' : 'memory';
-  const clientTimeout = parseNumber(env.CLIENT_TIMEOUT_MS, 2500);
 
   const ipCache = createCache<NormalizedIpInsight>('ip-insight', env.IP_CACHE, {
     backend,
@@ -25,34 +45,39 @@ export const createWorkerIpService = (env: Env) => {
     staleTtlMs,
   });
 
-  const fetchWithTimeout = async (url: string, init: RequestInit = {}) => {
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), clientTimeout);
-    try {
-      return await fetch(url, { ...init, signal: controller.signal });
-    } finally {
-      clearTimeout(timeout);
-    }
-  };
+  const upstreamHttp = createWorkerUpstreamHttp(env);
 
   const fetchIpInfoWorker = async (ip: string): Promise<IpInfoDetails | null> => {
     if (!env.IPINFO_TOKEN) {
       return null;
     }
     const url = `https://ipinfo.io/${encodeURIComponent(ip)}/json?token=${env.IPINFO_TOKEN}`;
-    const response = await fetchWithTimeout(url, { headers: { Accept: 'application/json' } });
+    const response = await upstreamHttp.request('ipinfo', url, { headers: { Accept: 'application/json' } });
     if (!response.ok) {
       throw new Error(`ipinfo request failed: ${response.status}`);
     }
     return (await response.json()) as IpInfoDetails;
   };
 
+  const fetchIpInfoBatchWorker = async (ips: string[]): Promise<Record<string, IpInfoDetails>> => {
+    const url = `https://ipinfo.io/batch?token=${env.IPINFO_TOKEN}`;
+    const response = await upstreamHttp.request('ipinfo', url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+      body: JSON.stringify(ips),
+    });
+    if (!response.ok) {
+      throw new Error(`ipinfo batch request failed: ${response.status}`);
+    }
+    return (await response.json()) as Record<string, IpInfoDetails>;
+  };
+
   const fetchRadarWorker = async (ip: string): Promise<RadarIpResponse | null> => {
     if (!env.CLOUDFLARE_ACCOUNT_ID || !env.CLOUDFLARE_RADAR_TOKEN) {
       return null;
     }
     const url = `${CF_BASE}/accounts/${env.CLOUDFLARE_ACCOUNT_ID}/intelligence/ip?ip=${encodeURIComponent(ip)}`;
-    const response = await fetchWithTimeout(url, {
+    const response = await upstreamHttp.request('radar', url, {
       headers: {
         Authorization: `Bearer ${env.CLOUDFLARE_RADAR_TOKEN}`,
         'Content-Type': 'application/json',
@@ -68,30 +93,77 @@ export const createWorkerIpService = (env: Env) => {
     return payload.result;
   };
 
-  const revalidateIpInsight = async (ip: string): Promise<void> => {
-    try {
-      let insight: NormalizedIpInsight | null = null;
-
-      try {
+  const providers: IpIntelProvider[] = [
+    {
+      name: 'ipinfo',
+      isEnabled: () => Boolean(env.IPINFO_TOKEN),
+      lookup: async ip => {
         const ipinfo = await fetchIpInfoWorker(ip);
-        if (ipinfo) {
-          insight = normalizeIpInfo(ipinfo);
-        }
-      } catch (error) {
-        logger.warn({ err: error }, 'ipinfo revalidation failed');
-      }
-
-      if (!insight) {
-        try {
-          const radar = await fetchRadarWorker(ip);
-          if (radar) {
-            insight = normalizeRadar(radar);
+        return ipinfo ? normalizeIpInfo(ipinfo) : null;
+      },
+      lookupBatch: async ips => {
+        const response = await fetchIpInfoBatchWorker(ips);
+        const insights: Record<string, NormalizedIpInsight> = {};
+        for (const [ip, details] of Object.entries(response)) {
+          if (details?.ip) {
+            insights[ip] = normalizeIpInfo(details);
           }
-        } catch (error) {
-          logger.warn({ err: error }, 'Cloudflare Radar revalidation failed');
         }
-      }
+        return insights;
+      },
+      batchLimit: IPINFO_BATCH_LIMIT,
+    },
+    {
+      name: 'radar',
+      isEnabled: () => Boolean(env.CLOUDFLARE_ACCOUNT_ID && env.CLOUDFLARE_RADAR_TOKEN),
+      lookup: async ip => {
+        const radar = await fetchRadarWorker(ip);
+        return radar ? normalizeRadar(radar) : null;
+      },
+    },
+  ];
+
+  const providerRegistry = new IpProviderRegistry(providers, {
+    order: env.IP_PROVIDER_ORDER
+      ? env.IP_PROVIDER_ORDER.split(',').map(name => name.trim())
+      : DEFAULT_IP_PROVIDER_ORDER,
+    strategy: isIpProviderStrategy(env.IP_PROVIDER_STRATEGY) ? env.IP_PROVIDER_STRATEGY : 'first-success',
+    fieldPriority: parseFieldPriority(env.IP_PROVIDER_FIELD_PRIORITY),
+    circuit: {
+      failureThreshold: parseNumber(env.CIRCUIT_FAILURE_THRESHOLD, DEFAULT_CIRCUIT_FAILURE_THRESHOLD),
+      cooldownMs: parseNumber(env.CIRCUIT_COOLDOWN_MS, DEFAULT_CIRCUIT_COOLDOWN_MS),
+    },
+  });
+
+  const torService = createWorkerTorService(env);
+  const cloudRangesService = createWorkerCloudRangesService(env);
+  const routingTableService = createWorkerRoutingTableService(env);
+  const loadLocalIntel = () =>
+    Promise.all([torService.ready(), cloudRangesService.ready(), routingTableService.ready()]);
+
+  const enrichInsight = (insight: NormalizedIpInsight): NormalizedIpInsight => {
+    const tor = torService.lookup(insight.ip);
+    const cloud = cloudRangesService.lookup(insight.ip);
+    return tor || cloud ? { ...insight, tor: tor ?? undefined, cloud: cloud ?? undefined } : insight;
+  };
+
+  const reverseDns = new ReverseDnsLookup(
+    createDohResolver(env.DNSBL_DOH_URL || undefined, Number(env.REVERSE_DNS_TIMEOUT_MS) || 2000, upstreamHttp),
+    createCache<ReverseDnsRecord>('reverse-dns', env.IP_CACHE, { backend }),
+    { ttlMs: Number(env.REVERSE_DNS_TTL_MS) || undefined }
+  );
+
+  const rdapTtlMs = Number(env.RDAP_CACHE_TTL_MS) || undefined;
+  const rdapClient = new RdapClient({
+    cache: createCache<RdapRecord | null>('rdap', env.IP_CACHE, { backend, ttlMs: rdapTtlMs, staleTtlMs: rdapTtlMs }),
+    http: upstreamHttp,
+    ttlMs: rdapTtlMs,
+    bootstrapUrl: env.RDAP_BOOTSTRAP_URL || undefined,
+  });
 
+  const revalidateIpInsight = async (ip: string): Promise<void> => {
+    try {
+      const insight = await providerRegistry.lookup(ip);
       if (insight) {
         await ipCache.set(ip, insight);
         logger.debug({ ip }, 'Background revalidation completed');
@@ -101,7 +173,7 @@ export const createWorkerIpService = (env: Env) => {
     }
   };
 
-  const lookupIpInsight = async (ip: string): Promise<NormalizedIpInsight> => {
+  const lookupProviderInsight = async (ip: string): Promise<NormalizedIpInsight> => {
     const { entry: cached, isStale } = await ipCache.getWithStale(ip);
 
     if (cached) {
@@ -120,27 +192,7 @@ export const createWorkerIpService = (env: Env) => {
         return cachedAfterLock.data;
       }
 
-      let insight: NormalizedIpInsight | null = null;
-
-      try {
-        const ipinfo = await fetchIpInfoWorker(ip);
-        if (ipinfo) {
-          insight = normalizeIpInfo(ipinfo);
-        }
-      } catch (error) {
-        logger.warn({ err: error }, 'ipinfo lookup failed');
-      }
-
-      if (!insight) {
-        try {
-          const radar = await fetchRadarWorker(ip);
-          if (radar) {
-            insight = normalizeRadar(radar);
-          }
-        } catch (error) {
-          logger.warn({ err: error }, 'Cloudflare Radar lookup failed');
-        }
-      }
+      const insight = await providerRegistry.lookup(ip);
 
       if (!insight) {
         throw new ApiError(502, 'Unable to fetch IP intelligence');
@@ -151,13 +203,39 @@ export const createWorkerIpService = (env: Env) => {
     });
   };
 
+  const lookupIpInsight = async (rawIp: string): Promise<NormalizedIpInsight> => {
+    const ip = normalizeIp(rawIp);
+    if (!ip) {
+      throw new ApiError(400, 'Invalid IP address');
+    }
+    const specialPurpose = classifySpecialPurpose(ip);
+    if (specialPurpose) {
+      return nonRoutableInsight(ip, specialPurpose);
+    }
+
+    await loadLocalIntel();
+    const [insight, reverseDnsInfo] = await Promise.all([lookupProviderInsight(ip), reverseDns.lookup(ip)]);
+    const enriched = enrichInsight(insight);
+    return reverseDnsInfo ? { ...enriched, reverseDns: reverseDnsInfo } : enriched;
+  };
+
+  const lookupIpInsightBatch = async (ips: string[]) => {
+    await loadLocalIntel();
+    return lookupIpInsightBatchWith(ips, {
+      cache: ipCache,
+      lookupMany: misses => providerRegistry.lookupMany(misses),
+      revalidate: revalidateIpInsight,
+      enrich: enrichInsight,
+    });
+  };
+
   const verifyRadarToken = async (): Promise<boolean> => {
     if (!env.CLOUDFLARE_ACCOUNT_ID || !env.CLOUDFLARE_RADAR_TOKEN) {
       return false;
     }
     const url = `${CF_BASE}/accounts/${env.CLOUDFLARE_ACCOUNT_ID}/tokens/verify`;
     try {
-      const response = await fetchWithTimeout(url, {
+      const response = await upstreamHttp.request('radar', url, {
         headers: {
           Authorization: `Bearer ${env.CLOUDFLARE_RADAR_TOKEN}`,
           'Content-Type': 'application/json',
@@ -176,6 +254,14 @@ export const createWorkerIpService = (env: Env) => {
 
   return {
     lookupIpInsight,
+    lookupIpInsightBatch,
+    batchMaxSize: parseNumber(env.IP_BATCH_MAX_SIZE, 1000),
     verifyRadarToken,
+    getProviderHealth: () => providerRegistry.getHealth(),
+    upstreamHttp,
+    rdapClient,
+    torService,
+    cloudRangesService,
+    routingTableService,
   };
 };
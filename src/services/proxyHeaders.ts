@@ -0,0 +1,112 @@
+/**
+ * Proxy Header Inspection
+ * Looks for proxies that give themselves away in the request: `Via`,
+ * forwarding chains with more hops than our own proxies account for, and
+ * headers only proxy software adds (`X-BlueCoat-Via`, `X-ProxyUser-Ip`,
+ * `Proxy-Connection`, `Client-IP`).
+ *
+ * Runtime-neutral: callers pass a header reader plus the resolved client
+ * address and trusted-proxy test from the client IP resolver, so hops added by
+ * our own infrastructure are not reported.
+ */
+
+import type { ProxyHeaderAnalysis } from '../types/headers';
+import type { DetailedSignal } from './report/scoring';
+import { parseForwardedFor, parseForwardedHeader, type HeaderReader } from '../utils/clientIp';
+import { normalizeIp } from '../utils/ip';
+
+export interface ProxyHeaderContext {
+  /** Resolved client address; never reported as an intermediate */
+  clientIp?: string | null;
+  isTrustedProxy?: (ip: string) => boolean;
+}
+
+/** Headers only proxy software sends, with the display name and what they reveal */
+const PROXY_SOFTWARE_HEADERS: Array<[header: string, name: string, reveals: string]> = [
+  ['x-bluecoat-via', 'X-BlueCoat-Via', 'a Blue Coat (Symantec) web gateway'],
+  ['x-proxyuser-ip', 'X-ProxyUser-Ip', 'a corporate or Google-operated proxy'],
+  ['proxy-connection', 'Proxy-Connection', 'a client configured for an HTTP proxy, or the proxy itself'],
+  ['client-ip', 'Client-IP', 'a proxy passing on the original address'],
+  ['x-proxy-id', 'X-Proxy-ID', 'a proxy identifying itself'],
+];
+
+/** Single-address headers whose value may name a hop */
+const ADDRESS_HEADERS = ['x-proxyuser-ip', 'client-ip', 'x-real-ip', 'true-client-ip', 'cf-connecting-ip'];
+
+/**
+ * Inspect a request's headers for proxies between the client and us
+ */
+export const inspectProxyHeaders = (header: HeaderReader, context: ProxyHeaderContext = {}): ProxyHeaderAnalysis => {
+  const isTrusted = context.isTrustedProxy ?? (() => false);
+  const clientIp = context.clientIp ? normalizeIp(context.clientIp) : null;
+  const signals: DetailedSignal[] = [];
+  const headers: string[] = [];
+  const intermediateIps = new Set<string>();
+  const addHop = (ip: string | null) => {
+    if (ip && ip !== clientIp && !isTrusted(ip)) {
+      intermediateIps.add(ip);
+    }
+  };
+
+  const via = header('via')?.trim();
+  if (via) {
+    const hops = via.split(',').filter(hop => hop.trim()).length;
+    headers.push('Via');
+    signals.push({
+      message: `Request passed through ${hops === 1 ? 'a proxy' : `${hops} proxies`} (Via: ${via.slice(0, 80)})`,
+      impact: 'medium',
+      scorePenalty: 15,
+      explanation: 'HTTP proxies and gateways add a Via header, so this request was relayed rather than sent directly.',
+      recommendation: 'Expected behind corporate or ISP proxies; otherwise the connection may be anonymized.',
+    });
+  }
+
+  const chainHeaders: Array<[string, string, (value: string) => Array<string | null>]> = [
+    ['forwarded', 'Forwarded', parseForwardedHeader],
+    ['x-forwarded-for', 'X-Forwarded-For', parseForwardedFor],
+  ];
+  for (const [name, displayName, parse] of chainHeaders) {
+    const value = header(name);
+    if (!value) {
+      continue;
+    }
+    const before = intermediateIps.size;
+    parse(value).forEach(addHop);
+    if (intermediateIps.size > before) {
+      headers.push(displayName);
+    }
+  }
+  ADDRESS_HEADERS.forEach(name => addHop(normalizeIp(header(name)?.trim())));
+
+  if (intermediateIps.size > 0) {
+    const listed = [...intermediateIps];
+    signals.push({
+      message: `Forwarding headers name ${listed.length === 1 ? 'another address' : `${listed.length} other addresses`}: ${listed.join(', ')}`,
+      impact: 'medium',
+      scorePenalty: 15,
+      explanation:
+        'Each proxy a request passes through records the address it received it from. Addresses besides the client show the request was relayed, or that the client wrote the headers itself.',
+      recommendation: 'Inspect the listed addresses; the first one is usually the original client.',
+    });
+  }
+
+  const software = PROXY_SOFTWARE_HEADERS.filter(([name]) => header(name));
+  if (software.length > 0) {
+    headers.push(...software.map(([, name]) => name));
+    signals.push({
+      message: `Proxy software headers present: ${software.map(([, name]) => name).join(', ')}`,
+      impact: 'medium',
+      scorePenalty: Math.min(10 * software.length, 20),
+      explanation: `These headers are added by ${software.map(([, , reveals]) => reveals).join('; ')}.`,
+      recommendation: 'The visible address belongs to the proxy, not the end user.',
+    });
+  }
+
+  return {
+    detected: signals.length > 0,
+    headers,
+    intermediateIps: [...intermediateIps],
+    scorePenalty: signals.reduce((total, signal) => total + signal.scorePenalty, 0),
+    signals,
+  };
+};
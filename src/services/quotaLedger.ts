@@ -0,0 +1,97 @@
+/**
+ * Provider Quota Ledger
+ *
+ * Counts real upstream calls per provider in fixed UTC hour and day windows
+ * and refuses calls once a budget is spent. Shared between the Node.js
+ * service and the Cloudflare Worker; the counters live in an injected
+ * `QuotaStore` that matches the cache backend. Budgets are exact with the
+ * memory and Redis stores and soft with Cloudflare KV.
+ */
+
+import type { QuotaStore } from '../utils/quotaStore';
+import type { QuotaUsage, QuotaWindowUsage, ReportedRateLimit, ThreatRateLimit } from '../types/threat';
+
+type QuotaWindow = 'hour' | 'day';
+
+const WINDOW_MS: Record<QuotaWindow, number> = {
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+};
+
+const windowLimit = (window: QuotaWindow, limit?: ThreatRateLimit): number | undefined =>
+  window === 'hour' ? limit?.requests_per_hour : limit?.requests_per_day;
+
+export class QuotaLedger {
+  constructor(
+    private readonly store: QuotaStore,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /**
+   * Count one upstream call unless it would exceed a budget
+   *
+   * @returns Why the call was refused, or null when it may proceed
+   */
+  async tryConsume(provider: string, limit?: ThreatRateLimit): Promise<string | null> {
+    const consumed: QuotaWindow[] = [];
+    for (const window of ['day', 'hour'] as const) {
+      const { key, ttlMs } = this.window(provider, window);
+      const used = await this.store.increment(key, 1, ttlMs);
+      consumed.push(window);
+      const budget = windowLimit(window, limit);
+      if (budget !== undefined && used > budget) {
+        // Roll back so refused calls do not eat into the next check
+        await Promise.all(
+          consumed.map(name => {
+            const slot = this.window(provider, name);
+            return this.store.increment(slot.key, -1, slot.ttlMs);
+          })
+        );
+        return `${provider} ${window === 'day' ? 'daily' : 'hourly'} quota of ${budget} requests exhausted`;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Raise the daily count to the usage the upstream reports
+   * Usage is the upstream's own limit minus what it says is left; our budget
+   * stands in only when no limit is reported. The count never drops below
+   * the calls counted here, so a budget tighter than the upstream's holds.
+   */
+  async sync(provider: string, limit: ThreatRateLimit | undefined, reported: ReportedRateLimit): Promise<void> {
+    const upstreamLimit = reported.limit ?? limit?.requests_per_day;
+    if (upstreamLimit === undefined) {
+      return;
+    }
+    const { key, ttlMs } = this.window(provider, 'day');
+    const used = Math.max(0, upstreamLimit - reported.remaining);
+    if (used > (await this.store.get(key))) {
+      await this.store.set(key, used, ttlMs);
+    }
+  }
+
+  async getUsage(provider: string, limit?: ThreatRateLimit): Promise<QuotaUsage> {
+    const [hour, day] = await Promise.all([this.usage(provider, 'hour', limit), this.usage(provider, 'day', limit)]);
+    return { hour, day };
+  }
+
+  private async usage(provider: string, window: QuotaWindow, limit?: ThreatRateLimit): Promise<QuotaWindowUsage> {
+    const { key, resetsAt } = this.window(provider, window);
+    const used = await this.store.get(key);
+    const budget = windowLimit(window, limit);
+    return {
+      used,
+      limit: budget,
+      remaining: budget === undefined ? undefined : Math.max(0, budget - used),
+      resets_at: new Date(resetsAt).toISOString(),
+    };
+  }
+
+  private window(provider: string, window: QuotaWindow): { key: string; ttlMs: number; resetsAt: number } {
+    const now = this.now();
+    const start = Math.floor(now / WINDOW_MS[window]) * WINDOW_MS[window];
+    const resetsAt = start + WINDOW_MS[window];
+    return { key: `quota:${provider}:${window}:${start}`, ttlMs: resetsAt - now, resetsAt };
+  }
+}
@@ -0,0 +1,18 @@
+/**
+ * RDAP (Node.js)
+ * Shared RDAP client for the routes and the enhanced analyzer. The Worker
+ * builds its own in `ipService.worker.ts`.
+ */
+
+import { config } from '../config';
+import { RdapClient } from '../clients/rdapClient';
+import { createCache } from '../utils/cacheFactory';
+import { upstreamHttp } from '../utils/httpClient';
+import type { RdapRecord } from '../types/rdap';
+
+export const rdapClient = new RdapClient({
+  cache: createCache<RdapRecord | null>('rdap'),
+  http: upstreamHttp,
+  ttlMs: config.RDAP_CACHE_TTL_MS,
+  bootstrapUrl: config.RDAP_BOOTSTRAP_URL,
+});
@@ -1,4 +1,10 @@
 import type { FingerprintPayload } from '../../types/report';
+import type { RequestHeaderSnapshot } from '../../types/headers';
+import { evaluateRequestHeaders } from './headerEvaluator';
+import { evaluateUserAgentData } from './clientHintsEvaluator';
+import type { VersionFreshness } from '../../types/browser';
+import { parseUserAgent } from '../../utils/userAgent';
+import { assessBrowserVersion } from '../browserReleases';
 import {
   type DetailedSignal,
   type EnhancedPanelResult,
@@ -10,9 +16,14 @@ import {
 
 /**
  * Evaluate browser fingerprint characteristics
- * Analyzes User-Agent, languages, platform, hardware, and permissions
+ * Analyzes User-Agent, client hints, languages, platform, hardware, and
+ * permissions, and when the request headers are given, checks them against
+ * the fingerprint
  */
-export const evaluateBrowser = (fingerprint: FingerprintPayload): EnhancedPanelResult => {
+export const evaluateBrowser = (
+  fingerprint: FingerprintPayload,
+  requestHeaders?: RequestHeaderSnapshot
+): EnhancedPanelResult => {
   let score = 100;
   const detailedSignals: DetailedSignal[] = [];
   const breakdown: Record<string, number> = {
@@ -41,22 +52,42 @@ export const evaluateBrowser = (fingerprint: FingerprintPayload): EnhancedPanelR
     });
   }
 
-  // Check for outdated browser versions
-  const chromeMatch = ua.match(/Chrome\/(\d+\.\d+)/);
-  if (chromeMatch) {
-    const version = parseFloat(chromeMatch[1]);
-    if (version < 90) {
-      const penalty = 15;
-      score -= penalty;
-      breakdown.userAgent -= penalty;
-      detailedSignals.push({
-        message: 'Outdated Chrome version detected',
+  // Browser version against the release calendar
+  const detection = parseUserAgent(ua);
+  const version = detection.browser ? assessBrowserVersion(detection.browser) : null;
+  if (detection.browser && version && version.freshness !== 'current') {
+    const label = `${detection.browser.name} ${version.major}`;
+    const months = Math.round((version.daysBehind ?? 0) / 30);
+    const replaced = version.supportedUntil
+      ? `an extended support release whose support ended ${months} months ago (latest ${version.latestMajor})`
+      : `replaced ${months} months ago by newer releases (latest ${version.latestMajor})`;
+    const versionSignals: Record<Exclude<VersionFreshness, 'current'>, DetailedSignal> = {
+      stale: {
+        message: `${label} is out of date`,
+        impact: 'low',
+        scorePenalty: 5,
+        explanation: `${label} was ${replaced}. Browsers update themselves, so most visitors run a recent version.`,
+        recommendation: `Update ${detection.browser.name}.`,
+      },
+      ancient: {
+        message: `${label} is years out of date`,
         impact: 'medium',
-        scorePenalty: penalty,
-        explanation: `Chrome ${version} is significantly outdated. Most users run recent versions.`,
-        recommendation: 'Update to the latest Chrome version for better compatibility and security.',
-      });
-    }
+        scorePenalty: 15,
+        explanation: `${label} was ${replaced}. Versions this old are rare outside of scrapers with hard-coded User-Agents.`,
+        recommendation: `Update ${detection.browser.name} for better compatibility and security.`,
+      },
+      future: {
+        message: `${label} has not been released yet`,
+        impact: 'high',
+        scorePenalty: 20,
+        explanation: `The newest ${detection.browser.name} release is ${version.latestMajor}, and not even preview builds report ${version.major}. The version number was made up.`,
+        recommendation: 'Use a User-Agent taken from a real browser.',
+      },
+    };
+    const signal = versionSignals[version.freshness];
+    score -= signal.scorePenalty;
+    breakdown.userAgent -= signal.scorePenalty;
+    detailedSignals.push(signal);
   }
 
   // Language Analysis
@@ -91,8 +122,30 @@ export const evaluateBrowser = (fingerprint: FingerprintPayload): EnhancedPanelR
     }
   }
 
-  // Platform Analysis
-  if (fingerprint.platform && ua) {
+  // Request header consistency
+  if (requestHeaders) {
+    const consistency = evaluateRequestHeaders(fingerprint, requestHeaders);
+    for (const category of ['userAgent', 'languages'] as const) {
+      for (const signal of consistency[category]) {
+        score -= signal.scorePenalty;
+        breakdown[category] -= signal.scorePenalty;
+        detailedSignals.push(signal);
+      }
+    }
+  }
+
+  // Client hints (navigator.userAgentData)
+  const clientHints = evaluateUserAgentData(fingerprint);
+  for (const category of ['userAgent', 'platform'] as const) {
+    for (const signal of clientHints[category]) {
+      score -= signal.scorePenalty;
+      breakdown[category] -= signal.scorePenalty;
+      detailedSignals.push(signal);
+    }
+  }
+
+  // Platform Analysis; the client hints already compared navigator.platform when they carry a platform
+  if (fingerprint.platform && ua && !clientHints.platformChecked) {
     const platformMismatch =
       (/Linux/.test(fingerprint.platform) && /Windows|Mac/.test(ua)) ||
       (/Windows/.test(fingerprint.platform) && /Linux|Mac/.test(ua)) ||
@@ -210,5 +263,6 @@ export const evaluateBrowser = (fingerprint: FingerprintPayload): EnhancedPanelR
     confidence,
     entropy,
     breakdown,
+    meta: { detection, version },
   };
 };
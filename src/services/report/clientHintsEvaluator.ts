@@ -0,0 +1,146 @@
+import type { FingerprintPayload } from '../../types/report';
+import type { DetailedSignal } from './scoring';
+import { browserFamily, isGreaseBrand, platformFits, uaPlatform } from './headerEvaluator';
+
+/**
+ * Signals from comparing `navigator.userAgentData` with the User-Agent and
+ * `navigator.platform`, grouped by the browser panel category they count against
+ */
+export interface ClientHintsResult {
+  userAgent: DetailedSignal[];
+  platform: DetailedSignal[];
+  /** The platform hint was compared with the User-Agent and navigator.platform */
+  platformChecked: boolean;
+}
+
+/** Client hint platforms each `navigator.platform` prefix is reported with */
+const NAVIGATOR_PLATFORMS: Array<[prefix: string, platforms: string[]]> = [
+  ['Win', ['Windows']],
+  ['Mac', ['macOS']],
+  ['Linux', ['Linux', 'Android', 'Chrome OS']],
+];
+
+/**
+ * Windows release a `platformVersion` hint stands for
+ * Windows 11 reports 13 and up, Windows 10 reports 1 to 12, and Windows 7,
+ * 8 and 8.1 report 0.1, 0.2 and 0.3.
+ */
+const windowsFromPlatformVersion = (platformVersion: string): string | null => {
+  const [major, minor] = platformVersion.split('.').map(Number);
+  if (!Number.isFinite(major)) return null;
+  if (major >= 13) return '11';
+  if (major >= 1) return '10';
+  return ({ 1: '7', 2: '8', 3: '8.1' } as Record<number, string>)[minor] ?? null;
+};
+
+/** Windows releases by User-Agent NT version; Windows 11 still sends "Windows NT 10.0" */
+const WINDOWS_NT_VERSIONS: Record<string, string> = { '10.0': '10', '6.3': '8.1', '6.2': '8', '6.1': '7' };
+
+const windowsFromUserAgent = (ua: string): string | null => {
+  const version = /Windows NT (\d+\.\d+)/.exec(ua)?.[1];
+  return version ? (WINDOWS_NT_VERSIONS[version] ?? null) : null;
+};
+
+/**
+ * Check the high-entropy client hints against the other places the browser
+ * describes itself
+ */
+export const evaluateUserAgentData = (fingerprint: FingerprintPayload): ClientHintsResult => {
+  const result: ClientHintsResult = { userAgent: [], platform: [], platformChecked: false };
+  const data = fingerprint.userAgentData;
+  if (!data) {
+    return result;
+  }
+  const ua = fingerprint.userAgent;
+  const family = browserFamily(ua);
+
+  if (family === 'firefox' || family === 'safari') {
+    result.userAgent.push({
+      message: `navigator.userAgentData exposed by a browser claiming to be ${family === 'firefox' ? 'Firefox' : 'Safari'}`,
+      impact: 'high',
+      scorePenalty: 25,
+      explanation:
+        'Only Chromium-based browsers implement User-Agent Client Hints, so the User-Agent string is spoofed.',
+      recommendation: 'Pick a User-Agent from the same engine the browser actually runs.',
+    });
+    return result;
+  }
+
+  const uaMajor = Number(/Chrome\/(\d+)/.exec(ua)?.[1]);
+  const versions = [...data.brands, ...(data.fullVersionList ?? [])]
+    .filter(({ brand }) => !isGreaseBrand(brand))
+    .map(({ brand, version }) => ({ brand, major: parseInt(version, 10) }));
+  if (uaMajor && versions.length > 0 && !versions.some(({ major }) => major === uaMajor)) {
+    result.userAgent.push({
+      message: `Client hint brands report version ${versions[0].major} but the User-Agent says Chrome ${uaMajor}`,
+      impact: 'high',
+      scorePenalty: 25,
+      explanation: `userAgentData lists ${versions.map(({ brand, major }) => `${brand} ${major}`).join(', ')}. The browser fills these in itself, so the User-Agent string was overridden.`,
+    });
+  }
+
+  if (data.mobile !== /Mobile/.test(ua)) {
+    result.userAgent.push({
+      message: `userAgentData.mobile is ${data.mobile} but the User-Agent is ${data.mobile ? 'a desktop' : 'a mobile'} one`,
+      impact: 'medium',
+      scorePenalty: 15,
+      explanation:
+        'Device emulation and User-Agent switchers usually change the string without touching the mobile hint.',
+    });
+  }
+
+  // The operating system is reported once: a hint contradicting the User-Agent
+  // outranks navigator.platform, which evaluateBrowser then no longer checks
+  const claimedPlatform = uaPlatform(ua);
+  const navigatorPlatforms = NAVIGATOR_PLATFORMS.find(([prefix]) => fingerprint.platform?.startsWith(prefix))?.[1];
+  result.platformChecked = Boolean(data.platform);
+  if (data.platform && claimedPlatform && !platformFits(data.platform, claimedPlatform)) {
+    result.platform.push({
+      message: `Client hint platform "${data.platform}" contradicts the ${claimedPlatform} User-Agent`,
+      impact: 'high',
+      scorePenalty: 20,
+      explanation: 'userAgentData.platform reports the operating system the browser really runs on.',
+      recommendation: 'Spoof a User-Agent for the operating system you are actually using.',
+    });
+  } else if (data.platform && navigatorPlatforms && !navigatorPlatforms.includes(data.platform)) {
+    result.platform.push({
+      message: `navigator.platform "${fingerprint.platform}" does not fit client hint platform "${data.platform}"`,
+      impact: 'medium',
+      scorePenalty: 15,
+      explanation: 'Both values come from the same browser and describe the same operating system.',
+    });
+  }
+
+  const hintedWindows =
+    data.platform === 'Windows' && data.platformVersion ? windowsFromPlatformVersion(data.platformVersion) : null;
+  const uaWindows = windowsFromUserAgent(ua);
+  const sameGeneration = (a: string, b: string) => a === b || (a === '11' && b === '10');
+  if (hintedWindows && uaWindows && !sameGeneration(hintedWindows, uaWindows)) {
+    result.platform.push({
+      message: `platformVersion ${data.platformVersion} is Windows ${hintedWindows} but the User-Agent claims Windows ${uaWindows}`,
+      impact: 'high',
+      scorePenalty: 20,
+      explanation:
+        'The platform version hint is read from the operating system, while the User-Agent string is easy to change.',
+    });
+  }
+
+  // Android's desktop-site mode always claims x86_64 Linux, whatever the CPU
+  if (/Linux x86_64/.test(ua) && data.architecture === 'arm' && data.platform !== 'Android') {
+    result.platform.push({
+      message: 'ARM architecture reported with an x86_64 Linux User-Agent',
+      impact: 'medium',
+      scorePenalty: 10,
+      explanation: 'Chromium on Linux puts the real CPU architecture in its User-Agent.',
+    });
+  } else if (/Win64; x64/.test(ua) && data.bitness === '32' && !data.wow64) {
+    result.platform.push({
+      message: '32-bit browser reported with a 64-bit Windows User-Agent',
+      impact: 'low',
+      scorePenalty: 10,
+      explanation: 'A 32-bit Chromium build says "WOW64" or nothing, never "Win64; x64".',
+    });
+  }
+
+  return result;
+};
@@ -0,0 +1,257 @@
+import type { FingerprintPayload } from '../../types/report';
+import type { RequestHeaderSnapshot } from '../../types/headers';
+import type { BrowserEngine } from '../../types/browser';
+import type { DetailedSignal } from './scoring';
+import { parseUserAgent } from '../../utils/userAgent';
+
+export type BrowserFamily = 'chromium' | 'firefox' | 'safari';
+
+/**
+ * Signals from comparing the request headers with the fingerprint, grouped by
+ * the browser panel category they count against
+ */
+export interface HeaderConsistencyResult {
+  userAgent: DetailedSignal[];
+  languages: DetailedSignal[];
+}
+
+/**
+ * Header pairs each engine always sends in this relative order
+ * Only pairs that hold for navigations and fetches alike are listed; Safari
+ * varies too much between releases to be checked.
+ */
+const HEADER_ORDER: Record<Exclude<BrowserFamily, 'safari'>, Array<[string, string]>> = {
+  chromium: [
+    ['accept-encoding', 'accept-language'],
+    ['sec-fetch-site', 'sec-fetch-mode'],
+    ['sec-fetch-mode', 'sec-fetch-dest'],
+  ],
+  firefox: [
+    ['user-agent', 'accept'],
+    ['accept-language', 'accept-encoding'],
+    ['sec-fetch-dest', 'sec-fetch-mode'],
+    ['sec-fetch-mode', 'sec-fetch-site'],
+  ],
+};
+
+const ENGINE_FAMILIES: Record<BrowserEngine, BrowserFamily> = {
+  Blink: 'chromium',
+  Gecko: 'firefox',
+  WebKit: 'safari',
+};
+
+/** Engine family a User-Agent claims, as far as header and client hint behavior goes */
+export const browserFamily = (ua: string): BrowserFamily | null => {
+  const engine = parseUserAgent(ua).engine;
+  return engine ? ENGINE_FAMILIES[engine.name] : null;
+};
+
+/** Operating system a User-Agent claims, named as `Sec-CH-UA-Platform` names it */
+export const uaPlatform = (ua: string): string | null => parseUserAgent(ua).os?.name ?? null;
+
+/**
+ * Whether a client hint platform fits the operating system a User-Agent claims
+ * Android tablets request desktop sites with a Linux User-Agent while the
+ * hints keep reporting Android.
+ */
+export const platformFits = (hinted: string, claimed: string) =>
+  hinted === claimed || (hinted === 'Android' && claimed === 'Linux');
+
+/**
+ * Languages of an Accept-Language header, most preferred first
+ * Wildcards and q=0 entries are dropped; equal weights keep header order.
+ */
+export const parseAcceptLanguage = (value: string): Array<{ tag: string; q: number }> =>
+  value
+    .split(',')
+    .map(part => {
+      const [tag, ...params] = part.trim().split(';');
+      const qParam = params.find(param => param.trim().startsWith('q='));
+      const q = qParam ? Number(qParam.trim().slice(2)) : 1;
+      return { tag: tag.trim().toLowerCase(), q: Number.isFinite(q) ? q : 0 };
+    })
+    .filter(entry => entry.tag && entry.tag !== '*' && entry.q > 0)
+    .sort((a, b) => b.q - a.q);
+
+/** GREASE brands Chromium adds to the brand list ("Not/A)Brand" and variants) */
+export const isGreaseBrand = (brand: string) => /not.?a.?brand/i.test(brand);
+
+/**
+ * Brands and major versions of a `Sec-CH-UA` header, GREASE brands excluded
+ */
+const parseBrands = (value: string): Array<{ brand: string; major: number }> =>
+  [...value.matchAll(/"([^"]*)"\s*;\s*v="(\d+)/g)]
+    .map(([, brand, version]) => ({ brand, major: Number(version) }))
+    .filter(({ brand }) => !isGreaseBrand(brand));
+
+const unquote = (value: string) => value.trim().replace(/^"(.*)"$/, '$1');
+
+const checkUserAgent = (fingerprint: FingerprintPayload, header: (name: string) => string | undefined) => {
+  const signals: DetailedSignal[] = [];
+  const requestUa = header('user-agent')?.trim();
+  const claimedUa = fingerprint.userAgent.trim();
+
+  if (!requestUa) {
+    signals.push({
+      message: 'Request carried no User-Agent header',
+      impact: 'medium',
+      scorePenalty: 15,
+      explanation:
+        'Every browser sends a User-Agent header; requests without one come from scripts or rewriting proxies.',
+    });
+  } else if (requestUa !== claimedUa) {
+    signals.push({
+      message: 'User-Agent header differs from navigator.userAgent',
+      impact: 'high',
+      scorePenalty: 30,
+      explanation: `The request identified itself as "${requestUa.slice(0, 120)}" while the page reported "${claimedUa.slice(0, 120)}". One of them has been overridden, by an extension, automation tool or proxy.`,
+      recommendation: 'Spoof the User-Agent consistently or not at all.',
+    });
+  }
+  return signals;
+};
+
+const checkClientHints = (ua: string, family: BrowserFamily | null, header: (name: string) => string | undefined) => {
+  const signals: DetailedSignal[] = [];
+  const brandsHeader = header('sec-ch-ua');
+  if (!brandsHeader) {
+    return signals;
+  }
+
+  if (family === 'firefox' || family === 'safari') {
+    signals.push({
+      message: `Client hints sent by a browser claiming to be ${family === 'firefox' ? 'Firefox' : 'Safari'}`,
+      impact: 'high',
+      scorePenalty: 25,
+      explanation:
+        'Sec-CH-UA headers are only sent by Chromium-based browsers, so the User-Agent hides a Chromium engine.',
+    });
+    return signals;
+  }
+
+  const uaMajor = Number(/Chrome\/(\d+)/.exec(ua)?.[1]);
+  const brands = parseBrands(brandsHeader);
+  if (uaMajor && brands.length > 0 && !brands.some(({ major }) => major === uaMajor)) {
+    signals.push({
+      message: `Sec-CH-UA versions (${brands.map(({ brand, major }) => `${brand} ${major}`).join(', ')}) do not match Chrome ${uaMajor}`,
+      impact: 'high',
+      scorePenalty: 25,
+      explanation:
+        'The browser sets client hints itself; a different version in the User-Agent means it was overridden.',
+    });
+  }
+
+  const mobile = header('sec-ch-ua-mobile')?.trim();
+  if (mobile && (mobile === '?1') !== /Mobile/.test(ua)) {
+    signals.push({
+      message: `Sec-CH-UA-Mobile says ${mobile === '?1' ? 'mobile' : 'desktop'} but the User-Agent does not`,
+      impact: 'medium',
+      scorePenalty: 15,
+      explanation: 'Device emulation or User-Agent overrides rarely update the mobile client hint.',
+    });
+  }
+
+  const platformHeader = header('sec-ch-ua-platform');
+  const platform = platformHeader ? unquote(platformHeader) : null;
+  const claimedPlatform = uaPlatform(ua);
+  if (platform && claimedPlatform && !platformFits(platform, claimedPlatform)) {
+    signals.push({
+      message: `Sec-CH-UA-Platform "${platform}" contradicts the ${claimedPlatform} User-Agent`,
+      impact: 'medium',
+      scorePenalty: 15,
+      explanation: 'The platform client hint reports the real operating system even when the User-Agent is changed.',
+    });
+  }
+  return signals;
+};
+
+const checkHeaderOrder = (family: BrowserFamily | null, headers: RequestHeaderSnapshot) => {
+  const rules = family === 'chromium' || family === 'firefox' ? HEADER_ORDER[family] : [];
+  if (!headers.ordered || rules.length === 0) {
+    return [];
+  }
+  const position = new Map<string, number>();
+  headers.entries.forEach(([name], index) => {
+    if (!position.has(name)) {
+      position.set(name, index);
+    }
+  });
+  const broken = rules.filter(([before, after]) => {
+    const first = position.get(before);
+    const second = position.get(after);
+    return first !== undefined && second !== undefined && first > second;
+  });
+  if (broken.length === 0) {
+    return [];
+  }
+  return [
+    {
+      message: `Header order is impossible for ${family === 'chromium' ? 'Chromium' : 'Firefox'}`,
+      impact: 'high' as const,
+      scorePenalty: 20,
+      explanation: `The browser always sends ${broken.map(([before, after]) => `${before} before ${after}`).join(', ')}; this request did not, so it was built by another HTTP client.`,
+    },
+  ];
+};
+
+const checkLanguages = (fingerprint: FingerprintPayload, header: (name: string) => string | undefined) => {
+  const signals: DetailedSignal[] = [];
+  const value = header('accept-language');
+  const languages = (fingerprint.languages ?? []).map(language => language.toLowerCase());
+  if (!value || languages.length === 0) {
+    return signals;
+  }
+
+  const accepted = parseAcceptLanguage(value).map(({ tag }) => tag);
+  if (accepted.length === 0) {
+    return signals;
+  }
+  if (accepted[0] !== languages[0]) {
+    signals.push({
+      message: `Accept-Language prefers ${accepted[0]} but navigator.languages starts with ${languages[0]}`,
+      impact: 'high',
+      scorePenalty: 20,
+      explanation:
+        'Browsers build Accept-Language from the same list as navigator.languages, so the preferred language should agree.',
+      recommendation: 'Change the browser language setting rather than overriding one of the two.',
+    });
+  } else {
+    const extra = accepted.filter(tag => !languages.includes(tag));
+    if (extra.length > 0) {
+      signals.push({
+        message: `Accept-Language lists languages missing from navigator.languages: ${extra.join(', ')}`,
+        impact: 'low',
+        scorePenalty: 5,
+        explanation: 'Every language the browser advertises to servers normally appears in navigator.languages.',
+      });
+    }
+  }
+  return signals;
+};
+
+/**
+ * Compare what the request headers say about the browser with what the page reported
+ * Checks the User-Agent, client hints, header order and Accept-Language. The
+ * client hint headers are skipped when the page sent `navigator.userAgentData`,
+ * which carries the same values and is checked by `evaluateUserAgentData`.
+ */
+export const evaluateRequestHeaders = (
+  fingerprint: FingerprintPayload,
+  headers: RequestHeaderSnapshot
+): HeaderConsistencyResult => {
+  const values = new Map<string, string>();
+  for (const [name, value] of headers.entries) {
+    values.set(name, values.has(name) ? `${values.get(name)}, ${value}` : value);
+  }
+  const header = (name: string) => values.get(name);
+  const family = browserFamily(fingerprint.userAgent);
+
+  return {
+    userAgent: [
+      ...checkUserAgent(fingerprint, header),
+      ...(fingerprint.userAgentData ? [] : checkClientHints(fingerprint.userAgent, family, header)),
+      ...checkHeaderOrder(family, headers),
+    ],
+    languages: checkLanguages(fingerprint, header),
+  };
+};
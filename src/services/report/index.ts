@@ -1,4 +1,4 @@
-import type { ReportRequestBody, ReportResponse } from '../../types/report';
+import type { ReportRequestBody, ReportRequestContext, ReportResponse } from '../../types/report';
 import { reportRequestSchema } from '../../schemas/report';
 import { ApiError } from '../../middleware/errorHandler';
 import { evaluateBrowser } from './browserEvaluator';
@@ -8,6 +8,8 @@ import { evaluateHardware } from './hardwareEvaluator';
 import { evaluateSoftware } from './softwareEvaluator';
 import { statusFromScore } from './scoring';
 import type { NormalizedIpInsight } from '../../types/ip';
+import { normalizeIp } from '../../utils/ip';
+import { classifySpecialPurpose, nonRoutableInsight } from '../specialPurpose';
 
 /**
  * Weight configuration for multi-panel scoring
@@ -27,7 +29,8 @@ const WEIGHTS = {
 export const generateReportWithLookup = async (
   payload: ReportRequestBody,
   clientIp?: string,
-  ipLookup?: (ip: string) => Promise<NormalizedIpInsight>
+  ipLookup?: (ip: string) => Promise<NormalizedIpInsight>,
+  request: ReportRequestContext = {}
 ): Promise<ReportResponse> => {
   const parsed = reportRequestSchema.safeParse(payload);
   if (!parsed.success) {
@@ -44,13 +47,21 @@ export const generateReportWithLookup = async (
     throw new Error('IP lookup function is required in this environment');
   }
 
-  const insight = await ipLookup(ipToInspect);
+  // Special-purpose addresses are answered here, whichever lookup was injected
+  const ip = normalizeIp(ipToInspect);
+  const specialPurpose = ip ? classifySpecialPurpose(ip) : null;
+  const lookedUp = ip && specialPurpose ? nonRoutableInsight(ip, specialPurpose) : await ipLookup(ipToInspect);
+
+  // Request headers describe the client's connection, not an address named in the payload
+  const inspectsClient = !data.ip || normalizeIp(data.ip) === normalizeIp(clientIp);
+  const insight =
+    request.proxyHeaders && inspectsClient ? { ...lookedUp, proxyHeaders: request.proxyHeaders } : lookedUp;
 
   // Parallelize evaluators for better performance
   const [browser, location, ipAddress, hardware, software] = await Promise.all([
-    Promise.resolve(evaluateBrowser(data.fingerprint)),
+    Promise.resolve(evaluateBrowser(data.fingerprint, request.headers)),
     Promise.resolve(evaluateLocation(data.fingerprint, insight.timezone)),
-    Promise.resolve(evaluateIp(insight.riskScore, insight.privacy, insight.networkType, insight.org, insight.asn)),
+    Promise.resolve(evaluateIp(insight)),
     Promise.resolve(evaluateHardware(data.fingerprint)),
     Promise.resolve(evaluateSoftware(data.fingerprint)),
   ]);
@@ -104,6 +115,9 @@ export const generateReportWithLookup = async (
     ip: insight.ip,
     fetchedAt: Date.now(),
     source: insight.source,
+    fieldSources: insight.fieldSources,
+    specialPurpose: insight.specialPurpose,
+    proxyHeaders: insight.proxyHeaders,
     // Enhanced data for frontend
     enhanced: {
       browser: {
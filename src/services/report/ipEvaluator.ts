@@ -1,4 +1,11 @@
-import type { IpInfoPrivacy } from '../../types/ip';
+import type { NormalizedIpInsight, SpecialPurposeAddress, SpecialPurposeCategory } from '../../types/ip';
+import type { TorRelayInfo } from '../../types/tor';
+import type { ASNClassification } from '../../types/asn';
+import type { HostnameTag } from '../../types/dns';
+import { classifyAsn } from '../asnClassification';
+import { extractASN } from '../asnService';
+import { classifyHostname } from '../reverseDns';
+import { SPECIAL_PURPOSE_LABELS } from '../specialPurpose';
 import {
   type DetailedSignal,
   type EnhancedPanelResult,
@@ -8,17 +15,85 @@ import {
   calculateConfidence,
 } from './scoring';
 
+const CLASSIFICATION_BASIS: Record<ASNClassification['source'], string> = {
+  curated: 'the curated ASN list',
+  provider: "the IP provider's network type",
+  name: 'the network name',
+};
+
+/** Hostname traits of end-user connections, as named in signals */
+const ACCESS_TAGS: Partial<Record<HostnameTag, string>> = {
+  dynamic: 'dynamic',
+  pool: 'address pool',
+  dsl: 'DSL',
+  cable: 'cable',
+  fiber: 'fiber',
+  mobile: 'mobile',
+  generic: 'address-based name',
+};
+
+/**
+ * Describe a Tor directory match ("relay ABCD…, last seen 2024-01-01T04:05:25.000Z")
+ */
+const describeTorRelay = (tor: TorRelayInfo): string => {
+  const details = [
+    tor.nickname || tor.fingerprint ? `relay ${tor.nickname ?? tor.fingerprint}` : null,
+    tor.lastSeen ? `last seen ${tor.lastSeen}` : null,
+  ].filter(Boolean);
+  return details.length > 0 ? ` (${details.join(', ')})` : '';
+};
+
+/** Categories used inside networks, as opposed to blocks never assigned to hosts */
+const LOCAL_NETWORK_CATEGORIES = new Set<SpecialPurposeCategory>([
+  'private',
+  'cgnat',
+  'loopback',
+  'link-local',
+  'unique-local',
+]);
+
+/**
+ * Panel for an address no provider could say anything about
+ * Reputation and network checks do not apply, so the panel only explains why.
+ */
+const evaluateNonRoutable = (specialPurpose: SpecialPurposeAddress): EnhancedPanelResult => {
+  const { category, name, prefix, rfc } = specialPurpose;
+  const penalty = 40;
+  const detailedSignals: DetailedSignal[] = [
+    {
+      message: `${SPECIAL_PURPOSE_LABELS[category]}: ${name} (${prefix}, ${rfc})`,
+      impact: 'high',
+      scorePenalty: penalty,
+      explanation: LOCAL_NETWORK_CATEGORIES.has(category)
+        ? 'This address only exists inside a local or carrier network, so the connection reached the server through a proxy or NAT and the public address is unknown.'
+        : 'This address is reserved and never assigned to a real host on the Internet; it was most likely supplied by a misconfigured proxy or a test client.',
+      recommendation:
+        'Check which proxies are trusted to forward the client address; reputation, location and network checks were skipped.',
+    },
+  ];
+
+  return {
+    status: statusFromScore(100 - penalty),
+    score: 100 - penalty,
+    signals: detailedSignals.map(s => s.message),
+    detailedSignals,
+    confidence: calculateConfidence(detailedSignals, 95),
+    entropy: 0,
+    breakdown: { reputation: 25, privacy: 35, network: 0 },
+  };
+};
+
 /**
  * Evaluate IP address reputation and characteristics
- * Analyzes risk score, privacy/anonymity tools, network type, and ASN
+ * Analyzes risk score, privacy/anonymity tools, Tor directory matches, cloud ranges, the ASN classification, reverse DNS
+ * and, for the requesting client, proxy-revealing headers
  */
-export const evaluateIp = (
-  riskScore?: number,
-  privacy?: IpInfoPrivacy,
-  networkType?: string,
-  org?: string,
-  asn?: string
-): EnhancedPanelResult => {
+export const evaluateIp = (insight: NormalizedIpInsight): EnhancedPanelResult => {
+  if (insight.specialPurpose) {
+    return evaluateNonRoutable(insight.specialPurpose);
+  }
+
+  const { riskScore, privacy, networkType, org, asn, tor, cloud, hostname, reverseDns, proxyHeaders } = insight;
   let score = 100 - (riskScore ?? 5);
   const detailedSignals: DetailedSignal[] = [];
   const breakdown: Record<string, number> = {
@@ -68,82 +143,190 @@ export const evaluateIp = (
         recommendation: 'Proxy usage may be detected and blocked by some services.',
       });
     }
-    if (privacy.tor) {
-      const penalty = 35;
-      score -= penalty;
-      breakdown.privacy -= penalty;
-      detailedSignals.push({
-        message: 'IP address is Tor exit node',
-        impact: 'high',
-        scorePenalty: penalty,
-        explanation: 'This IP address is a known Tor exit node, providing strong anonymity but often blocked.',
-        recommendation: 'Tor provides strong privacy but is widely recognized and may be blocked.',
-      });
-    }
   }
 
-  // Network Type Analysis
-  if (networkType) {
-    if (/hosting|datacenter|cloud/i.test(networkType)) {
-      const penalty = 35;
+  // Tor Analysis - the local directory is authoritative, provider flags fill in when it is not loaded
+  if (tor?.role === 'exit' || privacy?.tor) {
+    const penalty = 35;
+    score -= penalty;
+    breakdown.privacy -= penalty;
+    detailedSignals.push({
+      message: 'IP address is Tor exit node',
+      impact: 'high',
+      scorePenalty: penalty,
+      explanation: `This IP address is a known Tor exit node${tor ? describeTorRelay(tor) : ''}, providing strong anonymity but often blocked.`,
+      recommendation: 'Tor provides strong privacy but is widely recognized and may be blocked.',
+    });
+  } else if (tor) {
+    const penalty = 10;
+    score -= penalty;
+    breakdown.privacy -= penalty;
+    detailedSignals.push({
+      message: `IP address runs a Tor ${tor.role === 'guard' ? 'guard' : 'non-exit'} relay`,
+      impact: 'medium',
+      scorePenalty: penalty,
+      explanation: `This IP address is listed in the Tor directory${describeTorRelay(tor)}. Traffic from relays is usually the operator's own, but the address is often on blocklists.`,
+      recommendation: 'Some services block all Tor relay addresses, not only exits.',
+    });
+  }
+
+  // Network Analysis - published cloud ranges name the provider, otherwise the ASN classification
+  const classification = classifyAsn(extractASN(asn), { name: org, networkType });
+  if (cloud) {
+    const penalty = 35;
+    score -= penalty;
+    breakdown.network -= penalty;
+    detailedSignals.push({
+      message: `IP from cloud provider: ${cloud.label}`,
+      impact: 'high',
+      scorePenalty: penalty,
+      explanation: `This IP address is inside ${cloud.providerName}'s published range ${cloud.prefix}, so it belongs to a cloud server rather than a residential ISP.`,
+      recommendation: 'Residential IP addresses typically have better reputation than hosting IPs.',
+    });
+  } else if (classification) {
+    const network = org || asn || classification.label;
+    const basis = `Classified from ${CLASSIFICATION_BASIS[classification.source]}.`;
+    const { category, confidence } = classification;
+
+    if (category === 'hosting' || category === 'cdn') {
+      const penalty = Math.round(35 * confidence);
       score -= penalty;
       breakdown.network -= penalty;
       detailedSignals.push({
-        message: `IP from hosting provider: ${networkType}`,
-        impact: 'high',
+        message: `IP from ${classification.label.toLowerCase()}: ${network}`,
+        impact: confidence >= 0.8 ? 'high' : 'medium',
         scorePenalty: penalty,
-        explanation: 'This IP address originates from a datacenter or cloud provider rather than residential ISP.',
+        explanation: `This IP address originates from a datacenter or cloud provider rather than residential ISP. ${basis}`,
         recommendation: 'Residential IP addresses typically have better reputation than hosting IPs.',
       });
-    } else if (/mobile|cellular/i.test(networkType)) {
+    } else if (category === 'vpn') {
+      // The provider's VPN flag has already been scored above
+      if (!privacy?.vpn) {
+        const penalty = Math.round(25 * confidence);
+        score -= penalty;
+        breakdown.privacy -= penalty;
+        detailedSignals.push({
+          message: `IP from VPN provider network: ${network}`,
+          impact: 'medium',
+          scorePenalty: penalty,
+          explanation: `The network announcing this IP address is operated by a VPN provider. ${basis}`,
+          recommendation: 'VPN usage is legitimate but may attract additional scrutiny.',
+        });
+      }
+    } else if (category === 'mobile') {
       detailedSignals.push({
-        message: `Mobile network detected: ${networkType}`,
+        message: `Mobile network detected: ${network}`,
         impact: 'info',
         scorePenalty: 0,
-        explanation: 'This IP address originates from a mobile network provider.',
+        explanation: `This IP address originates from a mobile network provider. ${basis}`,
         recommendation: 'Mobile IPs are common and generally have good reputation.',
       });
-    } else if (/isp|broadband/i.test(networkType)) {
+    } else if (category === 'satellite') {
+      detailedSignals.push({
+        message: `Satellite network detected: ${network}`,
+        impact: 'info',
+        scorePenalty: 0,
+        explanation: `This IP address originates from a satellite ISP, which shares addresses between many subscribers. ${basis}`,
+        recommendation: 'Location may be less precise than for terrestrial connections.',
+      });
+    } else if (category === 'isp') {
       detailedSignals.push({
-        message: `ISP connection detected: ${networkType}`,
+        message: `ISP connection detected: ${network}`,
         impact: 'info',
         scorePenalty: 0,
-        explanation: 'This IP address originates from a residential ISP.',
+        explanation: `This IP address originates from a residential ISP. ${basis}`,
         recommendation: 'Residential ISP connections typically have the best reputation.',
       });
+    } else {
+      detailedSignals.push({
+        message: `${classification.label} detected: ${network}`,
+        impact: 'info',
+        scorePenalty: 0,
+        explanation: `This IP address belongs to an organization's own network. ${basis}`,
+        recommendation: 'Institutional networks generally have good reputation.',
+      });
     }
   }
 
-  // Organization Analysis
-  if (org) {
-    if (/vpn|proxy|hosting|cloud|server/i.test(org)) {
-      const penalty = 15;
+  // Reverse DNS - our own PTR lookup; the provider's hostname fills in, without forward confirmation
+  const ptr = reverseDns ?? (hostname ? { hostname, ...classifyHostname(hostname, insight.ip) } : undefined);
+  if (ptr) {
+    const tags = new Set(ptr.tags);
+    const hostingFlagged =
+      Boolean(cloud) || classification?.category === 'hosting' || classification?.category === 'cdn';
+
+    if (tags.has('tor') && !tor && !privacy?.tor) {
+      const penalty = 20;
+      score -= penalty;
+      breakdown.privacy -= penalty;
+      detailedSignals.push({
+        message: `Hostname suggests a Tor relay: ${ptr.hostname}`,
+        impact: 'medium',
+        scorePenalty: penalty,
+        explanation:
+          'The reverse DNS name of this IP address follows Tor relay naming, although the address is not in the Tor directory.',
+        recommendation: 'Operators often name relays this way; check the Tor directory before blocking.',
+      });
+    }
+
+    if ((tags.has('cloud') || tags.has('vps')) && !hostingFlagged) {
+      const penalty = tags.has('cloud') ? 25 : 15;
       score -= penalty;
       breakdown.network -= penalty;
       detailedSignals.push({
-        message: `Organization suggests hosting/VPN: ${org}`,
+        message: ptr.cloudProvider
+          ? `Hostname follows ${ptr.cloudProvider} instance naming: ${ptr.hostname}`
+          : `Hostname suggests a virtual server: ${ptr.hostname}`,
         impact: 'medium',
         scorePenalty: penalty,
-        explanation: `The IP owner "${org}" appears to be a hosting or VPN provider.`,
-        recommendation: 'Verify this matches your expected IP provider.',
+        explanation:
+          'The reverse DNS name of this IP address follows server or cloud instance naming, which residential connections do not use.',
+        recommendation: 'Residential IP addresses typically have better reputation than hosting IPs.',
       });
     }
-  }
 
-  // ASN Analysis
-  if (asn) {
-    const asnNumber = parseInt(asn.replace(/\D/g, ''));
-    if (asnNumber > 200000) {
+    if (reverseDns && !reverseDns.forwardConfirmed) {
+      const penalty = 5;
+      score -= penalty;
+      breakdown.reputation -= penalty;
       detailedSignals.push({
-        message: `High ASN number: ${asn}`,
+        message: `Reverse DNS is not forward-confirmed: ${ptr.hostname}`,
         impact: 'low',
+        scorePenalty: penalty,
+        explanation:
+          "The PTR name of this IP address does not resolve back to it. Whoever controls the reverse zone can publish any name, so the hostname can't be trusted.",
+        recommendation: 'Mail servers and bot filters often require matching forward and reverse DNS.',
+      });
+    }
+
+    // Instance names embed the address too, so server naming rules out an end-user reading
+    const serverNamed = tags.has('cloud') || tags.has('vps');
+    const access = serverNamed ? [] : [...tags].flatMap(tag => ACCESS_TAGS[tag] ?? []);
+    if (access.length > 0) {
+      detailedSignals.push({
+        message: `Hostname indicates an end-user connection (${access.join(', ')}): ${ptr.hostname}`,
+        impact: 'info',
         scorePenalty: 0,
-        explanation: `Autonomous System Number ${asn} is relatively new, which may indicate specific types of providers.`,
-        recommendation: 'This is typically not concerning.',
+        explanation: 'The reverse DNS name follows the naming ISPs give to subscriber addresses.',
+        recommendation: 'Subscriber connections typically have good reputation.',
+      });
+    } else if (tags.has('static')) {
+      detailedSignals.push({
+        message: `Hostname indicates a static assignment: ${ptr.hostname}`,
+        impact: 'info',
+        scorePenalty: 0,
+        explanation: 'The reverse DNS name marks this IP address as statically assigned by its ISP.',
       });
     }
   }
 
+  // Proxies revealed by the request's own headers
+  if (proxyHeaders?.detected) {
+    score -= proxyHeaders.scorePenalty;
+    breakdown.privacy -= proxyHeaders.scorePenalty;
+    detailedSignals.push(...proxyHeaders.signals);
+  }
+
   // Positive Signal - Clean IP
   if (detailedSignals.filter(s => s.impact !== 'info').length === 0) {
     detailedSignals.push({
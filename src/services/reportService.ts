@@ -7,7 +7,7 @@
  * Node-specific lookup to avoid bundling it into the worker build.
  */
 
-import type { ReportRequestBody, ReportResponse } from '../types/report';
+import type { ReportRequestBody, ReportRequestContext, ReportResponse } from '../types/report';
 import type { NormalizedIpInsight } from '../types/ip';
 import { generateReportWithLookup } from './report';
 
@@ -69,14 +69,15 @@ const loadDefaultLookup = async (): Promise<IpLookupFn | null> => {
 export async function generateReport(
   payload: ReportRequestBody,
   clientIp?: string,
-  ipLookup?: IpLookupFn
+  ipLookup?: IpLookupFn,
+  request?: ReportRequestContext
 ): Promise<ReportResponse> {
   const lookup = ipLookup ?? (await loadDefaultLookup());
   if (!lookup) {
     throw new Error('IP lookup function is required in this environment');
   }
 
-  return generateReportWithLookup(payload, clientIp, lookup);
+  return generateReportWithLookup(payload, clientIp, lookup, request);
 }
 
 export { generateReportWithLookup } from './report';
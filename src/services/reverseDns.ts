@@ -0,0 +1,165 @@
+/**
+ * Reverse DNS
+ * Looks up the PTR names of an address, checks that a name resolves back to
+ * the address (forward-confirmed rDNS) and reads what the name says about the
+ * connection: dynamic or static assignment, access technology, cloud instance
+ * naming, Tor relays.
+ *
+ * Runtime-neutral: queries go through an injected `ReverseDnsResolver` and
+ * results are kept in the injected cache.
+ */
+
+import type { ReverseDnsResolver } from '../clients/dnsblClient';
+import type { CacheAdapter } from '../utils/cacheInterface';
+import type { HostnameTag, HostnameTraits, ReverseDnsInfo, ReverseDnsRecord } from '../types/dns';
+import { logger } from '../utils/logger';
+import { normalizeIp, parseIp } from '../utils/ip';
+
+export interface ReverseDnsOptions {
+  /** How long results, including missing PTR records, are kept */
+  ttlMs?: number;
+  /** How long a failed PTR query is remembered, so a broken zone is not retried on every request */
+  failureTtlMs?: number;
+}
+
+export const DEFAULT_REVERSE_DNS_TTL_MS = 6 * 60 * 60 * 1000;
+
+export const DEFAULT_REVERSE_DNS_FAILURE_TTL_MS = 5 * 60 * 1000;
+
+/** PTR answers checked for forward confirmation; addresses rarely have more than one */
+const MAX_FORWARD_CHECKS = 3;
+
+/** Default PTR names of cloud instances */
+const CLOUD_HOSTNAMES: Array<[RegExp, string]> = [
+  [/^ec2-\d+-\d+-\d+-\d+\.|\.compute(-1)?\.amazonaws\.com$/, 'AWS EC2'],
+  [/\.bc\.googleusercontent\.com$/, 'Google Cloud'],
+  [/\.cloudapp\.(net|azure\.com)$/, 'Azure'],
+  [/\.ip\.linodeusercontent\.com$|\.members\.linode\.com$/, 'Akamai Connected Cloud (Linode)'],
+  [/\.vultrusercontent\.com$/, 'Vultr'],
+  [/\.your-server\.de$/, 'Hetzner'],
+  [/\.contaboserver\.net$/, 'Contabo'],
+  [/(^|\.)ip-\d+-\d+-\d+\.(eu|net|us)$|\.vps\.ovh\.(net|ca|us)$/, 'OVHcloud'],
+  [/\.instances\.scw\.cloud$/, 'Scaleway'],
+];
+
+/** Hostname labels, with any trailing number removed, that name a trait */
+const LABEL_TAGS: Array<[HostnameTag, RegExp]> = [
+  ['dynamic', /^(dyn|dynamic|dynip|dhcp|dialup|dial|ppp|pppoe)$/],
+  ['static', /^(static|staticip|fixed|fixip)$/],
+  ['pool', /^(pool|ippool)$/],
+  ['dsl', /^[avxsh]?dsl$/],
+  ['cable', /^(cable|cpe|hfc|docsis)$/],
+  ['fiber', /^(fiber|fibre|ftth|fttb|fttx|gpon|fios)$/],
+  ['mobile', /^(mobile|mob|cellular|lte|[345]g|gprs|umts|wap)$/],
+  ['vps', /^(vps|vds|vm|server|srv|dedicated|dedi|hosted|hosting|colo)$/],
+];
+
+const TOR_HOSTNAME =
+  /(^|[.-])(tor-?(exit|relay|node|proxy|router)s?|(exit|relay)-?tor|torservers|exit-?node)\d*([.-]|$)/;
+
+/**
+ * Whether the name embeds the IPv4 address, in either octet order (c-73-15-2-4.example.net)
+ */
+const embedsAddress = (hostname: string, ip: string): boolean => {
+  const octets = ip.split('.');
+  if (octets.length !== 4) {
+    return false;
+  }
+  const sequence = (parts: string[]) => parts.map(octet => `0*${octet}`).join('[.-]');
+  return new RegExp(`(^|\\D)(${sequence(octets)}|${sequence([...octets].reverse())})(\\D|$)`).test(hostname);
+};
+
+/**
+ * Read the traits a hostname suggests
+ *
+ * @param ip - Address the name belongs to; used to spot generic names
+ */
+export const classifyHostname = (hostname: string, ip?: string): HostnameTraits => {
+  const name = hostname.toLowerCase().replace(/\.$/, '');
+  const labels = name.split(/[.-]/).map(label => label.replace(/\d+$/, ''));
+  const tags = new Set<HostnameTag>(
+    LABEL_TAGS.filter(([, pattern]) => labels.some(label => pattern.test(label))).map(([tag]) => tag)
+  );
+
+  const cloudProvider = CLOUD_HOSTNAMES.find(([pattern]) => pattern.test(name))?.[1];
+  if (cloudProvider) {
+    tags.add('cloud');
+  }
+  if (TOR_HOSTNAME.test(name)) {
+    tags.add('tor');
+  }
+  if (ip && embedsAddress(name, ip)) {
+    tags.add('generic');
+  }
+
+  return cloudProvider ? { tags: [...tags], cloudProvider } : { tags: [...tags] };
+};
+
+export class ReverseDnsLookup {
+  private readonly ttlMs: number;
+  private readonly failureTtlMs: number;
+
+  constructor(
+    private readonly resolver: ReverseDnsResolver,
+    private readonly cache: CacheAdapter<ReverseDnsRecord>,
+    options: ReverseDnsOptions = {}
+  ) {
+    this.ttlMs = options.ttlMs ?? DEFAULT_REVERSE_DNS_TTL_MS;
+    this.failureTtlMs = options.failureTtlMs ?? DEFAULT_REVERSE_DNS_FAILURE_TTL_MS;
+  }
+
+  /**
+   * PTR name of an address and whether it is forward-confirmed
+   *
+   * @returns Null when there is no PTR record or the resolver failed; failures are cached for `failureTtlMs`
+   */
+  async lookup(rawIp: string): Promise<ReverseDnsInfo | null> {
+    const ip = normalizeIp(rawIp);
+    if (!ip) {
+      return null;
+    }
+    const key = `rdns:${ip}`;
+    const cached = await this.cache.get(key);
+    if (cached) {
+      return cached.data.result;
+    }
+
+    try {
+      const result = await this.resolve(ip);
+      await this.cache.set(key, { result }, this.ttlMs, this.ttlMs);
+      return result;
+    } catch (error) {
+      logger.debug({ err: error, ip }, 'Reverse DNS lookup failed');
+      await this.cache.set(key, { result: null }, this.failureTtlMs, this.failureTtlMs);
+      return null;
+    }
+  }
+
+  private async resolve(ip: string): Promise<ReverseDnsInfo | null> {
+    const hostnames = [...new Set((await this.resolver.resolvePtr(ip)).map(name => name.toLowerCase()))];
+    if (hostnames.length === 0) {
+      return null;
+    }
+
+    const resolveForward = (name: string) =>
+      parseIp(ip)?.version === 4 ? this.resolver.resolveA(name) : this.resolver.resolveAaaa(name);
+    // A failed forward query (SERVFAIL, timeout) leaves that name unconfirmed rather than losing the PTR answer
+    const confirmed = await Promise.all(
+      hostnames.slice(0, MAX_FORWARD_CHECKS).map(name =>
+        resolveForward(name).then(
+          addresses => addresses.some(address => normalizeIp(address) === ip),
+          () => false
+        )
+      )
+    );
+    const confirmedIndex = confirmed.indexOf(true);
+    const hostname = hostnames[Math.max(confirmedIndex, 0)];
+
+    return {
+      hostname,
+      ...(hostnames.length > 1 ? { hostnames } : {}),
+      forwardConfirmed: confirmedIndex !== -1,
+      ...classifyHostname(hostname, ip),
+    };
+  }
+}
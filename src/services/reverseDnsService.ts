@@ -0,0 +1,25 @@
+/**
+ * Reverse DNS (Node.js)
+ * PTR lookups go through the resolver chosen by `DNSBL_RESOLVER`, so a
+ * deployment's own recursive resolver answers both. The Worker builds its
+ * lookup in `ipService.worker.ts` over DoH.
+ */
+
+import { config } from '../config';
+import { createDohResolver } from '../clients/dnsblClient';
+import { createNodeDnsResolver } from '../clients/dnsResolver';
+import { createCache } from '../utils/cacheFactory';
+import { upstreamHttp } from '../utils/httpClient';
+import type { ReverseDnsInfo, ReverseDnsRecord } from '../types/dns';
+import { ReverseDnsLookup } from './reverseDns';
+
+const resolver =
+  config.DNSBL_RESOLVER === 'dns'
+    ? createNodeDnsResolver({ servers: config.DNSBL_DNS_SERVERS, timeoutMs: config.REVERSE_DNS_TIMEOUT_MS })
+    : createDohResolver(config.DNSBL_DOH_URL, config.REVERSE_DNS_TIMEOUT_MS, upstreamHttp);
+
+const reverseDns = new ReverseDnsLookup(resolver, createCache<ReverseDnsRecord>('reverse-dns'), {
+  ttlMs: config.REVERSE_DNS_TTL_MS,
+});
+
+export const lookupReverseDns = (ip: string): Promise<ReverseDnsInfo | null> => reverseDns.lookup(ip);
@@ -0,0 +1,155 @@
+/**
+ * Routing Table
+ *
+ * Maps addresses to the origin ASN of the most specific announced prefix,
+ * from BGP table dumps:
+ * - pyasn / RouteViews `ipasn` files: `1.0.0.0/24<TAB>13335`
+ * - CAIDA prefix2as (`routeviews-rv2-*.pfx2as`): `1.0.0.0<TAB>24<TAB>13335`,
+ *   where multi-origin prefixes list `13335_4826` and AS sets `13335,4826`
+ *
+ * Shared between the Node.js service and the Cloudflare Worker; fetching and
+ * scheduling live in `routingTableService.ts` / `routingTableService.worker.ts`.
+ */
+
+import { PrefixTrie, parseCidr, type ParsedCidr } from '../utils/prefixTrie';
+import type { OriginRoute, RoutingTableSnapshot, RoutingTableStatus } from '../types/asn';
+
+/** A single origin is stored bare; the array form only for MOAS and AS sets */
+type Origin = number | number[];
+
+interface ParsedRoute {
+  prefix: string;
+  cidr: ParsedCidr;
+  origin: Origin;
+}
+
+const GZIP_MAGIC = [0x1f, 0x8b];
+
+const parseOrigin = (field: string | undefined): Origin | null => {
+  const origins = (field ?? '')
+    .replace(/[{}]/g, '')
+    .split(/[_,]/)
+    .map(Number)
+    .filter(asn => Number.isInteger(asn) && asn > 0);
+  const unique = [...new Set(origins)];
+  if (unique.length === 0) {
+    return null;
+  }
+  return unique.length === 1 ? unique[0] : unique;
+};
+
+const parseRouteLine = (line: string): ParsedRoute | null => {
+  const fields = line.trim().split(/\s+/);
+  if (!fields[0] || fields[0].startsWith(';') || fields[0].startsWith('#')) {
+    return null;
+  }
+  const [prefix, originField] = fields[0].includes('/')
+    ? [fields[0], fields[1]]
+    : [`${fields[0]}/${fields[1]}`, fields[2]];
+  const cidr = parseCidr(prefix);
+  const origin = parseOrigin(originField);
+  return cidr && origin !== null ? { prefix, cidr, origin } : null;
+};
+
+// Both dumps list each prefix once; a repeat keeps every origin seen
+const mergeOrigins = (existing: Origin, incoming: Origin): Origin => {
+  const merged = [...new Set([existing, incoming].flat())];
+  return merged.length === 1 ? merged[0] : merged;
+};
+
+/**
+ * Text of a routing table download, gunzipping `.gz` dumps
+ */
+export const decodeRoutingTable = async (data: ArrayBuffer | Uint8Array<ArrayBuffer>): Promise<string> => {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  if (bytes[0] !== GZIP_MAGIC[0] || bytes[1] !== GZIP_MAGIC[1]) {
+    return new TextDecoder().decode(bytes);
+  }
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('gzip'));
+  return new Response(stream).text();
+};
+
+export class RoutingTable {
+  private trie = new PrefixTrie<Origin>();
+  private byOrigin = new Map<number, string[]>();
+  private counts = { ipv4: 0, ipv6: 0 };
+  private source?: string;
+  private updatedAt?: number;
+
+  /**
+   * Replace the table; input without a single valid route is rejected
+   *
+   * @returns Number of prefixes loaded
+   */
+  load(text: string, source: string): number {
+    const trie = new PrefixTrie<Origin>();
+    const byOrigin = new Map<number, string[]>();
+    const counts = { ipv4: 0, ipv6: 0 };
+    for (const line of text.split('\n')) {
+      const route = parseRouteLine(line);
+      if (!route) {
+        continue;
+      }
+      const size = trie.size;
+      trie.insert(route.cidr, route.origin, mergeOrigins);
+      if (trie.size > size) {
+        counts[route.cidr.version === 4 ? 'ipv4' : 'ipv6']++;
+      }
+      for (const asn of [route.origin].flat()) {
+        const prefixes = byOrigin.get(asn);
+        if (prefixes) {
+          prefixes.push(route.prefix);
+        } else {
+          byOrigin.set(asn, [route.prefix]);
+        }
+      }
+    }
+    if (trie.size === 0) {
+      throw new Error('No routes found in routing table');
+    }
+    this.trie = trie;
+    this.byOrigin = byOrigin;
+    this.counts = counts;
+    this.source = source;
+    this.updatedAt = Date.now();
+    return trie.size;
+  }
+
+  lookup(ip: string): OriginRoute | null {
+    const match = this.trie.lookup(ip);
+    if (!match) {
+      return null;
+    }
+    const { prefix, value } = match;
+    return Array.isArray(value) ? { asn: value[0], origins: value, prefix } : { asn: value, prefix };
+  }
+
+  /**
+   * Prefixes announced with this ASN among their origins
+   */
+  prefixesFor(asn: number): string[] {
+    return this.byOrigin.get(asn) ?? [];
+  }
+
+  toSnapshot(): RoutingTableSnapshot {
+    const lines: string[] = [];
+    for (const { prefix, value } of this.trie.entries()) {
+      lines.push(`${prefix}\t${Array.isArray(value) ? value.join('_') : value}`);
+    }
+    return { source: this.source ?? '', updatedAt: this.updatedAt ?? Date.now(), routes: lines.join('\n') };
+  }
+
+  restore(snapshot: RoutingTableSnapshot): void {
+    this.load(snapshot.routes, snapshot.source);
+    this.updatedAt = snapshot.updatedAt;
+  }
+
+  getStatus(): RoutingTableStatus {
+    return {
+      loaded: this.trie.size > 0,
+      prefixes: { ...this.counts },
+      source: this.source,
+      updatedAt: this.updatedAt,
+    };
+  }
+}
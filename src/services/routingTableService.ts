@@ -0,0 +1,71 @@
+/**
+ * Routing Table Service (Node.js)
+ * Loads the prefix-to-origin table from `ROUTING_TABLE_PATH` or
+ * `ROUTING_TABLE_URL` and refreshes it on an interval. The Worker counterpart
+ * is `routingTableService.worker.ts`.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import type { OriginRoute, RoutingTableStatus } from '../types/asn';
+import { RoutingTable, decodeRoutingTable } from './routingTable';
+
+/** Full-table dumps run to tens of MB */
+const ROUTING_TABLE_FETCH_TIMEOUT_MS = 120_000;
+
+const routingTable = new RoutingTable();
+
+export const isRoutingTableConfigured = (): boolean => Boolean(config.ROUTING_TABLE_PATH || config.ROUTING_TABLE_URL);
+
+const readRoutingTable = async (): Promise<{ text: string; source: string }> => {
+  if (config.ROUTING_TABLE_PATH) {
+    return {
+      text: await decodeRoutingTable(await readFile(config.ROUTING_TABLE_PATH)),
+      source: config.ROUTING_TABLE_PATH,
+    };
+  }
+  const url = config.ROUTING_TABLE_URL!;
+  const response = await fetch(url, { signal: AbortSignal.timeout(ROUTING_TABLE_FETCH_TIMEOUT_MS) });
+  if (!response.ok) {
+    throw new Error(`Routing table request failed: ${response.status}`);
+  }
+  return { text: await decodeRoutingTable(await response.arrayBuffer()), source: url };
+};
+
+/**
+ * Reload the table; failures keep the previous contents
+ */
+export async function refreshRoutingTable(): Promise<void> {
+  if (!isRoutingTableConfigured()) {
+    return;
+  }
+  try {
+    const { text, source } = await readRoutingTable();
+    const prefixes = routingTable.load(text, source);
+    logger.info({ prefixes, source }, 'Routing table refreshed');
+  } catch (error) {
+    logger.warn({ err: error }, 'Routing table refresh failed');
+  }
+}
+
+/**
+ * Load the table now and keep refreshing it in the background
+ *
+ * @returns Function that stops the refresh timer
+ */
+export function startRoutingTableRefresh(): () => void {
+  if (!isRoutingTableConfigured()) {
+    return () => undefined;
+  }
+  void refreshRoutingTable();
+  const timer = setInterval(() => void refreshRoutingTable(), config.ROUTING_TABLE_REFRESH_MS);
+  timer.unref();
+  return () => clearInterval(timer);
+}
+
+export const lookupOriginRoute = (ip: string): OriginRoute | null => routingTable.lookup(ip);
+
+export const getOriginPrefixes = (asn: number): string[] => routingTable.prefixesFor(asn);
+
+export const getRoutingTableStatus = (): RoutingTableStatus => routingTable.getStatus();
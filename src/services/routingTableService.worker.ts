@@ -0,0 +1,73 @@
+import type { Env } from '../worker/types';
+import type { OriginRoute, RoutingTableSnapshot } from '../types/asn';
+import { logger } from '../utils/logger';
+import { RoutingTable, decodeRoutingTable } from './routingTable';
+
+const SNAPSHOT_KEY = 'routing-table:snapshot';
+const DEFAULT_REFRESH_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Routing table for the Worker
+ * The scheduled handler downloads `ROUTING_TABLE_URL` and stores the routes in
+ * KV, like the Tor directory. A KV value holds at most 25 MiB, which a full
+ * IPv4 + IPv6 table comes close to; the refresh logs a warning when it fails.
+ */
+export const createWorkerRoutingTableService = (env: Env) => {
+  const table = new RoutingTable();
+  const refreshMs = Number(env.ROUTING_TABLE_REFRESH_MS) || DEFAULT_REFRESH_MS;
+  let restoredAt = 0;
+  let restoring: Promise<void> | null = null;
+
+  const ready = (): Promise<void> => {
+    if (!env.ROUTING_TABLE_URL || !env.IP_CACHE || Date.now() - restoredAt < refreshMs) {
+      return Promise.resolve();
+    }
+    restoring ??= env.IP_CACHE.get<RoutingTableSnapshot>(SNAPSHOT_KEY, 'json')
+      .then(snapshot => {
+        if (snapshot) {
+          table.restore(snapshot);
+        }
+      })
+      .catch(error => {
+        logger.warn({ err: error }, 'Failed to read routing table snapshot');
+      })
+      .finally(() => {
+        restoredAt = Date.now();
+        restoring = null;
+      });
+    return restoring;
+  };
+
+  const refresh = async (): Promise<void> => {
+    if (!env.ROUTING_TABLE_URL) {
+      return;
+    }
+    // The cron fires more often than the refresh interval; skip while the stored snapshot is recent
+    await ready();
+    const { updatedAt } = table.getStatus();
+    if (updatedAt && Date.now() - updatedAt < refreshMs) {
+      logger.debug({ updatedAt }, 'Routing table snapshot is recent, skipping refresh');
+      return;
+    }
+    try {
+      const response = await fetch(env.ROUTING_TABLE_URL);
+      if (!response.ok) {
+        throw new Error(`Routing table request failed: ${response.status}`);
+      }
+      const prefixes = table.load(await decodeRoutingTable(await response.arrayBuffer()), env.ROUTING_TABLE_URL);
+      restoredAt = Date.now();
+      await env.IP_CACHE?.put(SNAPSHOT_KEY, JSON.stringify(table.toSnapshot()));
+      logger.info({ prefixes }, 'Routing table refreshed');
+    } catch (error) {
+      logger.warn({ err: error }, 'Routing table refresh failed');
+    }
+  };
+
+  return {
+    ready,
+    refresh,
+    lookup: (ip: string): OriginRoute | null => table.lookup(ip),
+    prefixesFor: (asn: number): string[] => table.prefixesFor(asn),
+    getStatus: () => table.getStatus(),
+  };
+};
@@ -0,0 +1,96 @@
+/**
+ * Special-Purpose Addresses
+ * Recognizes private, loopback, shared (CGNAT), link-local, documentation,
+ * benchmarking, multicast and reserved addresses from the IANA special-purpose
+ * registries, so lookups can answer them locally instead of spending provider
+ * quota on addresses no provider knows anything about.
+ *
+ * Runtime-neutral and synchronous. Only blocks that are not globally
+ * reachable are listed; NAT64, 6to4 and Teredo addresses still go upstream.
+ */
+
+import type {
+  NonRoutableIpInsight,
+  NormalizedIpInsight,
+  SpecialPurposeAddress,
+  SpecialPurposeCategory,
+} from '../types/ip';
+import { normalizeIp } from '../utils/ip';
+import { PrefixTrie } from '../utils/prefixTrie';
+
+type SpecialPurposeBlock = [prefix: string, category: SpecialPurposeCategory, name: string, rfc: string];
+
+const SPECIAL_PURPOSE_BLOCKS: SpecialPurposeBlock[] = [
+  ['0.0.0.0/8', 'this-network', '"This network"', 'RFC 791'],
+  ['0.0.0.0/32', 'unspecified', '"This host on this network"', 'RFC 1122'],
+  ['10.0.0.0/8', 'private', 'Private-Use', 'RFC 1918'],
+  ['100.64.0.0/10', 'cgnat', 'Shared Address Space', 'RFC 6598'],
+  ['127.0.0.0/8', 'loopback', 'Loopback', 'RFC 1122'],
+  ['169.254.0.0/16', 'link-local', 'Link Local', 'RFC 3927'],
+  ['172.16.0.0/12', 'private', 'Private-Use', 'RFC 1918'],
+  ['192.0.0.0/24', 'reserved', 'IETF Protocol Assignments', 'RFC 6890'],
+  ['192.0.2.0/24', 'documentation', 'Documentation (TEST-NET-1)', 'RFC 5737'],
+  ['192.168.0.0/16', 'private', 'Private-Use', 'RFC 1918'],
+  ['198.18.0.0/15', 'benchmarking', 'Benchmarking', 'RFC 2544'],
+  ['198.51.100.0/24', 'documentation', 'Documentation (TEST-NET-2)', 'RFC 5737'],
+  ['203.0.113.0/24', 'documentation', 'Documentation (TEST-NET-3)', 'RFC 5737'],
+  ['224.0.0.0/4', 'multicast', 'Multicast', 'RFC 5771'],
+  ['240.0.0.0/4', 'reserved', 'Reserved', 'RFC 1112'],
+  ['255.255.255.255/32', 'broadcast', 'Limited Broadcast', 'RFC 919'],
+  ['::/128', 'unspecified', 'Unspecified Address', 'RFC 4291'],
+  ['::1/128', 'loopback', 'Loopback Address', 'RFC 4291'],
+  ['64:ff9b:1::/48', 'reserved', 'IPv4-IPv6 Translation (local use)', 'RFC 8215'],
+  ['100::/64', 'reserved', 'Discard-Only Address Block', 'RFC 6666'],
+  ['2001:db8::/32', 'documentation', 'Documentation', 'RFC 3849'],
+  ['3fff::/20', 'documentation', 'Documentation', 'RFC 9637'],
+  ['5f00::/16', 'reserved', 'Segment Routing (SRv6) SIDs', 'RFC 9602'],
+  ['fc00::/7', 'unique-local', 'Unique-Local', 'RFC 4193'],
+  ['fe80::/10', 'link-local', 'Link-Local Unicast', 'RFC 4291'],
+  ['ff00::/8', 'multicast', 'Multicast', 'RFC 4291'],
+];
+
+export const SPECIAL_PURPOSE_LABELS: Record<SpecialPurposeCategory, string> = {
+  unspecified: 'Unspecified address',
+  'this-network': '"This network" address',
+  private: 'Private network address',
+  cgnat: 'Carrier-grade NAT address',
+  loopback: 'Loopback address',
+  'link-local': 'Link-local address',
+  'unique-local': 'Unique local address',
+  documentation: 'Documentation address',
+  benchmarking: 'Benchmarking address',
+  multicast: 'Multicast address',
+  broadcast: 'Broadcast address',
+  reserved: 'Reserved address',
+};
+
+const specialPurposeTrie = new PrefixTrie<SpecialPurposeAddress>();
+for (const [prefix, category, name, rfc] of SPECIAL_PURPOSE_BLOCKS) {
+  specialPurposeTrie.insert(prefix, { category, name, prefix, rfc });
+}
+
+/**
+ * Special-purpose block containing an address
+ *
+ * @returns Null for globally routable and invalid addresses
+ */
+export const classifySpecialPurpose = (rawIp: string): SpecialPurposeAddress | null => {
+  const ip = normalizeIp(rawIp);
+  return ip ? (specialPurposeTrie.lookup(ip)?.value ?? null) : null;
+};
+
+/**
+ * Local answer for a special-purpose address
+ *
+ * @param ip - Canonical address, as returned by `normalizeIp`
+ */
+export const nonRoutableInsight = (ip: string, specialPurpose: SpecialPurposeAddress): NonRoutableIpInsight => ({
+  ip,
+  bogon: true,
+  specialPurpose,
+  source: 'local',
+  fetchedAt: Date.now(),
+});
+
+export const isNonRoutableInsight = (insight: NormalizedIpInsight): insight is NonRoutableIpInsight =>
+  insight.specialPurpose !== undefined;
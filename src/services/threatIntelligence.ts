@@ -5,37 +5,90 @@
 
 import { AbuseIPDBClient } from '../clients/abuseipdbClient';
 import { SpamhausClient } from '../clients/spamhausClient';
-import type { ThreatIntelResult, CombinedThreatResult, ThreatIntelligenceResponse } from '../types/threat';
+import { createDohResolver } from '../clients/dnsblClient';
+import type {
+  ThreatIntelResult,
+  CombinedThreatResult,
+  ThreatIntelligenceResponse,
+  ThreatProvider,
+  ThreatProvidersStatus,
+  ThreatRateLimit,
+  QuotaUsage,
+} from '../types/threat';
 import { logger } from '../utils/logger';
-import { config } from '../config';
+import type { CircuitBreakerOptions } from '../utils/circuitBreaker';
+import type { UpstreamHttp } from '../utils/upstreamHttp';
+import { ThreatProviderRegistry, type ThreatResultCacheOptions } from './threatProviders';
+import { classifySpecialPurpose } from './specialPurpose';
+import type { QuotaLedger } from './quotaLedger';
+
+export interface ThreatIntelligenceOptions {
+  /** AbuseIPDB API key; the provider reports "not configured" without it */
+  abuseipdbApiKey?: string;
+  /** DNS blacklist zones to query; defaults to Spamhaus ZEN over DoH */
+  dnsblProviders?: ThreatProvider[];
+  /** Further feeds queried alongside AbuseIPDB and the DNSBL zones */
+  providers?: ThreatProvider[];
+  /** Per-provider weight overrides, in threat score points */
+  weights?: Record<string, number>;
+  /** Cache for individual provider results */
+  cache?: ThreatResultCacheOptions;
+  /** Enforces each provider's published rate limit */
+  quota?: QuotaLedger;
+  /** Circuit breaker settings for the built-in AbuseIPDB and Spamhaus clients */
+  circuit?: CircuitBreakerOptions;
+  /** Shared upstream HTTP client for the built-in clients */
+  http?: UpstreamHttp;
+}
 
 export class ThreatIntelligenceService {
-  private readonly abuseipdbClient: AbuseIPDBClient;
-  private readonly spamhausClient: SpamhausClient;
+  private readonly registry: ThreatProviderRegistry;
 
-  constructor() {
-    this.abuseipdbClient = new AbuseIPDBClient(config.ABUSEIPDB_API_KEY);
-    this.spamhausClient = new SpamhausClient();
+  constructor(options: ThreatIntelligenceOptions = {}) {
+    this.registry = new ThreatProviderRegistry(
+      [
+        new AbuseIPDBClient(options.abuseipdbApiKey, { circuit: options.circuit, http: options.http }),
+        ...(options.dnsblProviders ?? [
+          new SpamhausClient(createDohResolver(undefined, undefined, options.http), options.circuit),
+        ]),
+        ...(options.providers ?? []),
+      ],
+      { weights: options.weights, cache: options.cache, quota: options.quota }
+    );
   }
 
   /**
    * Analyze IP address for threats using multiple intelligence sources
    *
+   * Special-purpose addresses are never listed anywhere, so they get a clean
+   * result without querying (or spending quota on) any provider.
+   *
    * @param ip - IP address to analyze
    * @returns Complete threat intelligence response
    */
   async analyzeIP(ip: string): Promise<ThreatIntelligenceResponse> {
+    const specialPurpose = classifySpecialPurpose(ip);
+    if (specialPurpose) {
+      logger.debug(
+        { ip, category: specialPurpose.category },
+        'Skipping threat intelligence for special-purpose address'
+      );
+      return {
+        providers: {},
+        combined: this.combineResults({}),
+        special_purpose: specialPurpose,
+        timestamp: new Date().toISOString(),
+      };
+    }
+
     const startTime = Date.now();
     logger.info({ ip }, 'Starting threat intelligence analysis');
 
-    // Query both providers in parallel for performance
-    const [abuseipdbResult, spamhausResult] = await Promise.all([
-      this.abuseipdbClient.checkIP(ip),
-      this.spamhausClient.checkIP(ip),
-    ]);
+    // Query all providers in parallel for performance
+    const providers = await this.registry.checkAll(ip);
 
     // Combine results
-    const combined = this.combineResults(abuseipdbResult, spamhausResult);
+    const combined = this.combineResults(providers);
 
     const duration = Date.now() - startTime;
     logger.info(
@@ -50,10 +103,7 @@ export class ThreatIntelligenceService {
     );
 
     return {
-      providers: {
-        abuseipdb: abuseipdbResult,
-        spamhaus: spamhausResult,
-      },
+      providers,
       combined,
       timestamp: new Date().toISOString(),
     };
@@ -61,44 +111,41 @@ export class ThreatIntelligenceService {
 
   /**
    * Combine results from multiple threat intelligence providers
+   * Errored providers are reported in `failed_sources` and otherwise ignored.
    *
-   * @param abuseipdb - AbuseIPDB result
-   * @param spamhaus - Spamhaus result
+   * @param providers - Results keyed by provider name
    * @returns Combined threat analysis
    */
-  private combineResults(abuseipdb: ThreatIntelResult, spamhaus: ThreatIntelResult): CombinedThreatResult {
+  private combineResults(providers: Record<string, ThreatIntelResult>): CombinedThreatResult {
+    const answered = Object.entries(providers).filter(([, result]) => !result.error);
+
     // Determine if IP is malicious
-    const isMalicious = abuseipdb.is_listed || spamhaus.is_listed;
+    const isMalicious = answered.some(([, result]) => result.is_listed);
 
     // Collect unique threat types
     const threatTypes = new Set<string>();
-    if (abuseipdb.threat_types) {
-      abuseipdb.threat_types.forEach(type => threatTypes.add(type));
-    }
-    if (spamhaus.threat_types) {
-      spamhaus.threat_types.forEach(type => threatTypes.add(type));
+    for (const [, result] of answered) {
+      result.threat_types?.forEach(type => threatTypes.add(type));
     }
 
     // Calculate combined threat score (0-100)
-    const threatScore = this.calculateThreatScore(abuseipdb, spamhaus);
+    const threatScore = this.calculateThreatScore(answered);
 
     // Determine threat level based on score
     const threatLevel = this.getThreatLevel(threatScore);
 
     // Calculate combined confidence
-    const confidence = this.calculateConfidence(abuseipdb, spamhaus);
-
-    // Collect successful sources
-    const sources: string[] = [];
-    if (!abuseipdb.error) sources.push('AbuseIPDB');
-    if (!spamhaus.error) sources.push('Spamhaus');
+    const confidence = this.calculateConfidence(answered.map(([, result]) => result));
 
     return {
       is_malicious: isMalicious,
       threat_score: threatScore,
       threat_level: threatLevel,
       threat_types: Array.from(threatTypes),
-      sources,
+      sources: answered.map(([, result]) => result.source),
+      failed_sources: Object.values(providers)
+        .filter(result => result.error)
+        .map(result => result.source),
       confidence,
     };
   }
@@ -107,33 +154,26 @@ export class ThreatIntelligenceService {
    * Calculate combined threat score from multiple sources
    *
    * Scoring algorithm:
-   * - AbuseIPDB contributes up to 60 points (based on abuse confidence score)
-   * - Spamhaus contributes up to 40 points (if listed)
+   * - Each listing provider adds its weight (AbuseIPDB 60, Spamhaus 40 by
+   *   default), scaled by the strength of the result (`ThreatIntelResult.weight`)
+   * - The total is capped at 100
    * - Clean IPs get a baseline score of 5
    *
-   * @param abuseipdb - AbuseIPDB result
-   * @param spamhaus - Spamhaus result
+   * @param answered - Results from providers that did not error, keyed by name
    * @returns Threat score (0-100)
    */
-  private calculateThreatScore(abuseipdb: ThreatIntelResult, spamhaus: ThreatIntelResult): number {
-    let score = 0;
-
-    // AbuseIPDB contribution (max 60 points)
-    if (abuseipdb.is_listed && !abuseipdb.error) {
-      const abuseScore = abuseipdb.abuse_confidence_score || 50;
-      score += Math.min(60, abuseScore * 0.6);
-    }
-
-    // Spamhaus contribution (max 40 points)
-    if (spamhaus.is_listed && !spamhaus.error) {
-      score += 40;
-    }
+  private calculateThreatScore(answered: Array<[string, ThreatIntelResult]>): number {
+    const listed = answered.filter(([, result]) => result.is_listed);
 
     // Base score for clean IPs (indicates low risk)
-    if (!abuseipdb.is_listed && !spamhaus.is_listed) {
-      score = 5;
+    if (listed.length === 0) {
+      return 5;
     }
 
+    const score = listed.reduce(
+      (total, [name, result]) => total + this.registry.weightOf(name) * (result.weight ?? 1),
+      0
+    );
     return Math.round(Math.min(100, score));
   }
 
@@ -158,19 +198,13 @@ export class ThreatIntelligenceService {
   /**
    * Calculate combined confidence from multiple sources
    *
-   * @param abuseipdb - AbuseIPDB result
-   * @param spamhaus - Spamhaus result
+   * @param results - Results from every provider
    * @returns Combined confidence (0-1)
    */
-  private calculateConfidence(abuseipdb: ThreatIntelResult, spamhaus: ThreatIntelResult): number {
-    const confidences: number[] = [];
-
-    if (!abuseipdb.error && abuseipdb.confidence > 0) {
-      confidences.push(abuseipdb.confidence);
-    }
-    if (!spamhaus.error && spamhaus.confidence > 0) {
-      confidences.push(spamhaus.confidence);
-    }
+  private calculateConfidence(results: ThreatIntelResult[]): number {
+    const confidences = results
+      .filter(result => !result.error && result.confidence > 0)
+      .map(result => result.confidence);
 
     if (confidences.length === 0) {
       return 0.5; // Default medium confidence if no data
@@ -183,48 +217,48 @@ export class ThreatIntelligenceService {
 
   /**
    * Get status of all threat intelligence providers
+   * Read from the circuit breakers fed by real lookups; no upstream calls are made.
    *
-   * @returns Provider availability status
+   * @returns Provider availability status, keyed by provider name
    */
-  async getProviderStatus(): Promise<{
-    abuseipdb: { configured: boolean; available: boolean };
-    spamhaus: { configured: boolean; available: boolean };
-    available_sources: number;
-    total_sources: number;
-  }> {
-    const [abuseipdbAvailable, spamhausAvailable] = await Promise.all([
-      this.abuseipdbClient.isAvailable(),
-      this.spamhausClient.isAvailable(),
-    ]);
-
-    const abuseipdbConfigured = this.abuseipdbClient.isConfigured();
+  async getProviderStatus(): Promise<ThreatProvidersStatus> {
+    const providers = this.registry.getProviders();
+    const statuses = providers.map(provider => {
+      const circuit = provider.circuit?.getHealth();
+      const configured = provider.isConfigured();
+      return [provider.name, { configured, available: configured && circuit?.state !== 'open', circuit }] as const;
+    });
 
+    // The counters sit beside the provider entries, which an index signature cannot express
     return {
-      abuseipdb: {
-        configured: abuseipdbConfigured,
-        available: abuseipdbAvailable,
-      },
-      spamhaus: {
-        configured: true, // Spamhaus doesn't need configuration
-        available: spamhausAvailable,
-      },
-      available_sources: [abuseipdbAvailable, spamhausAvailable].filter(Boolean).length,
-      total_sources: 2,
-    };
+      ...Object.fromEntries(statuses),
+      available_sources: statuses.filter(([, status]) => status.available).length,
+      total_sources: providers.length,
+    } as ThreatProvidersStatus;
   }
 
   /**
-   * Get rate limits for all providers
+   * Get rate limits for all providers that publish one
    *
    * @returns Rate limit information
    */
-  getRateLimits(): {
-    abuseipdb: { requests_per_day: number; requests_per_hour: number };
-    spamhaus: { requests_per_day: number; requests_per_hour: number };
-  } {
-    return {
-      abuseipdb: this.abuseipdbClient.getRateLimit(),
-      spamhaus: this.spamhausClient.getRateLimit(),
-    };
+  getRateLimits(): Record<string, ThreatRateLimit> {
+    const limits: Record<string, ThreatRateLimit> = {};
+    for (const provider of this.registry.getProviders()) {
+      const limit = provider.getRateLimit?.();
+      if (limit) {
+        limits[provider.name] = limit;
+      }
+    }
+    return limits;
+  }
+
+  /**
+   * Get upstream calls counted against each provider's budget
+   *
+   * @returns Hourly and daily usage keyed by provider name; empty without a quota ledger
+   */
+  getQuotaUsage(): Promise<Record<string, QuotaUsage>> {
+    return this.registry.getQuotaUsage();
   }
 }
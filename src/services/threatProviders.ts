@@ -0,0 +1,217 @@
+/**
+ * Threat Intelligence Provider Registry
+ *
+ * Shared between the Node.js service and the Cloudflare Worker. Feeds
+ * implement `ThreatProvider`; the registry queries all of them, caches each
+ * provider's answer separately and owns the weight each one carries in the
+ * combined threat score.
+ */
+
+import { logger } from '../utils/logger';
+import { requestDeduplicator } from '../utils/requestDeduplication';
+import type { CacheAdapter } from '../utils/cacheInterface';
+import type { QuotaUsage, ThreatIntelResult, ThreatProvider } from '../types/threat';
+import type { QuotaLedger } from './quotaLedger';
+
+export interface CachedThreatResult {
+  result: ThreatIntelResult;
+  fetchedAt: number;
+}
+
+export interface ThreatResultCacheOptions {
+  cache: CacheAdapter<CachedThreatResult>;
+  /** How long a result is served without revalidation */
+  ttlMs: number;
+  /** Total lifetime; results between `ttlMs` and this are served stale and refreshed in the background */
+  staleTtlMs: number;
+  /** Lifetime of errored results, so a failing provider is retried soon */
+  negativeTtlMs: number;
+}
+
+export interface ThreatProviderRegistryOptions {
+  /** Per-provider weight overrides, in threat score points */
+  weights?: Record<string, number>;
+  /** Per-provider result cache; every call goes upstream without it */
+  cache?: ThreatResultCacheOptions;
+  /** Counts upstream calls and enforces each provider's rate limit */
+  quota?: QuotaLedger;
+}
+
+/**
+ * Parse a weight spec such as `abuseipdb:50,spamhaus:40,dronebl:20`
+ */
+export const parseThreatProviderWeights = (value: string | undefined): Record<string, number> => {
+  const weights: Record<string, number> = {};
+  for (const entry of value?.split(',') ?? []) {
+    const [name, weight] = entry.split(':').map(part => part.trim());
+    if (!name) {
+      continue;
+    }
+    const points = Number(weight);
+    if (!weight || !Number.isFinite(points) || points < 0 || points > 100) {
+      logger.warn({ provider: name, weight }, 'Ignoring invalid threat provider weight');
+      continue;
+    }
+    weights[name] = points;
+  }
+  return weights;
+};
+
+export class ThreatProviderRegistry {
+  private readonly providers: ThreatProvider[];
+  private readonly weights: Record<string, number>;
+  private readonly cacheOptions?: ThreatResultCacheOptions;
+  private readonly quota?: QuotaLedger;
+
+  constructor(providers: ThreatProvider[], options: ThreatProviderRegistryOptions = {}) {
+    this.cacheOptions = options.cache;
+    this.quota = options.quota;
+    const seen = new Set<string>();
+    this.providers = providers.filter(provider => {
+      if (seen.has(provider.name)) {
+        logger.warn({ provider: provider.name }, 'Ignoring duplicate threat provider');
+        return false;
+      }
+      seen.add(provider.name);
+      return true;
+    });
+
+    this.weights = Object.fromEntries(this.providers.map(provider => [provider.name, provider.weight]));
+    for (const [name, weight] of Object.entries(options.weights ?? {})) {
+      if (!seen.has(name)) {
+        logger.warn({ provider: name }, 'Weight configured for unknown threat provider');
+        continue;
+      }
+      this.weights[name] = weight;
+    }
+  }
+
+  getProviders(): ThreatProvider[] {
+    return [...this.providers];
+  }
+
+  /**
+   * Points a full-strength listing from the provider adds to the threat score
+   */
+  weightOf(name: string): number {
+    return this.weights[name] ?? 0;
+  }
+
+  /**
+   * Upstream calls counted against each provider's budget
+   */
+  async getQuotaUsage(): Promise<Record<string, QuotaUsage>> {
+    if (!this.quota) {
+      return {};
+    }
+    const quota = this.quota;
+    const usage = await Promise.all(
+      this.providers.map(
+        async provider => [provider.name, await quota.getUsage(provider.name, provider.getRateLimit?.())] as const
+      )
+    );
+    return Object.fromEntries(usage);
+  }
+
+  /**
+   * Query every provider in parallel, serving cached answers where possible
+   *
+   * @returns Results keyed by provider name; failures carry `error`
+   */
+  async checkAll(ip: string): Promise<Record<string, ThreatIntelResult>> {
+    const results = await Promise.all(
+      this.providers.map(async provider => [provider.name, await this.checkCached(provider, ip)] as const)
+    );
+    return Object.fromEntries(results);
+  }
+
+  private async checkCached(provider: ThreatProvider, ip: string): Promise<ThreatIntelResult> {
+    if (!this.cacheOptions) {
+      return { ...(await this.check(provider, ip)), cached: false };
+    }
+
+    const key = `threat:${provider.name}:${ip}`;
+    const { entry, isStale } = await this.cacheOptions.cache.getWithStale(key);
+    if (entry) {
+      if (isStale) {
+        logger.debug({ ip, provider: provider.name }, 'Serving stale threat result, revalidating in background');
+        this.refresh(provider, ip, key).catch(error => {
+          logger.warn({ err: error, ip, provider: provider.name }, 'Threat result revalidation failed');
+        });
+      }
+      return { ...entry.data.result, cached: true, cache_age_ms: Date.now() - entry.data.fetchedAt };
+    }
+
+    const fresh = await this.refresh(provider, ip, key);
+    return { ...fresh.result, cached: false };
+  }
+
+  /**
+   * Query upstream and store the answer; concurrent refreshes of one key share a call
+   * Quota and open-circuit refusals are not cached, so a stale entry keeps being served
+   * until the provider can be called again.
+   */
+  private refresh(provider: ThreatProvider, ip: string, key: string): Promise<CachedThreatResult> {
+    return requestDeduplicator.deduplicate(key, async () => {
+      const { cache, ttlMs, staleTtlMs, negativeTtlMs } = this.cacheOptions!;
+      const cached: CachedThreatResult = { result: await this.check(provider, ip), fetchedAt: Date.now() };
+      if (cached.result.quota_exhausted || cached.result.circuit_open) {
+        return cached;
+      }
+      if (cached.result.error) {
+        await cache.set(key, cached, negativeTtlMs, negativeTtlMs);
+      } else {
+        await cache.set(key, cached, ttlMs, staleTtlMs);
+      }
+      return cached;
+    });
+  }
+
+  private async check(provider: ThreatProvider, ip: string): Promise<ThreatIntelResult> {
+    // Checked before the quota so calls an open circuit would refuse are not counted
+    if (provider.circuit && !provider.circuit.allowsRequest()) {
+      logger.debug({ ip, provider: provider.name }, 'Threat provider circuit open, skipping check');
+      return {
+        source: provider.name,
+        is_listed: false,
+        threat_types: [],
+        confidence: 0,
+        error: `${provider.name} circuit open`,
+        circuit_open: true,
+      };
+    }
+
+    // Only real upstream calls are counted; these answer locally
+    const callsUpstream = provider.isConfigured() && provider.handles?.(ip) !== false;
+    const limit = provider.getRateLimit?.();
+    const refusal = this.quota && callsUpstream ? await this.quota.tryConsume(provider.name, limit) : null;
+    if (refusal) {
+      logger.warn({ ip, provider: provider.name }, refusal);
+      return {
+        source: provider.name,
+        is_listed: false,
+        threat_types: [],
+        confidence: 0,
+        error: refusal,
+        quota_exhausted: true,
+      };
+    }
+
+    try {
+      const { rate_limit: reported, ...result } = await provider.checkIP(ip);
+      if (reported && this.quota) {
+        await this.quota.sync(provider.name, limit, reported);
+      }
+      return result;
+    } catch (error) {
+      logger.warn({ err: error, ip, provider: provider.name }, 'Threat provider check failed');
+      return {
+        source: provider.name,
+        is_listed: false,
+        threat_types: [],
+        confidence: 0,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+}
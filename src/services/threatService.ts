@@ -0,0 +1,29 @@
+/**
+ * Threat Intelligence Service (Node.js)
+ * The shared instance behind `/v1/ip/:ip/threats` and the enhanced analyzer,
+ * so both draw from one result cache. The Worker builds its own in
+ * `enhancedIpService.worker.ts`.
+ */
+
+import { config } from '../config';
+import { createCache, createQuotaStore } from '../utils/cacheFactory';
+import { upstreamHttp } from '../utils/httpClient';
+import { ThreatIntelligenceService } from './threatIntelligence';
+import { QuotaLedger } from './quotaLedger';
+import { dnsblProviders } from './dnsblService';
+import { parseThreatProviderWeights, type CachedThreatResult } from './threatProviders';
+
+export const threatService = new ThreatIntelligenceService({
+  abuseipdbApiKey: config.ABUSEIPDB_API_KEY,
+  dnsblProviders,
+  weights: parseThreatProviderWeights(config.THREAT_PROVIDER_WEIGHTS),
+  cache: {
+    cache: createCache<CachedThreatResult>('threat-intel'),
+    ttlMs: config.CACHE_TTL_THREATS_MS,
+    staleTtlMs: config.CACHE_STALE_TTL_THREATS_MS,
+    negativeTtlMs: config.CACHE_TTL_THREATS_NEGATIVE_MS,
+  },
+  quota: new QuotaLedger(createQuotaStore('threat-quota')),
+  circuit: { failureThreshold: config.CIRCUIT_FAILURE_THRESHOLD, cooldownMs: config.CIRCUIT_COOLDOWN_MS },
+  http: upstreamHttp,
+});
@@ -0,0 +1,168 @@
+/**
+ * Tor Directory
+ *
+ * In-memory index of Tor relay addresses. Understands three source formats:
+ * - Onionoo `details` JSON (exits, guards and plain relays with fingerprints)
+ * - `exit-addresses` from check.torproject.org (exits with fingerprints)
+ * - the bulk exit list (one exit IP per line)
+ *
+ * Shared between the Node.js service and the Cloudflare Worker; fetching and
+ * scheduling live in `torService.ts` / `torService.worker.ts`.
+ */
+
+import { normalizeIp } from '../utils/ip';
+import type { TorDirectorySnapshot, TorDirectoryStatus, TorRelayInfo, TorRelayRole } from '../types/tor';
+
+interface OnionooRelay {
+  nickname?: string;
+  fingerprint?: string;
+  or_addresses?: string[];
+  exit_addresses?: string[];
+  last_seen?: string;
+  flags?: string[];
+}
+
+const ROLE_RANK: Record<TorRelayRole, number> = { relay: 0, guard: 1, exit: 2 };
+
+/**
+ * Tor timestamps are UTC without a zone ("2024-01-01 04:05:25")
+ */
+const toIsoTimestamp = (value: string | undefined): string | undefined => {
+  if (!value) {
+    return undefined;
+  }
+  const date = new Date(`${value.trim().replace(' ', 'T')}Z`);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+/**
+ * Strip the port from an Onionoo OR address ("1.2.3.4:9001", "[2001:db8::1]:9001")
+ */
+const stripPort = (address: string): string => {
+  if (address.startsWith('[')) {
+    return address.slice(1, address.indexOf(']'));
+  }
+  return address.slice(0, address.lastIndexOf(':'));
+};
+
+const addRelay = (relays: Map<string, TorRelayInfo>, address: string, info: TorRelayInfo) => {
+  const ip = normalizeIp(address);
+  if (!ip) {
+    return;
+  }
+  const existing = relays.get(ip);
+  if (!existing || ROLE_RANK[info.role] > ROLE_RANK[existing.role]) {
+    relays.set(ip, info);
+  } else if (ROLE_RANK[info.role] === ROLE_RANK[existing.role] && (info.lastSeen ?? '') > (existing.lastSeen ?? '')) {
+    relays.set(ip, info);
+  }
+};
+
+const parseOnionoo = (text: string, relays: Map<string, TorRelayInfo>) => {
+  const payload = JSON.parse(text) as { relays?: OnionooRelay[] };
+  for (const relay of payload.relays ?? []) {
+    const flags = relay.flags ?? [];
+    const role: TorRelayRole = flags.includes('Exit') ? 'exit' : flags.includes('Guard') ? 'guard' : 'relay';
+    const info: TorRelayInfo = {
+      role,
+      fingerprint: relay.fingerprint,
+      nickname: relay.nickname,
+      lastSeen: toIsoTimestamp(relay.last_seen),
+    };
+    for (const address of relay.or_addresses ?? []) {
+      addRelay(relays, stripPort(address), info);
+    }
+    // Exits often leave from a different address than they listen on
+    for (const address of relay.exit_addresses ?? []) {
+      addRelay(relays, address, { ...info, role: 'exit' });
+    }
+  }
+};
+
+const parseExitAddresses = (text: string, relays: Map<string, TorRelayInfo>) => {
+  let fingerprint: string | undefined;
+  for (const line of text.split('\n')) {
+    const [keyword, value, ...rest] = line.trim().split(/\s+/);
+    if (keyword === 'ExitNode') {
+      fingerprint = value;
+    } else if (keyword === 'ExitAddress' && value) {
+      addRelay(relays, value, { role: 'exit', fingerprint, lastSeen: toIsoTimestamp(rest.join(' ')) });
+    }
+  }
+};
+
+const parseBulkExitList = (text: string, relays: Map<string, TorRelayInfo>) => {
+  for (const line of text.split('\n')) {
+    const address = line.trim();
+    if (address && !address.startsWith('#')) {
+      addRelay(relays, address, { role: 'exit' });
+    }
+  }
+};
+
+/**
+ * Parse any supported Tor directory format into an address index
+ */
+export const parseTorDirectory = (text: string): Map<string, TorRelayInfo> => {
+  const relays = new Map<string, TorRelayInfo>();
+  const trimmed = text.trimStart();
+  if (trimmed.startsWith('{')) {
+    parseOnionoo(trimmed, relays);
+  } else if (/^ExitNode\s/m.test(trimmed)) {
+    parseExitAddresses(trimmed, relays);
+  } else {
+    parseBulkExitList(trimmed, relays);
+  }
+  return relays;
+};
+
+export class TorDirectory {
+  private relays = new Map<string, TorRelayInfo>();
+  private source?: string;
+  private updatedAt?: number;
+
+  /**
+   * Replace the directory with freshly downloaded contents
+   * An empty parse result is rejected so a bad download never wipes a good list.
+   *
+   * @returns Number of indexed addresses
+   */
+  load(text: string, source: string): number {
+    const relays = parseTorDirectory(text);
+    if (relays.size === 0) {
+      throw new Error(`Tor directory source ${source} contained no relays`);
+    }
+    this.relays = relays;
+    this.source = source;
+    this.updatedAt = Date.now();
+    return relays.size;
+  }
+
+  lookup(ip: string): TorRelayInfo | null {
+    const key = normalizeIp(ip);
+    return key ? (this.relays.get(key) ?? null) : null;
+  }
+
+  toSnapshot(): TorDirectorySnapshot {
+    return {
+      source: this.source ?? 'unknown',
+      updatedAt: this.updatedAt ?? Date.now(),
+      relays: Object.fromEntries(this.relays),
+    };
+  }
+
+  restore(snapshot: TorDirectorySnapshot): void {
+    this.relays = new Map(Object.entries(snapshot.relays));
+    this.source = snapshot.source;
+    this.updatedAt = snapshot.updatedAt;
+  }
+
+  getStatus(): TorDirectoryStatus {
+    return {
+      loaded: this.relays.size > 0,
+      relays: this.relays.size,
+      source: this.source,
+      updatedAt: this.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Tor Directory Service (Node.js)
+ * Loads the Tor directory from `TOR_DIRECTORY_PATH` or `TOR_DIRECTORY_URL` and
+ * refreshes it on an interval. The Worker counterpart is `torService.worker.ts`.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import type { TorDirectoryStatus, TorRelayInfo } from '../types/tor';
+import { TorDirectory } from './torDirectory';
+
+/** Onionoo dumps are several MB, so allow more than the API client timeout */
+const TOR_FETCH_TIMEOUT_MS = 30_000;
+
+const torDirectory = new TorDirectory();
+
+export const isTorDirectoryConfigured = (): boolean => Boolean(config.TOR_DIRECTORY_PATH || config.TOR_DIRECTORY_URL);
+
+const readTorDirectory = async (): Promise<{ text: string; source: string }> => {
+  if (config.TOR_DIRECTORY_PATH) {
+    return { text: await readFile(config.TOR_DIRECTORY_PATH, 'utf8'), source: config.TOR_DIRECTORY_PATH };
+  }
+  const url = config.TOR_DIRECTORY_URL!;
+  const response = await fetch(url, { signal: AbortSignal.timeout(TOR_FETCH_TIMEOUT_MS) });
+  if (!response.ok) {
+    throw new Error(`Tor directory request failed: ${response.status}`);
+  }
+  return { text: await response.text(), source: url };
+};
+
+/**
+ * Reload the directory; failures keep the previous contents
+ */
+export async function refreshTorDirectory(): Promise<void> {
+  if (!isTorDirectoryConfigured()) {
+    return;
+  }
+  try {
+    const { text, source } = await readTorDirectory();
+    const relays = torDirectory.load(text, source);
+    logger.info({ relays, source }, 'Tor directory refreshed');
+  } catch (error) {
+    logger.warn({ err: error }, 'Tor directory refresh failed');
+  }
+}
+
+/**
+ * Load the directory now and keep refreshing it in the background
+ *
+ * @returns Function that stops the refresh timer
+ */
+export function startTorDirectoryRefresh(): () => void {
+  if (!isTorDirectoryConfigured()) {
+    return () => undefined;
+  }
+  void refreshTorDirectory();
+  const timer = setInterval(() => void refreshTorDirectory(), config.TOR_DIRECTORY_REFRESH_MS);
+  timer.unref();
+  return () => clearInterval(timer);
+}
+
+export const lookupTorRelay = (ip: string): TorRelayInfo | null => torDirectory.lookup(ip);
+
+export const getTorDirectoryStatus = (): TorDirectoryStatus => torDirectory.getStatus();
@@ -0,0 +1,72 @@
+import type { Env } from '../worker/types';
+import type { TorDirectorySnapshot, TorRelayInfo } from '../types/tor';
+import { logger } from '../utils/logger';
+import { TorDirectory } from './torDirectory';
+
+const SNAPSHOT_KEY = 'tor-directory:snapshot';
+const DEFAULT_REFRESH_MS = 30 * 60 * 1000;
+
+/**
+ * Tor directory for the Worker
+ * The scheduled handler downloads `TOR_DIRECTORY_URL` and stores a snapshot in
+ * KV; isolates read that snapshot and re-read it once it is older than the
+ * refresh interval.
+ */
+export const createWorkerTorService = (env: Env) => {
+  const directory = new TorDirectory();
+  const refreshMs = Number(env.TOR_DIRECTORY_REFRESH_MS) || DEFAULT_REFRESH_MS;
+  let restoredAt = 0;
+  let restoring: Promise<void> | null = null;
+
+  const ready = (): Promise<void> => {
+    if (!env.TOR_DIRECTORY_URL || !env.IP_CACHE || Date.now() - restoredAt < refreshMs) {
+      return Promise.resolve();
+    }
+    restoring ??= env.IP_CACHE.get<TorDirectorySnapshot>(SNAPSHOT_KEY, 'json')
+      .then(snapshot => {
+        if (snapshot) {
+          directory.restore(snapshot);
+        }
+      })
+      .catch(error => {
+        logger.warn({ err: error }, 'Failed to read Tor directory snapshot');
+      })
+      .finally(() => {
+        restoredAt = Date.now();
+        restoring = null;
+      });
+    return restoring;
+  };
+
+  const refresh = async (): Promise<void> => {
+    if (!env.TOR_DIRECTORY_URL) {
+      return;
+    }
+    // The cron fires more often than the refresh interval; skip while the stored snapshot is recent
+    await ready();
+    const { updatedAt } = directory.getStatus();
+    if (updatedAt && Date.now() - updatedAt < refreshMs) {
+      logger.debug({ updatedAt }, 'Tor directory snapshot is recent, skipping refresh');
+      return;
+    }
+    try {
+      const response = await fetch(env.TOR_DIRECTORY_URL);
+      if (!response.ok) {
+        throw new Error(`Tor directory request failed: ${response.status}`);
+      }
+      const relays = directory.load(await response.text(), env.TOR_DIRECTORY_URL);
+      restoredAt = Date.now();
+      await env.IP_CACHE?.put(SNAPSHOT_KEY, JSON.stringify(directory.toSnapshot()));
+      logger.info({ relays }, 'Tor directory refreshed');
+    } catch (error) {
+      logger.warn({ err: error }, 'Tor directory refresh failed');
+    }
+  };
+
+  return {
+    ready,
+    refresh,
+    lookup: (ip: string): TorRelayInfo | null => directory.lookup(ip),
+    getStatus: () => directory.getStatus(),
+  };
+};
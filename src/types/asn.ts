@@ -32,9 +32,40 @@ export interface ASNGeography {
   country: string;
   region?: string;
   city_count?: number;
+  /** Share of the located announced address space, 0-100 */
   percentage?: number;
 }
 
+/**
+ * Neighbouring network in the AS graph
+ */
+export interface ASNNeighbor {
+  asn: number;
+  name?: string;
+  country?: string;
+}
+
+/**
+ * Inferred business relationships with neighbouring networks
+ */
+export interface ASNRelationships {
+  /** Transit providers of this ASN */
+  upstreams: ASNNeighbor[];
+  /** Customers this ASN provides transit to */
+  downstreams: ASNNeighbor[];
+  peers: ASNNeighbor[];
+}
+
+/**
+ * Announced prefixes by IP version
+ */
+export interface ASNPrefixCounts {
+  ipv4: number;
+  ipv6: number;
+  /** IPv4 addresses covered by the prefixes */
+  ipv4_addresses: number;
+}
+
 /**
  * Related domain information
  */
@@ -48,12 +79,40 @@ export interface RelatedDomain {
  * ASN reputation and traffic metrics
  */
 export interface ASNMetrics {
+  /** 0-100, higher is better; derived from threat checks on addresses in this ASN */
   reputation_score?: number;
   reputation_level?: 'good' | 'neutral' | 'poor';
   traffic_rank?: number;
   threat_score?: number;
   spam_score?: number;
   malware_score?: number;
+  /** Distinct addresses the threat-derived scores are based on */
+  observed_ips?: number;
+}
+
+/**
+ * What kind of network an ASN is
+ */
+export type ASNCategory =
+  | 'isp'
+  | 'mobile'
+  | 'hosting'
+  | 'cdn'
+  | 'education'
+  | 'government'
+  | 'business'
+  | 'vpn'
+  | 'satellite';
+
+export interface ASNClassification {
+  asn?: number;
+  category: ASNCategory;
+  /** Display label, e.g. "Hosting provider" */
+  label: string;
+  /** Curated ASN table, the IP provider's network type, or the network name */
+  source: 'curated' | 'provider' | 'name';
+  /** 0-1 */
+  confidence: number;
 }
 
 /**
@@ -63,6 +122,9 @@ export interface ASNAnalysisResult {
   asn: number;
   info: RadarASNInfo;
   prefixes?: NetworkPrefix[];
+  prefix_counts?: ASNPrefixCounts;
+  relationships?: ASNRelationships;
+  classification?: ASNClassification;
   geography?: ASNGeography[];
   related_domains?: RelatedDomain[];
   metrics?: ASNMetrics;
@@ -88,6 +150,25 @@ export interface CloudflareRadarASNResponse {
   };
 }
 
+/**
+ * Cloudflare Radar API response for ASN relationships
+ * `P2C` rows list `asn1` as the provider of `asn2`.
+ */
+export interface CloudflareRadarASNRelationshipsResponse {
+  success: boolean;
+  result: {
+    rels: Array<{
+      asn1: number;
+      asn1_name?: string;
+      asn1_country?: string;
+      asn2: number;
+      asn2_name?: string;
+      asn2_country?: string;
+      rel: 'P2C' | 'P2P';
+    }>;
+  };
+}
+
 /**
  * Cloudflare Radar API response for ASN prefixes
  */
@@ -100,3 +181,36 @@ export interface CloudflareRadarASNPrefixesResponse {
     }>;
   };
 }
+
+/**
+ * Origin of the most specific announced prefix covering an address
+ */
+export interface OriginRoute {
+  /** Origin ASN; the first one listed when the prefix has several */
+  asn: number;
+  /** Every origin for multi-origin (MOAS) and AS-set announcements */
+  origins?: number[];
+  /** Announced prefix in CIDR notation */
+  prefix: string;
+}
+
+/**
+ * Threat checks seen for addresses in one ASN, keyed by IP
+ */
+export interface ASNThreatObservations {
+  ips: Record<string, { threat_score: number; is_malicious: boolean; threat_types: string[]; at: number }>;
+}
+
+export interface RoutingTableSnapshot {
+  source: string;
+  updatedAt: number;
+  /** Routes in `prefix<TAB>asn[_asn...]` lines */
+  routes: string;
+}
+
+export interface RoutingTableStatus {
+  loaded: boolean;
+  prefixes: { ipv4: number; ipv6: number };
+  source?: string;
+  updatedAt?: number;
+}
@@ -0,0 +1,66 @@
+/**
+ * Browser Types
+ * What a User-Agent string claims, and how its version compares with the
+ * release calendar
+ */
+
+export type BrowserId = 'chrome' | 'edge' | 'firefox' | 'safari' | 'opera' | 'samsung';
+
+export type BrowserEngine = 'Blink' | 'Gecko' | 'WebKit';
+
+export type DeviceClass = 'desktop' | 'mobile' | 'tablet' | 'bot';
+
+/**
+ * Browser, engine, OS and device class parsed from a User-Agent
+ */
+export interface ParsedUserAgent {
+  /** Browser whose release calendar applies; in-app browsers report their embedded engine's browser */
+  browser: { id: BrowserId; name: string; version: string; major: number } | null;
+  engine: { name: BrowserEngine; version?: string } | null;
+  /** Operating system, named as `Sec-CH-UA-Platform` names it (Windows, macOS, Linux, Android, Chrome OS, iOS) */
+  os: { name: string; version?: string } | null;
+  device: DeviceClass;
+  /** App hosting an embedded browser (Facebook, Instagram, WeChat, ...) */
+  inApp?: string;
+}
+
+/**
+ * Known stable releases of one browser
+ * Majors between two listed releases are interpolated unless `exhaustive` is
+ * set; majors past the last release are extrapolated with `cadenceDays`.
+ */
+export interface BrowserReleaseSchedule {
+  cadenceDays: number;
+  /** How many majors ahead of stable beta, dev and nightly builds run */
+  previewMajors: number;
+  /** Every major up to the last listed one is listed (versions may skip numbers) */
+  exhaustive?: boolean;
+  /** Major versions with their stable release date (YYYY-MM-DD), ascending */
+  releases: Array<[major: number, date: string]>;
+  /** Long-term support majors (Firefox ESR) with the date their support ends (YYYY-MM-DD) */
+  extendedSupport?: Array<[major: number, endDate: string]>;
+}
+
+export interface BrowserReleaseCalendar {
+  /** When the calendar was last brought up to date (YYYY-MM-DD) */
+  updated: string;
+  browsers: Record<BrowserId, BrowserReleaseSchedule>;
+}
+
+export type VersionFreshness = 'current' | 'stale' | 'ancient' | 'future';
+
+/**
+ * A browser version placed on its release calendar
+ */
+export interface BrowserVersionAssessment {
+  freshness: VersionFreshness;
+  major: number;
+  /** Newest stable major expected at the time of the assessment */
+  latestMajor: number;
+  /** When the next major replaced this one (ISO 8601 date); absent while it is still the newest */
+  supersededAt?: string;
+  /** End of extended support (ISO 8601 date), for long-term support majors */
+  supportedUntil?: string;
+  /** Days since `supersededAt`, or since `supportedUntil` for long-term support majors */
+  daysBehind?: number;
+}
@@ -0,0 +1,39 @@
+/**
+ * Cloud Range Types
+ * Attribution of addresses to published cloud provider ranges
+ */
+
+export type CloudProvider = 'aws' | 'gcp' | 'azure' | 'oracle' | 'digitalocean';
+
+export interface CloudAttribution {
+  provider: CloudProvider;
+  /** Display name, e.g. "AWS" */
+  providerName: string;
+  /** Service as published by the provider (EC2, AzureStorage, ...) */
+  service?: string;
+  region?: string;
+  /** Most specific published range containing the address */
+  prefix: string;
+  /** Human-readable attribution, e.g. "AWS EC2 us-east-1" */
+  label: string;
+}
+
+/**
+ * One published range before it is indexed
+ */
+export interface CloudRange {
+  prefix: string;
+  service?: string;
+  region?: string;
+}
+
+export interface CloudRangesSnapshot {
+  updatedAt: number;
+  ranges: Partial<Record<CloudProvider, CloudRange[]>>;
+}
+
+export interface CloudRangesStatus {
+  loaded: boolean;
+  providers: Partial<Record<CloudProvider, number>>;
+  updatedAt?: number;
+}
@@ -0,0 +1,47 @@
+/**
+ * Reverse DNS Types
+ * PTR names of an address, their forward confirmation and what the names suggest
+ */
+
+/**
+ * Traits read from a hostname
+ * - dynamic / static / pool: how the ISP says the address is assigned
+ * - dsl / cable / fiber / mobile: access technology named by the ISP
+ * - generic: the name embeds the address, as ISPs do for end-user ranges
+ * - cloud / vps: cloud instance or virtual server naming
+ * - tor: Tor relay or exit naming
+ */
+export type HostnameTag =
+  | 'dynamic'
+  | 'static'
+  | 'pool'
+  | 'dsl'
+  | 'cable'
+  | 'fiber'
+  | 'mobile'
+  | 'generic'
+  | 'cloud'
+  | 'vps'
+  | 'tor';
+
+export interface HostnameTraits {
+  tags: HostnameTag[];
+  /** Provider whose instance naming matched, e.g. "AWS EC2" */
+  cloudProvider?: string;
+}
+
+export interface ReverseDnsInfo extends HostnameTraits {
+  /** Forward-confirmed PTR name when there is one, otherwise the first answer */
+  hostname: string;
+  /** Every PTR answer, when there is more than one */
+  hostnames?: string[];
+  /** The hostname resolves back to the address (FCrDNS) */
+  forwardConfirmed: boolean;
+}
+
+/**
+ * Cached lookup; `result` is null when the address has no PTR record
+ */
+export interface ReverseDnsRecord {
+  result: ReverseDnsInfo | null;
+}
@@ -0,0 +1,32 @@
+/**
+ * Request Header Types
+ * The headers of the request being answered and what they reveal, as opposed
+ * to provider data about an address.
+ */
+
+import type { DetailedSignal } from '../services/report/scoring';
+
+/**
+ * Proxies revealed by forwarding and proxy software headers
+ */
+export interface ProxyHeaderAnalysis {
+  /** Whether any header showed the request was relayed */
+  detected: boolean;
+  /** Headers that gave the proxy away, e.g. "Via" or "X-BlueCoat-Via" */
+  headers: string[];
+  /** Addresses named in the headers other than the client's and our trusted proxies' */
+  intermediateIps: string[];
+  /** Penalty for the IP panel; the sum of the signals' penalties */
+  scorePenalty: number;
+  signals: DetailedSignal[];
+}
+
+/**
+ * Headers of the request being answered
+ */
+export interface RequestHeaderSnapshot {
+  /** Header names (lower-case) and values */
+  entries: Array<[name: string, value: string]>;
+  /** Whether `entries` is in the order the client sent; Fetch API runtimes (Workers) sort headers */
+  ordered: boolean;
+}
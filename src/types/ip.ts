@@ -1,3 +1,9 @@
+import type { AnonymousIPResponse, AsnResponse, CityResponse } from 'maxmind';
+import type { CloudAttribution } from './cloud';
+import type { ReverseDnsInfo } from './dns';
+import type { ProxyHeaderAnalysis } from './headers';
+import type { TorRelayInfo } from './tor';
+
 export interface IpInfoPrivacy {
   vpn?: boolean;
   proxy?: boolean;
@@ -72,6 +78,45 @@ export interface RadarIpResponse {
   };
 }
 
+/** Records read from the local MaxMind / DB-IP databases for one address */
+export interface MmdbRecords {
+  city?: CityResponse | null;
+  asn?: AsnResponse | null;
+  /** Null when the Anonymous-IP database has no record; absent when it is not loaded */
+  anonymous?: AnonymousIPResponse | null;
+}
+
+export type IpProviderName = 'ipinfo' | 'radar' | 'mmdb';
+
+/** What an IANA special-purpose block is used for */
+export type SpecialPurposeCategory =
+  | 'unspecified'
+  | 'this-network'
+  | 'private'
+  | 'cgnat'
+  | 'loopback'
+  | 'link-local'
+  | 'unique-local'
+  | 'documentation'
+  | 'benchmarking'
+  | 'multicast'
+  | 'broadcast'
+  | 'reserved';
+
+/**
+ * Special-purpose block containing an address that is not globally routable
+ * (IANA IPv4/IPv6 Special-Purpose Address Registries, plus multicast)
+ */
+export interface SpecialPurposeAddress {
+  category: SpecialPurposeCategory;
+  /** Registry name of the block, e.g. "Private-Use" */
+  name: string;
+  /** The block in CIDR notation */
+  prefix: string;
+  /** Defining RFC, e.g. "RFC 1918" */
+  rfc: string;
+}
+
 export interface NormalizedIpInsight {
   ip: string;
   city?: string;
@@ -82,6 +127,10 @@ export interface NormalizedIpInsight {
   latitude?: number;
   longitude?: number;
   org?: string;
+  /** PTR name as reported by the provider */
+  hostname?: string;
+  /** Abuse desk of the network, as reported by the provider */
+  abuse?: IpInfoDetails['abuse'];
   asn?: string;
   networkType?: string;
   privacy?: IpInfoPrivacy & {
@@ -94,6 +143,33 @@ export interface NormalizedIpInsight {
   riskReasons?: string[];
   anycast?: boolean;
   bogon?: boolean;
-  source: 'ipinfo' | 'radar';
+  /** Local Tor directory match; attached at lookup time, never cached */
+  tor?: TorRelayInfo;
+  /** Published cloud range containing the address; attached like `tor` */
+  cloud?: CloudAttribution;
+  /** Our own PTR lookup with forward confirmation; attached like `tor` */
+  reverseDns?: ReverseDnsInfo;
+  /** Set on local answers for non-routable addresses, which never reach a provider */
+  specialPurpose?: SpecialPurposeAddress;
+  /** Proxies revealed by the headers of the request being answered; client IP endpoints only */
+  proxyHeaders?: ProxyHeaderAnalysis;
+  source: IpProviderName | 'mixed' | 'local';
+  /** Provider that supplied each populated field */
+  fieldSources?: IpFieldSources;
   fetchedAt: number;
 }
+
+/** Insight fields that come from a provider (everything but identity, bookkeeping and local enrichment) */
+export type IpInsightField = Exclude<
+  keyof NormalizedIpInsight,
+  'ip' | 'source' | 'fieldSources' | 'fetchedAt' | 'tor' | 'cloud' | 'reverseDns' | 'specialPurpose' | 'proxyHeaders'
+>;
+
+/** Insight for a special-purpose address, answered without a provider call */
+export type NonRoutableIpInsight = NormalizedIpInsight & {
+  source: 'local';
+  bogon: true;
+  specialPurpose: SpecialPurposeAddress;
+};
+
+export type IpFieldSources = Partial<Record<IpInsightField, IpProviderName>>;
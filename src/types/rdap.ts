@@ -0,0 +1,111 @@
+/**
+ * RDAP Types
+ * Registration data for IP networks and ASNs from the regional registries
+ * (RFC 9083), the IANA bootstrap files that say which registry to ask
+ * (RFC 9224) and our normalized view of both.
+ */
+
+export type RdapRegistry = 'ARIN' | 'RIPE NCC' | 'APNIC' | 'LACNIC' | 'AFRINIC';
+
+export type RdapBootstrapRegistry = 'ipv4' | 'ipv6' | 'asn';
+
+/**
+ * IANA bootstrap file: each service pairs IP prefixes or ASN ranges ("1-1876")
+ * with the base URLs of the RDAP server responsible for them
+ */
+export interface RdapBootstrapFile {
+  publication?: string;
+  services: Array<[entries: string[], urls: string[]]>;
+}
+
+/** jCard (RFC 7095): ["vcard", [[name, params, type, value], ...]] */
+export type RdapVcard = [string, Array<[string, Record<string, unknown>, string, unknown]>];
+
+export interface RdapEntity {
+  handle?: string;
+  roles?: string[];
+  vcardArray?: RdapVcard;
+  entities?: RdapEntity[];
+}
+
+export interface RdapEvent {
+  eventAction: string;
+  eventDate?: string;
+}
+
+/**
+ * IP network or autnum object as returned by a registry
+ */
+export interface RdapObject {
+  objectClassName?: string;
+  handle?: string;
+  name?: string;
+  type?: string;
+  country?: string;
+  status?: string[];
+  port43?: string;
+  /** IP networks */
+  startAddress?: string;
+  endAddress?: string;
+  /** RFC 9083 `cidr0` extension */
+  cidr0_cidrs?: Array<{ v4prefix?: string; v6prefix?: string; length: number }>;
+  /** Autnums */
+  startAutnum?: number;
+  endAutnum?: number;
+  entities?: RdapEntity[];
+  events?: RdapEvent[];
+}
+
+export interface RdapContact {
+  handle?: string;
+  name?: string;
+  email?: string;
+  phone?: string;
+  address?: string;
+  roles: string[];
+}
+
+/**
+ * Normalized registration of an IP network or ASN
+ */
+export interface RdapRecord {
+  /** Address or ASN ("AS15169") that was looked up */
+  query: string;
+  object_type: 'ip network' | 'autnum';
+  handle?: string;
+  /** Network name, e.g. "GOGL" or "LVLT-ORG-8-8" */
+  name?: string;
+  /** Registrant organization */
+  organization?: string;
+  /** Registry's allocation or assignment type, e.g. "DIRECT ALLOCATION" */
+  type?: string;
+  /** IP networks: the registered block as CIDRs */
+  cidrs?: string[];
+  start_address?: string;
+  end_address?: string;
+  /** Autnums: the registered ASN block */
+  asn_range?: { start: number; end: number };
+  status?: string[];
+  rir?: RdapRegistry;
+  country?: string;
+  /** When the block was registered (allocated or assigned) by the registry */
+  registration_date?: string;
+  last_changed_date?: string;
+  abuse_contacts: RdapContact[];
+  /** URL the record was read from */
+  rdap_url: string;
+  fetched_at: string;
+}
+
+/**
+ * Where to report abuse from an address, as surfaced in enhanced results
+ */
+export interface AbuseContact {
+  name?: string;
+  email?: string;
+  phone?: string;
+  address?: string;
+  /** Network the contact is registered for */
+  network?: string;
+  source: 'ipinfo' | 'rdap';
+}
@@ -1,7 +1,27 @@
+import type { IpFieldSources, NormalizedIpInsight, SpecialPurposeAddress } from './ip';
+import type { ProxyHeaderAnalysis, RequestHeaderSnapshot } from './headers';
+
 export type PanelStatus = 'trustworthy' | 'suspicious' | 'unreliable';
 
+/**
+ * User-Agent Client Hints from `navigator.userAgentData`, including the
+ * high-entropy values; only Chromium-based browsers expose them
+ */
+export interface UserAgentDataPayload {
+  brands: Array<{ brand: string; version: string }>;
+  mobile: boolean;
+  platform: string;
+  platformVersion?: string;
+  architecture?: string;
+  bitness?: string;
+  model?: string;
+  wow64?: boolean;
+  fullVersionList?: Array<{ brand: string; version: string }>;
+}
+
 export interface FingerprintPayload {
   userAgent: string;
+  userAgentData?: UserAgentDataPayload;
   acceptLanguage?: string;
   languages?: string[];
   timezone?: string;
@@ -80,6 +100,16 @@ export interface ReportRequestBody {
   fingerprint: FingerprintPayload;
 }
 
+/**
+ * What the server saw of the report request itself, beyond the JSON body
+ */
+export interface ReportRequestContext {
+  /** Proxies revealed by the request headers; only applied when the client's own address is inspected */
+  proxyHeaders?: ProxyHeaderAnalysis;
+  /** Request headers, compared with what the fingerprint claims about the browser */
+  headers?: RequestHeaderSnapshot;
+}
+
 export interface PanelResult<TMeta = Record<string, unknown>> {
   status: PanelStatus;
   score: number;
@@ -100,7 +130,11 @@ export interface ReportResponse {
   };
   ip?: string;
   fetchedAt: number;
-  source: 'ipinfo' | 'radar' | 'mixed';
+  source: NormalizedIpInsight['source'];
+  fieldSources?: IpFieldSources;
+  /** Set when the inspected address is not globally routable */
+  specialPurpose?: SpecialPurposeAddress;
+  proxyHeaders?: ProxyHeaderAnalysis;
   enhanced?: {
     browser: {
       detailedSignals: Array<{
@@ -3,6 +3,55 @@
  * Type definitions for threat intelligence data and providers
  */
 
+import type { CircuitBreaker, CircuitHealth } from '../utils/circuitBreaker';
+import type { SpecialPurposeAddress } from './ip';
+
+export interface ThreatRateLimit {
+  requests_per_day: number;
+  requests_per_hour: number;
+}
+
+/**
+ * Daily quota as reported by the upstream API, e.g. AbuseIPDB's X-RateLimit-* headers
+ */
+export interface ReportedRateLimit {
+  remaining: number;
+  limit?: number;
+}
+
+export interface QuotaWindowUsage {
+  /** Upstream calls counted in the current window */
+  used: number;
+  limit?: number;
+  remaining?: number;
+  /** Start of the next window (ISO 8601) */
+  resets_at: string;
+}
+
+export interface QuotaUsage {
+  hour: QuotaWindowUsage;
+  day: QuotaWindowUsage;
+}
+
+/**
+ * A threat intelligence feed
+ * Errors are reported through `ThreatIntelResult.error`; anything thrown is
+ * caught by the registry and treated the same way.
+ */
+export interface ThreatProvider {
+  /** Key used in responses and THREAT_PROVIDER_WEIGHTS, e.g. "abuseipdb" */
+  name: string;
+  /** Default points (0-100) a full-strength listing adds to the threat score */
+  weight: number;
+  isConfigured(): boolean;
+  /** Whether `checkIP` queries upstream for this address; providers without it query for every address */
+  handles?(ip: string): boolean;
+  checkIP(ip: string): Promise<ThreatIntelResult>;
+  getRateLimit?(): ThreatRateLimit | undefined;
+  /** Breaker around the provider's upstream calls; providers without one always count as available */
+  circuit?: CircuitBreaker;
+}
+
 /**
  * Individual threat intelligence check result
  */
@@ -25,6 +74,64 @@ export interface ThreatIntelResult {
   list_type?: string;
   /** Error message if check failed */
   error?: string;
+  /** Share of the provider's weight this result carries (0-1); defaults to 1 when listed */
+  weight?: number;
+  /** Per-list breakdown for DNS blacklists that encode the listing type in the answer */
+  listings?: DnsblListing[];
+  /** Whether the result was served from the threat cache */
+  cached?: boolean;
+  /** Age of a cached result in milliseconds */
+  cache_age_ms?: number;
+  /** The call was refused because the provider's quota is used up */
+  quota_exhausted?: boolean;
+  /** The call was refused because the provider's circuit breaker is open */
+  circuit_open?: boolean;
+  /** Upstream quota seen on this call; consumed by the quota ledger, never returned to clients */
+  rate_limit?: ReportedRateLimit;
+}
+
+/**
+ * One list an IP appears on, decoded from a DNSBL return code
+ */
+export interface DnsblListing {
+  /** List name, e.g. SBL, XBL, PBL */
+  list: string;
+  /** Return code the zone answered with, e.g. 127.0.0.2 */
+  code: string;
+  description: string;
+  threat_types: string[];
+  /** Confidence score (0-1) */
+  confidence: number;
+  /** Share of the provider's maximum score this listing carries (0-1) */
+  weight: number;
+  /** Policy lists describe the network (e.g. dynamic ranges), not observed abuse */
+  policy: boolean;
+}
+
+/**
+ * What a DNSBL return code means
+ */
+export type DnsblCategory = Omit<DnsblListing, 'code'>;
+
+/**
+ * One DNS blacklist zone and how to read its answers
+ */
+export interface DnsblZoneConfig {
+  /** Key used in configuration and responses, e.g. "spamhaus" */
+  name: string;
+  /** Display name reported as the result source */
+  label: string;
+  zone: string;
+  /** Whether the zone answers nibble-reversed IPv6 queries */
+  ipv6: boolean;
+  /** Maximum points (0-100) the zone adds to the threat score */
+  weight: number;
+  returnCodes: Record<string, DnsblCategory>;
+  /** Used for 127.0.0.0/8 answers missing from `returnCodes` */
+  defaultCategory: DnsblCategory;
+  /** Answers that mean the query was refused rather than listed */
+  errorCodes?: Record<string, string>;
+  rateLimit?: ThreatRateLimit;
 }
 
 /**
@@ -41,6 +148,8 @@ export interface CombinedThreatResult {
   threat_types: string[];
   /** Sources that successfully checked */
   sources: string[];
+  /** Sources that errored or are not configured; they do not affect the score */
+  failed_sources: string[];
   /** Combined confidence (0-1) */
   confidence: number;
 }
@@ -49,17 +158,32 @@ export interface CombinedThreatResult {
  * Full threat intelligence response
  */
 export interface ThreatIntelligenceResponse {
-  /** Individual provider results */
-  providers: {
-    abuseipdb: ThreatIntelResult;
-    spamhaus: ThreatIntelResult;
-  };
+  /** Individual provider results, keyed by provider name */
+  providers: Record<string, ThreatIntelResult>;
   /** Combined analysis */
   combined: CombinedThreatResult;
+  /** Set when the address is not globally routable and no provider was asked */
+  special_purpose?: SpecialPurposeAddress;
   /** Timestamp of the analysis */
   timestamp: string;
 }
 
+export interface ThreatProviderStatus {
+  configured: boolean;
+  /** Configured and its circuit is not open */
+  available: boolean;
+  /** Live health from real calls; absent for providers without a breaker */
+  circuit?: CircuitHealth;
+}
+
+/**
+ * Availability of every provider, keyed by provider name
+ */
+export type ThreatProvidersStatus = Record<string, ThreatProviderStatus> & {
+  available_sources: number;
+  total_sources: number;
+};
+
 /**
  * AbuseIPDB API response structure
  */
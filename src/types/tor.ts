@@ -0,0 +1,35 @@
+/**
+ * Tor Directory Types
+ * Relay data loaded from the Tor bulk exit list, exit-addresses or Onionoo
+ */
+
+export type TorRelayRole = 'exit' | 'guard' | 'relay';
+
+/**
+ * What the local Tor directory knows about one address
+ */
+export interface TorRelayInfo {
+  /** Most significant role the address plays (exit > guard > relay) */
+  role: TorRelayRole;
+  /** Relay fingerprint; absent when loaded from the plain bulk exit list */
+  fingerprint?: string;
+  nickname?: string;
+  /** When the relay was last seen (ISO 8601) */
+  lastSeen?: string;
+}
+
+/**
+ * Serializable directory contents, used to share refreshes across Worker isolates
+ */
+export interface TorDirectorySnapshot {
+  source: string;
+  updatedAt: number;
+  relays: Record<string, TorRelayInfo>;
+}
+
+export interface TorDirectoryStatus {
+  loaded: boolean;
+  relays: number;
+  source?: string;
+  updatedAt?: number;
+}
@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { MemoryCache } from '../cache';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('MemoryCache', () => {
+  it('keeps entries for their own TTLs when those outlast the defaults', async () => {
+    const cache = new MemoryCache<number>(50, 10, 100);
+
+    cache.set('long', 1, 150, 1_000);
+    cache.set('default', 2);
+    await sleep(250);
+
+    expect(cache.getWithStale('long')).toEqual({ entry: expect.objectContaining({ data: 1 }), isStale: true });
+    expect(cache.getWithStale('default')).toEqual({ entry: null, isStale: false });
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { CircuitBreaker, CircuitOpenError } from '../circuitBreaker';
+
+const fail = (reason: string) => async () => {
+  throw new Error(reason);
+};
+
+const clock = () => {
+  let now = 0;
+  return { now: () => now, advance: (ms: number) => (now += ms) };
+};
+
+describe('CircuitBreaker', () => {
+  it('opens after consecutive failures and rejects without calling upstream', async () => {
+    const time = clock();
+    const breaker = new CircuitBreaker('feed', { failureThreshold: 2, cooldownMs: 1000 }, time.now);
+
+    await expect(breaker.execute(fail('timeout'))).rejects.toThrow('timeout');
+    expect(breaker.state).toBe('closed');
+    await expect(breaker.execute(fail('HTTP 503'))).rejects.toThrow('HTTP 503');
+    expect(breaker.state).toBe('open');
+
+    let called = false;
+    await expect(
+      breaker.execute(async () => {
+        called = true;
+      })
+    ).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(called).toBe(false);
+
+    expect(breaker.getHealth()).toMatchObject({
+      state: 'open',
+      calls: 2,
+      error_rate: 1,
+      rejected: 1,
+      last_failure: { reason: 'HTTP 503', at: new Date(0).toISOString() },
+      retry_at: new Date(1000).toISOString(),
+    });
+  });
+
+  it('lets one trial call through after the cool-down', async () => {
+    const time = clock();
+    const breaker = new CircuitBreaker('feed', { failureThreshold: 1, cooldownMs: 1000 }, time.now);
+    await expect(breaker.execute(fail('down'))).rejects.toThrow();
+
+    time.advance(1000);
+    expect(breaker.state).toBe('half-open');
+    await expect(breaker.execute(fail('still down'))).rejects.toThrow('still down');
+    expect(breaker.state).toBe('open');
+
+    time.advance(1000);
+    let release = () => {};
+    const trial = breaker.execute(() => new Promise<string>(resolve => (release = () => resolve('ok'))));
+    expect(breaker.allowsRequest()).toBe(false);
+    await expect(breaker.execute(async () => 'concurrent')).rejects.toBeInstanceOf(CircuitOpenError);
+
+    release();
+    await expect(trial).resolves.toBe('ok');
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('classifies resolved calls and ignores errors that are not failures', async () => {
+    const breaker = new CircuitBreaker('feed', {
+      failureThreshold: 1,
+      isFailure: error => !(error instanceof Error && error.message === 'not found'),
+    });
+
+    await expect(breaker.execute(fail('not found'))).rejects.toThrow('not found');
+    expect(breaker.state).toBe('closed');
+
+    await breaker.execute(
+      async () => 502,
+      status => (status >= 500 ? `HTTP ${status}` : undefined)
+    );
+    expect(breaker.state).toBe('open');
+    expect(breaker.getHealth().last_failure?.reason).toBe('HTTP 502');
+  });
+
+  it('reports error rate and latency percentiles over the rolling window', async () => {
+    const time = clock();
+    const breaker = new CircuitBreaker('feed', { windowSize: 4 }, time.now);
+    const call = (latencyMs: number, ok = true) =>
+      breaker
+        .execute(async () => {
+          time.advance(latencyMs);
+          if (!ok) {
+            throw new Error('boom');
+          }
+        })
+        .catch(() => undefined);
+
+    await call(500);
+    for (const latency of [10, 20, 30]) {
+      await call(latency);
+    }
+    await call(40, false);
+
+    expect(breaker.getHealth()).toMatchObject({
+      state: 'closed',
+      calls: 4,
+      error_rate: 0.25,
+      latency_p50_ms: 20,
+      latency_p95_ms: 40,
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { ClientIpResolver, parseForwardedFor, parseForwardedHeader } from '../clientIp';
+
+const headersOf = (headers: Record<string, string>) => (name: string) => headers[name];
+
+describe('forwarding header parsing', () => {
+  it('reads for= parameters with quotes, brackets and ports', () => {
+    expect(
+      parseForwardedHeader('for=192.0.2.60;proto=http;by=203.0.113.43, For="[2001:db8:cafe::17]:4711", for=unknown')
+    ).toEqual(['192.0.2.60', '2001:db8:cafe::17', null]);
+    expect(parseForwardedFor('198.51.100.7:5000, ::ffff:10.0.0.2 ,')).toEqual(['198.51.100.7', '10.0.0.2']);
+  });
+});
+
+describe('ClientIpResolver', () => {
+  const resolver = new ClientIpResolver({ trustedProxies: ['10.0.0.0/8', '127.0.0.1'] });
+
+  it('ignores forwarding headers from untrusted peers', () => {
+    expect(resolver.resolve(headersOf({ 'x-forwarded-for': '1.2.3.4' }), '::ffff:198.51.100.20')).toEqual({
+      ip: '198.51.100.20',
+      source: 'socket',
+    });
+  });
+
+  it('takes the nearest untrusted hop so prepended addresses are ignored', () => {
+    const header = headersOf({ 'x-forwarded-for': '1.2.3.4, 203.0.113.9, 10.0.0.5' });
+
+    expect(resolver.resolve(header, '10.0.0.1')).toEqual({ ip: '203.0.113.9', source: 'x-forwarded-for' });
+    expect(resolver.resolve(headersOf({ 'x-forwarded-for': '10.0.0.9, 10.0.0.5' }), '10.0.0.1').ip).toBe('10.0.0.9');
+    expect(resolver.resolve(headersOf({ 'x-forwarded-for': 'garbage, 10.0.0.5' }), '10.0.0.1')).toEqual({
+      ip: '10.0.0.1',
+      source: 'socket',
+    });
+  });
+
+  it('follows header precedence and trusts the edge when no peer is given', () => {
+    const header = headersOf({
+      'x-real-ip': '198.51.100.1',
+      'cf-connecting-ip': '2001:db8::5',
+      forwarded: 'for=203.0.113.77',
+    });
+
+    const allHeaders = new ClientIpResolver({
+      trustedProxies: ['127.0.0.1'],
+      headers: ['forwarded', 'x-forwarded-for', 'cf-connecting-ip', 'true-client-ip', 'x-real-ip'],
+    });
+
+    expect(allHeaders.resolve(header, '127.0.0.1')).toEqual({ ip: '203.0.113.77', source: 'forwarded' });
+    expect(new ClientIpResolver({ trustedProxies: [], headers: ['cf-connecting-ip'] }).resolve(header)).toEqual({
+      ip: '2001:db8::5',
+      source: 'cf-connecting-ip',
+    });
+  });
+
+  it('ignores headers a proxy setting only X-Forwarded-For passes through from the client', () => {
+    const header = headersOf({
+      forwarded: 'for=127.0.0.1',
+      'x-real-ip': '127.0.0.1',
+      'x-forwarded-for': '203.0.113.7',
+    });
+
+    expect(resolver.resolve(header, '127.0.0.1')).toEqual({ ip: '203.0.113.7', source: 'x-forwarded-for' });
+  });
+});
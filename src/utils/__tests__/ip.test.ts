@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeIp, parseIp, reverseIpForDnsbl } from '../ip';
+
+describe('ip utilities', () => {
+  it('normalizes IPv4 and IPv6 to canonical form', () => {
+    expect(normalizeIp(' 8.8.8.8 ')).toBe('8.8.8.8');
+    expect(normalizeIp('2001:0DB8:0000:0000:0000:0000:0000:0001')).toBe('2001:db8::1');
+    expect(normalizeIp('[2001:db8::1]')).toBe('2001:db8::1');
+    expect(normalizeIp('fe80::1%eth0')).toBe('fe80::1');
+    expect(normalizeIp('2001:db8:0:1:0:0:0:1')).toBe('2001:db8:0:1::1');
+    expect(normalizeIp('::')).toBe('::');
+  });
+
+  it('unwraps IPv4-mapped IPv6 addresses', () => {
+    expect(normalizeIp('::ffff:192.0.2.1')).toBe('192.0.2.1');
+    expect(normalizeIp('::ffff:c000:201')).toBe('192.0.2.1');
+  });
+
+  it('rejects malformed addresses', () => {
+    for (const input of [
+      '',
+      'localhost',
+      '256.1.1.1',
+      '01.2.3.4',
+      '1.2.3',
+      '1::2::3',
+      '2001:db8::g',
+      '1:2:3:4:5:6:7:8:9',
+    ]) {
+      expect(parseIp(input)).toBeNull();
+    }
+  });
+
+  it('reverses addresses for DNSBL queries', () => {
+    expect(reverseIpForDnsbl('192.0.2.1')).toBe('1.2.0.192');
+    expect(reverseIpForDnsbl('2001:db8::1')).toBe('1.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.8.b.d.0.1.0.0.2');
+  });
+});
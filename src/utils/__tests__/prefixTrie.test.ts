@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { parseCidr, PrefixTrie } from '../prefixTrie';
+
+describe('PrefixTrie', () => {
+  it('returns the longest matching prefix', () => {
+    const trie = new PrefixTrie<string>();
+    trie.insert('10.0.0.0/8', 'wide');
+    trie.insert('10.1.0.0/16', 'narrow');
+    trie.insert('10.1.2.0/24', 'narrowest');
+    trie.insert('10.128.0.0/9', 'sibling');
+
+    expect(trie.lookup('10.1.2.3')).toEqual({ prefix: '10.1.2.0/24', value: 'narrowest' });
+    expect(trie.lookup('10.1.3.1')?.value).toBe('narrow');
+    expect(trie.lookup('10.200.0.1')?.value).toBe('sibling');
+    expect(trie.lookup('10.2.0.1')?.value).toBe('wide');
+    expect(trie.lookup('11.0.0.1')).toBeNull();
+    expect(trie.size).toBe(4);
+  });
+
+  it('handles prefixes inserted shortest-last and IPv6', () => {
+    const trie = new PrefixTrie<string>();
+    trie.insert('2001:db8:1::/48', 'site');
+    trie.insert('2001:db8::/32', 'documentation');
+    trie.insert('::ffff:0:0/96', 'unused');
+    trie.insert('0.0.0.0/0', 'default');
+
+    expect(trie.lookup('2001:db8:1::42')?.prefix).toBe('2001:db8:1::/48');
+    expect(trie.lookup('2001:db8:2::1')?.value).toBe('documentation');
+    expect(trie.lookup('::ffff:192.0.2.1')?.value).toBe('default');
+    expect(trie.lookup('2001:db9::1')).toBeNull();
+  });
+
+  it('merges duplicate prefixes and rejects malformed CIDRs', () => {
+    const trie = new PrefixTrie<number>();
+    trie.insert('192.0.2.0/24', 1);
+    trie.insert('192.0.2.0/24', 2, (existing, incoming) => existing + incoming);
+
+    expect(trie.lookup('192.0.2.9')?.value).toBe(3);
+    expect(trie.size).toBe(1);
+    expect(trie.insert('192.0.2.0/33', 1)).toBe(false);
+    expect(parseCidr('192.0.2.77/24')).toMatchObject({ length: 24, network: 0xc0000200n });
+    expect(parseCidr('2001:db8::/x')).toBeNull();
+  });
+});
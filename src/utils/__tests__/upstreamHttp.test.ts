@@ -0,0 +1,100 @@
+import { describe, expect, it, vi } from 'vitest';
+import { UpstreamHttp, parseRetryAfter, parseUpstreamPolicies, type UpstreamTransport } from '../upstreamHttp';
+
+const reply = (status: number, headers: Record<string, string> = {}) =>
+  new Response(`status ${status}`, { status, headers });
+
+const scripted = (...outcomes: Array<Response | Error>): UpstreamTransport => {
+  const queue = [...outcomes];
+  return vi.fn(async () => {
+    const next = queue.shift();
+    if (!next) {
+      throw new Error('no more scripted responses');
+    }
+    if (next instanceof Error) {
+      throw next;
+    }
+    return next;
+  });
+};
+
+describe('parseUpstreamPolicies', () => {
+  it('parses per-provider settings and drops unknown or invalid ones', () => {
+    expect(parseUpstreamPolicies('abuseipdb:timeoutMs=4000,retries=0; ipinfo:retries=2,bogus=1,backoffMs=-5')).toEqual({
+      abuseipdb: { timeoutMs: 4000, retries: 0 },
+      ipinfo: { retries: 2 },
+    });
+    expect(parseUpstreamPolicies(undefined)).toEqual({});
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('reads delay-seconds and HTTP dates', () => {
+    expect(parseRetryAfter('3')).toBe(3000);
+    expect(parseRetryAfter('Thu, 01 Jan 1970 00:00:10 GMT', 4000)).toBe(6000);
+    expect(parseRetryAfter('soon')).toBeUndefined();
+    expect(parseRetryAfter(null)).toBeUndefined();
+  });
+});
+
+describe('UpstreamHttp', () => {
+  it('retries network errors and 5xx with exponential backoff', async () => {
+    const sleep = vi.fn(async () => undefined);
+    const transport = scripted(new Error('ECONNRESET'), reply(503), reply(200));
+    const http = new UpstreamHttp({ transport, sleep, policies: { feed: { retries: 2, backoffMs: 50 } } });
+
+    const response = await http.request('feed', 'https://feed.example/check');
+
+    expect(response.status).toBe(200);
+    expect(transport).toHaveBeenCalledTimes(3);
+    expect(sleep.mock.calls).toEqual([[50], [100]]);
+    expect(http.getStatus().hosts['feed.example']).toMatchObject({
+      requests: 3,
+      retries: 2,
+      errors: 1,
+      in_flight: 0,
+      statuses: { '200': 1, '503': 1 },
+    });
+  });
+
+  it('waits for Retry-After, but returns the response when it asks for too long', async () => {
+    const sleep = vi.fn(async () => undefined);
+    const http = new UpstreamHttp({
+      transport: scripted(reply(429, { 'Retry-After': '2' }), reply(200), reply(429, { 'Retry-After': '3600' })),
+      sleep,
+      policies: { feed: { retries: 1, maxRetryAfterMs: 5000 } },
+    });
+
+    expect((await http.request('feed', 'https://feed.example/a')).status).toBe(200);
+    expect(sleep).toHaveBeenCalledWith(2000);
+
+    expect((await http.request('feed', 'https://feed.example/b')).status).toBe(429);
+    expect(sleep).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not retry client errors and reports them from json()', async () => {
+    const transport = scripted(reply(404));
+    const http = new UpstreamHttp({ transport, policies: { feed: { retries: 3 } } });
+
+    await expect(http.json('feed', 'https://feed.example/missing')).rejects.toThrow(/Request failed: 404/);
+    expect(transport).toHaveBeenCalledTimes(1);
+  });
+
+  it('queues requests beyond the global concurrency limit', async () => {
+    const releases: Array<() => void> = [];
+    const transport: UpstreamTransport = () => new Promise(resolve => releases.push(() => resolve(reply(200))));
+    const http = new UpstreamHttp({ transport, maxConcurrency: 1 });
+
+    const first = http.request('a', 'https://a.example/');
+    const second = http.request('b', 'https://b.example/');
+    await Promise.resolve();
+
+    expect(http.getStatus()).toMatchObject({ in_flight: 1, queued: 1 });
+    releases[0]();
+    await first;
+    await vi.waitFor(() => expect(releases).toHaveLength(2));
+    releases[1]();
+    await second;
+    expect(http.getStatus()).toMatchObject({ in_flight: 0, queued: 0 });
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { parseUserAgent } from '../userAgent';
+
+describe('parseUserAgent', () => {
+  it('tells Chromium browsers apart by their own tokens', () => {
+    const edge = parseUserAgent(
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36 Edg/131.0.2903.86'
+    );
+    const samsung = parseUserAgent(
+      'Mozilla/5.0 (Linux; Android 14; SM-S918B) AppleWebKit/537.36 (KHTML, like Gecko) SamsungBrowser/27.0 Chrome/125.0.0.0 Mobile Safari/537.36'
+    );
+
+    expect(edge).toEqual({
+      browser: { id: 'edge', name: 'Edge', version: '131.0.2903.86', major: 131 },
+      engine: { name: 'Blink', version: '131.0.0.0' },
+      os: { name: 'Windows', version: '10' },
+      device: 'desktop',
+    });
+    expect(samsung.browser).toMatchObject({ id: 'samsung', major: 27 });
+    expect(samsung.os).toEqual({ name: 'Android', version: '14' });
+    expect(samsung.device).toBe('mobile');
+  });
+
+  it('parses Firefox and desktop Safari', () => {
+    expect(
+      parseUserAgent('Mozilla/5.0 (Macintosh; Intel Mac OS X 10.15; rv:133.0) Gecko/20100101 Firefox/133.0')
+    ).toMatchObject({
+      browser: { id: 'firefox', major: 133 },
+      engine: { name: 'Gecko', version: '133.0' },
+      os: { name: 'macOS', version: '10.15' },
+    });
+    expect(
+      parseUserAgent(
+        'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/18.2 Safari/605.1.15'
+      )
+    ).toMatchObject({ browser: { id: 'safari', version: '18.2' }, engine: { name: 'WebKit' }, device: 'desktop' });
+  });
+
+  it('treats every iOS browser as WebKit and dates in-app browsers by the iOS release', () => {
+    const chromeIos = parseUserAgent(
+      'Mozilla/5.0 (iPad; CPU OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) CriOS/126.0.6478.54 Mobile/15E148 Safari/604.1'
+    );
+    const instagram = parseUserAgent(
+      'Mozilla/5.0 (iPhone; CPU iPhone OS 18_1 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Mobile/15E148 Instagram 356.0.0.29.91'
+    );
+
+    expect(chromeIos).toMatchObject({
+      browser: { id: 'chrome', major: 126 },
+      engine: { name: 'WebKit' },
+      os: { name: 'iOS', version: '17.5' },
+      device: 'tablet',
+    });
+    expect(instagram).toMatchObject({
+      browser: { id: 'safari', version: '18.1', major: 18 },
+      os: { name: 'iOS' },
+      device: 'mobile',
+      inApp: 'Instagram',
+    });
+  });
+
+  it('recognizes bots and User-Agents without a known browser', () => {
+    expect(parseUserAgent('Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)')).toEqual({
+      browser: null,
+      engine: null,
+      os: null,
+      device: 'bot',
+    });
+  });
+});
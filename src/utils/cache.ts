@@ -14,7 +14,7 @@ export class MemoryCache<T> implements CacheAdapter<T> {
     this.staleTtl = staleTtlMs;
     this.cache = new LRUCache<string, CacheEntry<T>>({
       max: maxSize,
-      ttl: staleTtlMs, // Use stale TTL for LRU eviction
+      ttl: staleTtlMs, // Default LRU eviction; set() passes each entry's own stale window
     });
   }
 
@@ -52,11 +52,15 @@ export class MemoryCache<T> implements CacheAdapter<T> {
     const staleWindow = staleTtlMs ?? this.staleTtl;
     const now = Date.now();
 
-    this.cache.set(key, {
-      data: value,
-      staleAt: now + freshTtl,
-      expiresAt: now + staleWindow,
-    });
+    this.cache.set(
+      key,
+      {
+        data: value,
+        staleAt: now + freshTtl,
+        expiresAt: now + staleWindow,
+      },
+      { ttl: staleWindow }
+    );
   }
 
   delete(key: string): void {
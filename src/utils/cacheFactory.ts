@@ -9,6 +9,9 @@ import type { CacheAdapter } from './cacheInterface';
 import { MemoryCache } from './cache';
 import { RedisCache } from './redisCache';
 import { CloudflareKVCache } from './cloudflareKVCache';
+import { MemoryQuotaStore, type QuotaStore } from './quotaStore';
+import { RedisQuotaStore } from './redisQuotaStore';
+import { CloudflareKVQuotaStore } from './cloudflareKVQuotaStore';
 import type { KVNamespace } from '@cloudflare/workers-types';
 
 /**
@@ -35,3 +38,25 @@ export function createCache<T>(name: string = 'default', kvNamespace?: KVNamespa
   logger.info({ name, backend: 'memory' }, 'Creating memory cache');
   return new MemoryCache<T>(config.CACHE_TTL_MS, config.CACHE_MAX_ITEMS, config.CACHE_STALE_TTL_MS);
 }
+
+/**
+ * Create the quota counter store on the same backend as the caches
+ * @param name - Store name for logging
+ * @param kvNamespace - Optional KV namespace for Cloudflare Workers
+ */
+export function createQuotaStore(name: string = 'quota', kvNamespace?: KVNamespace): QuotaStore {
+  const backend = config.CACHE_BACKEND;
+
+  if (backend === 'kv' && kvNamespace) {
+    logger.info({ name, backend: 'cloudflare-kv' }, 'Creating Cloudflare KV quota store');
+    return new CloudflareKVQuotaStore(kvNamespace);
+  }
+
+  if (backend === 'redis' && config.REDIS_URL) {
+    logger.info({ name, backend: 'redis' }, 'Creating Redis quota store');
+    return new RedisQuotaStore(config.REDIS_URL);
+  }
+
+  logger.info({ name, backend: 'memory' }, 'Creating memory quota store');
+  return new MemoryQuotaStore();
+}
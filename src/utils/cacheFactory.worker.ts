@@ -2,6 +2,8 @@ import { logger } from './logger';
 import type { CacheAdapter } from './cacheInterface';
 import { MemoryCache } from './cache';
 import { CloudflareKVCache } from './cloudflareKVCache';
+import { MemoryQuotaStore, type QuotaStore } from './quotaStore';
+import { CloudflareKVQuotaStore } from './cloudflareKVQuotaStore';
 import type { KVNamespace } from '@cloudflare/workers-types';
 
 export interface WorkerCacheOptions {
@@ -33,3 +35,17 @@ export function createCache<T>(
   logger.info({ name, backend: 'memory' }, 'Creating memory cache');
   return new MemoryCache<T>(ttl, maxItems, staleTtl);
 }
+
+export function createQuotaStore(
+  name: string = 'quota',
+  kvNamespace?: KVNamespace,
+  backend: WorkerCacheOptions['backend'] = 'memory'
+): QuotaStore {
+  if (backend === 'kv' && kvNamespace) {
+    logger.info({ name, backend: 'cloudflare-kv' }, 'Creating Cloudflare KV quota store');
+    return new CloudflareKVQuotaStore(kvNamespace);
+  }
+
+  logger.info({ name, backend: 'memory' }, 'Creating memory quota store');
+  return new MemoryQuotaStore();
+}
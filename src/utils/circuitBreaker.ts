@@ -0,0 +1,192 @@
+/**
+ * Circuit Breaker
+ * Tracks the outcome of real upstream calls and stops calling a provider
+ * that keeps failing. After a cool-down one trial call is let through
+ * (half-open); its outcome closes the circuit or opens it again.
+ *
+ * Runtime-neutral: used by the Node.js service and the Cloudflare Worker.
+ */
+
+import { latencyPercentiles } from './stats';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit */
+  failureThreshold?: number;
+  /** How long an open circuit rejects calls before a trial call */
+  cooldownMs?: number;
+  /** Number of recent calls error rate and latency are computed over */
+  windowSize?: number;
+  /** Which thrown errors count as failures; others are rethrown but count as answers. Defaults to all */
+  isFailure?: (error: unknown) => boolean;
+}
+
+export interface CircuitHealth {
+  state: CircuitState;
+  /** Calls in the rolling window */
+  calls: number;
+  /** Share of failed calls in the rolling window, 0-1 */
+  error_rate: number;
+  latency_p50_ms?: number;
+  latency_p95_ms?: number;
+  /** Calls refused while the circuit was open */
+  rejected: number;
+  last_failure?: { reason: string; at: string };
+  /** When an open circuit lets the next trial call through */
+  retry_at?: string;
+}
+
+interface CallSample {
+  ok: boolean;
+  latencyMs: number;
+}
+
+export const DEFAULT_CIRCUIT_FAILURE_THRESHOLD = 5;
+export const DEFAULT_CIRCUIT_COOLDOWN_MS = 30 * 1000;
+const DEFAULT_WINDOW_SIZE = 100;
+
+export class CircuitOpenError extends Error {
+  constructor(
+    readonly circuit: string,
+    readonly retryAt: number
+  ) {
+    super(`${circuit} circuit open; retrying after ${new Date(retryAt).toISOString()}`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+const errorMessage = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+export class CircuitBreaker {
+  private readonly failureThreshold: number;
+  private readonly cooldownMs: number;
+  private readonly windowSize: number;
+  private readonly isFailure: (error: unknown) => boolean;
+  private samples: CallSample[] = [];
+  private consecutiveFailures = 0;
+  private openedAt?: number;
+  private trialInFlight = false;
+  private rejected = 0;
+  private lastFailure?: { reason: string; at: number };
+
+  constructor(
+    readonly name: string,
+    options: CircuitBreakerOptions = {},
+    private readonly now: () => number = Date.now
+  ) {
+    this.failureThreshold = options.failureThreshold ?? DEFAULT_CIRCUIT_FAILURE_THRESHOLD;
+    this.cooldownMs = options.cooldownMs ?? DEFAULT_CIRCUIT_COOLDOWN_MS;
+    this.windowSize = options.windowSize ?? DEFAULT_WINDOW_SIZE;
+    this.isFailure = options.isFailure ?? (() => true);
+  }
+
+  /**
+   * An open circuit reads as half-open once its cool-down has passed
+   */
+  get state(): CircuitState {
+    if (this.openedAt === undefined) {
+      return 'closed';
+    }
+    return this.now() >= this.openedAt + this.cooldownMs ? 'half-open' : 'open';
+  }
+
+  /**
+   * Whether a call made now would reach upstream
+   */
+  allowsRequest(): boolean {
+    const state = this.state;
+    return state === 'closed' || (state === 'half-open' && !this.trialInFlight);
+  }
+
+  /**
+   * Run an upstream call through the breaker
+   *
+   * @param fn - The upstream call; a thrown error counts as a failure
+   * @param classify - Failure reason for a call that resolved but failed (e.g. HTTP 5xx)
+   * @throws CircuitOpenError without calling `fn` while the circuit is open
+   */
+  async execute<T>(fn: () => Promise<T>, classify?: (value: T) => string | undefined): Promise<T> {
+    if (!this.allowsRequest()) {
+      this.rejected++;
+      throw new CircuitOpenError(this.name, (this.openedAt ?? this.now()) + this.cooldownMs);
+    }
+
+    const trial = this.state === 'half-open';
+    if (trial) {
+      this.trialInFlight = true;
+    }
+    const startedAt = this.now();
+    try {
+      const value = await fn();
+      const failure = classify?.(value);
+      if (failure) {
+        this.recordFailure(this.now() - startedAt, failure);
+      } else {
+        this.recordSuccess(this.now() - startedAt);
+      }
+      return value;
+    } catch (error) {
+      if (this.isFailure(error)) {
+        this.recordFailure(this.now() - startedAt, errorMessage(error));
+      } else {
+        this.recordSuccess(this.now() - startedAt);
+      }
+      throw error;
+    } finally {
+      if (trial) {
+        this.trialInFlight = false;
+      }
+    }
+  }
+
+  getHealth(): CircuitHealth {
+    const failures = this.samples.filter(sample => !sample.ok).length;
+    const state = this.state;
+
+    return {
+      state,
+      calls: this.samples.length,
+      error_rate: this.samples.length > 0 ? Math.round((failures / this.samples.length) * 1000) / 1000 : 0,
+      ...latencyPercentiles(this.samples.map(sample => sample.latencyMs)),
+      rejected: this.rejected,
+      last_failure: this.lastFailure
+        ? { reason: this.lastFailure.reason, at: new Date(this.lastFailure.at).toISOString() }
+        : undefined,
+      retry_at:
+        state === 'open' && this.openedAt !== undefined
+          ? new Date(this.openedAt + this.cooldownMs).toISOString()
+          : undefined,
+    };
+  }
+
+  private recordSuccess(latencyMs: number): void {
+    this.record({ ok: true, latencyMs });
+    this.consecutiveFailures = 0;
+    this.openedAt = undefined;
+  }
+
+  private recordFailure(latencyMs: number, reason: string): void {
+    this.record({ ok: false, latencyMs });
+    this.consecutiveFailures++;
+    this.lastFailure = { reason, at: this.now() };
+    // A failed trial call re-opens the circuit straight away
+    if (this.openedAt !== undefined || this.consecutiveFailures >= this.failureThreshold) {
+      this.openedAt = this.now();
+    }
+  }
+
+  private record(sample: CallSample): void {
+    this.samples.push(sample);
+    if (this.samples.length > this.windowSize) {
+      this.samples.shift();
+    }
+  }
+}
+
+/**
+ * Classifier for `execute` treating 5xx responses as failures; 4xx answers
+ * (bad input, quota) say nothing about the provider's health
+ */
+export const serverErrorStatus = (response: Response): string | undefined =>
+  response.status >= 500 ? `HTTP ${response.status}` : undefined;
@@ -0,0 +1,150 @@
+/**
+ * Client IP Resolution
+ * Works out the address of the client behind any reverse proxies. Forwarding
+ * headers are only believed when the connection comes from a trusted proxy,
+ * and address chains are read right to left, stopping at the first hop that
+ * is not a trusted proxy, so a client cannot choose its own address by
+ * sending the headers itself.
+ *
+ * Runtime-neutral: callers pass a header reader and the peer address.
+ */
+
+import { normalizeIp } from './ip';
+import { PrefixTrie, parseCidr } from './prefixTrie';
+
+/** Forwarding headers understood, in default precedence order */
+export const CLIENT_IP_HEADERS = [
+  'forwarded',
+  'x-forwarded-for',
+  'cf-connecting-ip',
+  'true-client-ip',
+  'x-real-ip',
+] as const;
+
+export type ClientIpHeader = (typeof CLIENT_IP_HEADERS)[number];
+
+export const isClientIpHeader = (value: string): value is ClientIpHeader =>
+  (CLIENT_IP_HEADERS as readonly string[]).includes(value);
+
+export const DEFAULT_TRUSTED_PROXIES = ['127.0.0.0/8', '::1/128'];
+
+/**
+ * Headers read unless configured otherwise: the one a typical reverse proxy
+ * (nginx, HAProxy, a load balancer) sets. Headers it passes through untouched
+ * come from the client, so the others must be opted into.
+ */
+export const DEFAULT_CLIENT_IP_HEADERS: readonly ClientIpHeader[] = ['x-forwarded-for'];
+
+export interface ClientIpResolverOptions {
+  /** Proxies whose forwarding headers are believed, as CIDRs or bare addresses */
+  trustedProxies: string[];
+  /** Headers consulted, highest precedence first; list only headers your proxies set (default X-Forwarded-For) */
+  headers?: readonly ClientIpHeader[];
+}
+
+export interface ClientIpResolution {
+  /** Canonical client address; null when neither the peer nor a header gave a valid one */
+  ip: string | null;
+  /** Header the address was read from, or `socket` for the connecting peer */
+  source: ClientIpHeader | 'socket';
+}
+
+export type HeaderReader = (name: string) => string | null | undefined;
+
+/**
+ * Address of a forwarding hop, without quotes, brackets or port
+ * ("[2001:db8::1]:4711" → 2001:db8::1); null for `unknown` and obfuscated identifiers
+ */
+const hopAddress = (value: string): string | null => {
+  const hop = value.trim().replace(/^"(.*)"$/, '$1');
+  const bracketed = /^\[([^\]]+)\](?::\d+)?$/.exec(hop);
+  if (bracketed) {
+    return normalizeIp(bracketed[1]);
+  }
+  return normalizeIp(/^[\d.]+:\d+$/.test(hop) ? hop.slice(0, hop.lastIndexOf(':')) : hop);
+};
+
+/**
+ * `for=` addresses of an RFC 7239 `Forwarded` header, nearest hop last
+ */
+export const parseForwardedHeader = (value: string): Array<string | null> =>
+  value.split(',').flatMap(element => {
+    const forParam = element
+      .split(';')
+      .map(pair => pair.trim())
+      .find(pair => pair.toLowerCase().startsWith('for='));
+    return forParam ? [hopAddress(forParam.slice(4))] : [];
+  });
+
+/**
+ * Addresses of an `X-Forwarded-For` header, nearest hop last
+ */
+export const parseForwardedFor = (value: string): Array<string | null> =>
+  value
+    .split(',')
+    .filter(hop => hop.trim())
+    .map(hopAddress);
+
+export class ClientIpResolver {
+  private readonly trusted = new PrefixTrie<true>();
+  private readonly headers: readonly ClientIpHeader[];
+
+  constructor(options: ClientIpResolverOptions) {
+    for (const cidr of options.trustedProxies) {
+      if (parseCidr(cidr)) {
+        this.trusted.insert(cidr, true);
+      }
+    }
+    this.headers = options.headers ?? DEFAULT_CLIENT_IP_HEADERS;
+  }
+
+  isTrustedProxy(ip: string): boolean {
+    return this.trusted.lookup(ip) !== null;
+  }
+
+  /**
+   * Resolve the client address of a request
+   *
+   * @param header - Reads a request header by lower-case name
+   * @param peerAddress - Address of the connecting peer; omitted where the
+   *   platform terminates connections and sets the headers itself (Workers),
+   *   which makes the peer trusted
+   */
+  resolve(header: HeaderReader, peerAddress?: string): ClientIpResolution {
+    const peer = peerAddress === undefined ? null : normalizeIp(peerAddress);
+    if (peerAddress !== undefined && (!peer || !this.isTrustedProxy(peer))) {
+      return { ip: peer, source: 'socket' };
+    }
+
+    for (const name of this.headers) {
+      const value = header(name);
+      if (!value) {
+        continue;
+      }
+      const ip =
+        name === 'forwarded'
+          ? this.fromChain(parseForwardedHeader(value))
+          : name === 'x-forwarded-for'
+            ? this.fromChain(parseForwardedFor(value))
+            : normalizeIp(value.trim());
+      if (ip) {
+        return { ip, source: name };
+      }
+    }
+    return { ip: peer, source: 'socket' };
+  }
+
+  /**
+   * Nearest hop that is not a trusted proxy, or the origin when every hop is trusted
+   * An unreadable hop ends the walk: nothing before it can be vouched for.
+   */
+  private fromChain(hops: Array<string | null>): string | null {
+    for (let index = hops.length - 1; index >= 0; index -= 1) {
+      const hop = hops[index];
+      if (!hop || !this.isTrustedProxy(hop)) {
+        return hop;
+      }
+    }
+    return hops[0] ?? null;
+  }
+}
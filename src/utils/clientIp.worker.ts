@@ -0,0 +1,22 @@
+/**
+ * Client IP resolver (Cloudflare Worker)
+ * Cloudflare terminates every connection and sets `CF-Connecting-IP` itself,
+ * so the edge is the trusted peer and that header is read by default.
+ */
+
+import type { Env } from '../worker/types';
+import { ClientIpResolver, DEFAULT_TRUSTED_PROXIES, isClientIpHeader } from './clientIp';
+
+const parseList = (value: string): string[] =>
+  value
+    .split(',')
+    .map(entry => entry.trim().toLowerCase())
+    .filter(Boolean);
+
+export const createWorkerClientIpResolver = (env: Env): ClientIpResolver => {
+  const headers = env.CLIENT_IP_HEADERS ? parseList(env.CLIENT_IP_HEADERS).filter(isClientIpHeader) : [];
+  return new ClientIpResolver({
+    trustedProxies: env.TRUSTED_PROXIES !== undefined ? parseList(env.TRUSTED_PROXIES) : DEFAULT_TRUSTED_PROXIES,
+    headers: headers.length > 0 ? headers : ['cf-connecting-ip'],
+  });
+};
@@ -0,0 +1,61 @@
+/**
+ * Cloudflare Workers KV Quota Store
+ * A soft limit. KV has no atomic increment: `increment` reads, adds and writes
+ * back, so isolates counting at the same time overwrite each other's calls.
+ * Writes to one key are also limited to about one per second, and other
+ * locations see them up to 60 seconds late. Under concurrent load a budget
+ * can be overshot by roughly the number of calls in flight across the edge;
+ * AbuseIPDB's rate-limit headers pull the count back in line afterwards.
+ * Budgets that must hold exactly need an atomic store (Redis, or a Durable
+ * Object).
+ */
+
+import type { KVNamespace } from '@cloudflare/workers-types';
+import type { QuotaStore } from './quotaStore';
+import { logger } from './logger';
+
+/** KV rejects expirationTtl below 60 seconds */
+const MIN_KV_TTL_SECONDS = 60;
+
+interface KVCounter {
+  value: number;
+  expiresAt: number;
+}
+
+export class CloudflareKVQuotaStore implements QuotaStore {
+  constructor(private readonly kv: KVNamespace) {}
+
+  async get(key: string): Promise<number> {
+    return (await this.read(key))?.value ?? 0;
+  }
+
+  async increment(key: string, by: number, ttlMs: number): Promise<number> {
+    const existing = await this.read(key);
+    const counter = { value: (existing?.value ?? 0) + by, expiresAt: existing?.expiresAt ?? Date.now() + ttlMs };
+    await this.write(key, counter);
+    return counter.value;
+  }
+
+  async set(key: string, value: number, ttlMs: number): Promise<void> {
+    await this.write(key, { value, expiresAt: Date.now() + ttlMs });
+  }
+
+  private async read(key: string): Promise<KVCounter | null> {
+    try {
+      const counter = await this.kv.get<KVCounter>(key, { type: 'json' });
+      return counter && counter.expiresAt > Date.now() ? counter : null;
+    } catch (error) {
+      logger.warn({ err: error, key }, 'Cloudflare KV quota get failed');
+      return null;
+    }
+  }
+
+  private async write(key: string, counter: KVCounter): Promise<void> {
+    try {
+      const expirationTtl = Math.max(MIN_KV_TTL_SECONDS, Math.ceil((counter.expiresAt - Date.now()) / 1000));
+      await this.kv.put(key, JSON.stringify(counter), { expirationTtl });
+    } catch (error) {
+      logger.warn({ err: error, key }, 'Cloudflare KV quota put failed');
+    }
+  }
+}
@@ -0,0 +1,15 @@
+/**
+ * Upstream HTTP client (Cloudflare Worker)
+ * Workers pool outbound connections themselves, so this only layers the
+ * shared policies, concurrency limit and metrics over the runtime `fetch`.
+ */
+
+import type { Env } from '../worker/types';
+import { UpstreamHttp, parseUpstreamPolicies } from './upstreamHttp';
+
+export const createWorkerUpstreamHttp = (env: Env): UpstreamHttp =>
+  new UpstreamHttp({
+    maxConcurrency: Number(env.UPSTREAM_MAX_CONCURRENCY) || undefined,
+    defaultPolicy: { timeoutMs: Number(env.CLIENT_TIMEOUT_MS) || undefined },
+    policies: parseUpstreamPolicies(env.UPSTREAM_POLICIES),
+  });
@@ -0,0 +1,206 @@
+/**
+ * IP Address Utilities
+ * Shared IPv4/IPv6 parsing, canonical formatting and DNSBL query helpers.
+ * Pure functions only, so both the Node server and the Worker can use them.
+ */
+
+export type IpVersion = 4 | 6;
+
+export interface ParsedIp {
+  version: IpVersion;
+  /** Address as an unsigned integer (32 bits for IPv4, 128 bits for IPv6) */
+  value: bigint;
+}
+
+/** Upper 96 bits of an IPv4-mapped IPv6 address (::ffff:0:0/96) */
+const IPV4_MAPPED_HIGH_BITS = 0xffffn;
+
+const parseIpv4 = (input: string): bigint | null => {
+  const parts = input.split('.');
+  if (parts.length !== 4) {
+    return null;
+  }
+  let value = 0n;
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part) || (part.length > 1 && part.startsWith('0'))) {
+      return null;
+    }
+    const octet = Number(part);
+    if (octet > 255) {
+      return null;
+    }
+    value = (value << 8n) | BigInt(octet);
+  }
+  return value;
+};
+
+const parseIpv6 = (input: string): bigint | null => {
+  let address = input;
+  let tail: bigint[] = [];
+
+  // Embedded IPv4 in the last 32 bits (e.g. ::ffff:192.0.2.1)
+  const lastColon = address.lastIndexOf(':');
+  if (address.includes('.')) {
+    const ipv4 = parseIpv4(address.slice(lastColon + 1));
+    if (ipv4 === null) {
+      return null;
+    }
+    tail = [ipv4 >> 16n, ipv4 & 0xffffn];
+    const prefix = address.slice(0, lastColon + 1);
+    address = prefix.endsWith('::') ? prefix : prefix.slice(0, -1);
+  }
+
+  const doubleColon = address.split('::');
+  if (doubleColon.length > 2) {
+    return null;
+  }
+
+  const parseGroups = (segment: string): bigint[] | null => {
+    if (segment === '') {
+      return [];
+    }
+    const groups: bigint[] = [];
+    for (const group of segment.split(':')) {
+      if (!/^[0-9a-f]{1,4}$/i.test(group)) {
+        return null;
+      }
+      groups.push(BigInt(`0x${group}`));
+    }
+    return groups;
+  };
+
+  const head = parseGroups(doubleColon[0]);
+  const rest = doubleColon.length === 2 ? parseGroups(doubleColon[1]) : [];
+  if (!head || !rest) {
+    return null;
+  }
+
+  const explicit = head.length + rest.length + tail.length;
+  let groups: bigint[];
+  if (doubleColon.length === 2) {
+    if (explicit > 7) {
+      return null;
+    }
+    groups = [...head, ...new Array<bigint>(8 - explicit).fill(0n), ...rest, ...tail];
+  } else {
+    if (explicit !== 8) {
+      return null;
+    }
+    groups = [...head, ...tail];
+  }
+
+  return groups.reduce((acc, group) => (acc << 16n) | group, 0n);
+};
+
+/**
+ * Parse an IPv4 or IPv6 address
+ * Accepts bracketed IPv6 (`[::1]`) and strips zone identifiers (`fe80::1%eth0`).
+ */
+export const parseIp = (input: string | null | undefined): ParsedIp | null => {
+  if (!input) {
+    return null;
+  }
+  let address = input.trim();
+  if (address.startsWith('[') && address.endsWith(']')) {
+    address = address.slice(1, -1);
+  }
+  const zoneIndex = address.indexOf('%');
+  if (zoneIndex !== -1) {
+    address = address.slice(0, zoneIndex);
+  }
+
+  if (!address.includes(':')) {
+    const value = parseIpv4(address);
+    return value === null ? null : { version: 4, value };
+  }
+
+  const value = parseIpv6(address);
+  return value === null ? null : { version: 6, value };
+};
+
+/**
+ * Convert IPv4-mapped IPv6 addresses (::ffff:a.b.c.d) to plain IPv4
+ */
+export const unwrapIpv4Mapped = (parsed: ParsedIp): ParsedIp => {
+  if (parsed.version === 6 && parsed.value >> 32n === IPV4_MAPPED_HIGH_BITS) {
+    return { version: 4, value: parsed.value & 0xffffffffn };
+  }
+  return parsed;
+};
+
+const formatIpv4 = (value: bigint): string =>
+  [24n, 16n, 8n, 0n].map(shift => Number((value >> shift) & 0xffn)).join('.');
+
+/**
+ * RFC 5952 text form: lowercase, no leading zeros, longest zero run compressed
+ */
+const formatIpv6 = (value: bigint): string => {
+  const groups = Array.from({ length: 8 }, (_, i) => Number((value >> BigInt((7 - i) * 16)) & 0xffffn));
+
+  let bestStart = -1;
+  let bestLength = 0;
+  for (let i = 0; i < 8; ) {
+    if (groups[i] !== 0) {
+      i++;
+      continue;
+    }
+    let j = i;
+    while (j < 8 && groups[j] === 0) j++;
+    if (j - i > bestLength && j - i >= 2) {
+      bestStart = i;
+      bestLength = j - i;
+    }
+    i = j;
+  }
+
+  const hex = groups.map(group => group.toString(16));
+  if (bestStart === -1) {
+    return hex.join(':');
+  }
+  const head = hex.slice(0, bestStart).join(':');
+  const tail = hex.slice(bestStart + bestLength).join(':');
+  return `${head}::${tail}`;
+};
+
+export const formatIp = (parsed: ParsedIp): string =>
+  parsed.version === 4 ? formatIpv4(parsed.value) : formatIpv6(parsed.value);
+
+/**
+ * Canonical form used for validation, lookups and cache keys
+ * IPv4-mapped IPv6 addresses (as reported by `req.ip` on dual-stack sockets)
+ * are unwrapped to IPv4. Returns null for anything that is not an IP.
+ */
+export const normalizeIp = (input: string | null | undefined): string | null => {
+  const parsed = parseIp(input);
+  return parsed ? formatIp(unwrapIpv4Mapped(parsed)) : null;
+};
+
+export const isValidIp = (input: string | null | undefined): boolean => parseIp(input) !== null;
+
+/**
+ * Reverse an address for DNSBL queries
+ * IPv4 reverses the octets (192.0.2.1 → 1.2.0.192); IPv6 reverses all 32
+ * nibbles (2001:db8::1 → 1.0.0.0.…8.b.d.0.1.0.0.2) as used by ip6.arpa-style zones.
+ */
+export const reverseIpForDnsbl = (input: string): string | null => {
+  const parsed = parseIp(input);
+  if (!parsed) {
+    return null;
+  }
+  const { version, value } = unwrapIpv4Mapped(parsed);
+  if (version === 4) {
+    return formatIpv4(value).split('.').reverse().join('.');
+  }
+  return value.toString(16).padStart(32, '0').split('').reverse().join('.');
+};
+
+/**
+ * PTR query name for an address (192.0.2.1 → 1.2.0.192.in-addr.arpa)
+ */
+export const reverseDnsName = (input: string): string | null => {
+  const reversed = reverseIpForDnsbl(input);
+  if (!reversed) {
+    return null;
+  }
+  return `${reversed}.${reversed.split('.').length === 4 ? 'in-addr' : 'ip6'}.arpa`;
+};
@@ -1,5 +1,7 @@
 /* eslint-disable no-console */
 
+import { formatIp, normalizeIp, parseIp } from './ip';
+
 type LogLevel = 'debug' | 'info' | 'warn' | 'error';
 type LogMeta = Record<string, unknown>;
 
@@ -44,9 +46,17 @@ export const logger = {
 
 export const redactIp = (ip: string | null | undefined): string | undefined => {
   if (!ip) return undefined;
-  const [major, minor = 'x', ...rest] = ip.split('.');
-  if (rest.length) {
+  const canonical = normalizeIp(ip);
+  if (!canonical) {
+    return ip.slice(0, Math.max(0, ip.length - 4)) + '****';
+  }
+  if (!canonical.includes(':')) {
+    const [major, minor] = canonical.split('.');
     return `${major}.${minor}.x.x`;
   }
-  return ip.slice(0, Math.max(0, ip.length - 4)) + '****';
+  // Keep the /48 routing prefix, drop subnet and interface identifier
+  const parsed = parseIp(canonical)!;
+  const prefix = formatIp({ version: 6, value: (parsed.value >> 80n) << 80n });
+  const head = prefix.replace(/::$/, '');
+  return head ? `${head}:****` : '::****';
 };
@@ -0,0 +1,187 @@
+/**
+ * Prefix Trie
+ * Path-compressed binary radix tree for IPv4/IPv6 longest-prefix matching.
+ * Each address family has its own tree; nodes only exist where prefixes
+ * branch, so large range lists stay compact.
+ */
+
+import { formatIp, parseIp, unwrapIpv4Mapped, type IpVersion } from './ip';
+
+export interface ParsedCidr {
+  version: IpVersion;
+  /** Network address with host bits cleared */
+  network: bigint;
+  length: number;
+}
+
+export interface PrefixMatch<T> {
+  /** Matching prefix in CIDR notation */
+  prefix: string;
+  value: T;
+}
+
+interface TrieNode<T> {
+  bits: bigint;
+  length: number;
+  value?: T;
+  children: [TrieNode<T>?, TrieNode<T>?];
+}
+
+const WIDTH: Record<IpVersion, number> = { 4: 32, 6: 128 };
+
+const mask = (value: bigint, length: number, width: number): bigint =>
+  length === 0 ? 0n : (value >> BigInt(width - length)) << BigInt(width - length);
+
+const bitAt = (value: bigint, index: number, width: number): 0 | 1 =>
+  ((value >> BigInt(width - 1 - index)) & 1n) === 1n ? 1 : 0;
+
+const commonPrefixLength = (a: bigint, b: bigint, maxLength: number, width: number): number => {
+  const diff = a ^ b;
+  if (diff === 0n) {
+    return maxLength;
+  }
+  return Math.min(width - diff.toString(2).length, maxLength);
+};
+
+/**
+ * Parse `192.0.2.0/24` or `2001:db8::/32`; a bare address is a host route
+ */
+export const parseCidr = (cidr: string): ParsedCidr | null => {
+  const [address, lengthPart, extra] = cidr.trim().split('/');
+  if (extra !== undefined) {
+    return null;
+  }
+  const parsed = parseIp(address);
+  if (!parsed) {
+    return null;
+  }
+  if (lengthPart !== undefined && !/^\d{1,3}$/.test(lengthPart)) {
+    return null;
+  }
+  const width = WIDTH[parsed.version];
+  const length = lengthPart === undefined ? width : Number(lengthPart);
+  if (length > width) {
+    return null;
+  }
+  return { version: parsed.version, network: mask(parsed.value, length, width), length };
+};
+
+export const formatCidr = ({ version, network, length }: ParsedCidr): string =>
+  `${formatIp({ version, value: network })}/${length}`;
+
+export class PrefixTrie<T> {
+  private readonly roots: Record<IpVersion, TrieNode<T>> = {
+    4: { bits: 0n, length: 0, children: [] },
+    6: { bits: 0n, length: 0, children: [] },
+  };
+  private count = 0;
+
+  get size(): number {
+    return this.count;
+  }
+
+  /**
+   * Add a prefix
+   *
+   * @param merge - Resolves a prefix inserted twice; defaults to keeping the newer value
+   * @returns false when the CIDR is malformed
+   */
+  insert(cidr: string | ParsedCidr, value: T, merge?: (existing: T, incoming: T) => T): boolean {
+    const parsed = typeof cidr === 'string' ? parseCidr(cidr) : cidr;
+    if (!parsed) {
+      return false;
+    }
+    const { version, network, length } = parsed;
+    const width = WIDTH[version];
+    let node = this.roots[version];
+
+    for (;;) {
+      if (node.length === length) {
+        if (node.value === undefined) {
+          this.count++;
+          node.value = value;
+        } else {
+          node.value = merge ? merge(node.value, value) : value;
+        }
+        return true;
+      }
+
+      const direction = bitAt(network, node.length, width);
+      const child = node.children[direction];
+      if (!child) {
+        node.children[direction] = { bits: network, length, value, children: [] };
+        this.count++;
+        return true;
+      }
+
+      const shared = commonPrefixLength(child.bits, network, Math.min(child.length, length), width);
+      if (shared === child.length) {
+        node = child;
+        continue;
+      }
+
+      if (shared === length) {
+        // New prefix sits between node and child
+        const inserted: TrieNode<T> = { bits: network, length, value, children: [] };
+        inserted.children[bitAt(child.bits, length, width)] = child;
+        node.children[direction] = inserted;
+      } else {
+        const branch: TrieNode<T> = { bits: mask(network, shared, width), length: shared, children: [] };
+        branch.children[bitAt(network, shared, width)] = { bits: network, length, value, children: [] };
+        branch.children[bitAt(child.bits, shared, width)] = child;
+        node.children[direction] = branch;
+      }
+      this.count++;
+      return true;
+    }
+  }
+
+  /**
+   * Most specific prefix containing the address (IPv4-mapped IPv6 is matched as IPv4)
+   */
+  lookup(ip: string): PrefixMatch<T> | null {
+    const parsed = parseIp(ip);
+    if (!parsed) {
+      return null;
+    }
+    const { version, value: address } = unwrapIpv4Mapped(parsed);
+    const width = WIDTH[version];
+    let node = this.roots[version];
+    let best: TrieNode<T> | null = node.value !== undefined ? node : null;
+
+    while (node.length < width) {
+      const child = node.children[bitAt(address, node.length, width)];
+      if (!child || mask(address, child.length, width) !== child.bits) {
+        break;
+      }
+      if (child.value !== undefined) {
+        best = child;
+      }
+      node = child;
+    }
+
+    return best
+      ? { prefix: formatCidr({ version, network: best.bits, length: best.length }), value: best.value as T }
+      : null;
+  }
+
+  /**
+   * Every stored prefix, IPv4 first, in address order
+   */
+  *entries(): Generator<PrefixMatch<T>> {
+    for (const version of [4, 6] as const) {
+      const stack: TrieNode<T>[] = [this.roots[version]];
+      while (stack.length > 0) {
+        const node = stack.pop()!;
+        if (node.value !== undefined) {
+          yield { prefix: formatCidr({ version, network: node.bits, length: node.length }), value: node.value };
+        }
+        for (const child of [node.children[1], node.children[0]]) {
+          if (child) {
+            stack.push(child);
+          }
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Quota Store Interface
+ * Counters behind the quota ledger; backends mirror the cache backends
+ * (Memory, Redis, Cloudflare KV). Failing stores log and fail open.
+ */
+
+export interface QuotaStore {
+  get(key: string): Promise<number>;
+  /**
+   * Add to a counter, creating it with the given lifetime
+   * @returns The new value
+   */
+  increment(key: string, by: number, ttlMs: number): Promise<number>;
+  set(key: string, value: number, ttlMs: number): Promise<void>;
+}
+
+/**
+ * Memory-based quota store for single-instance deployments
+ */
+export class MemoryQuotaStore implements QuotaStore {
+  private counters = new Map<string, { value: number; expiresAt: number }>();
+
+  async get(key: string): Promise<number> {
+    return this.read(key)?.value ?? 0;
+  }
+
+  async increment(key: string, by: number, ttlMs: number): Promise<number> {
+    const existing = this.read(key);
+    if (!existing) {
+      this.sweep();
+    }
+    const value = (existing?.value ?? 0) + by;
+    this.counters.set(key, { value, expiresAt: existing?.expiresAt ?? Date.now() + ttlMs });
+    return value;
+  }
+
+  async set(key: string, value: number, ttlMs: number): Promise<void> {
+    this.counters.set(key, { value, expiresAt: Date.now() + ttlMs });
+  }
+
+  /**
+   * Drop counters from past windows, which are never read again
+   */
+  private sweep(): void {
+    const now = Date.now();
+    for (const [key, counter] of this.counters) {
+      if (counter.expiresAt <= now) {
+        this.counters.delete(key);
+      }
+    }
+  }
+
+  private read(key: string): { value: number; expiresAt: number } | undefined {
+    const counter = this.counters.get(key);
+    if (counter && counter.expiresAt <= Date.now()) {
+      this.counters.delete(key);
+      return undefined;
+    }
+    return counter;
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * Redis Quota Store
+ * Shares quota counters across instances; increments are atomic.
+ */
+
+import Redis from 'ioredis';
+import type { QuotaStore } from './quotaStore';
+import { logger } from './logger';
+
+export class RedisQuotaStore implements QuotaStore {
+  private client: Redis;
+
+  constructor(redisUrl: string) {
+    this.client = new Redis(redisUrl, {
+      maxRetriesPerRequest: 3,
+      retryStrategy: (times: number) => Math.min(times * 50, 2000),
+      lazyConnect: true,
+    });
+
+    this.client.on('error', error => {
+      logger.error({ err: error }, 'Redis quota store connection error');
+    });
+
+    this.client.connect().catch(error => {
+      logger.error({ err: error }, 'Failed to connect quota store to Redis');
+    });
+  }
+
+  async get(key: string): Promise<number> {
+    try {
+      return Number(await this.client.get(key)) || 0;
+    } catch (error) {
+      logger.warn({ err: error, key }, 'Redis quota get failed');
+      return 0;
+    }
+  }
+
+  async increment(key: string, by: number, ttlMs: number): Promise<number> {
+    try {
+      const value = await this.client.incrby(key, by);
+      // A counter without an expiry was just created; existing windows keep theirs
+      if ((await this.client.pttl(key)) === -1) {
+        await this.client.pexpire(key, ttlMs);
+      }
+      return value;
+    } catch (error) {
+      logger.warn({ err: error, key }, 'Redis quota increment failed');
+      return 0;
+    }
+  }
+
+  async set(key: string, value: number, ttlMs: number): Promise<void> {
+    try {
+      await this.client.set(key, value, 'PX', ttlMs);
+    } catch (error) {
+      logger.warn({ err: error, key }, 'Redis quota set failed');
+    }
+  }
+
+  /**
+   * Close Redis connection
+   */
+  async disconnect(): Promise<void> {
+    await this.client.quit();
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * Small statistics helpers for rolling health and latency windows
+ */
+
+/**
+ * Nearest-rank percentile of an ascending list
+ */
+export const percentile = (sorted: number[], p: number): number =>
+  sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1))];
+
+/**
+ * p50 and p95 of a latency sample, omitted while there are no samples
+ */
+export const latencyPercentiles = (samples: number[]): { latency_p50_ms?: number; latency_p95_ms?: number } => {
+  if (samples.length === 0) {
+    return {};
+  }
+  const sorted = [...samples].sort((a, b) => a - b);
+  return { latency_p50_ms: percentile(sorted, 50), latency_p95_ms: percentile(sorted, 95) };
+};
@@ -0,0 +1,322 @@
+/**
+ * Upstream HTTP
+ * The single request path for every upstream provider: per-provider timeout,
+ * retry and backoff policies, `Retry-After` handling, a global concurrency
+ * limit and per-host metrics.
+ *
+ * Runtime-neutral: the transport is injected. The Node.js service sends
+ * through undici keep-alive pools (`httpClient.ts`); the Worker uses the
+ * runtime `fetch` (`httpClient.worker.ts`).
+ */
+
+import { logger } from './logger';
+import { latencyPercentiles } from './stats';
+
+export interface UpstreamPolicy {
+  /** Time allowed until response headers arrive, per attempt */
+  timeoutMs: number;
+  /** Attempts after the first; only network errors, timeouts, 429 and 5xx are retried */
+  retries: number;
+  /** Delay before the first retry; doubles on each further retry */
+  backoffMs: number;
+  maxBackoffMs: number;
+  /** Longest `Retry-After` waited for; a longer one returns the response as is */
+  maxRetryAfterMs: number;
+}
+
+export type UpstreamTransport = (url: string, init: RequestInit) => Promise<Response>;
+
+export interface UpstreamRequestInit extends RequestInit {
+  /** Overrides the provider policy's timeout for this request */
+  timeoutMs?: number;
+}
+
+export interface UpstreamHttpOptions {
+  /** Sends one attempt; defaults to the global `fetch` */
+  transport?: UpstreamTransport;
+  /** Attempts in flight across all providers; further attempts queue */
+  maxConcurrency?: number;
+  /** Applied to every provider, over the built-in defaults */
+  defaultPolicy?: Partial<UpstreamPolicy>;
+  /** Per-provider overrides, over `DEFAULT_UPSTREAM_POLICIES` */
+  policies?: Record<string, Partial<UpstreamPolicy>>;
+  sleep?: (ms: number) => Promise<void>;
+  now?: () => number;
+}
+
+export interface UpstreamHostMetrics {
+  /** Attempts sent, retries included */
+  requests: number;
+  retries: number;
+  /** Attempts that failed without a response (network errors, timeouts) */
+  errors: number;
+  in_flight: number;
+  /** Responses by status code */
+  statuses: Record<string, number>;
+  latency_p50_ms?: number;
+  latency_p95_ms?: number;
+}
+
+export interface UpstreamHttpStatus {
+  max_concurrency: number;
+  in_flight: number;
+  queued: number;
+  hosts: Record<string, UpstreamHostMetrics>;
+}
+
+interface HostStats {
+  requests: number;
+  retries: number;
+  errors: number;
+  inFlight: number;
+  statuses: Record<string, number>;
+  latencies: number[];
+}
+
+export const DEFAULT_UPSTREAM_MAX_CONCURRENCY = 32;
+
+const BASE_POLICY: UpstreamPolicy = {
+  timeoutMs: 2500,
+  retries: 2,
+  backoffMs: 100,
+  maxBackoffMs: 2000,
+  maxRetryAfterMs: 5000,
+};
+
+/**
+ * Built-in per-provider policies, keyed by the provider names clients pass
+ */
+export const DEFAULT_UPSTREAM_POLICIES: Record<string, Partial<UpstreamPolicy>> = {
+  ipinfo: { retries: 3 },
+  radar: { retries: 3 },
+  'radar-asn': { timeoutMs: 5000, retries: 1 },
+  // Every attempt counts against the daily quota, so failures are not retried
+  abuseipdb: { timeoutMs: 5000, retries: 0 },
+  // Timeouts come from DNSBL_TIMEOUT_MS, passed per query
+  doh: { retries: 1 },
+  // Registries are slow and some redirect to one another
+  rdap: { timeoutMs: 5000, retries: 1 },
+};
+
+const POLICY_KEYS: Record<keyof UpstreamPolicy, true> = {
+  timeoutMs: true,
+  retries: true,
+  backoffMs: true,
+  maxBackoffMs: true,
+  maxRetryAfterMs: true,
+};
+
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+const LATENCY_WINDOW = 100;
+
+const defaultSleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+const definedOnly = (policy: Partial<UpstreamPolicy> = {}): Partial<UpstreamPolicy> =>
+  Object.fromEntries(Object.entries(policy).filter(([, value]) => value !== undefined));
+
+const hostOf = (url: string): string => {
+  try {
+    return new URL(url).host;
+  } catch {
+    return 'invalid';
+  }
+};
+
+/**
+ * Parse a policy spec such as `abuseipdb:timeoutMs=4000,retries=0;ipinfo:retries=2`
+ */
+export const parseUpstreamPolicies = (value: string | undefined): Record<string, Partial<UpstreamPolicy>> => {
+  const policies: Record<string, Partial<UpstreamPolicy>> = {};
+  for (const entry of value?.split(';') ?? []) {
+    const [provider, settings] = entry.split(':').map(part => part.trim());
+    if (!provider || !settings) {
+      continue;
+    }
+    const policy: Partial<UpstreamPolicy> = {};
+    for (const setting of settings.split(',')) {
+      const [key, raw] = setting.split('=').map(part => part.trim());
+      const number = Number(raw);
+      if (!Object.hasOwn(POLICY_KEYS, key) || !raw || !Number.isInteger(number) || number < 0) {
+        logger.warn({ provider, setting }, 'Ignoring invalid upstream policy setting');
+        continue;
+      }
+      policy[key as keyof UpstreamPolicy] = number;
+    }
+    policies[provider] = policy;
+  }
+  return policies;
+};
+
+/**
+ * Milliseconds to wait from a `Retry-After` header (delay-seconds or HTTP date)
+ */
+export const parseRetryAfter = (value: string | null, now: number = Date.now()): number | undefined => {
+  if (!value) {
+    return undefined;
+  }
+  if (/^\d+$/.test(value.trim())) {
+    return Number(value.trim()) * 1000;
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+};
+
+export class UpstreamHttp {
+  private readonly transport: UpstreamTransport;
+  private readonly maxConcurrency: number;
+  private readonly defaultPolicy: UpstreamPolicy;
+  private readonly policies: Record<string, Partial<UpstreamPolicy>>;
+  private readonly sleep: (ms: number) => Promise<void>;
+  private readonly now: () => number;
+  private readonly hosts = new Map<string, HostStats>();
+  private readonly queue: Array<() => void> = [];
+  private active = 0;
+
+  constructor(options: UpstreamHttpOptions = {}) {
+    // Late-bound so a replaced global fetch is picked up
+    this.transport = options.transport ?? ((url, init) => fetch(url, init));
+    this.maxConcurrency = options.maxConcurrency ?? DEFAULT_UPSTREAM_MAX_CONCURRENCY;
+    this.defaultPolicy = { ...BASE_POLICY, ...definedOnly(options.defaultPolicy) };
+    this.policies = { ...DEFAULT_UPSTREAM_POLICIES };
+    for (const [provider, policy] of Object.entries(options.policies ?? {})) {
+      this.policies[provider] = { ...this.policies[provider], ...definedOnly(policy) };
+    }
+    this.sleep = options.sleep ?? defaultSleep;
+    this.now = options.now ?? Date.now;
+  }
+
+  policyFor(provider: string): UpstreamPolicy {
+    return { ...this.defaultPolicy, ...this.policies[provider] };
+  }
+
+  /**
+   * Send a request under the provider's policy
+   * Retryable statuses are retried until the policy runs out; the last
+   * response is returned whatever its status.
+   *
+   * @throws The last network error or timeout (an `AbortError`)
+   */
+  async request(provider: string, url: string, init: UpstreamRequestInit = {}): Promise<Response> {
+    const { timeoutMs, ...fetchInit } = init;
+    const policy = this.policyFor(provider);
+    const stats = this.statsFor(hostOf(url));
+
+    for (let attempt = 0; ; attempt++) {
+      const isLastAttempt = attempt >= policy.retries;
+      let delay: number;
+
+      try {
+        const response = await this.attempt(stats, url, fetchInit, timeoutMs ?? policy.timeoutMs);
+        if (isLastAttempt || !RETRYABLE_STATUSES.has(response.status)) {
+          return response;
+        }
+        const retryAfter = parseRetryAfter(response.headers.get('Retry-After'), this.now());
+        if (retryAfter !== undefined && retryAfter > policy.maxRetryAfterMs) {
+          return response;
+        }
+        delay = retryAfter ?? this.backoff(policy, attempt);
+        // Release the connection before waiting
+        await response.body?.cancel().catch(() => undefined);
+        logger.debug({ provider, status: response.status, attempt, delay }, 'Retrying upstream request');
+      } catch (error) {
+        if (isLastAttempt) {
+          throw error;
+        }
+        delay = this.backoff(policy, attempt);
+        logger.debug({ provider, err: error, attempt, delay }, 'Retrying upstream request');
+      }
+
+      stats.retries++;
+      await this.sleep(delay);
+    }
+  }
+
+  /**
+   * Send a request and parse a JSON body
+   *
+   * @throws Error "Request failed: <status> ..." for non-2xx responses
+   */
+  async json<T>(provider: string, url: string, init?: UpstreamRequestInit): Promise<T> {
+    const response = await this.request(provider, url, init);
+    if (!response.ok) {
+      const text = await response.text();
+      throw new Error(`Request failed: ${response.status} ${response.statusText} - ${text}`);
+    }
+    if (response.status === 204) {
+      return {} as T;
+    }
+    return (await response.json()) as T;
+  }
+
+  getStatus(): UpstreamHttpStatus {
+    const hosts: Record<string, UpstreamHostMetrics> = {};
+    for (const [host, stats] of this.hosts) {
+      hosts[host] = {
+        requests: stats.requests,
+        retries: stats.retries,
+        errors: stats.errors,
+        in_flight: stats.inFlight,
+        statuses: { ...stats.statuses },
+        ...latencyPercentiles(stats.latencies),
+      };
+    }
+    return { max_concurrency: this.maxConcurrency, in_flight: this.active, queued: this.queue.length, hosts };
+  }
+
+  private async attempt(stats: HostStats, url: string, init: RequestInit, timeoutMs: number): Promise<Response> {
+    await this.acquire();
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+    const startedAt = this.now();
+    stats.requests++;
+    stats.inFlight++;
+
+    try {
+      const response = await this.transport(url, { ...init, signal: controller.signal });
+      stats.statuses[response.status] = (stats.statuses[response.status] ?? 0) + 1;
+      return response;
+    } catch (error) {
+      stats.errors++;
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+      stats.inFlight--;
+      stats.latencies.push(this.now() - startedAt);
+      if (stats.latencies.length > LATENCY_WINDOW) {
+        stats.latencies.shift();
+      }
+      this.release();
+    }
+  }
+
+  private backoff(policy: UpstreamPolicy, attempt: number): number {
+    return Math.min(policy.maxBackoffMs, policy.backoffMs * 2 ** attempt);
+  }
+
+  private statsFor(host: string): HostStats {
+    let stats = this.hosts.get(host);
+    if (!stats) {
+      stats = { requests: 0, retries: 0, errors: 0, inFlight: 0, statuses: {}, latencies: [] };
+      this.hosts.set(host, stats);
+    }
+    return stats;
+  }
+
+  private async acquire(): Promise<void> {
+    if (this.active < this.maxConcurrency) {
+      this.active++;
+      return;
+    }
+    // release() hands its slot straight to the next waiter
+    await new Promise<void>(resolve => this.queue.push(resolve));
+  }
+
+  private release(): void {
+    const next = this.queue.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * User-Agent Parsing
+ * Extracts the browser, engine, operating system and device class a
+ * User-Agent string claims. Only what the browser evaluators need: the
+ * browsers on the release calendar, their engines, and the in-app browsers
+ * that wrap them.
+ */
+
+import type { BrowserId, DeviceClass, ParsedUserAgent } from '../types/browser';
+
+export const BROWSER_NAMES: Record<BrowserId, string> = {
+  chrome: 'Chrome',
+  edge: 'Edge',
+  firefox: 'Firefox',
+  safari: 'Safari',
+  opera: 'Opera',
+  samsung: 'Samsung Internet',
+};
+
+/** Browser tokens, most specific first since most Chromium browsers also send `Chrome/` */
+const BROWSER_TOKENS: Array<[id: BrowserId, pattern: RegExp]> = [
+  ['edge', /\b(?:Edg|EdgA|EdgiOS)\/([\d.]+)/],
+  ['opera', /\bOPR\/([\d.]+)/],
+  ['samsung', /\bSamsungBrowser\/([\d.]+)/],
+  ['firefox', /\b(?:Firefox|FxiOS)\/([\d.]+)/],
+  ['chrome', /\b(?:Chrome|CriOS|Chromium)\/([\d.]+)/],
+  ['safari', /\bVersion\/([\d.]+).*\bSafari\//],
+];
+
+/** Apps that show pages in an embedded browser and mark its User-Agent */
+const IN_APP_TOKENS: Array<[name: string, pattern: RegExp]> = [
+  ['Facebook', /\bFBAN\/|\bFBAV\/|\bFB_IAB\//],
+  ['Instagram', /\bInstagram\b/],
+  ['WeChat', /\bMicroMessenger\//],
+  ['LINE', /\bLine\/\d/],
+  ['TikTok', /\bmusical_ly_|\bBytedanceWebview\/|\bTikTok\b/],
+  ['Snapchat', /\bSnapchat\/?/],
+  ['Pinterest', /\[Pinterest\//],
+];
+
+const WINDOWS_VERSIONS: Record<string, string> = { '10.0': '10', '6.3': '8.1', '6.2': '8', '6.1': '7', '6.0': 'Vista' };
+
+const IOS_DEVICE = /iPhone|iPad|iPod/;
+
+const parseOs = (ua: string): ParsedUserAgent['os'] => {
+  const windows = /Windows NT (\d+\.\d+)/.exec(ua);
+  if (windows) return { name: 'Windows', version: WINDOWS_VERSIONS[windows[1]] };
+  const ios = /(?:iPhone|CPU) OS (\d+(?:_\d+)*)/.exec(ua);
+  if (ios && IOS_DEVICE.test(ua)) return { name: 'iOS', version: ios[1].replace(/_/g, '.') };
+  const mac = /Mac OS X (\d+(?:[_.]\d+)*)/.exec(ua);
+  if (mac) return { name: 'macOS', version: mac[1].replace(/_/g, '.') };
+  if (/Macintosh/.test(ua)) return { name: 'macOS' };
+  const android = /Android (\d+(?:\.\d+)*)/.exec(ua);
+  if (android) return { name: 'Android', version: android[1] };
+  if (/Android/.test(ua)) return { name: 'Android' };
+  if (/CrOS/.test(ua)) return { name: 'Chrome OS' };
+  if (/Linux|X11/.test(ua)) return { name: 'Linux' };
+  return null;
+};
+
+const parseEngine = (ua: string): ParsedUserAgent['engine'] => {
+  const webkit = /AppleWebKit\/([\d.]+)/.exec(ua)?.[1];
+  // Every iOS browser is WebKit underneath, whatever its name
+  if (IOS_DEVICE.test(ua)) return { name: 'WebKit', version: webkit };
+  if (/Firefox\//.test(ua) && /Gecko\//.test(ua)) return { name: 'Gecko', version: /rv:([\d.]+)/.exec(ua)?.[1] };
+  const blink = /\b(?:Chrome|Chromium)\/([\d.]+)/.exec(ua)?.[1];
+  if (blink) return { name: 'Blink', version: blink };
+  return webkit ? { name: 'WebKit', version: webkit } : null;
+};
+
+const parseDevice = (ua: string): DeviceClass => {
+  if (/bot\b|crawler|spider|slurp|Headless|Lighthouse/i.test(ua)) return 'bot';
+  if (/iPad|Tablet/.test(ua) || (/Android/.test(ua) && !/Mobile/.test(ua))) return 'tablet';
+  if (/Mobile|iPhone|iPod/.test(ua)) return 'mobile';
+  return 'desktop';
+};
+
+/**
+ * Parse a User-Agent string
+ * In-app browsers on iOS carry no browser version, so the iOS release stands
+ * in for the Safari (WebKit) version it ships with.
+ */
+export const parseUserAgent = (ua: string): ParsedUserAgent => {
+  const os = parseOs(ua);
+  const inApp = IN_APP_TOKENS.find(([, pattern]) => pattern.test(ua))?.[0];
+
+  let browser: ParsedUserAgent['browser'] = null;
+  for (const [id, pattern] of BROWSER_TOKENS) {
+    const version = pattern.exec(ua)?.[1];
+    if (version) {
+      browser = { id, name: BROWSER_NAMES[id], version, major: parseInt(version, 10) };
+      break;
+    }
+  }
+  if (!browser && os?.name === 'iOS' && os.version) {
+    browser = { id: 'safari', name: BROWSER_NAMES.safari, version: os.version, major: parseInt(os.version, 10) };
+  }
+
+  return {
+    browser,
+    engine: parseEngine(ua),
+    os,
+    device: parseDevice(ua),
+    ...(inApp ? { inApp } : {}),
+  };
+};
@@ -3,21 +3,32 @@
  * Hono-based API for edge deployment
  */
 
-import { Hono } from 'hono';
+import { Hono, type Context } from 'hono';
 import { cors } from 'hono/cors';
 import { logger as honoLogger } from 'hono/logger';
 import { prettyJSON } from 'hono/pretty-json';
 import { cacheWarmer } from './utils/cacheWarming';
 import { logger } from './utils/logger';
+import { normalizeIp } from './utils/ip';
 import { generateReport } from './services/reportService';
 import type { ExecutionContext, ScheduledEvent } from '@cloudflare/workers-types';
 import type { ReportRequestBody } from './types/report';
+import type { RequestHeaderSnapshot } from './types/headers';
 import type { Env } from './worker/types';
 import { createWorkerIpService } from './services/ipService.worker';
+import { createWorkerEnhancedIpService } from './services/enhancedIpService.worker';
+import { ApiError } from './middleware/errorHandler';
+import type { ContentfulStatusCode } from 'hono/utils/http-status';
+import { createIpBatchRequestSchema } from './schemas/ip';
+import { createWorkerClientIpResolver } from './utils/clientIp.worker';
+import type { ClientIpResolver } from './utils/clientIp';
+import { inspectProxyHeaders } from './services/proxyHeaders';
 
 type WorkerGlobal = typeof globalThis & {
   ipCacheInitialized?: boolean;
   workerServices?: ReturnType<typeof createWorkerIpService>;
+  enhancedServices?: ReturnType<typeof createWorkerEnhancedIpService>;
+  clientIpResolver?: ClientIpResolver;
 };
 
 const workerGlobal = globalThis as WorkerGlobal;
@@ -29,6 +40,47 @@ const getWorkerIpService = (env: Env) => {
   return workerGlobal.workerServices;
 };
 
+const getWorkerEnhancedIpService = (env: Env) => {
+  if (!workerGlobal.enhancedServices) {
+    workerGlobal.enhancedServices = createWorkerEnhancedIpService(env, getWorkerIpService(env));
+  }
+  return workerGlobal.enhancedServices;
+};
+
+const getClientIpResolver = (env: Env) => {
+  if (!workerGlobal.clientIpResolver) {
+    workerGlobal.clientIpResolver = createWorkerClientIpResolver(env);
+  }
+  return workerGlobal.clientIpResolver;
+};
+
+/**
+ * Client address of a request, read from the headers the Cloudflare edge sets
+ */
+const getClientIp = (c: Context<{ Bindings: Env }>): string | null =>
+  getClientIpResolver(c.env).resolve(name => c.req.header(name)).ip;
+
+/**
+ * Proxies revealed by a request's headers between the client and the edge
+ */
+const inspectClientProxyHeaders = (c: Context<{ Bindings: Env }>) => {
+  const resolver = getClientIpResolver(c.env);
+  return inspectProxyHeaders(name => c.req.header(name), {
+    clientIp: getClientIp(c),
+    isTrustedProxy: ip => resolver.isTrustedProxy(ip),
+  });
+};
+
+/**
+ * Request headers for the report's consistency checks
+ * Fetch API headers come back sorted, so header order cannot be checked here.
+ */
+const snapshotWorkerHeaders = (c: Context<{ Bindings: Env }>): RequestHeaderSnapshot => {
+  const entries: RequestHeaderSnapshot['entries'] = [];
+  c.req.raw.headers.forEach((value, name) => entries.push([name, value]));
+  return { entries, ordered: false };
+};
+
 /**
  * Create Hono app with all routes
  */
@@ -70,9 +122,9 @@ function createWorkerApp() {
   // IP lookup endpoint
   app.get('/api/ip/:ip', async c => {
     try {
-      const ip = c.req.param('ip');
+      const ip = normalizeIp(c.req.param('ip'));
 
-      if (!ip || !/^(\d{1,3}\.){3}\d{1,3}$/.test(ip)) {
+      if (!ip) {
         return c.json({ error: 'Invalid IP address' }, 400);
       }
 
@@ -101,11 +153,11 @@ function createWorkerApp() {
       }
 
       const services = getWorkerIpService(c.env);
-      const report = await generateReport(
-        body,
-        c.req.header('cf-connecting-ip') ?? undefined,
-        services.lookupIpInsight
-      );
+      const report = await generateReport(body, getClientIp(c) ?? undefined, services.lookupIpInsight, {
+        proxyHeaders: inspectClientProxyHeaders(c),
+        // Fetch API headers come back sorted, so order checks are skipped here
+        headers: snapshotWorkerHeaders(c),
+      });
       return c.json(report);
     } catch (error) {
       logger.error({ err: error }, 'Report generation failed');
@@ -124,84 +176,30 @@ function createWorkerApp() {
   // GET /api/v1/ip/enhanced - Get client's IP with enhanced analysis
   app.get('/api/v1/ip/enhanced', async c => {
     try {
-      const ip = c.req.header('cf-connecting-ip') || c.req.header('x-forwarded-for')?.split(',')[0] || '127.0.0.1';
+      const ip = getClientIp(c);
+      if (!ip) {
+        return c.json({ error: 'Unable to determine client IP' }, 400);
+      }
 
       const includeThreat = c.req.query('threats') !== 'false';
       const includeASN = c.req.query('asn') !== 'false';
 
       logger.info({ ip, includeThreat, includeASN }, 'Enhanced IP analysis request (client IP)');
 
-      let result;
-      try {
-        const services = getWorkerIpService(c.env);
-        result = await services.lookupIpInsight(ip);
-      } catch (error) {
-        logger.warn({ err: error, ip }, 'API lookup failed, using default data');
-        // Provide default data when APIs fail
-        result = {
-          ip,
-          country: 'US',
-          region: 'Unknown',
-          city: 'Unknown',
-          loc: '37.751,-97.822', // Default to US center
-          timezone: 'America/Chicago',
-          org: 'Unknown Organization',
-          postal: '00000'
-        };
-      }
-
-      // Mock enhanced response structure
-      return c.json({
-        ip,
-        geolocation: {
-          ip: ip,
-          city: result.city || 'Unknown',
-          region: result.region || 'Unknown',
-          country: result.country || 'Unknown',
-          postal: result.postal || 'Unknown',
-          timezone: result.timezone || 'Unknown',
-          latitude: parseFloat(result.loc?.split(',')[0]) || 0,
-          longitude: parseFloat(result.loc?.split(',')[1]) || 0,
-          org: result.org || 'Unknown',
-          asn: result.org ? '13335' : 'Unknown',
-          source: 'ipinfo',
-          fetchedAt: Date.now(),
-          anycast: false,
-          bogon: false,
-        },
-        threats: {
-          threat_score: 5,
-          threat_level: 'low',
-          is_malicious: false,
-        },
-        asn_analysis: {
-          asn: result.org ? 13335 : 0, // Default Cloudflare ASN or 0 if unknown
-          info: {
-            asn: result.org ? 13335 : 0,
-            name: result.org || 'Unknown',
-            org_name: result.org || 'Unknown',
-            country: result.country || 'Unknown',
-            description: result.org || 'Unknown Organization',
-          },
-          timestamp: new Date().toISOString(),
-        },
-        risk_assessment: {
-          overall_score: 5,
-          overall_level: 'low',
-          factors: ['No significant risk factors detected'],
-          recommendation: 'Low risk. Normal processing recommended.',
-        },
-        sources_used: ['ipinfo'],
-        analysis_timestamp: new Date().toISOString(),
+      const result = await getWorkerEnhancedIpService(c.env).detectIP(ip, {
+        includeThreat,
+        includeASN,
+        proxyHeaders: inspectClientProxyHeaders(c),
       });
+      return c.json(result);
     } catch (error) {
       logger.error({ err: error }, 'Enhanced IP analysis failed');
       return c.json(
         {
-          error: 'Internal Server Error',
+          error: error instanceof ApiError ? error.message : 'Internal Server Error',
           message: error instanceof Error ? error.message : 'Unknown error',
         },
-        500
+        error instanceof ApiError ? (error.status as ContentfulStatusCode) : 500
       );
     }
   });
@@ -209,9 +207,9 @@ function createWorkerApp() {
   // GET /api/v1/ip/:ip/enhanced - Enhanced IP analysis for specific IP
   app.get('/api/v1/ip/:ip/enhanced', async c => {
     try {
-      const ip = c.req.param('ip');
+      const ip = normalizeIp(c.req.param('ip'));
 
-      if (!ip || !/^(\d{1,3}\.){3}\d{1,3}$/.test(ip)) {
+      if (!ip) {
         return c.json({ error: 'Invalid IP address' }, 400);
       }
 
@@ -220,75 +218,16 @@ function createWorkerApp() {
 
       logger.info({ ip, includeThreat, includeASN }, 'Enhanced IP analysis request');
 
-      let result;
-      try {
-        const services = getWorkerIpService(c.env);
-        result = await services.lookupIpInsight(ip);
-      } catch (error) {
-        logger.warn({ err: error, ip }, 'API lookup failed, using default data');
-        result = {
-          ip,
-          country: 'US',
-          region: 'Unknown',
-          city: 'Unknown',
-          loc: '37.751,-97.822',
-          timezone: 'America/Chicago',
-          org: 'Unknown Organization',
-          postal: '00000'
-        };
-      }
-
-      return c.json({
-        ip,
-        geolocation: {
-          ip: ip,
-          city: result.city || 'Unknown',
-          region: result.region || 'Unknown',
-          country: result.country || 'Unknown',
-          postal: result.postal || 'Unknown',
-          timezone: result.timezone || 'Unknown',
-          latitude: parseFloat(result.loc?.split(',')[0]) || 0,
-          longitude: parseFloat(result.loc?.split(',')[1]) || 0,
-          org: result.org || 'Unknown',
-          asn: result.org ? '13335' : 'Unknown',
-          source: 'ipinfo',
-          fetchedAt: Date.now(),
-          anycast: false,
-          bogon: false,
-        },
-        threats: {
-          threat_score: 5,
-          threat_level: 'low',
-          is_malicious: false,
-        },
-        asn_analysis: {
-          asn: result.org ? 13335 : 0, // Default Cloudflare ASN or 0 if unknown
-          info: {
-            asn: result.org ? 13335 : 0,
-            name: result.org || 'Unknown',
-            org_name: result.org || 'Unknown',
-            country: result.country || 'Unknown',
-            description: result.org || 'Unknown Organization',
-          },
-          timestamp: new Date().toISOString(),
-        },
-        risk_assessment: {
-          overall_score: 5,
-          overall_level: 'low',
-          factors: ['No significant risk factors detected'],
-          recommendation: 'Low risk. Normal processing recommended.',
-        },
-        sources_used: ['ipinfo'],
-        analysis_timestamp: new Date().toISOString(),
-      });
+      const result = await getWorkerEnhancedIpService(c.env).detectIP(ip, { includeThreat, includeASN });
+      return c.json(result);
     } catch (error) {
       logger.error({ err: error }, 'Enhanced IP analysis failed');
       return c.json(
         {
-          error: 'Internal Server Error',
+          error: error instanceof ApiError ? error.message : 'Internal Server Error',
           message: error instanceof Error ? error.message : 'Unknown error',
         },
-        500
+        error instanceof ApiError ? (error.status as ContentfulStatusCode) : 500
       );
     }
   });
@@ -296,11 +235,14 @@ function createWorkerApp() {
   // GET /api/v1/ip - Get client's basic IP info
   app.get('/api/v1/ip', async c => {
     try {
-      const ip = c.req.header('cf-connecting-ip') || c.req.header('x-forwarded-for')?.split(',')[0] || '127.0.0.1';
+      const ip = getClientIp(c);
+      if (!ip) {
+        return c.json({ error: 'Unable to determine client IP' }, 400);
+      }
 
       const services = getWorkerIpService(c.env);
       const result = await services.lookupIpInsight(ip);
-      return c.json(result);
+      return c.json({ ...result, proxyHeaders: inspectClientProxyHeaders(c) });
     } catch (error) {
       logger.error({ err: error }, 'Basic IP lookup failed');
       return c.json(
@@ -313,12 +255,56 @@ function createWorkerApp() {
     }
   });
 
+  // POST /api/v1/ip/batch - Batch IP lookup
+  app.post('/api/v1/ip/batch', async c => {
+    try {
+      const services = getWorkerIpService(c.env);
+      const body = await c.req.json().catch(() => null);
+      const parsed = createIpBatchRequestSchema(services.batchMaxSize).safeParse(body);
+
+      if (!parsed.success) {
+        return c.json({ error: 'Invalid request body', details: parsed.error.flatten() }, 400);
+      }
+
+      const result = await services.lookupIpInsightBatch(parsed.data.ips);
+      return c.json(result);
+    } catch (error) {
+      logger.error({ err: error }, 'Batch IP lookup failed');
+      return c.json(
+        {
+          error: 'Internal Server Error',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+        500
+      );
+    }
+  });
+
+  // GET /api/v1/ip/:ip/rdap - Registration of the network containing an IP
+  app.get('/api/v1/ip/:ip/rdap', async c => {
+    const ip = normalizeIp(c.req.param('ip'));
+    if (!ip) {
+      return c.json({ error: 'Invalid IP address' }, 400);
+    }
+
+    try {
+      const record = await getWorkerIpService(c.env).rdapClient.lookupIp(ip);
+      if (!record) {
+        return c.json({ error: `No RDAP registration found for ${ip}` }, 404);
+      }
+      return c.json(record);
+    } catch (error) {
+      logger.warn({ err: error, ip }, 'RDAP lookup failed');
+      return c.json({ error: 'Unable to fetch RDAP registration' }, 502);
+    }
+  });
+
   // GET /api/v1/ip/:ip - Basic IP lookup for specific IP
   app.get('/api/v1/ip/:ip', async c => {
     try {
-      const ip = c.req.param('ip');
+      const ip = normalizeIp(c.req.param('ip'));
 
-      if (!ip || !/^(\d{1,3}\.){3}\d{1,3}$/.test(ip)) {
+      if (!ip) {
         return c.json({ error: 'Invalid IP address' }, 400);
       }
 
@@ -340,16 +326,21 @@ function createWorkerApp() {
   // GET /api/v1/services/status - Get status of all services
   app.get('/api/v1/services/status', async c => {
     try {
-      const services = getWorkerIpService(c.env);
-      const radarHealthy = await services.verifyRadarToken();
+      const status = await getWorkerEnhancedIpService(c.env).getServiceStatus();
+      const { torService, cloudRangesService, routingTableService, getProviderHealth, upstreamHttp } =
+        getWorkerIpService(c.env);
+      await Promise.all([torService.ready(), cloudRangesService.ready(), routingTableService.ready()]);
 
       return c.json({
-        geolocation: true,
-        threat_intelligence: radarHealthy,
-        asn_analysis: radarHealthy,
+        ...status,
+        circuits: { ...getProviderHealth(), ...status.circuits },
+        upstream: upstreamHttp.getStatus(),
         ipinfo: !!c.env.IPINFO_TOKEN,
         radar: !!c.env.CLOUDFLARE_RADAR_TOKEN,
         abuseipdb: !!c.env.ABUSEIPDB_API_KEY,
+        tor_directory: torService.getStatus(),
+        cloud_ranges: cloudRangesService.getStatus(),
+        routing_table: routingTableService.getStatus(),
       });
     } catch (error) {
       logger.error({ err: error }, 'Service status check failed');
@@ -440,12 +431,18 @@ export default {
    * Configure in wrangler.toml:
    * [triggers]
    * crons = ["0 * * * *"]  # Every hour
+   * The Tor directory, cloud ranges and routing table are only downloaded
+   * again once their KV snapshot is older than their refresh interval.
    */
   async scheduled(_event: ScheduledEvent, env: Env, ctx: ExecutionContext): Promise<void> {
-    logger.info('Running scheduled cache refresh');
+    logger.info('Running scheduled cache, Tor directory, cloud range and routing table refresh');
 
-    // Refresh cache for common IPs
     const services = getWorkerIpService(env);
+    ctx.waitUntil(services.torService.refresh());
+    ctx.waitUntil(services.cloudRangesService.refresh());
+    ctx.waitUntil(services.routingTableService.refresh());
+
+    // Refresh cache for common IPs
     ctx.waitUntil(
       cacheWarmer
         .warmCache(services.lookupIpInsight, {
@@ -5,6 +5,16 @@ export interface Env {
   IPINFO_TOKEN?: string;
   CLOUDFLARE_ACCOUNT_ID?: string;
   CLOUDFLARE_RADAR_TOKEN?: string;
+  ABUSEIPDB_API_KEY?: string;
+  DNSBL_ZONES?: string;
+  DNSBL_DOH_URL?: string;
+  DNSBL_TIMEOUT_MS?: string;
+  REVERSE_DNS_TIMEOUT_MS?: string;
+  REVERSE_DNS_TTL_MS?: string;
+  THREAT_PROVIDER_WEIGHTS?: string;
+  CACHE_TTL_THREATS_MS?: string;
+  CACHE_STALE_TTL_THREATS_MS?: string;
+  CACHE_TTL_THREATS_NEGATIVE_MS?: string;
   NODE_ENV?: string;
   CACHE_BACKEND?: string;
   CACHE_TTL_MS?: string;
@@ -13,5 +23,23 @@ export interface Env {
   CACHE_WARMING_DELAY_MS?: string;
   LOG_LEVEL?: string;
   CLIENT_TIMEOUT_MS?: string;
+  UPSTREAM_MAX_CONCURRENCY?: string;
+  UPSTREAM_POLICIES?: string;
+  CIRCUIT_FAILURE_THRESHOLD?: string;
+  CIRCUIT_COOLDOWN_MS?: string;
+  IP_BATCH_MAX_SIZE?: string;
+  IP_PROVIDER_ORDER?: string;
+  TOR_DIRECTORY_URL?: string;
+  TOR_DIRECTORY_REFRESH_MS?: string;
+  CLOUD_RANGES_SOURCES?: string;
+  CLOUD_RANGES_REFRESH_MS?: string;
+  ROUTING_TABLE_URL?: string;
+  ROUTING_TABLE_REFRESH_MS?: string;
+  RDAP_BOOTSTRAP_URL?: string;
+  RDAP_CACHE_TTL_MS?: string;
+  TRUSTED_PROXIES?: string;
+  CLIENT_IP_HEADERS?: string;
+  IP_PROVIDER_STRATEGY?: string;
+  IP_PROVIDER_FIELD_PRIORITY?: string;
   PORT?: string;
 }